@@ -0,0 +1,91 @@
+// Inspekto service worker
+//
+// - Caches the app shell so /complaints/submit opens without connectivity.
+// - Relays Background Sync for queued complaints to an open tab; the replay itself
+//   lives in src/complaints_module/outbox.ts (it needs the Supabase client). The sync
+//   only succeeds once that tab reports nothing left to send: with no tab open, an
+//   entry still pending or no answer in time it fails, and the browser retries it
+//   later (a few times, with backoff). App start and `online` cover the rest.
+//
+// Supabase requests (other origins) are never cached.
+
+const SHELL_CACHE = 'inspekto-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/logo.png'];
+const OUTBOX_SYNC_TAG = 'complaint-outbox';
+// Below the few minutes browsers allow a sync event
+const FLUSH_TIMEOUT_MS = 3 * 60 * 1000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // SPA navigations: network first, cached shell when offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html').then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  // Static assets (hashed by Vite): stale-while-revalidate.
+  event.respondWith(
+    caches.open(SHELL_CACHE).then(async (cache) => {
+      const cached = await cache.match(request);
+      const network = fetch(request)
+        .then((response) => {
+          if (response.ok) cache.put(request, response.clone());
+          return response;
+        })
+        .catch(() => cached || Response.error());
+      return cached || network;
+    })
+  );
+});
+
+// Asks one tab to flush the outbox; resolves once it reports no pending entries.
+function flushInClient(client) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Outbox flush timed out')), FLUSH_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      const pending = event.data && event.data.pending;
+      if (pending === 0) resolve();
+      else reject(new Error(`${pending} complaint(s) still pending`));
+    };
+    client.postMessage({ type: 'flush-outbox' }, [channel.port2]);
+  });
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // Rejecting leaves the sync registered so the browser tries again
+      if (clients.length === 0) throw new Error('No open tab to replay the outbox');
+      return flushInClient(clients[0]);
+    })
+  );
+});
@@ -4,6 +4,14 @@ import SubmitComplaintPage from './complaints_module/pages/SubmitComplaintPage'
 import VerifyEmailPage from './complaints_module/pages/VerifyEmailPage'
 import ComplaintConfirmationPage from './complaints_module/pages/ComplaintConfirmationPage'
 import TrackingPage from './tracking_module/ui/TrackingPage'
+import UnsubscribePage from './tracking_module/ui/UnsubscribePage'
+import BusinessProfilePage from './business_module/ui/BusinessProfilePage'
+import RequireStaff from './admin_module/ui/RequireStaff'
+import AdminLoginPage from './admin_module/ui/AdminLoginPage'
+import ComplaintQueuePage from './admin_module/ui/ComplaintQueuePage'
+import ComplaintDetailPage from './admin_module/ui/ComplaintDetailPage'
+import PendingBusinessesPage from './admin_module/ui/PendingBusinessesPage'
+import BusinessImportPage from './admin_module/ui/BusinessImportPage'
 
 function App() {
   return (
@@ -16,6 +24,17 @@ function App() {
         <Route path="/verify-email" element={<VerifyEmailPage />} />
 
         <Route path="/tracking" element={<TrackingPage />} />
+        <Route path="/tracking/unsubscribe" element={<UnsubscribePage />} />
+
+        <Route path="/businesses/:pk" element={<BusinessProfilePage />} />
+
+        <Route path="/admin/login" element={<AdminLoginPage />} />
+        <Route path="/admin" element={<RequireStaff />}>
+          <Route index element={<ComplaintQueuePage />} />
+          <Route path="complaints/:id" element={<ComplaintDetailPage />} />
+          <Route path="businesses/pending" element={<PendingBusinessesPage />} />
+          <Route path="businesses/import" element={<BusinessImportPage />} />
+        </Route>
 
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -0,0 +1,210 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../supabaseClient', () => {
+  const result = { current: { data: [] as unknown, error: null as unknown, count: 0 as number | null } };
+  const builder: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'order', 'range', 'eq', 'neq', 'contains', 'update']) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.maybeSingle = vi.fn();
+  builder.then = vi.fn((resolve: (v: unknown) => unknown) => resolve(result.current));
+  const from = vi.fn(() => builder);
+  const rpc = vi.fn();
+  const functions = { invoke: vi.fn() };
+  return {
+    supabase: { from, rpc, functions, auth: {} },
+    __builder: builder,
+    __result: result,
+  };
+});
+
+import {
+  getComplaintMedia,
+  getIncidentComplaints,
+  getStatusTransitions,
+  importBusinesses,
+  listComplaints,
+  listPendingBusinesses,
+  mergePendingBusiness,
+  updateComplaintStatus,
+} from '../service';
+
+describe('admin service', () => {
+  let builder: Record<string, ReturnType<typeof vi.fn>>;
+  let result: { current: { data: unknown; error: unknown; count: number | null } };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const mod = (await import('../../supabaseClient')) as unknown as {
+      __builder: typeof builder;
+      __result: typeof result;
+    };
+    builder = mod.__builder;
+    result = mod.__result;
+    result.current = { data: [], error: null, count: 0 };
+  });
+
+  it('paginates with range and applies every filter', async () => {
+    result.current = { data: [{ id: 'c1' }], error: null, count: 41 };
+
+    const page = await listComplaints(
+      { status: 'Submitted', authenticityTier: 'Low', tags: ['Existing Case'], businessPk: 7, category: 'fire_safety' },
+      3,
+      20
+    );
+
+    expect(builder.range).toHaveBeenCalledWith(40, 59);
+    expect(builder.eq).toHaveBeenCalledWith('status', 'Submitted');
+    expect(builder.eq).toHaveBeenCalledWith('authenticity_tier', 'Low');
+    expect(builder.eq).toHaveBeenCalledWith('business_pk', 7);
+    expect(builder.eq).toHaveBeenCalledWith('complaint_category', 'fire_safety');
+    expect(builder.contains).toHaveBeenCalledWith('tags', ['Existing Case']);
+    expect(page).toEqual({ rows: [{ id: 'c1' }], total: 41, page: 3, pageSize: 20 });
+  });
+
+  it('skips filters that are not set', async () => {
+    await listComplaints({}, 1);
+
+    expect(builder.eq).not.toHaveBeenCalled();
+    expect(builder.contains).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the query fails', async () => {
+    result.current = { data: null, error: new Error('boom'), count: null };
+    expect(await listComplaints({}, 1)).toBeNull();
+  });
+
+  it('lists the other complaints in an incident', async () => {
+    result.current = { data: [{ id: 'c2' }], error: null, count: null };
+
+    const rows = await getIncidentComplaints('inc-1', 'c1');
+
+    expect(builder.eq).toHaveBeenCalledWith('incident_id', 'inc-1');
+    expect(builder.neq).toHaveBeenCalledWith('id', 'c1');
+    expect(rows).toEqual([{ id: 'c2' }]);
+  });
+
+  it('loads signed media through the edge function', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    const media = {
+      role: 'staff',
+      expiresInSeconds: 300,
+      images: [{ index: 0, url: 'https://signed/r0', originalUrl: 'https://signed/o0' }],
+    };
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({ data: media, error: null } as never);
+
+    expect(await getComplaintMedia('c1')).toEqual(media);
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('get-complaint-media', { body: { complaintId: 'c1' } });
+  });
+
+  it('returns null when media cannot be loaded', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({ data: null, error: new Error('403') } as never);
+
+    expect(await getComplaintMedia('c1')).toBeNull();
+  });
+
+  it('transitions status through the RPC with the reviewer note', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: 'Under Review', error: null } as never);
+
+    const res = await updateComplaintStatus('c1', 'Under Review', {
+      note: '  Photos look genuine ',
+      publicNote: 'Your report is being reviewed.',
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('transition_complaint_status', {
+      p_complaint_id: 'c1',
+      p_to_status: 'Under Review',
+      p_note: 'Photos look genuine',
+      p_public_note: 'Your report is being reviewed.',
+    });
+    expect(res.success).toBe(true);
+  });
+
+  it('loads the allowed transitions from the database, next step before dismissal', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    result.current = {
+      data: [
+        { from_status: 'Submitted', to_status: 'Dismissed' },
+        { from_status: 'Submitted', to_status: 'Under Review' },
+        { from_status: 'Dismissed', to_status: 'Under Review' },
+        { from_status: 'Submitted', to_status: 'Escalated' },
+      ],
+      error: null,
+      count: null,
+    };
+
+    const transitions = await getStatusTransitions();
+
+    expect(supabase.from).toHaveBeenCalledWith('complaint_status_transitions');
+    expect(transitions).toEqual({ Submitted: ['Under Review', 'Dismissed'], Dismissed: ['Under Review'] });
+  });
+
+  it('returns null when the transitions cannot be loaded', async () => {
+    result.current = { data: null, error: new Error('offline'), count: null };
+
+    expect(await getStatusTransitions()).toBeNull();
+  });
+
+  it('surfaces the database rejection message', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Illegal status transition: Resolved -> Under Review' },
+    } as never);
+
+    const res = await updateComplaintStatus('c1', 'Under Review');
+
+    expect(res).toEqual({ success: false, message: 'Illegal status transition: Resolved -> Under Review' });
+  });
+
+  it('lists pending businesses with their complaint counts', async () => {
+    result.current = {
+      data: [{ business_pk: 9, business_name: 'Aling Nena Eatery', complaints: [{ count: 2 }] }],
+      error: null,
+      count: null,
+    };
+
+    const rows = await listPendingBusinesses();
+
+    expect(builder.eq).toHaveBeenCalledWith('business_status', 'pending');
+    expect(rows).toEqual([{ business_pk: 9, business_name: 'Aling Nena Eatery', complaint_count: 2 }]);
+  });
+
+  it('merges a pending business and reports how many complaints moved', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: 3, error: null } as never);
+
+    const res = await mergePendingBusiness(9, 4);
+
+    expect(supabase.rpc).toHaveBeenCalledWith('merge_pending_business', { p_business_pk: 9, p_into_business_pk: 4 });
+    expect(res).toEqual({ success: true, message: 'Merged into business 4; 3 complaints moved.' });
+  });
+
+  it('previews an import as a dry run unless asked to commit', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    const report = { dryRun: true, summary: { total: 1, new: 1, duplicate: 0, possibleDuplicate: 0, invalid: 0 }, rows: [] };
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({ data: report, error: null } as never);
+
+    const res = await importBusinesses('name,address\nBago Cafe,3 Arnaiz Ave', 'csv');
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('import-businesses', {
+      body: { format: 'csv', content: 'name,address\nBago Cafe,3 Arnaiz Ave', commit: false, acceptLines: [] },
+    });
+    expect(res).toEqual({ success: true, report });
+  });
+
+  it('surfaces the import error returned by the function', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    const context = new Response(JSON.stringify({ error: 'Only admin staff can import businesses' }), { status: 403 });
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: Object.assign(new Error('Edge Function returned a non-2xx status code'), { context }),
+    } as never);
+
+    const res = await importBusinesses('[]', 'json', { commit: true, acceptLines: [4] });
+
+    expect(res).toEqual({ success: false, message: 'Only admin staff can import businesses' });
+  });
+});
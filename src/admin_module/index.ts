@@ -0,0 +1,3 @@
+// Admin Module public API
+export * from './types';
+export * from './service';
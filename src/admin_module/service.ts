@@ -0,0 +1,304 @@
+import { supabase } from '../supabaseClient';
+import { groupTransitions } from '../complaints_module/status';
+import type { ComplaintStatus, StatusTransitions } from '../complaints_module/status';
+import type { ComplaintMedia } from '../complaints_module/types';
+import { readFunctionErrorBody } from '../complaints_module/functionError';
+import type {
+  BusinessImportFormat,
+  BusinessImportResult,
+  BusinessReviewResult,
+  ComplaintQueueFilters,
+  ComplaintQueuePage,
+  ComplaintQueueRow,
+  ComplaintReviewDetail,
+  PendingBusiness,
+  RelatedComplaint,
+  StaffMember,
+  StatusHistoryEntry,
+  StatusUpdateResult,
+} from './types';
+
+export const QUEUE_PAGE_SIZE = 20;
+
+const QUEUE_COLUMNS =
+  'id, created_at, business_pk, business_name, complaint_category, status, authenticity_level, authenticity_tier, tags, email_verified';
+
+export async function signInStaff(email: string, password: string): Promise<string | null> {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  return error ? error.message || 'Sign in failed.' : null;
+}
+
+export async function signOutStaff(): Promise<void> {
+  await supabase.auth.signOut();
+}
+
+/**
+ * Resolve the signed-in user's staff membership.
+ * Returns null when nobody is signed in or the user is not registered as staff.
+ */
+export async function getCurrentStaffMember(): Promise<StaffMember | null> {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+    const user = userData?.user;
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('staff_members')
+      .select('user_id, role')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      userId: data.user_id,
+      email: user.email ?? null,
+      role: data.role,
+    };
+  } catch (e) {
+    console.error('getCurrentStaffMember error', e);
+    return null;
+  }
+}
+
+export async function listComplaints(
+  filters: ComplaintQueueFilters,
+  page = 1,
+  pageSize = QUEUE_PAGE_SIZE
+): Promise<ComplaintQueuePage | null> {
+  const safePage = Math.max(1, Math.floor(page));
+  const from = (safePage - 1) * pageSize;
+
+  try {
+    let query = supabase
+      .from('complaints')
+      .select(QUEUE_COLUMNS, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.authenticityTier) query = query.eq('authenticity_tier', filters.authenticityTier);
+    if (filters.tags && filters.tags.length > 0) query = query.contains('tags', filters.tags);
+    if (typeof filters.businessPk === 'number') query = query.eq('business_pk', filters.businessPk);
+    if (filters.category) query = query.eq('complaint_category', filters.category);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return {
+      rows: (data ?? []) as ComplaintQueueRow[],
+      total: count ?? 0,
+      page: safePage,
+      pageSize,
+    };
+  } catch (e) {
+    console.error('listComplaints error', e);
+    return null;
+  }
+}
+
+export async function getComplaintForReview(id: string): Promise<ComplaintReviewDetail | null> {
+  try {
+    const { data, error } = await supabase.from('complaints').select('*').eq('id', id).maybeSingle();
+
+    if (error) throw error;
+    return data ?? null;
+  } catch (e) {
+    console.error('getComplaintForReview error', e);
+    return null;
+  }
+}
+
+/**
+ * Short-lived links to a complaint's images, video clips and audio recordings from
+ * get-complaint-media. All buckets are private; the staff session's JWT gets redacted
+ * copies and originals.
+ */
+export async function getComplaintMedia(complaintId: string): Promise<ComplaintMedia | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('get-complaint-media', {
+      body: { complaintId },
+    });
+    if (error) throw error;
+    return (data as ComplaintMedia) ?? null;
+  } catch (e) {
+    console.error('getComplaintMedia error', e);
+    return null;
+  }
+}
+
+/**
+ * Other complaints in the same incident cluster, oldest first.
+ */
+export async function getIncidentComplaints(incidentId: string, excludeId?: string): Promise<RelatedComplaint[]> {
+  try {
+    let query = supabase
+      .from('complaints')
+      .select('id, created_at, business_name, status, tags')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (excludeId) query = query.neq('id', excludeId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []) as RelatedComplaint[];
+  } catch (e) {
+    console.error('getIncidentComplaints error', e);
+    return [];
+  }
+}
+
+export async function getStatusHistory(complaintId: string): Promise<StatusHistoryEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('complaint_status_history')
+      .select('id, from_status, to_status, actor_label, note, public_note, created_at')
+      .eq('complaint_id', complaintId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as StatusHistoryEntry[];
+  } catch (e) {
+    console.error('getStatusHistory error', e);
+    return [];
+  }
+}
+
+/**
+ * The legal status moves, from complaint_status_transitions (readable by anyone).
+ * Null when they could not be loaded, so the caller can say so instead of offering none.
+ */
+export async function getStatusTransitions(): Promise<StatusTransitions | null> {
+  try {
+    const { data, error } = await supabase.from('complaint_status_transitions').select('from_status, to_status');
+
+    if (error) throw error;
+    return groupTransitions((data ?? []) as Array<{ from_status: string; to_status: string }>);
+  } catch (e) {
+    console.error('getStatusTransitions error', e);
+    return null;
+  }
+}
+
+/**
+ * Moves a complaint through the status state machine.
+ * The transition_complaint_status RPC updates complaints.status (what getTrackingSummary reports),
+ * rejects illegal transitions and records a complaint_status_history row with the acting staff member.
+ * `note` stays internal; `publicNote` is shown to the reporter on the tracking timeline.
+ */
+export async function updateComplaintStatus(
+  id: string,
+  to: ComplaintStatus,
+  notes: { note?: string; publicNote?: string } = {}
+): Promise<StatusUpdateResult> {
+  try {
+    const { error } = await supabase.rpc('transition_complaint_status', {
+      p_complaint_id: id,
+      p_to_status: to,
+      p_note: notes.note?.trim() || null,
+      p_public_note: notes.publicNote?.trim() || null,
+    });
+
+    if (error) {
+      // Illegal transitions and permission failures are raised by the database with a readable message.
+      return { success: false, message: error.message || 'Failed to update status. Please try again.' };
+    }
+
+    return { success: true, message: `Status updated to ${to}.` };
+  } catch (e) {
+    console.error('updateComplaintStatus error', e);
+    return { success: false, message: 'Failed to update status. Please try again.' };
+  }
+}
+
+type PendingBusinessRow = Omit<PendingBusiness, 'complaint_count'> & { complaints: Array<{ count: number }> | null };
+
+/**
+ * Businesses reporters added through "Business not listed", oldest first, with the
+ * number of complaints filed against each.
+ */
+export async function listPendingBusinesses(): Promise<PendingBusiness[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from('businesses')
+      .select(
+        'business_pk, business_name, business_address, business_category, proposed_lat, proposed_lng, proposed_at, complaints(count)'
+      )
+      .eq('business_status', 'pending')
+      .order('proposed_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data ?? []) as PendingBusinessRow[]).map(({ complaints, ...row }) => ({
+      ...row,
+      complaint_count: complaints?.[0]?.count ?? 0,
+    }));
+  } catch (e) {
+    console.error('listPendingBusinesses error', e);
+    return null;
+  }
+}
+
+/**
+ * Accepts a pending business into the registry as it is.
+ */
+export async function approvePendingBusiness(businessPk: number): Promise<BusinessReviewResult> {
+  try {
+    const { error } = await supabase.rpc('approve_pending_business', { p_business_pk: businessPk });
+    if (error) return { success: false, message: error.message || 'Failed to approve the business.' };
+    return { success: true, message: 'Business approved.' };
+  } catch (e) {
+    console.error('approvePendingBusiness error', e);
+    return { success: false, message: 'Failed to approve the business.' };
+  }
+}
+
+/**
+ * Folds a pending business into an existing one: its complaints move to `intoBusinessPk`
+ * and the pending row is marked merged (merge_pending_business RPC).
+ */
+export async function mergePendingBusiness(businessPk: number, intoBusinessPk: number): Promise<BusinessReviewResult> {
+  try {
+    const { data, error } = await supabase.rpc('merge_pending_business', {
+      p_business_pk: businessPk,
+      p_into_business_pk: intoBusinessPk,
+    });
+    if (error) return { success: false, message: error.message || 'Failed to merge the business.' };
+
+    const moved = typeof data === 'number' ? data : 0;
+    return {
+      success: true,
+      message: `Merged into business ${intoBusinessPk}; ${moved} complaint${moved === 1 ? '' : 's'} moved.`,
+    };
+  } catch (e) {
+    console.error('mergePendingBusiness error', e);
+    return { success: false, message: 'Failed to merge the business.' };
+  }
+}
+
+/**
+ * Runs a permit list through import-businesses. Without `commit` this is a dry run that
+ * only reports what would be imported; with it, the new rows and the accepted possible
+ * duplicates are inserted.
+ */
+export async function importBusinesses(
+  content: string,
+  format: BusinessImportFormat,
+  options: { commit?: boolean; acceptLines?: number[] } = {}
+): Promise<BusinessImportResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('import-businesses', {
+      body: { format, content, commit: options.commit ?? false, acceptLines: options.acceptLines ?? [] },
+    });
+    if (error) {
+      const body = await readFunctionErrorBody<{ error?: string }>(error);
+      return { success: false, message: body?.error || 'Failed to import businesses.' };
+    }
+    return { success: true, report: data };
+  } catch (e) {
+    console.error('importBusinesses error', e);
+    return { success: false, message: 'Failed to import businesses.' };
+  }
+}
@@ -0,0 +1,127 @@
+// Admin Module - Types
+import type { Complaint } from '../complaints_module/types';
+import type { ComplaintStatus } from '../complaints_module/status';
+
+export type AuthenticityTier = 'Low' | 'Medium' | 'High';
+
+export const AUTHENTICITY_TIERS: AuthenticityTier[] = ['Low', 'Medium', 'High'];
+
+export type StaffRole = 'inspector' | 'admin';
+
+export interface StaffMember {
+  userId: string;
+  email: string | null;
+  role: StaffRole;
+}
+
+export interface ComplaintQueueFilters {
+  status?: ComplaintStatus;
+  authenticityTier?: AuthenticityTier;
+  tags?: string[];
+  businessPk?: number;
+  // complaint_category key (complaints_module/complaintCategories)
+  category?: string;
+}
+
+export interface ComplaintQueueRow {
+  id: string;
+  created_at: string;
+  business_pk: number | null;
+  business_name: string;
+  complaint_category: string | null;
+  status: ComplaintStatus;
+  authenticity_level: number;
+  authenticity_tier: AuthenticityTier;
+  tags: string[];
+  email_verified: boolean | null;
+}
+
+export interface ComplaintQueuePage {
+  rows: ComplaintQueueRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type ComplaintReviewDetail = Complaint;
+
+// Another complaint in the same incident cluster
+export interface RelatedComplaint {
+  id: string;
+  created_at: string;
+  business_name: string;
+  status: ComplaintStatus;
+  tags: string[];
+}
+
+export interface StatusHistoryEntry {
+  id: string;
+  from_status: ComplaintStatus | null;
+  to_status: ComplaintStatus;
+  actor_label: string | null;
+  note: string | null;
+  public_note: string | null;
+  created_at: string;
+}
+
+export interface StatusUpdateResult {
+  success: boolean;
+  message: string;
+}
+
+// Business added by a reporter through "Business not listed", awaiting review (Phase 21)
+export interface PendingBusiness {
+  business_pk: number;
+  business_name: string;
+  business_address: string | null;
+  business_category: string | null;
+  // Reporter's map pin; the business is geocoded from its address separately
+  proposed_lat: number | null;
+  proposed_lng: number | null;
+  proposed_at: string | null;
+  complaint_count: number;
+}
+
+export interface BusinessReviewResult {
+  success: boolean;
+  message: string;
+}
+
+// Permit list import (import-businesses edge function, Phase 22)
+export type BusinessImportFormat = 'csv' | 'json';
+
+export type BusinessImportRowStatus = 'new' | 'duplicate' | 'possible_duplicate' | 'invalid';
+
+export interface BusinessImportRow {
+  // CSV line (header is line 1) or JSON array position, 1-based
+  line: number;
+  name: string;
+  address: string;
+  category: string | null;
+  permitNumber: string | null;
+  coordinates: { lat: number; lng: number } | null;
+  status: BusinessImportRowStatus;
+  // Existing business (business_pk) or earlier row of the same file (line) it matched
+  match: {
+    business_pk: number | null;
+    line: number | null;
+    name: string;
+    address: string;
+    reason: 'permit_number' | 'same_name_and_address' | 'similar_name' | 'similar_address';
+    similarity: number;
+  } | null;
+  errors: string[];
+}
+
+export interface BusinessImportReport {
+  dryRun: boolean;
+  summary: { total: number; new: number; duplicate: number; possibleDuplicate: number; invalid: number };
+  rows: BusinessImportRow[];
+  inserted: number;
+  geocoded: number;
+  notGeocoded: number;
+}
+
+export type BusinessImportResult =
+  | { success: true; report: BusinessImportReport }
+  | { success: false; message: string };
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { Field } from '../../complaints_module/ui/Field';
+import { ComplaintsHeader } from '../../complaints_module/ui/ComplaintsHeader';
+import { signInStaff } from '../service';
+
+type LocationState = {
+  from?: string;
+};
+
+export function AdminLoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = ((location.state || {}) as LocationState).from || '/admin';
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (!email.trim() || !password) {
+      setError('Enter your email and password.');
+      return;
+    }
+
+    setLoading(true);
+    const signInError = await signInStaff(email, password);
+    setLoading(false);
+
+    if (signInError) {
+      setError(signInError);
+      return;
+    }
+
+    navigate(redirectTo, { replace: true });
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50 flex flex-col gap-8">
+      <ComplaintsHeader subtitle="Inspector Back Office" />
+
+      <main className="w-full px-8 py-12 flex justify-center">
+        <section className="w-full max-w-xl bg-white rounded-lg border border-gray-200 shadow-sm p-8">
+          <h2 className="text-3xl font-semibold text-gray-900 mb-2">Staff sign in</h2>
+          <p className="text-gray-600 mb-8">Sign in with your inspector or administrator account.</p>
+
+          <form onSubmit={onSubmit} className="space-y-6">
+            <Field label="Email">
+              <input
+                type="email"
+                value={email}
+                autoComplete="username"
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </Field>
+
+            <Field label="Password">
+              <input
+                type="password"
+                value={password}
+                autoComplete="current-password"
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </Field>
+
+            {error && <Alert kind="error" title="Sign in failed" message={error} />}
+
+            <Button type="submit" size="lg" className="w-full" disabled={loading}>
+              {loading ? 'Signing in…' : 'Sign in'}
+            </Button>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+export default AdminLoginPage;
@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { Link, useOutletContext } from 'react-router-dom';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { Panel } from '../../complaints_module/ui/Panel';
+import { importBusinesses } from '../service';
+import type { BusinessImportFormat, BusinessImportReport, BusinessImportRow, BusinessImportRowStatus, StaffMember } from '../types';
+
+// Rendering thousands of table rows freezes the page; the summary still counts them all
+const MAX_SHOWN_ROWS = 500;
+
+const STATUS_LABELS: Record<BusinessImportRowStatus, string> = {
+  new: 'New',
+  possible_duplicate: 'Possible duplicate',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const STATUS_CLASSES: Record<BusinessImportRowStatus, string> = {
+  new: 'text-green-700',
+  possible_duplicate: 'text-amber-700',
+  duplicate: 'text-slate-500',
+  invalid: 'text-red-700',
+};
+
+const MATCH_REASONS: Record<NonNullable<BusinessImportRow['match']>['reason'], string> = {
+  permit_number: 'same permit number',
+  same_name_and_address: 'same name and address',
+  similar_name: 'same address, similar name',
+  similar_address: 'same name, similar address',
+};
+
+function formatFromFileName(name: string): BusinessImportFormat {
+  return name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+}
+
+function MatchCell({ row }: { row: BusinessImportRow }) {
+  if (row.errors.length > 0) return <span className="text-red-700">{row.errors.join('; ')}</span>;
+  if (!row.match) return <span className="text-slate-400">—</span>;
+
+  return (
+    <div>
+      <div className="text-slate-900">
+        {row.match.business_pk != null ? (
+          <Link to={`/admin?business=${row.match.business_pk}`} className="font-semibold text-blue-700 hover:underline">
+            #{row.match.business_pk}
+          </Link>
+        ) : (
+          <span className="font-semibold">Line {row.match.line}</span>
+        )}{' '}
+        {row.match.name}
+      </div>
+      <div className="text-slate-500">
+        {row.match.address} · {MATCH_REASONS[row.match.reason]}
+        {row.match.reason.startsWith('similar') && ` (${Math.round(row.match.similarity * 100)}%)`}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * BusinessImportPage
+ * Bulk import of a municipal permit list (CSV or JSON). The file is previewed as a dry
+ * run first; possible duplicates are only imported when ticked.
+ */
+export function BusinessImportPage() {
+  const staff = useOutletContext<StaffMember>();
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<BusinessImportReport | null>(null);
+  const [result, setResult] = useState<BusinessImportReport | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<BusinessImportRowStatus | 'all'>('all');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onFile = async (picked: File | undefined) => {
+    setPreview(null);
+    setResult(null);
+    setAccepted(new Set());
+    setError(null);
+    setFile(picked ? { name: picked.name, content: await picked.text() } : null);
+  };
+
+  const run = async (commit: boolean) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    const res = await importBusinesses(file.content, formatFromFileName(file.name), {
+      commit,
+      acceptLines: [...accepted],
+    });
+    setBusy(false);
+
+    if (!res.success) {
+      setError(res.message);
+    } else if (commit) {
+      setResult(res.report);
+      setPreview(null);
+    } else {
+      setPreview(res.report);
+      setFilter(res.report.summary.possibleDuplicate > 0 ? 'possible_duplicate' : 'all');
+    }
+  };
+
+  const toggle = (line: number) =>
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+
+  if (staff.role !== 'admin') {
+    return <Alert kind="error" title="Admins only" message="Importing businesses is limited to admin staff." />;
+  }
+
+  const shown = preview ? preview.rows.filter((r) => filter === 'all' || r.status === filter) : [];
+  const toImport = preview ? preview.summary.new + accepted.size : 0;
+
+  return (
+    <div className="space-y-6">
+      <Panel
+        title="Import businesses"
+        subtitle="CSV or JSON permit list with name and address columns; permit number, category and coordinates are optional."
+      >
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            aria-label="Permit list file"
+            onChange={(e) => void onFile(e.target.files?.[0])}
+            className="text-sm text-slate-700"
+          />
+          <Button type="button" disabled={!file || busy} onClick={() => void run(false)}>
+            {busy && !preview ? 'Checking…' : 'Preview import'}
+          </Button>
+          <Link to="/admin/businesses/pending" className="text-sm font-semibold text-blue-700 hover:underline">
+            Pending businesses
+          </Link>
+        </div>
+      </Panel>
+
+      {error && <Alert kind="error" title="Import failed" message={error} />}
+
+      {result && (
+        <Alert
+          kind="success"
+          title="Imported"
+          message={`${result.inserted} business${result.inserted === 1 ? '' : 'es'} added; ${result.geocoded} geocoded, ${result.notGeocoded} without coordinates (geocoded on first proximity check).`}
+        />
+      )}
+
+      {preview && (
+        <Panel title="Dry run" subtitle={`${file?.name} · nothing has been written yet`}>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            {(
+              [
+                ['all', 'Rows', preview.summary.total],
+                ['new', 'New', preview.summary.new],
+                ['possible_duplicate', 'Possible duplicates', preview.summary.possibleDuplicate],
+                ['duplicate', 'Duplicates', preview.summary.duplicate],
+                ['invalid', 'Invalid', preview.summary.invalid],
+              ] as const
+            ).map(([key, label, count]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setFilter(key)}
+                className={`text-left border px-4 py-3 rounded-lg ${
+                  filter === key ? 'border-blue-400 bg-blue-50' : 'border-slate-200 bg-white'
+                }`}
+              >
+                <div className="text-xs uppercase tracking-wide text-slate-500">{label}</div>
+                <div className="mt-1 text-xl font-semibold text-slate-900">{count}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-2 pr-4 font-normal">Line</th>
+                  <th className="py-2 pr-4 font-normal">Business</th>
+                  <th className="py-2 pr-4 font-normal">Status</th>
+                  <th className="py-2 pr-4 font-normal">Match or problem</th>
+                  <th className="py-2 font-normal">Import</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.slice(0, MAX_SHOWN_ROWS).map((row) => (
+                  <tr key={row.line} className="border-t border-slate-100 align-top">
+                    <td className="py-2 pr-4 text-slate-500">{row.line}</td>
+                    <td className="py-2 pr-4">
+                      <div className="font-semibold text-slate-900">{row.name || '—'}</div>
+                      <div className="text-slate-600">{row.address || '—'}</div>
+                      {row.permitNumber && <div className="text-xs text-slate-500">Permit {row.permitNumber}</div>}
+                    </td>
+                    <td className={`py-2 pr-4 font-semibold whitespace-nowrap ${STATUS_CLASSES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <MatchCell row={row} />
+                    </td>
+                    <td className="py-2">
+                      {row.status === 'new' ? (
+                        <span className="text-green-700">Yes</span>
+                      ) : row.status === 'possible_duplicate' ? (
+                        <input
+                          type="checkbox"
+                          checked={accepted.has(row.line)}
+                          onChange={() => toggle(row.line)}
+                          aria-label={`Import line ${row.line} anyway`}
+                        />
+                      ) : (
+                        <span className="text-slate-400">No</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length > MAX_SHOWN_ROWS && (
+              <div className="mt-2 text-sm text-slate-500">
+                Showing the first {MAX_SHOWN_ROWS} of {shown.length} rows.
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 flex flex-wrap items-center gap-3 border-t border-slate-100 pt-4">
+            <Button type="button" disabled={busy || toImport === 0} onClick={() => void run(true)}>
+              {busy ? 'Importing…' : `Import ${toImport} business${toImport === 1 ? '' : 'es'}`}
+            </Button>
+            <span className="text-sm text-slate-500">
+              Duplicates and invalid rows are skipped. Tick a possible duplicate to import it anyway.
+            </span>
+          </div>
+        </Panel>
+      )}
+    </div>
+  );
+}
+
+export default BusinessImportPage;
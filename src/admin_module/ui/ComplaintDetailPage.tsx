@@ -0,0 +1,627 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { Panel } from '../../complaints_module/ui/Panel';
+import {
+  getComplaintForReview,
+  getComplaintMedia,
+  getIncidentComplaints,
+  getStatusHistory,
+  getStatusTransitions,
+  updateComplaintStatus,
+} from '../service';
+import { getAllowedTransitions } from '../../complaints_module/status';
+import type { ComplaintStatus, StatusTransitions } from '../../complaints_module/status';
+import { formatDuration } from '../../complaints_module/mediaInfo';
+import { formatCategoryAnswer, getComplaintCategory } from '../../complaints_module/complaintCategories';
+import type { ComplaintMediaClip, ComplaintMediaImage, DuplicateReason } from '../../complaints_module/types';
+import type { ComplaintReviewDetail, RelatedComplaint, StatusHistoryEntry } from '../types';
+
+const SIGNAL_LABELS: Record<string, string> = {
+  proximity: 'Proximity',
+  gps_accuracy: 'GPS accuracy',
+  location_freshness: 'Location freshness',
+  location_integrity: 'Location integrity',
+  email_verification: 'Email',
+  photo_freshness: 'Photo freshness',
+  photo_provenance: 'Photo provenance',
+  certification: 'Certification',
+  reporter_history: 'Reporter history',
+  tags: 'Flags',
+};
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_business: 'same business',
+  same_reporter: 'same reporter',
+  nearby: 'nearby',
+  similar_text: 'similar description',
+};
+
+function formatTimestamp(value: string | null | undefined): string {
+  if (!value) return '—';
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function formatGeo(value: number | null | undefined): string {
+  return typeof value === 'number' && Number.isFinite(value) ? value.toFixed(6) : '—';
+}
+
+function distanceMeters(aLat: number, aLng: number, bLat: number, bLng: number): number {
+  const R = 6371000;
+  const toRad = (v: number) => (v * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLng = toRad(bLng - aLng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{label}</div>
+      <div className="mt-1 text-sm text-slate-900 break-words">{value}</div>
+    </div>
+  );
+}
+
+function CategoryDetails({
+  category,
+  details,
+}: {
+  category: ComplaintReviewDetail['complaint_category'];
+  details: ComplaintReviewDetail['complaint_details'];
+}) {
+  if (!category) return <DetailRow label="Category" value="Not categorised (filed before categories were asked)" />;
+  const definition = getComplaintCategory(category);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <DetailRow label="Category" value={definition?.label ?? category} />
+      {definition?.questions.map((q) => (
+        <DetailRow key={q.id} label={q.label} value={formatCategoryAnswer(q, details?.[q.id])} />
+      ))}
+    </div>
+  );
+}
+
+export function ComplaintDetailPage() {
+  const { id = '' } = useParams();
+  const [loaded, setLoaded] = useState<{
+    id: string;
+    complaint: ComplaintReviewDetail | null;
+    history: StatusHistoryEntry[];
+    related: RelatedComplaint[];
+    media: ComplaintMediaImage[];
+    videos: ComplaintMediaClip[];
+    audio: ComplaintMediaClip[];
+    transitions: StatusTransitions | null;
+  } | null>(null);
+  const loading = loaded?.id !== id;
+  const complaint = loading ? null : loaded.complaint;
+  const history = loading ? [] : loaded.history;
+  const related = loading ? [] : loaded.related;
+  const media = loading ? [] : loaded.media;
+  const videos = loading ? [] : loaded.videos;
+  const audio = loading ? [] : loaded.audio;
+  const transitions = loading ? null : loaded.transitions;
+  const [nextStatus, setNextStatus] = useState<ComplaintStatus | ''>('');
+  const [note, setNote] = useState('');
+  const [publicNote, setPublicNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'success' | 'error'; message: string } | null>(null);
+
+  const setComplaint = (update: (prev: ComplaintReviewDetail | null) => ComplaintReviewDetail | null) =>
+    setLoaded((prev) => (prev ? { ...prev, complaint: update(prev.complaint) } : prev));
+
+  useEffect(() => {
+    let active = true;
+
+    const pending = Promise.all([getComplaintForReview(id), getStatusHistory(id), getStatusTransitions()]);
+    pending.then(async ([res, entries, moves]) => {
+      const [relatedRows, signedMedia] = await Promise.all([
+        res?.incident_id ? getIncidentComplaints(res.incident_id, res.id) : Promise.resolve([]),
+        res ? getComplaintMedia(res.id) : Promise.resolve(null),
+      ]);
+      if (!active) return;
+      setLoaded({
+        id,
+        complaint: res,
+        history: entries,
+        related: relatedRows,
+        media: signedMedia?.images ?? [],
+        videos: signedMedia?.videos ?? [],
+        audio: signedMedia?.audio ?? [],
+        transitions: moves,
+      });
+      setNextStatus(res && moves ? getAllowedTransitions(moves, res.status)[0] ?? '' : '');
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [id]);
+
+  const onUpdateStatus = async () => {
+    if (!complaint || !nextStatus) return;
+
+    setSaving(true);
+    setNotice(null);
+    const result = await updateComplaintStatus(complaint.id, nextStatus, { note, publicNote });
+
+    if (!result.success) {
+      setSaving(false);
+      setNotice({ kind: 'error', message: result.message });
+      return;
+    }
+
+    const entries = await getStatusHistory(complaint.id);
+    setSaving(false);
+    setLoaded((prev) => (prev ? { ...prev, history: entries } : prev));
+    setComplaint((prev) => (prev ? { ...prev, status: nextStatus } : prev));
+    setNextStatus(transitions ? getAllowedTransitions(transitions, nextStatus)[0] ?? '' : '');
+    setNote('');
+    setPublicNote('');
+    setNotice({ kind: 'success', message: result.message });
+  };
+
+  if (loading) {
+    return <div className="text-slate-600">Loading complaint…</div>;
+  }
+
+  if (!complaint) {
+    return (
+      <div className="space-y-4">
+        <Alert kind="error" title="Not found" message="This complaint does not exist or you cannot view it." />
+        <Link to="/admin" className="text-sm font-semibold text-blue-700 hover:underline">
+          Back to queue
+        </Link>
+      </div>
+    );
+  }
+
+  const hasDevice = typeof complaint.reporter_lat === 'number' && typeof complaint.reporter_lng === 'number';
+  const hasPin = typeof complaint.reporter_pin_lat === 'number' && typeof complaint.reporter_pin_lng === 'number';
+  const pinOffset =
+    hasDevice && hasPin
+      ? distanceMeters(complaint.reporter_lat!, complaint.reporter_lng!, complaint.reporter_pin_lat!, complaint.reporter_pin_lng!)
+      : null;
+  const samples = complaint.location_samples || [];
+  const integrity = complaint.location_integrity ?? null;
+  const candidates = complaint.duplicate_candidates || [];
+  // Signed links expire after a few minutes; reload the page for fresh ones.
+  // Older complaints have no originals, only the copies in image_paths.
+  const images = media.map((m) => ({
+    key: m.index,
+    url: m.originalUrl ?? m.url,
+    redactedUrl: m.originalUrl ? m.url : null,
+    redaction: complaint.redaction_report?.find((r) => r.index === m.index) ?? null,
+  }));
+  const attachedCount = Math.max(complaint.image_original_paths?.length ?? 0, complaint.image_paths?.length ?? 0);
+  const clipCount = (complaint.video_paths?.length ?? 0) + (complaint.audio_paths?.length ?? 0);
+  const clipMeta = (kind: 'video' | 'audio', index: number) =>
+    complaint.media_metadata?.find((m) => m.kind === kind && m.index === index) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/admin" className="text-sm font-semibold text-blue-700 hover:underline">
+        ← Back to queue
+      </Link>
+
+      <Panel title={complaint.business_name} subtitle={complaint.business_address}>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <DetailRow label="Tracking ID" value={<span className="font-mono">{complaint.id}</span>} />
+          <DetailRow label="Submitted" value={formatTimestamp(complaint.created_at)} />
+          <DetailRow
+            label="Business ID"
+            value={
+              complaint.business_pk != null ? (
+                <Link to={`/businesses/${complaint.business_pk}`} className="font-semibold text-blue-700 hover:underline">
+                  {complaint.business_pk} (public profile)
+                </Link>
+              ) : (
+                '—'
+              )
+            }
+          />
+          <DetailRow
+            label="Authenticity"
+            value={`${complaint.authenticity_tier ?? '—'} (${complaint.authenticity_level})`}
+          />
+        </div>
+
+        <div className="mt-6 flex flex-wrap gap-1">
+          {(complaint.tags || []).map((t) => (
+            <span key={t} className="rounded bg-slate-100 px-2 py-0.5 text-xs text-slate-700">
+              {t}
+            </span>
+          ))}
+        </div>
+      </Panel>
+
+      <Panel
+        title="Authenticity"
+        subtitle={
+          complaint.authenticity_version
+            ? `Scored with rules v${complaint.authenticity_version} on ${formatTimestamp(complaint.authenticity_scored_at)}.`
+            : 'Scored by the legacy tag rules; no breakdown is available.'
+        }
+      >
+        <div className="space-y-4">
+          <DetailRow
+            label="Score"
+            value={<span className="font-semibold">{`${complaint.authenticity_level} / 100 (${complaint.authenticity_tier ?? '—'})`}</span>}
+          />
+          {(complaint.authenticity_breakdown || []).length > 0 && (
+            <table className="w-full text-sm">
+              <tbody>
+                {complaint.authenticity_breakdown!.map((b) => (
+                  <tr key={b.signal} className="border-t border-slate-100">
+                    <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">{SIGNAL_LABELS[b.signal] ?? b.signal}</td>
+                    <td className="py-2 pr-4 text-slate-800">{b.detail}</td>
+                    <td
+                      className={`py-2 text-right font-semibold whitespace-nowrap ${
+                        b.points > 0 ? 'text-green-700' : b.points < 0 ? 'text-red-700' : 'text-slate-500'
+                      }`}
+                    >
+                      {b.points > 0 ? `+${b.points}` : b.points}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </Panel>
+
+      <Panel title="Status" subtitle="The status set here is what the reporter sees on the tracking page.">
+        <div className="space-y-4">
+          <DetailRow label="Current" value={<span className="font-semibold">{complaint.status}</span>} />
+
+          {!transitions ? (
+            <Alert
+              kind="error"
+              title="Status options unavailable"
+              message="The allowed status changes could not be loaded. Reload the page to try again."
+            />
+          ) : getAllowedTransitions(transitions, complaint.status).length === 0 ? (
+            <div className="text-sm text-slate-600">This complaint is closed; no further status changes are allowed.</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+              <label className="md:col-span-4 text-sm text-slate-700">
+                <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Move to</span>
+                <select
+                  value={nextStatus}
+                  onChange={(e) => setNextStatus(e.target.value as ComplaintStatus)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {getAllowedTransitions(transitions, complaint.status).map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="md:col-span-3 text-sm text-slate-700">
+                <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Note (internal)</span>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Reason for this change"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="md:col-span-3 text-sm text-slate-700">
+                <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Public note (shown to reporter)</span>
+                <input
+                  value={publicNote}
+                  onChange={(e) => setPublicNote(e.target.value)}
+                  placeholder="Optional, no personal details"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <div className="md:col-span-2">
+                <Button type="button" className="w-full" onClick={() => void onUpdateStatus()} disabled={saving || !nextStatus}>
+                  {saving ? 'Saving…' : 'Update'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {notice && (
+            <Alert kind={notice.kind} title={notice.kind === 'success' ? 'Saved' : 'Update failed'} message={notice.message} />
+          )}
+
+          <div className="border-t border-slate-200 pt-4">
+            <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide">History</div>
+            {history.length === 0 ? (
+              <div className="mt-2 text-sm text-slate-600">No status changes yet.</div>
+            ) : (
+              <ol className="mt-2 space-y-2">
+                {history.map((h) => (
+                  <li key={h.id} className="text-sm text-slate-800">
+                    <span className="text-slate-500">{formatTimestamp(h.created_at)}</span>{' '}
+                    <span className="font-semibold">{h.from_status ?? '—'} → {h.to_status}</span>
+                    {h.actor_label && <span className="text-slate-500"> by {h.actor_label}</span>}
+                    {h.note && <div className="text-slate-600 ml-4">{h.note}</div>}
+                    {h.public_note && <div className="text-blue-800 ml-4">Public: {h.public_note}</div>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </Panel>
+
+      {(related.length > 0 || candidates.length > 0) && (
+        <Panel title="Related complaints" subtitle="Grouped into the same incident or flagged as possible duplicates at submission.">
+          <div className="space-y-4">
+            {related.length > 0 && (
+              <div>
+                <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Same incident</div>
+                <ul className="mt-2 space-y-1">
+                  {related.map((r) => (
+                    <li key={r.id} className="text-sm text-slate-800">
+                      <Link to={`/admin/complaints/${r.id}`} className="font-mono text-blue-700 hover:underline">
+                        {r.id}
+                      </Link>{' '}
+                      <span className="text-slate-500">
+                        {formatTimestamp(r.created_at)} · {r.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {candidates.length > 0 && (
+              <div>
+                <div className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Matches at submission</div>
+                <ul className="mt-2 space-y-1">
+                  {candidates.map((c) => (
+                    <li key={c.complaint_id} className="text-sm text-slate-800">
+                      <Link to={`/admin/complaints/${c.complaint_id}`} className="font-mono text-blue-700 hover:underline">
+                        {c.complaint_id}
+                      </Link>{' '}
+                      <span className="text-slate-500">
+                        {c.reasons.map((r) => DUPLICATE_REASON_LABELS[r] ?? r).join(', ')} · text{' '}
+                        {Math.round(c.text_similarity * 100)}%
+                        {c.distance_meters != null && ` · ${c.distance_meters}m apart`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </Panel>
+      )}
+
+      <Panel title="Report">
+        <div className="space-y-6">
+          <CategoryDetails category={complaint.complaint_category} details={complaint.complaint_details} />
+          <DetailRow label="Description" value={<span className="whitespace-pre-wrap">{complaint.complaint_description}</span>} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <DetailRow label="Reporter email" value={complaint.reporter_email} />
+            <DetailRow label="Email verified" value={complaint.email_verified ? `Yes (${formatTimestamp(complaint.email_verified_at)})` : 'No'} />
+            <DetailRow
+              label="Certification accepted"
+              value={complaint.certification_accepted ? `Yes (${formatTimestamp(complaint.certification_accepted_at)})` : 'No'}
+            />
+          </div>
+        </div>
+      </Panel>
+
+      <Panel title="Location" subtitle="Device-reported position compared with the pin the reporter confirmed, and the readings it was taken from.">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div className="text-sm font-semibold text-slate-900">Device (GPS)</div>
+            <DetailRow label="Coordinates" value={`${formatGeo(complaint.reporter_lat)}, ${formatGeo(complaint.reporter_lng)}`} />
+            <DetailRow
+              label="Accuracy"
+              value={typeof complaint.reporter_accuracy === 'number' ? `±${Math.round(complaint.reporter_accuracy)}m` : '—'}
+            />
+            <DetailRow label="Captured at" value={formatTimestamp(complaint.reporter_location_timestamp)} />
+          </div>
+          <div className="space-y-3">
+            <div className="text-sm font-semibold text-slate-900">Pinned</div>
+            <DetailRow label="Coordinates" value={`${formatGeo(complaint.reporter_pin_lat)}, ${formatGeo(complaint.reporter_pin_lng)}`} />
+          </div>
+          <div className="space-y-3">
+            <div className="text-sm font-semibold text-slate-900">Comparison</div>
+            <DetailRow label="Pin offset from device" value={pinOffset != null ? `${Math.round(pinOffset)}m` : '—'} />
+            <DetailRow
+              label="Integrity"
+              value={
+                integrity ? (
+                  <span className={integrity.verdict === 'suspicious' ? 'font-semibold text-red-700' : undefined}>
+                    {integrity.verdict}
+                  </span>
+                ) : (
+                  '—'
+                )
+              }
+            />
+          </div>
+        </div>
+
+        {integrity && (
+          <table className="mt-6 w-full text-sm">
+            <tbody>
+              {integrity.checks.map((c) => (
+                <tr key={c.check} className="border-t border-slate-100">
+                  <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">{c.check}</td>
+                  <td className="py-2 pr-4 text-slate-800">{c.detail}</td>
+                  <td
+                    className={`py-2 text-right font-semibold whitespace-nowrap ${
+                      c.passed === true ? 'text-green-700' : c.passed === false ? 'text-red-700' : 'text-slate-500'
+                    }`}
+                  >
+                    {c.passed === true ? 'pass' : c.passed === false ? 'fail' : 'n/a'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {samples.length > 0 && (
+          <div className="mt-6">
+            <div className="text-sm font-semibold text-slate-900">Readings ({samples.length})</div>
+            <table className="mt-2 w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-2 pr-4 font-normal">Time</th>
+                  <th className="py-2 pr-4 font-normal">Coordinates</th>
+                  <th className="py-2 pr-4 font-normal">Accuracy</th>
+                  <th className="py-2 font-normal">Age on arrival</th>
+                </tr>
+              </thead>
+              <tbody>
+                {samples.map((s, i) => (
+                  <tr key={i} className="border-t border-slate-100 text-slate-800">
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(new Date(s.timestamp).toISOString())}</td>
+                    <td className="py-2 pr-4 font-mono">{`${formatGeo(s.latitude)}, ${formatGeo(s.longitude)}`}</td>
+                    <td className="py-2 pr-4">{typeof s.accuracy === 'number' ? `±${Math.round(s.accuracy)}m` : '—'}</td>
+                    <td className="py-2">{`${((s.receivedAt - s.timestamp) / 1000).toFixed(1)}s`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Panel>
+
+      <Panel
+        title="Images"
+        subtitle={`${attachedCount} attached${
+          complaint.redaction_status && complaint.redaction_status !== 'none'
+            ? ` · redaction ${complaint.redaction_status}`
+            : ''
+        }. Originals are shown unredacted; the reporter only sees blurred copies.`}
+      >
+        {attachedCount === 0 ? (
+          <div className="text-sm text-slate-600">No images were attached.</div>
+        ) : images.length === 0 ? (
+          <div className="text-sm text-slate-600">Images could not be loaded.</div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {images.map(({ key, url, redactedUrl, redaction }, i) => {
+              const meta = complaint.photo_metadata?.[i];
+              return (
+                <div key={key} className="border border-slate-200 rounded-lg overflow-hidden">
+                  {url ? (
+                    <a href={url} target="_blank" rel="noreferrer" className="block">
+                      <img src={url} alt="Complaint evidence" className="w-full h-40 object-cover" />
+                    </a>
+                  ) : (
+                    <div className="h-40 flex items-center justify-center bg-slate-50 text-xs text-slate-500">Image unavailable</div>
+                  )}
+                  {redaction && (
+                    <div className="px-2 pt-2 text-xs text-slate-600">
+                      {redaction.error ? (
+                        <span className="text-red-700">Not redacted: {redaction.error}</span>
+                      ) : (
+                        <>
+                          Blurred {redaction.faces} face(s),{' '}
+                          {redaction.notChecked?.includes('plate') ? 'plates not checked' : `${redaction.plates} plate(s)`}
+                          {redactedUrl && (
+                            <>
+                              {' · '}
+                              <a href={redactedUrl} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline">
+                                redacted copy
+                              </a>
+                            </>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {meta && (
+                    <div className="p-2 space-y-0.5 text-xs text-slate-600">
+                      <div>{meta.source === 'camera' ? 'In-app camera' : 'Uploaded'}</div>
+                      <div>Taken: {meta.capturedAt != null ? formatTimestamp(new Date(meta.capturedAt).toISOString()) : 'unknown'}</div>
+                      {(meta.make || meta.model) && <div>Camera: {[meta.make, meta.model].filter(Boolean).join(' ')}</div>}
+                      {meta.software && <div className={meta.edited ? 'text-red-700' : undefined}>Software: {meta.software}</div>}
+                      <div className={meta.gpsMatches === false ? 'text-red-700' : undefined}>
+                        GPS:{' '}
+                        {meta.gps
+                          ? `${formatGeo(meta.gps.latitude)}, ${formatGeo(meta.gps.longitude)}` +
+                            (meta.distanceToBusinessMeters != null ? ` (${meta.distanceToBusinessMeters}m from business)` : '')
+                          : 'none'}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Panel>
+
+      {clipCount > 0 && (
+        <Panel
+          title="Video and audio"
+          subtitle={`${complaint.video_paths?.length ?? 0} video clip(s), ${complaint.audio_paths?.length ?? 0} audio recording(s). Not redacted; do not share outside the review.`}
+        >
+          {videos.length === 0 && audio.length === 0 ? (
+            <div className="text-sm text-slate-600">Recordings could not be loaded.</div>
+          ) : (
+            <div className="space-y-6">
+              {videos.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {videos.map((clip) => {
+                    const meta = clipMeta('video', clip.index);
+                    return (
+                      <div key={clip.index} className="border border-slate-200 rounded-lg overflow-hidden">
+                        {clip.url ? (
+                          <video
+                            src={clip.url}
+                            poster={clip.thumbnailUrl ?? undefined}
+                            controls
+                            preload="metadata"
+                            className="w-full h-56 bg-black object-contain"
+                          />
+                        ) : (
+                          <div className="h-56 flex items-center justify-center bg-slate-50 text-xs text-slate-500">Video unavailable</div>
+                        )}
+                        <div className="p-2 text-xs text-slate-600">
+                          Duration: {formatDuration(clip.durationSeconds)}
+                          {meta && ` · ${(meta.sizeBytes / (1024 * 1024)).toFixed(1)} MB · ${meta.contentType}`}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {audio.length > 0 && (
+                <ul className="space-y-3">
+                  {audio.map((clip) => {
+                    const meta = clipMeta('audio', clip.index);
+                    return (
+                      <li key={clip.index} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                        {clip.url ? (
+                          <audio src={clip.url} controls preload="metadata" className="w-full" />
+                        ) : (
+                          <div className="text-xs text-slate-500">Recording unavailable</div>
+                        )}
+                        <div className="text-xs text-slate-600">
+                          Duration: {formatDuration(clip.durationSeconds)}
+                          {meta && ` · ${(meta.sizeBytes / (1024 * 1024)).toFixed(1)} MB · ${meta.contentType}`}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </Panel>
+      )}
+    </div>
+  );
+}
+
+export default ComplaintDetailPage;
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { Panel } from '../../complaints_module/ui/Panel';
+import { listComplaints } from '../service';
+import { AUTHENTICITY_TIERS } from '../types';
+import { COMPLAINT_STATUSES, isComplaintStatus } from '../../complaints_module/status';
+import { COMPLAINT_CATEGORIES, getComplaintCategory } from '../../complaints_module/complaintCategories';
+import type { AuthenticityTier, ComplaintQueueFilters, ComplaintQueuePage as QueuePage } from '../types';
+
+function parseTags(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function filtersFromParams(params: URLSearchParams): ComplaintQueueFilters {
+  const status = params.get('status');
+  const tier = params.get('tier');
+  const business = Number(params.get('business'));
+  const category = getComplaintCategory(params.get('category'));
+  const tags = parseTags(params.get('tags') || '');
+
+  return {
+    status: isComplaintStatus(status) ? status : undefined,
+    authenticityTier: AUTHENTICITY_TIERS.includes(tier as AuthenticityTier) ? (tier as AuthenticityTier) : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    businessPk: params.get('business') && Number.isInteger(business) ? business : undefined,
+    category: category?.key,
+  };
+}
+
+function TierBadge({ tier }: { tier: AuthenticityTier }) {
+  const cls =
+    tier === 'High'
+      ? 'bg-emerald-50 text-emerald-800 border-emerald-200'
+      : tier === 'Low'
+        ? 'bg-red-50 text-red-800 border-red-200'
+        : 'bg-amber-50 text-amber-800 border-amber-200';
+
+  return <span className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-semibold ${cls}`}>{tier}</span>;
+}
+
+export function ComplaintQueuePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  // Draft filter inputs; applied to the URL on submit so the queue is linkable.
+  const [status, setStatus] = useState(filters.status ?? '');
+  const [tier, setTier] = useState(filters.authenticityTier ?? '');
+  const [category, setCategory] = useState(filters.category ?? '');
+  const [tags, setTags] = useState((filters.tags ?? []).join(', '));
+  const [business, setBusiness] = useState(filters.businessPk?.toString() ?? '');
+
+  // Each response is tagged with the query it answers; anything older than the URL is still loading.
+  const requestKey = `${JSON.stringify(filters)}|${page}`;
+  const [loaded, setLoaded] = useState<{ key: string; result: QueuePage | null } | null>(null);
+  const loading = loaded?.key !== requestKey;
+  const result = loaded?.result ?? null;
+  const error = !loading && !result ? 'Unable to load complaints.' : null;
+
+  useEffect(() => {
+    let active = true;
+
+    listComplaints(filters, page).then((res) => {
+      if (active) setLoaded({ key: requestKey, result: res });
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [filters, page, requestKey]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    if (status) next.set('status', status);
+    if (tier) next.set('tier', tier);
+    if (category) next.set('category', category);
+    if (parseTags(tags).length > 0) next.set('tags', parseTags(tags).join(','));
+    if (business.trim()) next.set('business', business.trim());
+    setSearchParams(next);
+  };
+
+  const resetFilters = () => {
+    setStatus('');
+    setTier('');
+    setCategory('');
+    setTags('');
+    setBusiness('');
+    setSearchParams(new URLSearchParams());
+  };
+
+  const goToPage = (n: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(n));
+    setSearchParams(next);
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  const inputCls =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <Panel title="Complaint queue" subtitle="Newest complaints first. Filters are kept in the page URL.">
+        <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <label className="text-sm text-slate-700">
+            <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Status</span>
+            <select value={status} onChange={(e) => setStatus(e.target.value)} className={inputCls}>
+              <option value="">Any</option>
+              {COMPLAINT_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm text-slate-700">
+            <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Authenticity</span>
+            <select value={tier} onChange={(e) => setTier(e.target.value)} className={inputCls}>
+              <option value="">Any</option>
+              {AUTHENTICITY_TIERS.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm text-slate-700">
+            <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Category</span>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputCls}>
+              <option value="">Any</option>
+              {COMPLAINT_CATEGORIES.map((c) => (
+                <option key={c.key} value={c.key}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm text-slate-700">
+            <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Tags (comma separated)</span>
+            <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Location Verified" className={inputCls} />
+          </label>
+
+          <label className="text-sm text-slate-700">
+            <span className="block mb-1 font-medium uppercase tracking-wide text-xs">Business ID</span>
+            <input
+              value={business}
+              onChange={(e) => setBusiness(e.target.value.replace(/[^0-9]/g, ''))}
+              inputMode="numeric"
+              placeholder="business_pk"
+              className={inputCls}
+            />
+          </label>
+
+          <div className="flex gap-2">
+            <Button type="submit">Apply</Button>
+            <Button type="button" variant="secondary" onClick={resetFilters}>
+              Reset
+            </Button>
+          </div>
+        </form>
+      </Panel>
+
+      {error && <Alert kind="error" title="Queue unavailable" message={error} />}
+
+      <section className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-600">
+              <tr>
+                <th className="px-4 py-3">Submitted</th>
+                <th className="px-4 py-3">Business</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Authenticity</th>
+                <th className="px-4 py-3">Tags</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-slate-600">
+                    Loading complaints…
+                  </td>
+                </tr>
+              ) : !result || result.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-slate-600">
+                    No complaints match these filters.
+                  </td>
+                </tr>
+              ) : (
+                result.rows.map((row) => (
+                  <tr key={row.id} className="hover:bg-slate-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-slate-700">
+                      {new Date(row.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold text-slate-900">{row.business_name}</div>
+                      {row.business_pk != null && <div className="text-xs text-slate-500">#{row.business_pk}</div>}
+                      {row.complaint_category && (
+                        <div className="text-xs text-slate-600">
+                          {getComplaintCategory(row.complaint_category)?.label ?? row.complaint_category}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-slate-800">{row.status}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <TierBadge tier={row.authenticity_tier} />
+                      <span className="ml-2 text-xs text-slate-500">{row.authenticity_level}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {(row.tags || []).map((t) => (
+                          <span key={t} className="rounded bg-slate-100 px-2 py-0.5 text-xs text-slate-700">
+                            {t}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Link to={`/admin/complaints/${encodeURIComponent(row.id)}`} className="font-semibold text-blue-700 hover:underline">
+                        Review
+                      </Link>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between border-t border-slate-200 px-4 py-3 text-sm text-slate-700">
+          <div>{result ? `${result.total} complaint${result.total === 1 ? '' : 's'}` : '—'}</div>
+          <div className="flex items-center gap-3">
+            <Button type="button" variant="secondary" disabled={page <= 1 || loading} onClick={() => goToPage(page - 1)}>
+              Previous
+            </Button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <Button type="button" variant="secondary" disabled={page >= totalPages || loading} onClick={() => goToPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+export default ComplaintQueuePage;
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { Panel } from '../../complaints_module/ui/Panel';
+import { searchBusinesses } from '../../complaints_module/businessSearch';
+import type { BusinessSearchResult } from '../../complaints_module/types';
+import { approvePendingBusiness, listPendingBusinesses, mergePendingBusiness } from '../service';
+import type { BusinessReviewResult, PendingBusiness } from '../types';
+
+function formatGeo(value: number | null): string {
+  return typeof value === 'number' && Number.isFinite(value) ? value.toFixed(6) : '—';
+}
+
+function PendingBusinessCard({
+  business,
+  onReviewed,
+}: {
+  business: PendingBusiness;
+  onReviewed: (result: BusinessReviewResult) => void;
+}) {
+  const [matches, setMatches] = useState<BusinessSearchResult[] | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Existing businesses that may be the same place, nearest the reporter's pin first
+  useEffect(() => {
+    let active = true;
+    const near =
+      business.proposed_lat != null && business.proposed_lng != null
+        ? { latitude: business.proposed_lat, longitude: business.proposed_lng }
+        : null;
+
+    searchBusinesses(business.business_name, near, 6).then((rows) => {
+      if (!active) return;
+      setMatches(rows.filter((r) => r.business_status === 'active' && r.business_pk !== business.business_pk).slice(0, 5));
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [business.business_pk, business.business_name, business.proposed_lat, business.proposed_lng]);
+
+  const review = async (action: () => Promise<BusinessReviewResult>) => {
+    setBusy(true);
+    setError(null);
+    const result = await action();
+    setBusy(false);
+    if (result.success) onReviewed(result);
+    else setError(result.message);
+  };
+
+  const merge = (intoBusinessPk: number) => review(() => mergePendingBusiness(business.business_pk, intoBusinessPk));
+  const manualTarget = Number(mergeInto);
+
+  return (
+    <Panel title={business.business_name} subtitle={business.business_address || 'No address given'}>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 text-sm">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-500">Business ID</div>
+          <div className="mt-1 text-slate-900">#{business.business_pk}</div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-500">Category</div>
+          <div className="mt-1 text-slate-900">{business.business_category ?? '—'}</div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-500">Reporter's pin</div>
+          <div className="mt-1 font-mono text-slate-900">
+            {formatGeo(business.proposed_lat)}, {formatGeo(business.proposed_lng)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-500">Complaints</div>
+          <div className="mt-1">
+            <Link to={`/admin?business=${business.business_pk}`} className="font-semibold text-blue-700 hover:underline">
+              {business.complaint_count} filed
+            </Link>
+            {business.proposed_at && (
+              <span className="ml-2 text-slate-500">since {new Date(business.proposed_at).toLocaleString()}</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-3">
+        <div className="text-sm font-semibold text-slate-900">Possible matches</div>
+        {matches === null ? (
+          <div className="text-sm text-slate-600">Looking for similar businesses…</div>
+        ) : matches.length === 0 ? (
+          <div className="text-sm text-slate-600">No similar business in the registry.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            {matches.map((m) => (
+              <li key={m.business_pk} className="flex items-center justify-between gap-4 px-4 py-3 text-sm">
+                <div>
+                  <div className="font-semibold text-slate-900">
+                    {m.business_name} <span className="font-normal text-slate-500">#{m.business_pk}</span>
+                  </div>
+                  <div className="text-slate-600">{m.business_address || 'No address on file'}</div>
+                </div>
+                <Button type="button" variant="secondary" disabled={busy} onClick={() => void merge(m.business_pk)}>
+                  Merge into this
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4">
+          <Alert kind="error" title="Not saved" message={error} />
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-wrap items-end gap-3 border-t border-slate-100 pt-4">
+        <Button type="button" disabled={busy} onClick={() => void review(() => approvePendingBusiness(business.business_pk))}>
+          Approve as new business
+        </Button>
+        <span className="text-sm text-slate-500">or merge into business ID</span>
+        <input
+          value={mergeInto}
+          onChange={(e) => setMergeInto(e.target.value.replace(/[^0-9]/g, ''))}
+          inputMode="numeric"
+          placeholder="business_pk"
+          aria-label="Merge into business ID"
+          className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          disabled={busy || !Number.isInteger(manualTarget) || manualTarget <= 0}
+          onClick={() => void merge(manualTarget)}
+        >
+          Merge
+        </Button>
+      </div>
+    </Panel>
+  );
+}
+
+/**
+ * PendingBusinessesPage
+ * Businesses reporters added through "Business not listed". Staff approve each one as a
+ * new business or merge it into the existing business it duplicates.
+ */
+export function PendingBusinessesPage() {
+  const [businesses, setBusinesses] = useState<PendingBusiness[] | null | undefined>(undefined);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Bumped after each decision to reload the list
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+
+    listPendingBusinesses().then((rows) => {
+      if (active) setBusinesses(rows);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [version]);
+
+  const onReviewed = (result: BusinessReviewResult) => {
+    setNotice(result.message);
+    setVersion((v) => v + 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Panel
+        title="Pending businesses"
+        subtitle="Added by reporters who could not find the business. Oldest first."
+      >
+        <Link to="/admin" className="text-sm font-semibold text-blue-700 hover:underline">
+          ← Back to queue
+        </Link>
+      </Panel>
+
+      {notice && <Alert kind="success" title="Saved" message={notice} />}
+
+      {businesses === undefined ? (
+        <div className="text-sm text-slate-600">Loading pending businesses…</div>
+      ) : businesses === null ? (
+        <Alert kind="error" title="Unavailable" message="Unable to load pending businesses." />
+      ) : businesses.length === 0 ? (
+        <div className="text-sm text-slate-600">No businesses are waiting for review.</div>
+      ) : (
+        businesses.map((b) => <PendingBusinessCard key={b.business_pk} business={b} onReviewed={onReviewed} />)
+      )}
+    </div>
+  );
+}
+
+export default PendingBusinessesPage;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom';
+import { supabase } from '../../supabaseClient';
+import { Button } from '../../complaints_module/ui/Button';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { ComplaintsHeader } from '../../complaints_module/ui/ComplaintsHeader';
+import { getCurrentStaffMember, signOutStaff } from '../service';
+import type { StaffMember } from '../types';
+
+type GuardState =
+  | { kind: 'checking' }
+  | { kind: 'signed-out' }
+  | { kind: 'forbidden'; email: string | null }
+  | { kind: 'ready'; staff: StaffMember };
+
+/**
+ * RequireStaff
+ * Route guard for the back office. Children read the staff member via useOutletContext().
+ */
+export function RequireStaff() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [state, setState] = useState<GuardState>({ kind: 'checking' });
+
+  useEffect(() => {
+    let active = true;
+
+    const check = async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        if (active) setState({ kind: 'signed-out' });
+        return;
+      }
+
+      const staff = await getCurrentStaffMember();
+      if (!active) return;
+      setState(staff ? { kind: 'ready', staff } : { kind: 'forbidden', email: session.user.email ?? null });
+    };
+
+    void check();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void check();
+    });
+
+    return () => {
+      active = false;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  const onSignOut = async () => {
+    await signOutStaff();
+    navigate('/admin/login', { replace: true });
+  };
+
+  if (state.kind === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-slate-600">Checking access…</div>
+    );
+  }
+
+  if (state.kind === 'signed-out') {
+    return <Navigate to="/admin/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50 flex flex-col gap-8">
+      <ComplaintsHeader subtitle="Inspector Back Office" />
+
+      <main className="w-full px-8 pb-12 flex justify-center">
+        <div className="w-full max-w-7xl space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 bg-white rounded-lg border border-gray-200 shadow-sm px-6 py-4">
+            <div className="text-sm text-slate-700">
+              Signed in as{' '}
+              <span className="font-semibold text-slate-900">
+                {state.kind === 'ready' ? state.staff.email : state.email}
+              </span>
+              {state.kind === 'ready' && (
+                <span className="ml-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {state.staff.role}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              {state.kind === 'ready' && (
+                <nav className="flex items-center gap-4 text-sm font-semibold">
+                  <Link to="/admin" className="text-blue-700 hover:underline">
+                    Complaints
+                  </Link>
+                  <Link to="/admin/businesses/pending" className="text-blue-700 hover:underline">
+                    Pending businesses
+                  </Link>
+                  {state.staff.role === 'admin' && (
+                    <Link to="/admin/businesses/import" className="text-blue-700 hover:underline">
+                      Import businesses
+                    </Link>
+                  )}
+                </nav>
+              )}
+              <Button type="button" variant="secondary" onClick={() => void onSignOut()}>
+                Sign out
+              </Button>
+            </div>
+          </div>
+
+          {state.kind === 'forbidden' ? (
+            <Alert
+              kind="error"
+              title="Access denied"
+              message="Your account is not registered as inspector or admin staff. Contact an administrator."
+            />
+          ) : (
+            <Outlet context={state.staff} />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default RequireStaff;
@@ -0,0 +1,85 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../supabaseClient', () => ({
+  supabase: { rpc: vi.fn() },
+}));
+
+import { buildMonthlySeries, getBusinessProfile } from '../service';
+import { supabase } from '../../supabaseClient';
+
+type RpcResult = Awaited<ReturnType<typeof supabase.rpc>>;
+
+describe('buildMonthlySeries', () => {
+  it('fills months without complaints and sums statuses per month', () => {
+    const series = buildMonthlySeries(
+      [
+        { month: '2026-08', status: 'Resolved', count: 2 },
+        { month: '2026-08', status: 'Submitted', count: 1 },
+        { month: '2026-10', status: 'Dismissed', count: 1 },
+        { month: '2025-01', status: 'Resolved', count: 9 },
+      ],
+      3,
+      new Date('2026-10-19T00:00:00Z')
+    );
+
+    expect(series).toEqual([
+      { month: '2026-08', counts: { Resolved: 2, Submitted: 1 }, total: 3 },
+      { month: '2026-09', counts: {}, total: 0 },
+      { month: '2026-10', counts: { Dismissed: 1 }, total: 1 },
+    ]);
+  });
+});
+
+describe('getBusinessProfile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('maps the RPC result and orders statuses by workflow', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: {
+        business: { business_pk: 4, business_name: 'Mercury Drug', business_address: null, business_category: null, business_lat: null, business_lng: null },
+        status_counts: [
+          { status: 'Resolved', count: 2 },
+          { status: 'Submitted', count: 3 },
+        ],
+        category_counts: [
+          { category: 'food_safety', count: 4 },
+          { category: null, count: 1 },
+        ],
+        monthly_counts: [],
+        resolutions: [{ filed_at: '2026-03-01T00:00:00Z', resolved_at: '2026-04-02T00:00:00Z', outcome: '  ' }],
+      },
+      error: null,
+    } as unknown as RpcResult);
+
+    const res = await getBusinessProfile(4);
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_business_profile', { p_business_pk: 4 });
+    expect(res?.kind).toBe('profile');
+    if (res?.kind !== 'profile') return;
+    expect(res.profile.statusCounts).toEqual([
+      { status: 'Submitted', count: 3 },
+      { status: 'Resolved', count: 2 },
+    ]);
+    expect(res.profile.total).toBe(5);
+    expect(res.profile.categoryCounts).toEqual([
+      { category: 'food_safety', count: 4 },
+      { category: null, count: 1 },
+    ]);
+    expect(res.profile.resolutions).toEqual([{ filedAt: '2026-03-01T00:00:00Z', resolvedAt: '2026-04-02T00:00:00Z', outcome: null }]);
+  });
+
+  it('points merged businesses at the business they were merged into', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: { merged_into_business_pk: 2 }, error: null } as unknown as RpcResult);
+    expect(await getBusinessProfile(9)).toEqual({ kind: 'merged', businessPk: 2 });
+  });
+
+  it('distinguishes a missing business from a failed lookup', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: null } as unknown as RpcResult);
+    expect(await getBusinessProfile(9)).toEqual({ kind: 'not_found' });
+
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'boom' } } as unknown as RpcResult);
+    expect(await getBusinessProfile(9)).toBeNull();
+  });
+});
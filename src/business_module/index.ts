@@ -0,0 +1,4 @@
+// Business Module public API
+export * from './types';
+export * from './service';
+export * from './ui/BusinessProfilePage';
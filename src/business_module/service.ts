@@ -0,0 +1,94 @@
+import { supabase } from '../supabaseClient';
+import { COMPLAINT_STATUSES, isComplaintStatus } from '../complaints_module/status';
+import type { ComplaintStatus } from '../complaints_module/status';
+import type {
+  BusinessProfile,
+  BusinessProfileLookup,
+  MonthlyComplaintCounts,
+  PublicBusiness,
+  StatusCount,
+} from './types';
+
+export const PROFILE_MONTHS = 12;
+
+type MonthlyCountRow = { month: string; status: string; count: number };
+
+type BusinessProfileRow = {
+  merged_into_business_pk?: number | null;
+  business?: PublicBusiness;
+  status_counts?: Array<{ status: string; count: number }>;
+  category_counts?: Array<{ category: string | null; count: number }>;
+  monthly_counts?: MonthlyCountRow[];
+  resolutions?: Array<{ filed_at: string; resolved_at: string; outcome: string | null }>;
+};
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * One entry per month for the `months` months up to and including `now`'s month,
+ * so months without complaints show as gaps rather than disappearing.
+ */
+export function buildMonthlySeries(rows: MonthlyCountRow[], months = PROFILE_MONTHS, now = new Date()): MonthlyComplaintCounts[] {
+  const series: MonthlyComplaintCounts[] = [];
+  const byMonth = new Map<string, MonthlyComplaintCounts>();
+
+  for (let i = months - 1; i >= 0; i--) {
+    const entry = { month: monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1))), counts: {}, total: 0 };
+    series.push(entry);
+    byMonth.set(entry.month, entry);
+  }
+
+  for (const row of rows) {
+    const entry = byMonth.get(row.month);
+    if (!entry || !isComplaintStatus(row.status)) continue;
+    entry.counts[row.status] = (entry.counts[row.status] ?? 0) + row.count;
+    entry.total += row.count;
+  }
+
+  return series;
+}
+
+function toStatusCounts(rows: BusinessProfileRow['status_counts']): StatusCount[] {
+  const counts = new Map<ComplaintStatus, number>();
+  for (const row of rows ?? []) {
+    if (isComplaintStatus(row.status)) counts.set(row.status, row.count);
+  }
+  // Workflow order rather than alphabetical
+  return COMPLAINT_STATUSES.filter((s) => counts.has(s)).map((status) => ({ status, count: counts.get(status)! }));
+}
+
+/**
+ * Public profile of a business (get_business_profile RPC). Returns null when the
+ * lookup itself fails.
+ */
+export async function getBusinessProfile(businessPk: number): Promise<BusinessProfileLookup | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_business_profile', { p_business_pk: businessPk });
+    if (error) throw error;
+
+    const row = data as BusinessProfileRow | null;
+    if (!row) return { kind: 'not_found' };
+    if (row.merged_into_business_pk != null) return { kind: 'merged', businessPk: row.merged_into_business_pk };
+    if (!row.business) return { kind: 'not_found' };
+
+    const statusCounts = toStatusCounts(row.status_counts);
+    const profile: BusinessProfile = {
+      business: row.business,
+      statusCounts,
+      total: statusCounts.reduce((sum, s) => sum + s.count, 0),
+      categoryCounts: row.category_counts ?? [],
+      monthly: buildMonthlySeries(row.monthly_counts ?? []),
+      resolutions: (row.resolutions ?? []).map((r) => ({
+        filedAt: r.filed_at,
+        resolvedAt: r.resolved_at,
+        outcome: r.outcome?.trim() || null,
+      })),
+    };
+    return { kind: 'profile', profile };
+  } catch (e) {
+    console.error('getBusinessProfile error', e);
+    return null;
+  }
+}
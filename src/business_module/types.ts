@@ -0,0 +1,55 @@
+// Business Module - Types
+import type { ComplaintStatus } from '../complaints_module/status';
+
+export interface PublicBusiness {
+  business_pk: number;
+  business_name: string;
+  business_address: string | null;
+  business_category: string | null;
+  business_lat: number | null;
+  business_lng: number | null;
+}
+
+export interface StatusCount {
+  status: ComplaintStatus;
+  count: number;
+}
+
+// Complaints by category (complaints_module/complaintCategories); null counts those
+// filed before categories were asked
+export interface CategoryCount {
+  category: string | null;
+  count: number;
+}
+
+// Complaints filed in one calendar month (UTC, "YYYY-MM"), by their current status
+export interface MonthlyComplaintCounts {
+  month: string;
+  counts: Partial<Record<ComplaintStatus, number>>;
+  total: number;
+}
+
+// A resolved complaint as published: dates and the note staff made public, nothing else
+export interface PublicResolution {
+  filedAt: string;
+  resolvedAt: string;
+  outcome: string | null;
+}
+
+export interface BusinessProfile {
+  business: PublicBusiness;
+  statusCounts: StatusCount[];
+  total: number;
+  // Most common first
+  categoryCounts: CategoryCount[];
+  // Oldest first, one entry per month including months without complaints
+  monthly: MonthlyComplaintCounts[];
+  // Latest first
+  resolutions: PublicResolution[];
+}
+
+export type BusinessProfileLookup =
+  | { kind: 'profile'; profile: BusinessProfile }
+  // The business was merged into another; its complaints are counted there
+  | { kind: 'merged'; businessPk: number }
+  | { kind: 'not_found' };
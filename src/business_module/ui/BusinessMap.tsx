@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+const TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/**
+ * BusinessMap
+ * Read-only map centred on a business.
+ */
+export function BusinessMap({ latitude, longitude, label }: { latitude: number; longitude: number; label: string }) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, { scrollWheelZoom: false }).setView([latitude, longitude], 17);
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+    L.circleMarker([latitude, longitude], { radius: 9, color: '#ffffff', weight: 2, fillColor: '#0f172a', fillOpacity: 1 })
+      .bindTooltip(label)
+      .addTo(map);
+
+    return () => {
+      map.remove();
+    };
+  }, [latitude, longitude, label]);
+
+  return <div ref={containerRef} className="h-72 w-full z-0" role="img" aria-label={`Map showing ${label}`} />;
+}
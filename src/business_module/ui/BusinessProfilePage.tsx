@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { ComplaintsHeader } from '../../complaints_module/ui/ComplaintsHeader';
+import { BUSINESS_CATEGORIES } from '../../complaints_module/businessCategories';
+import { getComplaintCategory } from '../../complaints_module/complaintCategories';
+import type { ComplaintStatus } from '../../complaints_module/status';
+import { getBusinessProfile } from '../service';
+import type { BusinessProfile, BusinessProfileLookup, MonthlyComplaintCounts } from '../types';
+import { BusinessMap } from './BusinessMap';
+
+// Bar colours by status, in stacking order (bottom first)
+const STATUS_BAR_COLORS: Record<ComplaintStatus, string> = {
+  Resolved: 'bg-emerald-500',
+  'Inspection In Progress': 'bg-amber-500',
+  'Approved for Inspection': 'bg-sky-600',
+  'Under Review': 'bg-sky-300',
+  Submitted: 'bg-slate-400',
+  Dismissed: 'bg-red-300',
+};
+
+const STACK_ORDER = Object.keys(STATUS_BAR_COLORS) as ComplaintStatus[];
+
+function formatDate(value: string): string {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? '—' : d.toLocaleDateString();
+}
+
+function monthLabel(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' });
+}
+
+function categoryLabel(key: string | null): string | null {
+  if (!key) return null;
+  return BUSINESS_CATEGORIES.find((c) => c.key === key)?.label ?? null;
+}
+
+function MonthlyChart({ monthly }: { monthly: MonthlyComplaintCounts[] }) {
+  const max = Math.max(1, ...monthly.map((m) => m.total));
+  const present = STACK_ORDER.filter((s) => monthly.some((m) => m.counts[s]));
+
+  return (
+    <div>
+      <div className="flex items-end gap-2 h-40 border-b border-slate-200" role="img" aria-label="Complaints filed per month">
+        {monthly.map((m) => (
+          <div key={m.month} className="flex-1 flex flex-col-reverse h-full" title={`${m.month}: ${m.total}`}>
+            {STACK_ORDER.map((s) =>
+              m.counts[s] ? (
+                <div key={s} className={STATUS_BAR_COLORS[s]} style={{ height: `${(m.counts[s]! / max) * 100}%` }} />
+              ) : null
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {monthly.map((m) => (
+          <div key={m.month} className="flex-1 text-center text-xs text-slate-500">
+            {monthLabel(m.month)}
+          </div>
+        ))}
+      </div>
+      {present.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-4 text-xs text-slate-600">
+          {present.map((s) => (
+            <span key={s} className="inline-flex items-center gap-2">
+              <span className={`h-3 w-3 rounded-sm ${STATUS_BAR_COLORS[s]}`} aria-hidden="true" />
+              {s}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Profile({ profile }: { profile: BusinessProfile }) {
+  const { business } = profile;
+  const category = categoryLabel(business.business_category);
+
+  return (
+    <>
+      <div className="mb-8 pb-8 border-b-2 border-slate-200">
+        <h2 className="text-4xl font-bold text-slate-900 tracking-tight">{business.business_name}</h2>
+        <p className="mt-3 text-slate-600 text-lg">{business.business_address || 'No address on file'}</p>
+        {category && <p className="mt-1 text-sm font-semibold uppercase tracking-wide text-slate-500">{category}</p>}
+      </div>
+
+      {business.business_lat != null && business.business_lng != null ? (
+        <div className="border border-slate-200 rounded-lg overflow-hidden">
+          <BusinessMap latitude={business.business_lat} longitude={business.business_lng} label={business.business_name} />
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-lg bg-slate-50 px-4 py-3 text-sm text-slate-600">
+          This business has not been placed on the map yet.
+        </div>
+      )}
+
+      <div className="mt-10">
+        <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">Complaints</p>
+        {profile.total === 0 ? (
+          <p className="mt-3 text-sm text-slate-600">No complaints have been filed against this business.</p>
+        ) : (
+          <div className="mt-4 grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div className="border border-slate-200 rounded-lg px-4 py-3">
+              <div className="text-xs uppercase tracking-wide text-slate-500">Total</div>
+              <div className="mt-1 text-2xl font-bold text-slate-900">{profile.total}</div>
+            </div>
+            {profile.statusCounts.map((s) => (
+              <div key={s.status} className="border border-slate-200 rounded-lg px-4 py-3">
+                <div className="text-xs uppercase tracking-wide text-slate-500">{s.status}</div>
+                <div className="mt-1 text-2xl font-bold text-slate-900">{s.count}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {profile.categoryCounts.length > 0 && (
+        <div className="mt-10">
+          <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">What complaints were about</p>
+          <ul className="mt-4 space-y-2">
+            {profile.categoryCounts.map((c) => (
+              <li key={c.category ?? 'none'} className="flex items-center justify-between gap-4 border-b border-slate-100 pb-2 text-sm">
+                <span className="text-slate-700">
+                  {c.category ? (getComplaintCategory(c.category)?.label ?? c.category) : 'Not categorised'}
+                </span>
+                <span className="font-semibold text-slate-900">{c.count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {profile.total > 0 && (
+        <div className="mt-10">
+          <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">Last 12 months</p>
+          <p className="mt-1 text-sm text-slate-600">By month filed, coloured by each complaint's current status.</p>
+          <div className="mt-4">
+            <MonthlyChart monthly={profile.monthly} />
+          </div>
+        </div>
+      )}
+
+      <div className="mt-10 pt-8 border-t border-slate-200">
+        <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">Inspection outcomes</p>
+        {profile.resolutions.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-600">No complaints against this business have been resolved yet.</p>
+        ) : (
+          <ul className="mt-4 space-y-4">
+            {profile.resolutions.map((r, i) => (
+              <li key={`${r.resolvedAt}-${i}`} className="border-l-4 border-emerald-500 bg-emerald-50 px-4 py-3">
+                <p className="text-sm font-semibold text-slate-900">
+                  Resolved {formatDate(r.resolvedAt)}
+                  <span className="font-normal text-slate-600"> · filed {formatDate(r.filedAt)}</span>
+                </p>
+                <p className="mt-1 text-sm text-slate-700 whitespace-pre-wrap">
+                  {r.outcome ?? 'The receiving office did not publish details of this outcome.'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p className="mt-10 text-xs text-slate-500">
+        Reporters are never identified. Complaints still being handled are only counted; their details stay private
+        until they are resolved.
+      </p>
+    </>
+  );
+}
+
+/**
+ * BusinessProfilePage
+ * Public record of a business: where it is, how many complaints it has received and
+ * how resolved ones ended. Only what get_business_profile publishes is shown.
+ */
+export function BusinessProfilePage() {
+  const { pk } = useParams();
+  const businessPk = Number(pk);
+  const validPk = Number.isInteger(businessPk) && businessPk > 0;
+  // Keyed by business so navigating between profiles shows loading, not the previous one
+  const [loaded, setLoaded] = useState<{ pk: number; lookup: BusinessProfileLookup | null } | null>(null);
+
+  useEffect(() => {
+    if (!validPk) return;
+    let active = true;
+
+    getBusinessProfile(businessPk).then((lookup) => {
+      if (active) setLoaded({ pk: businessPk, lookup });
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [businessPk, validPk]);
+
+  const lookup: BusinessProfileLookup | null | undefined = !validPk
+    ? { kind: 'not_found' }
+    : loaded?.pk === businessPk
+      ? loaded.lookup
+      : undefined;
+
+  if (lookup?.kind === 'merged') return <Navigate to={`/businesses/${lookup.businessPk}`} replace />;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50 flex flex-col gap-8">
+      <ComplaintsHeader subtitle="Official Complaint Management System" />
+
+      <main className="w-full px-8 py-12 flex justify-center">
+        <div className="w-full max-w-6xl">
+          <section className="bg-white rounded-xl shadow-2xl border border-slate-200 p-10 md:p-12 animate-fade-in-up">
+            {lookup === undefined ? (
+              <p className="text-slate-600">Loading business…</p>
+            ) : lookup === null ? (
+              <Alert kind="error" title="Unavailable" message="Unable to load this business right now. Please try again later." />
+            ) : lookup.kind === 'not_found' ? (
+              <div className="space-y-4">
+                <Alert kind="error" title="Business not found" message="There is no public profile for this business." />
+                <Link to="/" className="text-sm font-semibold text-blue-700 hover:underline">
+                  ← Back to home
+                </Link>
+              </div>
+            ) : (
+              <Profile profile={lookup.profile} />
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default BusinessProfilePage;
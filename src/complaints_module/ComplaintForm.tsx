@@ -1,15 +1,40 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../supabaseClient';
-import { submitComplaint } from './db';
-import { validateForm, getFieldError } from './validation';
-import type { ComplaintFormData, FormError } from './types';
+import { IN_APP_CAPTURE_PREFIX, submitComplaint } from './db';
+import { clearDraft, fromDraftImages, isDraftEmpty, loadDraft, saveDraft, toDraftImages } from './drafts';
+import type { ComplaintDraft } from './drafts';
+import { enqueueComplaint, isOffline, shouldQueue } from './outbox';
+import { describeEvidence, readMediaInfo } from './mediaInfo';
+import { MEDIA_RULES, validateCategory, validateForm, getFieldError, mediaDurationError } from './validation';
+import { formatCategoryAnswer, getComplaintCategory } from './complaintCategories';
+import type { CategoryAnswer } from './complaintCategories';
+import type {
+  BusinessLookupRow,
+  BusinessSearchResult,
+  ComplaintFormData,
+  EvidenceKind,
+  EvidenceUploadProgress,
+  FormError,
+  LocationSample,
+} from './types';
 import { Button } from './ui/Button';
 import { Panel } from './ui/Panel';
 import { Field } from './ui/Field';
 import { Alert } from './ui/Alert';
 import { StepHeader } from './ui/StepHeader';
 import { HelpText } from './ui/HelpText';
+import { UploadProgressList } from './ui/UploadProgressList';
+import { MediaEvidenceList } from './ui/MediaEvidenceList';
+import { FilePreview } from './ui/FilePreview';
+import { RecordingControls } from './ui/RecordingControls';
+import { LocationPinMap } from './ui/LocationPinMap';
+import { UnlistedBusinessFields } from './ui/UnlistedBusinessFields';
+import type { UnlistedBusinessChange } from './ui/UnlistedBusinessFields';
+import { ComplaintCategoryFields } from './ui/ComplaintCategoryFields';
+import { collectLocationSamples, pickFix } from './locationSampling';
+import { formatSearchDistance, highlightMatches, searchBusinesses } from './businessSearch';
+import type { AcquiredStream } from './ui/RecordingControls';
 
 function formatGeo(value: number | undefined | null, digits = 6): string {
   if (typeof value !== 'number' || !Number.isFinite(value)) return '—';
@@ -26,6 +51,22 @@ function formatDistanceMeters(value: number | undefined | null): string {
   return `${Math.round(value)}m`;
 }
 
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+      <>
+          {highlightMatches(text, query).map((segment, i) =>
+            segment.match ? (
+              <mark key={i} className="bg-yellow-100 text-inherit">
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={i}>{segment.text}</span>
+            )
+          )}
+      </>
+  );
+}
+
 type FormStep = 'business-info' | 'photo' | 'location' | 'complaint-details' | 'evidence' | 'review';
 
 const FORM_STEPS: Array<{ id: FormStep; title: string; description: string }> = [
@@ -37,20 +78,27 @@ const FORM_STEPS: Array<{ id: FormStep; title: string; description: string }> =
   { id: 'review', title: 'Review', description: '' },
 ];
 
-type BusinessLookupRow = {
-  business_pk: number;
-  business_name: string | null;
-  business_address: string | null;
-  business_lat: number | null;
-  business_lng: number | null;
-};
-
 type LocationStatus =
   | { kind: 'idle' }
   | { kind: 'requesting' }
   | { kind: 'captured' }
   | { kind: 'blocked'; message: string };
 
+type DeviceLocation = NonNullable<ComplaintFormData['location']>;
+type PinnedLocation = NonNullable<ComplaintFormData['pinnedLocation']>;
+
+type ProximityResponse = {
+  ok?: boolean;
+  tag?: 'Location Verified' | 'Failed Location Verification';
+  distance_meters?: number;
+  verified_by?: 'device' | 'pin' | null;
+  pin_consistent?: boolean | null;
+  location_integrity?: { verdict: 'consistent' | 'suspicious' | 'insufficient' };
+  // Decided by the server from the business's category and area
+  threshold_meters?: number;
+  business_coords?: { lat: number; lng: number };
+};
+
 type CameraState =
   | { kind: 'idle' }
   | { kind: 'starting' }
@@ -110,9 +158,11 @@ async function waitForVideoReady(video: HTMLVideoElement, timeoutMs = 5000): Pro
   });
 }
 
-export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string }) {
+export default function ComplaintForm({ prefillEmail, emailClaim }: { prefillEmail?: string; emailClaim?: string }) {
   const navigate = useNavigate();
   const formTopRef = useRef<HTMLDivElement | null>(null);
+  // Kept across retries of the same report so the server can tell a repeat from a new one
+  const submissionIdRef = useRef<string | null>(null);
   const [currentStep, setCurrentStep] = useState<FormStep>('business-info');
   const currentStepIndex = FORM_STEPS.findIndex((s) => s.id === currentStep);
   const stepMeta = useMemo(() => FORM_STEPS[currentStepIndex], [currentStepIndex]);
@@ -120,7 +170,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
   // Business lookup
   const [businessSearch, setBusinessSearch] = useState('');
   const [isBusinessSearching, setIsBusinessSearching] = useState(false);
-  const [businessResults, setBusinessResults] = useState<BusinessLookupRow[]>([]);
+  const [businessResults, setBusinessResults] = useState<BusinessSearchResult[]>([]);
   const [selectedBusiness, setSelectedBusiness] = useState<BusinessLookupRow | null>(null);
 
   // Location
@@ -147,6 +197,8 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     complaintDescription: '',
     reporterEmail: prefillEmail ?? '',
     images: [],
+    videos: [],
+    audio: [],
     businessPk: undefined,
     location: undefined,
     locationVerificationTag: undefined,
@@ -157,53 +209,67 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitMessage, setSubmitMessage] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<EvidenceUploadProgress[]>([]);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [evidencePreviews, setEvidencePreviews] = useState<string[]>([]);
   const additionalPhotosInputRef = useRef<HTMLInputElement | null>(null);
+  const videosInputRef = useRef<HTMLInputElement | null>(null);
+  const audioInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Draft (IndexedDB). Autosave starts only once any saved draft has been resumed or discarded.
+  const [draftState, setDraftState] = useState<'checking' | 'prompt' | 'ready'>('checking');
+  const [savedDraft, setSavedDraft] = useState<ComplaintDraft | null>(null);
 
   const businessNameError = getFieldError(errors, 'businessName');
   const businessAddressError = getFieldError(errors, 'businessAddress');
   const complaintDescriptionError = getFieldError(errors, 'complaintDescription');
   const reporterEmailError = getFieldError(errors, 'reporterEmail');
+  const reviewCategory = getComplaintCategory(formData.complaintCategory);
   const imagesError = getFieldError(errors, 'images');
+  const videosError = getFieldError(errors, 'videos');
+  const audioError = getFieldError(errors, 'audio');
 
-  const requestDeviceLocation = (): Promise<void> => {
+  // Resolves with the new fix and the readings it was picked from, or null when none could be captured
+  const requestDeviceLocation = (): Promise<{ location: DeviceLocation; samples: LocationSample[] } | null> => {
     if (!('geolocation' in navigator)) {
       setLocationStatus({ kind: 'blocked', message: 'Geolocation is not supported by this browser.' });
-      return Promise.resolve();
+      return Promise.resolve(null);
     }
 
     setLocationStatus({ kind: 'requesting' });
     setLocationError(null);
 
-    return new Promise((resolve) => {
-      navigator.geolocation.getCurrentPosition(
-        (pos) => {
-          const captured = {
-            latitude: pos.coords.latitude,
-            longitude: pos.coords.longitude,
-            accuracy: Number.isFinite(pos.coords.accuracy) ? pos.coords.accuracy : null,
-            timestamp: pos.timestamp,
-          };
-
-          setFormData((prev) => ({ ...prev, location: captured }));
-          setLocationStatus({ kind: 'captured' });
-          resolve();
-        },
-        (err) => {
-          const message =
-            err.code === err.PERMISSION_DENIED
-              ? 'Location permission was denied. Please enable it in your browser settings.'
-              : err.code === err.POSITION_UNAVAILABLE
-                ? 'Location is unavailable. Please try again.'
-                : 'Location request timed out. Please try again.';
-
-          setLocationStatus({ kind: 'blocked', message });
-          setLocationError(message);
-          resolve();
-        },
-        { enableHighAccuracy: true, timeout: 12000, maximumAge: 0 }
-      );
+    return collectLocationSamples().then((result) => {
+      if (!result.ok) {
+        const err = result.error;
+        const message =
+          err && err.code === err.PERMISSION_DENIED
+            ? 'Location permission was denied. Please enable it in your browser settings.'
+            : err && err.code === err.POSITION_UNAVAILABLE
+              ? 'Location is unavailable. Please try again.'
+              : 'Location request timed out. Please try again.';
+
+        setLocationStatus({ kind: 'blocked', message });
+        setLocationError(message);
+        return null;
+      }
+
+      const fix = pickFix(result.samples)!;
+      const captured: DeviceLocation = {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        accuracy: fix.accuracy,
+        timestamp: fix.timestamp,
+      };
+
+      // A pin placed against the previous fix no longer applies
+      setFormData((prev) => ({
+        ...prev,
+        location: captured,
+        locationSamples: result.samples,
+        pinnedLocation: undefined,
+      }));
+      setLocationStatus({ kind: 'captured' });
+      return { location: captured, samples: result.samples };
     });
   };
 
@@ -216,7 +282,97 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     setFormData((prev) => ({ ...prev, reporterEmail: prefillEmail ?? prev.reporterEmail ?? '' }));
   }, [prefillEmail]);
 
-  // Business lookup (debounced)
+  useEffect(() => {
+    let cancelled = false;
+    void loadDraft().then((draft) => {
+      if (cancelled) return;
+      setSavedDraft(draft);
+      setDraftState(draft && !isDraftEmpty(draft) ? 'prompt' : 'ready');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave (debounced)
+  useEffect(() => {
+    if (draftState !== 'ready') return;
+
+    const handle = window.setTimeout(() => {
+      const draft: Omit<ComplaintDraft, 'savedAt'> = {
+        step: currentStep,
+        formData: {
+          businessName: formData.businessName,
+          businessAddress: formData.businessAddress,
+          complaintDescription: formData.complaintDescription,
+          complaintCategory: formData.complaintCategory,
+          categoryDetails: formData.categoryDetails,
+          reporterEmail: formData.reporterEmail,
+          businessPk: formData.businessPk,
+          newBusiness: formData.newBusiness,
+          location: formData.location,
+          locationSamples: formData.locationSamples,
+          pinnedLocation: formData.pinnedLocation,
+          locationVerificationTag: formData.locationVerificationTag,
+        },
+        images: toDraftImages(formData.images || []),
+        unsavedMedia: { videos: formData.videos?.length ?? 0, audio: formData.audio?.length ?? 0 },
+        selectedBusiness,
+        verification: {
+          message: verificationMessage,
+          distanceMeters: verificationDistanceMeters,
+          hasRunLocationCheck,
+        },
+      };
+
+      void (isDraftEmpty(draft) ? clearDraft() : saveDraft(draft));
+    }, 500);
+
+    return () => window.clearTimeout(handle);
+  }, [draftState, currentStep, formData, selectedBusiness, verificationMessage, verificationDistanceMeters, hasRunLocationCheck]);
+
+  const resumeDraft = () => {
+    if (!savedDraft) return;
+
+    const images = fromDraftImages(savedDraft.images);
+
+    setFormData((prev) => ({
+      ...prev,
+      ...savedDraft.formData,
+      // A freshly verified email wins over whatever was typed in the draft.
+      reporterEmail: prefillEmail || savedDraft.formData.reporterEmail || prev.reporterEmail || '',
+      images,
+      certificationAccepted: false,
+    }));
+
+    setSelectedBusiness(savedDraft.selectedBusiness);
+    setBusinessSearch(savedDraft.selectedBusiness?.business_name || '');
+    setVerificationMessage(savedDraft.verification.message);
+    setVerificationDistanceMeters(savedDraft.verification.distanceMeters);
+    setHasRunLocationCheck(savedDraft.verification.hasRunLocationCheck);
+
+    if (images.length > 0) {
+      const reader = new FileReader();
+      reader.onload = (e) => setImagePreview(e.target?.result as string);
+      reader.readAsDataURL(images[0]);
+    }
+
+    setCurrentStep(FORM_STEPS.find((s) => s.id === savedDraft.step)?.id ?? 'business-info');
+    setSavedDraft(null);
+    setDraftState('ready');
+  };
+
+  const unsavedClipCount = (savedDraft?.unsavedMedia?.videos ?? 0) + (savedDraft?.unsavedMedia?.audio ?? 0);
+
+  const discardDraft = () => {
+    void clearDraft();
+    setSavedDraft(null);
+    setDraftState('ready');
+  };
+
+  // Business lookup (debounced); nearer businesses rank higher once the device location is known
+  const nearLat = formData.location?.latitude;
+  const nearLng = formData.location?.longitude;
   useEffect(() => {
     const term = businessSearch.trim();
     if (term.length < 2) {
@@ -226,22 +382,25 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     }
 
     setIsBusinessSearching(true);
+    let cancelled = false;
 
     const handle = window.setTimeout(async () => {
-      const { data, error } = await supabase
-        .from('businesses')
-        .select('business_pk,business_name,business_address,business_lat,business_lng')
-        .ilike('business_name', `%${term}%`)
-        .limit(10);
+      const near = nearLat != null && nearLng != null ? { latitude: nearLat, longitude: nearLng } : null;
+      const results = await searchBusinesses(term, near);
+      if (cancelled) return;
 
-      setBusinessResults(!error && data ? (data as BusinessLookupRow[]) : []);
+      setBusinessResults(results);
       setIsBusinessSearching(false);
     }, 250);
 
-    return () => window.clearTimeout(handle);
-  }, [businessSearch]);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(handle);
+    };
+  }, [businessSearch, nearLat, nearLng]);
 
   const setSinglePhoto = (file: File | null) => {
+    setUploadProgress([]);
     if (!file) {
       setFormData((prev) => ({ ...prev, images: [] }));
       setImagePreview(null);
@@ -406,7 +565,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     canvas.toBlob(
       (blob) => {
         if (!blob) return;
-        const file = new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' });
+        const file = new File([blob], `${IN_APP_CAPTURE_PREFIX}${Date.now()}.jpg`, { type: 'image/jpeg' });
         setSinglePhoto(file);
         stopCamera();
         setErrors((prev) => prev.filter((e) => e.field !== 'images'));
@@ -416,13 +575,27 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     );
   };
 
-  const verifyBusinessProximity = async () => {
-    if (!formData.location) {
+  // Takes the location explicitly: right after a new fix or a pin drag, formData is not updated yet
+  const verifyBusinessProximity = async (
+    location: DeviceLocation | undefined,
+    pin: PinnedLocation | undefined,
+    samples: LocationSample[] = []
+  ) => {
+    if (!location) {
       setVerificationMessage('Location not available.');
       setFormData((prev) => ({ ...prev, locationVerificationTag: 'Failed Location Verification' }));
       return;
     }
 
+    if (formData.newBusiness) {
+      setHasRunLocationCheck(true);
+      setVerificationMessage(
+        'This business is not listed yet, so your distance to it cannot be checked. Staff will review its location.'
+      );
+      setFormData((prev) => ({ ...prev, locationVerificationTag: undefined }));
+      return;
+    }
+
     if (!selectedBusiness?.business_pk) {
       setVerificationMessage('Select a business first.');
       setFormData((prev) => ({ ...prev, locationVerificationTag: 'Failed Location Verification' }));
@@ -434,25 +607,26 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     setHasRunLocationCheck(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('verify-business-proximity', {
+      const { data: response, error } = await supabase.functions.invoke('verify-business-proximity', {
         body: {
           business_pk: selectedBusiness.business_pk,
-          reporter_lat: formData.location.latitude,
-          reporter_lng: formData.location.longitude,
-          threshold_meters: 200,
+          reporter_lat: location.latitude,
+          reporter_lng: location.longitude,
+          reporter_accuracy: location.accuracy,
+          pin_lat: pin?.latitude ?? null,
+          pin_lng: pin?.longitude ?? null,
+          samples,
         },
       });
+      const data = response as ProximityResponse | null;
 
       // If the function returned resolved business coords, store them locally for map preview.
-      if (data?.business_coords && typeof data.business_coords.lat === 'number' && typeof data.business_coords.lng === 'number') {
-        setSelectedBusiness((prev) =>
-          prev
-            ? { ...prev, business_lat: data.business_coords.lat, business_lng: data.business_coords.lng }
-            : prev
-        );
+      const coords = data?.business_coords;
+      if (coords && typeof coords.lat === 'number' && typeof coords.lng === 'number') {
+        setSelectedBusiness((prev) => (prev ? { ...prev, business_lat: coords.lat, business_lng: coords.lng } : prev));
       }
 
-      if (error || !data?.ok) {
+      if (error || !data?.ok || !data.tag) {
         setVerificationMessage('We could not verify proximity. You may continue, but the complaint will be flagged.');
         setVerificationDistanceMeters(null);
         setFormData((prev) => ({ ...prev, locationVerificationTag: 'Failed Location Verification' }));
@@ -460,18 +634,32 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
       }
 
       const distance = typeof data.distance_meters === 'number' ? data.distance_meters : null;
-      const tag = data.tag as 'Location Verified' | 'Failed Location Verification';
+      const tag = data.tag;
+      const about = distance != null ? ` (about ${formatDistanceMeters(distance)})` : '';
+      const within =
+        typeof data.threshold_meters === 'number'
+          ? ` Within ${formatDistanceMeters(data.threshold_meters)} counts as near for this business.`
+          : '';
 
       setVerificationDistanceMeters(distance);
       setFormData((prev) => ({ ...prev, locationVerificationTag: tag }));
 
       if (tag === 'Location Verified') {
-        setVerificationMessage(distance != null ? `You appear to be near the business (about ${Math.round(distance)}m).` : 'You appear to be near the business.');
+        setVerificationMessage(
+          (data.verified_by === 'pin'
+            ? `Your pinned position is near the business${about}.`
+            : `You appear to be near the business${about}.`) + within
+        );
+      } else if (data.location_integrity?.verdict === 'suspicious') {
+        setVerificationMessage(
+          'Your location readings look unusual, so they could not be used. If a location-changing app is on, turn it off and check again.' +
+            ' You can still continue, but the complaint will be flagged for review.'
+        );
       } else {
         setVerificationMessage(
-          distance != null
-            ? `You appear to be far from the business (about ${Math.round(distance)}m). This could affect how your complaint is reviewed.`
-            : 'You appear to be far from the business. This could affect how your complaint is reviewed.'
+          `You appear to be far from the business${about}.${within}` +
+            (data.pin_consistent === false ? ' The pin is too far from your device location to count.' : '') +
+            ' You can still continue, but being far away may affect how your complaint is reviewed.'
         );
       }
     } finally {
@@ -479,12 +667,80 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     }
   };
 
+  const movePin = (pin: PinnedLocation) => {
+    setFormData((prev) => ({ ...prev, pinnedLocation: pin }));
+    void verifyBusinessProximity(formData.location, pin, formData.locationSamples);
+  };
+
+  const resetPin = () => {
+    setFormData((prev) => ({ ...prev, pinnedLocation: undefined }));
+    void verifyBusinessProximity(formData.location, undefined, formData.locationSamples);
+  };
+
+  // "Business not listed": name and address are typed in instead of picked from the search
+  const addUnlistedBusiness = () => {
+    setSelectedBusiness(null);
+    setBusinessResults([]);
+    setFormData((prev) => ({
+      ...prev,
+      businessPk: undefined,
+      businessName: businessSearch.trim(),
+      businessAddress: '',
+      newBusiness: { category: null, location: null },
+      locationVerificationTag: undefined,
+    }));
+    setVerificationMessage(null);
+    setVerificationDistanceMeters(null);
+    setErrors((prev) => prev.filter((e) => e.field !== 'businessName' && e.field !== 'businessAddress'));
+  };
+
+  const changeUnlistedBusiness = ({ name, address, ...change }: UnlistedBusinessChange) => {
+    setFormData((prev) => ({
+      ...prev,
+      businessName: name ?? prev.businessName,
+      businessAddress: address ?? prev.businessAddress,
+      newBusiness: prev.newBusiness ? { ...prev.newBusiness, ...change } : prev.newBusiness,
+    }));
+    if (name !== undefined) setErrors((prev) => prev.filter((e) => e.field !== 'businessName'));
+    if (address !== undefined) setErrors((prev) => prev.filter((e) => e.field !== 'businessAddress'));
+  };
+
+  // Back to the search, starting from the name typed so far
+  const leaveUnlistedBusiness = () => {
+    setBusinessSearch(formData.businessName || '');
+    setFormData((prev) => ({ ...prev, newBusiness: undefined, businessName: '', businessAddress: '' }));
+    setVerificationMessage(null);
+    setErrors((prev) => prev.filter((e) => e.field !== 'businessName' && e.field !== 'businessAddress'));
+  };
+
+  // Switching category starts its questions afresh
+  const changeCategory = (complaintCategory: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      complaintCategory,
+      categoryDetails: prev.complaintCategory === complaintCategory ? prev.categoryDetails : {},
+    }));
+    setErrors((prev) => prev.filter((e) => e.field !== 'complaintCategory' && !e.field.startsWith('categoryDetails.')));
+  };
+
+  const answerCategoryQuestion = (questionId: string, answer: CategoryAnswer | undefined) => {
+    setFormData((prev) => {
+      const categoryDetails = { ...prev.categoryDetails };
+      if (answer === undefined) delete categoryDetails[questionId];
+      else categoryDetails[questionId] = answer;
+      return { ...prev, categoryDetails };
+    });
+    setErrors((prev) => prev.filter((e) => e.field !== `categoryDetails.${questionId}`));
+  };
+
   const focusFirstInvalidField = (stepErrors: FormError[]) => {
     const fields: Array<FormError['field']> = stepErrors.map((e) => e.field);
 
     const focusable: Array<FormError['field']> = [
       'businessName',
       'images',
+      'complaintCategory',
+      ...fields.filter((f) => f.startsWith('categoryDetails.')),
       'complaintDescription',
       'reporterEmail',
     ];
@@ -506,7 +762,11 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
       case 'business-info':
         if (!formData.businessName?.trim()) stepErrors.push({ field: 'businessName', message: 'Select a business.' });
         if (!formData.businessAddress?.trim()) stepErrors.push({ field: 'businessAddress', message: 'Business address is required.' });
-        if (!formData.businessPk) stepErrors.push({ field: 'businessName', message: 'Select from the list.' });
+        if (formData.newBusiness) {
+          stepErrors.push(...validateForm(formData).filter((e) => e.field === 'businessName' || e.field === 'businessAddress'));
+        } else if (!formData.businessPk) {
+          stepErrors.push({ field: 'businessName', message: 'Select from the list, or add the business if it is not listed.' });
+        }
         break;
 
       case 'photo':
@@ -515,16 +775,21 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
 
       case 'location':
         if (!formData.location) stepErrors.push({ field: 'reporterEmail', message: 'Location required.' });
-        if (!formData.locationVerificationTag) stepErrors.push({ field: 'reporterEmail', message: 'Run verification.' });
+        // A business that is not listed yet has no location to check against
+        if (!formData.locationVerificationTag && !formData.newBusiness) {
+          stepErrors.push({ field: 'reporterEmail', message: 'Run verification.' });
+        }
         break;
 
       case 'complaint-details':
+        stepErrors.push(...validateCategory(formData.complaintCategory, formData.categoryDetails));
         if (!formData.complaintDescription?.trim()) stepErrors.push({ field: 'complaintDescription', message: 'Add details.' });
         else if (formData.complaintDescription.length < 20) stepErrors.push({ field: 'complaintDescription', message: 'At least 20 characters.' });
         if (!formData.reporterEmail?.trim()) stepErrors.push({ field: 'reporterEmail', message: 'Email required.' });
         break;
 
       case 'evidence':
+        stepErrors.push(...validateForm(formData).filter((e) => e.field === 'videos' || e.field === 'audio'));
         break;
 
       case 'review': {
@@ -568,8 +833,28 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     }
   };
 
+  // Could not reach the server: keep the full payload in the outbox and show the pending confirmation.
+  const queueForLater = async (payload: ComplaintFormData) => {
+    const entry = await enqueueComplaint(payload);
+    if (!entry) {
+      setSubmitError('The report could not be sent or saved for later. Please try again once connected.');
+      return;
+    }
+
+    await clearDraft();
+
+    navigate(`/complaints/confirmation?pending=${encodeURIComponent(entry.id)}`, {
+      state: { email: payload.reporterEmail.trim() },
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await submitReport();
+  };
+
+  // Also used by the per-photo Retry button; finished uploads are not repeated
+  const submitReport = async () => {
     setSubmitMessage(null);
     setSubmitError(null);
 
@@ -582,17 +867,32 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
         businessName: formData.businessName || '',
         businessAddress: formData.businessAddress || '',
         complaintDescription: formData.complaintDescription || '',
+        complaintCategory: formData.complaintCategory,
+        categoryDetails: formData.categoryDetails,
         reporterEmail: formData.reporterEmail || '',
         images: formData.images || [],
+        videos: formData.videos || [],
+        audio: formData.audio || [],
         businessPk: formData.businessPk,
+        newBusiness: formData.newBusiness,
         location: formData.location,
-        locationVerificationTag: formData.locationVerificationTag,
+        locationSamples: formData.locationSamples,
+        pinnedLocation: formData.pinnedLocation,
         certificationAccepted: !!formData.certificationAccepted,
+        emailClaim,
+        submissionId: (submissionIdRef.current ??= crypto.randomUUID()),
       };
 
-      const result = await submitComplaint(payload);
+      if (isOffline()) {
+        await queueForLater(payload);
+        return;
+      }
+
+      const result = await submitComplaint(payload, setUploadProgress);
 
       if (result.success && result.complaintId) {
+        await clearDraft();
+
         const emailToUse = (formData.reporterEmail || '').trim();
 
         // Send confirmation email with complaint ID
@@ -609,6 +909,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
         }
 
         // Clear local form state (user can start a new submission from the submit page)
+        submissionIdRef.current = null;
         setSubmitMessage(null);
         setSubmitError(null);
 
@@ -618,6 +919,8 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
           complaintDescription: '',
           reporterEmail: '',
           images: [],
+          videos: [],
+          audio: [],
           businessPk: undefined,
           location: undefined,
           locationVerificationTag: undefined,
@@ -636,10 +939,20 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
           state: {
             complaintId: result.complaintId,
             email: emailToUse,
+            evidence: {
+              photos: payload.images.length,
+              videos: payload.videos?.length ?? 0,
+              audio: payload.audio?.length ?? 0,
+            },
           },
         });
+      } else if (shouldQueue(result)) {
+        // Connectivity dropped mid-submit, or the server could not take it right now.
+        await queueForLater(payload);
       } else {
-        setSubmitError(result.message);
+        const fileDetails = (result.fileErrors || []).map((f) => `${f.fileName}: ${f.message}.`).join(' ');
+        setSubmitError(fileDetails ? `${result.message} ${fileDetails}` : result.message);
+        if (result.fieldErrors?.length) setErrors(result.fieldErrors);
       }
     } catch (err) {
       setSubmitError('An unexpected error occurred. Please try again.');
@@ -649,21 +962,74 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
     }
   };
 
-  const handleEvidenceFiles = (type: 'images', files: FileList | null) => {
+  const handleEvidenceFiles = (type: EvidenceKind, files: FileList | null) => {
     if (!files) return;
     const list = Array.from(files);
+    setUploadProgress([]);
 
     setFormData((prev) => ({
       ...prev,
-      images: [...(prev.images || []), ...list],
+      [type]: [...(prev[type] || []), ...list],
     }));
 
-    // Store local preview URLs for the newly added files.
-    setEvidencePreviews((prev) => [...prev, ...list.map((f) => URL.createObjectURL(f))]);
+    setErrors((prev) => prev.filter((e) => e.field !== type));
+
+    if (type !== 'images') void dropOverlongMedia(type, list);
+  };
+
+  // Clips over the duration limit are taken out again as soon as their length is known.
+  const dropOverlongMedia = async (type: 'videos' | 'audio', files: File[]) => {
+    for (const file of files) {
+      const message = mediaDurationError(type, (await readMediaInfo(file)).durationSeconds);
+      if (!message) continue;
+
+      setFormData((prev) => ({ ...prev, [type]: (prev[type] || []).filter((f) => f !== file) }));
+      setErrors((prev) => [...prev.filter((e) => e.field !== type), { field: type, message: `${file.name}: ${message}` }]);
+    }
+  };
+
+  const removeMedia = (type: 'videos' | 'audio', index: number) => {
+    setUploadProgress([]);
+    setFormData((prev) => ({ ...prev, [type]: (prev[type] || []).filter((_, i) => i !== index) }));
+    setErrors((prev) => prev.filter((e) => e.field !== type));
+  };
 
+  const addRecording = (type: 'videos' | 'audio', file: File) => {
+    setUploadProgress([]);
+    setFormData((prev) => ({ ...prev, [type]: [...(prev[type] || []), file] }));
     setErrors((prev) => prev.filter((e) => e.field !== type));
   };
 
+  const setMediaError = (type: 'videos' | 'audio', message: string) =>
+    setErrors((prev) => [...prev.filter((e) => e.field !== type), { field: type, message }]);
+
+  // Clips reuse the open camera stream; the microphone is added when allowed, else the clip is silent.
+  const acquireClipStream = async (): Promise<AcquiredStream | null> => {
+    const camera = mediaStreamRef.current;
+    if (!camera) return null;
+
+    const mic = await navigator.mediaDevices.getUserMedia({ audio: true }).catch(() => null);
+    return {
+      stream: new MediaStream([...camera.getVideoTracks(), ...(mic?.getAudioTracks() ?? [])]),
+      release: () => mic?.getTracks().forEach((t) => t.stop()),
+    };
+  };
+
+  const acquireMicStream = async (): Promise<AcquiredStream | null> => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setMediaError('audio', 'Microphone is not supported by this browser.');
+      return null;
+    }
+    try {
+      const mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+      return { stream: mic, release: () => mic.getTracks().forEach((t) => t.stop()) };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Unable to access microphone';
+      setMediaError('audio', `Unable to access the microphone. Check browser site permissions. Details: ${msg}`);
+      return null;
+    }
+  };
+
   return (
     <div
       ref={formTopRef}
@@ -676,6 +1042,28 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
             <StepHeader stepIndex={currentStepIndex} stepCount={FORM_STEPS.length} title={stepMeta.title} description={stepMeta.description} />
           </div>
 
+          {draftState === 'prompt' && savedDraft && (
+            <Panel
+              title="Resume your report?"
+              subtitle={`You have an unfinished report saved on this device (last edited ${new Date(savedDraft.savedAt).toLocaleString()}).`}
+            >
+              {unsavedClipCount > 0 && (
+                <p className="mb-4 text-sm text-slate-600">
+                  Video clips and audio recordings are not saved with drafts. Add the {unsavedClipCount} you had chosen
+                  again after resuming.
+                </p>
+              )}
+              <div className="flex flex-wrap gap-3">
+                <Button type="button" size="lg" onClick={resumeDraft}>
+                  Resume
+                </Button>
+                <Button type="button" variant="secondary" size="lg" onClick={discardDraft}>
+                  Start over
+                </Button>
+              </div>
+            </Panel>
+          )}
+
           {submitError && <Alert kind="error" title="Submission failed" message={submitError} />}
 
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -690,6 +1078,23 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
 
                     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
                       <div className="lg:col-span-7">
+                        {formData.newBusiness ? (
+                          <div className="space-y-4">
+                            <UnlistedBusinessFields
+                              name={formData.businessName || ''}
+                              address={formData.businessAddress || ''}
+                              business={formData.newBusiness}
+                              device={formData.location ?? null}
+                              nameError={businessNameError}
+                              addressError={businessAddressError}
+                              onChange={changeUnlistedBusiness}
+                            />
+                            <Button type="button" variant="secondary" onClick={leaveUnlistedBusiness}>
+                              Back to search
+                            </Button>
+                          </div>
+                        ) : (
+                        <>
                         <Field label="Business" hint="Type at least 2 characters" error={businessNameError}>
                           <div className="relative">
                             <input
@@ -742,6 +1147,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                                             setFormData((prev) => ({
                                               ...prev,
                                               businessPk: b.business_pk,
+                                              newBusiness: undefined,
                                               businessName: b.business_name || '',
                                               businessAddress: b.business_address || '',
                                               locationVerificationTag: undefined,
@@ -751,12 +1157,26 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                                             setErrors((prev) => prev.filter((e) => e.field !== 'businessName'))
                                           }}
                                         >
-                                          <div className="text-base font-semibold text-slate-900">
-                                            {b.business_name || 'Unnamed business'}
+                                          <div className="flex items-baseline justify-between gap-4">
+                                            <div className="text-base font-semibold text-slate-900">
+                                              {b.business_name ? <Highlighted text={b.business_name} query={businessSearch} /> : 'Unnamed business'}
+                                            </div>
+                                            {formatSearchDistance(b.distance_meters) && (
+                                              <div className="shrink-0 text-sm text-slate-500">
+                                                {formatSearchDistance(b.distance_meters)} away
+                                              </div>
+                                            )}
                                           </div>
                                           <div className="text-sm text-slate-600 mt-1">
-                                            {b.business_address || 'No address on file'}
+                                            {b.business_address ? (
+                                              <Highlighted text={b.business_address} query={businessSearch} />
+                                            ) : (
+                                              'No address on file'
+                                            )}
                                           </div>
+                                          {b.business_status === 'pending' && (
+                                            <div className="text-xs text-slate-500 mt-1">Added by a reporter, pending review</div>
+                                          )}
                                         </button>
                                       </li>
                                     ))}
@@ -766,6 +1186,22 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                             )}
                           </div>
                         </Field>
+
+                        {!selectedBusiness && businessSearch.trim().length >= 2 && !isBusinessSearching && (
+                          <div className="mt-4 text-sm text-slate-700">
+                            Can't find it?{' '}
+                            <button
+                              type="button"
+                              className="font-semibold text-blue-700 hover:underline"
+                              onClick={addUnlistedBusiness}
+                            >
+                              Add the business
+                            </button>{' '}
+                            and staff will review it.
+                          </div>
+                        )}
+                        </>
+                        )}
                       </div>
 
                       <div className="lg:col-span-5">
@@ -774,11 +1210,16 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                             <div>
                               <div className="text-xs font-semibold text-slate-600 uppercase tracking-widest">Selected</div>
                               <div className="mt-2 text-lg font-bold text-slate-900 break-words">
-                                {selectedBusiness?.business_name || 'No business selected'}
+                                {formData.newBusiness
+                                  ? formData.businessName || 'New business'
+                                  : selectedBusiness?.business_name || 'No business selected'}
                               </div>
+                              {formData.newBusiness && (
+                                <div className="mt-1 text-sm text-slate-600">Not listed yet; staff will review it.</div>
+                              )}
                             </div>
 
-                            {selectedBusiness && (
+                            {(selectedBusiness || formData.newBusiness) && (
                               <Button
                                 type="button"
                                 variant="secondary"
@@ -789,6 +1230,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                                   setFormData((prev) => ({
                                     ...prev,
                                     businessPk: undefined,
+                                    newBusiness: undefined,
                                     businessName: '',
                                     businessAddress: '',
                                     locationVerificationTag: undefined,
@@ -805,7 +1247,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                             <div className="mt-2 text-sm text-slate-800 whitespace-pre-wrap break-words">
                               {formData.businessAddress || 'Select a business to view its address.'}
                             </div>
-                            {businessAddressError && (
+                            {businessAddressError && !formData.newBusiness && (
                               <div className="mt-3 text-sm text-red-700 font-semibold">{businessAddressError}</div>
                             )}
                           </div>
@@ -924,20 +1366,17 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                       <div className="lg:col-span-7">
                         <div className="border border-slate-200 overflow-hidden bg-slate-50">
                           {hasRunLocationCheck && formData.location ? (
-                            <iframe
-                              title="Map preview"
-                              className="w-full h-80"
-                              loading="lazy"
-                              referrerPolicy="no-referrer"
-                              src={(() => {
-                                const userLat = formData.location?.latitude;
-                                const userLng = formData.location?.longitude;
-
-                                const pad = 0.01;
-
-                                const bbox = `${(userLng - pad).toFixed(6)},${(userLat - pad).toFixed(6)},${(userLng + pad).toFixed(6)},${(userLat + pad).toFixed(6)}`;
-                                return `https://www.openstreetmap.org/export/embed.html?bbox=${encodeURIComponent(bbox)}&layer=mapnik&marker=${userLat},${userLng}`;
-                              })()}
+                            <LocationPinMap
+                              device={formData.location}
+                              accuracyMeters={formData.location.accuracy}
+                              business={
+                                selectedBusiness?.business_lat != null && selectedBusiness.business_lng != null
+                                  ? { latitude: selectedBusiness.business_lat, longitude: selectedBusiness.business_lng }
+                                  : null
+                              }
+                              pin={formData.pinnedLocation ?? null}
+                              onPinChange={movePin}
+                              disabled={isVerifying}
                             />
                           ) : (
                             <div className="p-8 text-slate-700">
@@ -947,15 +1386,24 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                           )}
                         </div>
 
-                        <div className="mt-3 border border-slate-200 bg-white px-4 py-3 text-sm text-slate-700">
-                          <span className="font-semibold">Map:</span> This shows the location reported by your device.
+                        <div className="mt-3 border border-slate-200 bg-white px-4 py-3 text-sm text-slate-700 space-y-2">
+                          <div>
+                            <span className="font-semibold">Map:</span> The blue dot is the location reported by your
+                            device and the shaded circle how precise it is. If it is off, drag the red pin to where you
+                            are standing; the pin has to stay near the blue circle to count.
+                          </div>
+                          {formData.pinnedLocation && (
+                            <Button type="button" variant="secondary" onClick={resetPin} disabled={isVerifying}>
+                              Reset pin to device location
+                            </Button>
+                          )}
                         </div>
                       </div>
 
                       <div className="lg:col-span-5">
                         <div className="border border-slate-200 bg-white p-5 space-y-4">
                           <div className="text-sm text-slate-700">
-                            {locationStatus.kind === 'requesting' && 'Asking for location permission…'}
+                            {locationStatus.kind === 'requesting' && 'Taking a few location readings…'}
                             {locationStatus.kind === 'captured' && 'Location received.'}
                             {locationStatus.kind === 'blocked' && (locationStatus.message || 'Location is blocked in your browser settings.')}
                             {locationStatus.kind === 'idle' && 'Waiting for location.'}
@@ -967,10 +1415,14 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                             <Button
                               type="button"
                               size="lg"
-                              disabled={isVerifying || !selectedBusiness?.business_pk}
+                              disabled={isVerifying || (!selectedBusiness?.business_pk && !formData.newBusiness)}
                               onClick={async () => {
-                                await requestDeviceLocation();
-                                await verifyBusinessProximity();
+                                const captured = await requestDeviceLocation();
+                                await verifyBusinessProximity(
+                                  captured?.location ?? formData.location,
+                                  captured ? undefined : formData.pinnedLocation,
+                                  captured?.samples ?? formData.locationSamples
+                                );
                               }}
                             >
                               {isVerifying ? 'Checking…' : 'Check my location'}
@@ -979,13 +1431,23 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
 
                           {(formData.locationVerificationTag || verificationMessage) && (
                             <Alert
-                              kind={formData.locationVerificationTag === 'Failed Location Verification' ? 'warning' : 'success'}
+                              kind={
+                                formData.newBusiness
+                                  ? 'info'
+                                  : formData.locationVerificationTag === 'Failed Location Verification'
+                                    ? 'warning'
+                                    : 'success'
+                              }
                               title={
-                                formData.locationVerificationTag === 'Failed Location Verification'
-                                  ? 'You appear far from the business'
-                                  : 'Location looks close to the business'
+                                formData.newBusiness
+                                  ? 'Location received'
+                                  : formData.locationVerificationTag === 'Failed Location Verification'
+                                    ? 'You appear far from the business'
+                                    : 'Location looks close to the business'
                               }
                               message={(() => {
+                                if (verificationMessage) return verificationMessage;
+
                                 const distanceText =
                                   typeof verificationDistanceMeters === 'number'
                                     ? `Estimated distance: ${formatDistanceMeters(verificationDistanceMeters)}.`
@@ -1023,6 +1485,16 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                       Keep it short and factual.
                     </div>
 
+                    <div className="border border-slate-200 bg-white p-5">
+                      <ComplaintCategoryFields
+                        category={formData.complaintCategory}
+                        details={formData.categoryDetails ?? {}}
+                        errors={errors}
+                        onCategoryChange={changeCategory}
+                        onAnswer={answerCategoryQuestion}
+                      />
+                    </div>
+
                     <div className="border border-slate-200 bg-white overflow-hidden">
                       <div className="p-5">
                         <Field label="What happened?" hint="Minimum 20 characters" error={complaintDescriptionError}>
@@ -1062,6 +1534,8 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                               value={formData.reporterEmail || ''}
                               autoComplete="email"
                               inputMode="email"
+                              // Must match the verified email; submit-complaint rejects anything else.
+                              readOnly={!!prefillEmail}
                               onChange={(e) => {
                                 setFormData((prev) => ({ ...prev, reporterEmail: e.target.value }));
                                 setErrors((prev) => prev.filter((err) => err.field !== 'reporterEmail'));
@@ -1148,8 +1622,7 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                                 // Reset optional evidence photos only (keep the required first photo if present).
                                 const keep = (formData.images || []).slice(0, 1);
                                 setFormData((prev) => ({ ...prev, images: keep }));
-                                for (const url of evidencePreviews) URL.revokeObjectURL(url);
-                                setEvidencePreviews([]);
+                                setUploadProgress([]);
                               }}
                             >
                               Clear extra photos
@@ -1160,12 +1633,12 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
 
                       <div className="text-xs text-slate-600">Accepted: JPG, PNG, WEBP</div>
 
-                      {evidencePreviews.length > 0 && (
+                      {(formData.images || []).length > 1 && (
                         <div className="border-t border-slate-200 pt-4">
                           <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
-                            {evidencePreviews.map((src, idx) => (
-                              <div key={src + idx} className="border border-slate-200 bg-slate-50 rounded-xl overflow-hidden">
-                                <img src={src} alt="Selected" className="w-full h-28 object-cover" />
+                            {(formData.images || []).slice(1).map((file, idx) => (
+                              <div key={`${file.name}-${idx}`} className="border border-slate-200 bg-slate-50 rounded-xl overflow-hidden">
+                                <FilePreview file={file} alt="Selected" className="w-full h-28 object-cover" />
                               </div>
                             ))}
                           </div>
@@ -1177,6 +1650,138 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                   </div>
                 </Panel>
 
+                <Panel
+                  title="Video clips"
+                  subtitle={`Optional · up to ${MEDIA_RULES.videos.maxCount} clips of ${MEDIA_RULES.videos.maxDurationSeconds} seconds`}
+                >
+                  <div className="space-y-4">
+                    <div className="border border-blue-200 bg-blue-50 px-5 py-3 text-sm text-blue-900">
+                      Short clips help show things a photo cannot, like pests moving or smoke. Clips are not kept in
+                      the draft saved on this device; if you leave this page, add them again.
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                      <input
+                        ref={videosInputRef}
+                        id="evidence-videos"
+                        type="file"
+                        multiple
+                        accept={MEDIA_RULES.videos.types.join(',')}
+                        onChange={(e) => handleEvidenceFiles('videos', e.target.files)}
+                        className="hidden"
+                      />
+                      <Button
+                        type="button"
+                        size="lg"
+                        variant="secondary"
+                        onClick={() => {
+                          if (videosInputRef.current) {
+                            videosInputRef.current.value = '';
+                            videosInputRef.current.click();
+                          }
+                        }}
+                      >
+                        Choose videos
+                      </Button>
+
+                      {cameraState.kind !== 'open' && cameraState.kind !== 'ready' && (
+                        <Button type="button" size="lg" onClick={() => void openCamera()} disabled={cameraState.kind === 'starting'}>
+                          {cameraState.kind === 'starting' ? 'Starting camera…' : 'Record with camera'}
+                        </Button>
+                      )}
+                    </div>
+
+                    <div className="text-xs text-slate-600">Accepted: MP4, WEBM, MOV</div>
+
+                    {cameraState.kind === 'error' && <Alert kind="error" title="Camera" message={cameraState.message} />}
+
+                    {(cameraState.kind === 'open' || cameraState.kind === 'ready') && (
+                      <div className="border border-slate-200 bg-black overflow-hidden">
+                        <video ref={videoRef} className="w-full h-72 object-contain bg-black" playsInline muted autoPlay />
+                        <div className="border-t border-slate-800 bg-slate-950 px-4 py-3 text-white flex flex-wrap gap-3 items-center justify-between">
+                          <RecordingControls
+                            kind="videos"
+                            label="Start recording"
+                            acquireStream={acquireClipStream}
+                            onRecorded={(file) => addRecording('videos', file)}
+                            onError={(message) => setMediaError('videos', message)}
+                            disabled={cameraState.kind !== 'ready'}
+                          />
+                          <Button type="button" variant="secondary" size="lg" onClick={stopCamera}>
+                            Close camera
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    <MediaEvidenceList
+                      label="Selected video clips"
+                      files={formData.videos || []}
+                      onRemove={(index) => removeMedia('videos', index)}
+                      disabled={isSubmitting}
+                    />
+
+                    {videosError && <div className="text-sm text-red-700 font-semibold">{videosError}</div>}
+                  </div>
+                </Panel>
+
+                <Panel
+                  title="Audio recordings"
+                  subtitle={`Optional · up to ${MEDIA_RULES.audio.maxCount} recordings of ${MEDIA_RULES.audio.maxDurationSeconds / 60} minutes`}
+                >
+                  <div className="space-y-4">
+                    <div className="border border-blue-200 bg-blue-50 px-5 py-3 text-sm text-blue-900">
+                      Record noise or other sounds, or choose an existing recording. Recordings are not kept in the
+                      draft saved on this device; if you leave this page, add them again.
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                      <input
+                        ref={audioInputRef}
+                        id="evidence-audio"
+                        type="file"
+                        multiple
+                        accept={MEDIA_RULES.audio.types.join(',')}
+                        onChange={(e) => handleEvidenceFiles('audio', e.target.files)}
+                        className="hidden"
+                      />
+                      <Button
+                        type="button"
+                        size="lg"
+                        variant="secondary"
+                        onClick={() => {
+                          if (audioInputRef.current) {
+                            audioInputRef.current.value = '';
+                            audioInputRef.current.click();
+                          }
+                        }}
+                      >
+                        Choose audio files
+                      </Button>
+
+                      <RecordingControls
+                        kind="audio"
+                        label="Record audio"
+                        acquireStream={acquireMicStream}
+                        onRecorded={(file) => addRecording('audio', file)}
+                        onError={(message) => setMediaError('audio', message)}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+
+                    <div className="text-xs text-slate-600">Accepted: MP3, M4A, AAC, WEBM, OGG, WAV</div>
+
+                    <MediaEvidenceList
+                      label="Selected audio recordings"
+                      files={formData.audio || []}
+                      onRemove={(index) => removeMedia('audio', index)}
+                      disabled={isSubmitting}
+                    />
+
+                    {audioError && <div className="text-sm text-red-700 font-semibold">{audioError}</div>}
+                  </div>
+                </Panel>
+
                 <div className="flex justify-between">
                   <Button type="button" variant="secondary" size="lg" onClick={handlePreviousStep}>Back</Button>
                   <Button type="button" size="lg" onClick={handleNextStep}>Continue</Button>
@@ -1200,6 +1805,9 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                           <div>
                             <div className="text-xs font-semibold text-slate-500 uppercase">Name</div>
                             <div className="mt-1 text-sm font-semibold text-slate-900 break-words">{formData.businessName}</div>
+                            {formData.newBusiness && (
+                              <div className="mt-1 text-sm text-slate-600">Not listed yet; it will be added for staff review.</div>
+                            )}
                           </div>
                           <div>
                             <div className="text-xs font-semibold text-slate-500 uppercase">Address</div>
@@ -1211,6 +1819,24 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                       <div className="lg:col-span-6 border border-slate-200 bg-white rounded-3xl p-5">
                         <div className="text-xs font-semibold text-slate-600 uppercase">Your report</div>
                         <div className="mt-3 space-y-3">
+                          {reviewCategory && (
+                            <div>
+                              <div className="text-xs font-semibold text-slate-500 uppercase">Category</div>
+                              <div className="mt-1 text-sm font-semibold text-slate-900">{reviewCategory.label}</div>
+                              {reviewCategory.questions.length > 0 && (
+                                <dl className="mt-1 space-y-1 text-sm">
+                                  {reviewCategory.questions.map((q) => (
+                                    <div key={q.id} className="flex flex-wrap gap-x-2">
+                                      <dt className="text-slate-500">{q.label}</dt>
+                                      <dd className="text-slate-800 break-words">
+                                        {formatCategoryAnswer(q, formData.categoryDetails?.[q.id])}
+                                      </dd>
+                                    </div>
+                                  ))}
+                                </dl>
+                              )}
+                            </div>
+                          )}
                           <div>
                             <div className="text-xs font-semibold text-slate-500 uppercase">Description</div>
                             <div className="mt-1 text-sm text-slate-800 whitespace-pre-wrap break-words">{formData.complaintDescription}</div>
@@ -1219,6 +1845,16 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                             <div className="text-xs font-semibold text-slate-500 uppercase">Email</div>
                             <div className="mt-1 text-sm text-slate-800 break-words">{formData.reporterEmail}</div>
                           </div>
+                          <div>
+                            <div className="text-xs font-semibold text-slate-500 uppercase">Evidence</div>
+                            <div className="mt-1 text-sm text-slate-800">
+                              {describeEvidence({
+                                photos: (formData.images || []).length,
+                                videos: (formData.videos || []).length,
+                                audio: (formData.audio || []).length,
+                              })}
+                            </div>
+                          </div>
                         </div>
                       </div>
 
@@ -1249,6 +1885,12 @@ export default function ComplaintForm({ prefillEmail }: { prefillEmail?: string
                   </div>
                 </Panel>
 
+                {uploadProgress.length > 0 && (
+                  <Panel title="Uploads" subtitle="Photos are optimized on your device, then uploaded. Failed uploads resume where they stopped.">
+                    <UploadProgressList items={uploadProgress} onRetry={() => void submitReport()} retryDisabled={isSubmitting} />
+                  </Panel>
+                )}
+
                 <div className="flex justify-between">
                   <Button type="button" variant="secondary" size="lg" onClick={handlePreviousStep}>Back</Button>
                   <Button type="submit" size="lg" disabled={isSubmitting}>
@@ -0,0 +1,56 @@
+-- ============================================================================
+-- PHASE 10: DUPLICATE COMPLAINT DETECTION
+-- Run this in Supabase SQL Editor (after Phase 9)
+--
+-- Includes:
+-- - complaint_incidents: clusters of complaints describing one incident
+-- - complaints.incident_id: cluster membership (NULL = standalone)
+-- - complaints.duplicate_candidates: matches found at submission, for reviewers
+-- - Indexes for the submission-time candidate lookup
+--
+-- Notes:
+-- - Detection runs in the submit-complaint edge function (_shared/duplicates.ts).
+--   Optional secrets: DUPLICATE_WINDOW_HOURS (72), DUPLICATE_RADIUS_METERS (150),
+--   DUPLICATE_TEXT_SIMILARITY (0.35).
+-- - Likely repeat filings are tagged 'Possible Duplicate' (tags column).
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Incidents
+CREATE TABLE IF NOT EXISTS public.complaint_incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_pk INTEGER NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.complaint_incidents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow staff read incidents" ON public.complaint_incidents;
+CREATE POLICY "Allow staff read incidents"
+  ON public.complaint_incidents FOR SELECT
+  USING (public.is_staff());
+
+-- 2) Complaint columns
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS incident_id UUID NULL REFERENCES public.complaint_incidents(id) ON DELETE SET NULL;
+
+-- [{ complaint_id, reasons[], text_similarity, distance_meters }]
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS duplicate_candidates JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 3) Indexes
+CREATE INDEX IF NOT EXISTS idx_complaints_incident_id ON public.complaints(incident_id);
+CREATE INDEX IF NOT EXISTS idx_complaints_business_pk_created_at ON public.complaints(business_pk, created_at);
+CREATE INDEX IF NOT EXISTS idx_complaints_reporter_email_created_at ON public.complaints(reporter_email, created_at);
+CREATE INDEX IF NOT EXISTS idx_complaints_reporter_lat_lng ON public.complaints(reporter_lat, reporter_lng);
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('incident_id', 'duplicate_candidates');
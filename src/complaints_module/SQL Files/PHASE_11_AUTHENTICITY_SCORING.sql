@@ -0,0 +1,52 @@
+-- ============================================================================
+-- PHASE 11: VERSIONED AUTHENTICITY SCORING
+-- Run this in Supabase SQL Editor (after Phase 10)
+--
+-- Includes:
+-- - complaints.authenticity_version: rules version that produced the score (0 = legacy trigger score)
+-- - complaints.authenticity_signals: scoring inputs recorded at submission
+-- - complaints.authenticity_breakdown: points per signal, shown to reviewers
+-- - complaints.authenticity_scored_at
+--
+-- Notes:
+-- - Scores are computed by supabase/functions/_shared/authenticity.ts in submit-complaint.
+--   The Phase 1 insert triggers still run first; their tags feed the score.
+-- - After changing the rules, bump AUTHENTICITY_SCORING_VERSION, deploy, then call
+--   recompute-authenticity (header x-admin-secret = AUTHENTICITY_ADMIN_SECRET) until
+--   remaining is 0.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS authenticity_version INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS authenticity_signals JSONB NULL;
+
+-- [{ signal, points, detail }]
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS authenticity_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS authenticity_scored_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- recompute-authenticity looks up outdated rows by version
+CREATE INDEX IF NOT EXISTS idx_complaints_authenticity_version
+  ON public.complaints(authenticity_version);
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('authenticity_version', 'authenticity_signals', 'authenticity_breakdown', 'authenticity_scored_at');
+
+-- Score distribution per rules version
+SELECT authenticity_version, authenticity_tier, COUNT(*)
+FROM public.complaints
+GROUP BY 1, 2
+ORDER BY 1, 2;
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- PHASE 12: PHOTO EXIF / CAPTURE PROVENANCE
+-- Run this in Supabase SQL Editor (after Phase 11)
+--
+-- Includes:
+-- - complaints.photo_metadata: per-image EXIF capture time, GPS, camera, software
+--   and distances to the reporter / business (same order as image_urls)
+--
+-- Notes:
+-- - Extracted server-side by submit-complaint (_shared/exif.ts, _shared/photoProvenance.ts).
+-- - Tags added at submission:
+--     'Photo GPS Matches'       - a photo was taken within 300m of the reporter or business
+--     'Photo GPS Mismatch'      - every photo with GPS was taken further away
+--     'Photo Older Than 7 Days' - EXIF capture time more than 7 days before submission
+--     'Camera Captured In-App'  - taken with the in-app camera
+--     'Photo Edited'            - EXIF software names an image editor
+-- - These feed the photo_provenance signal of authenticity scoring v2; run
+--   recompute-authenticity afterwards (complaints scored with v1 keep a neutral signal).
+-- ============================================================================
+
+BEGIN;
+
+-- [{ index, source, capturedAt, modifiedAt, gps, make, model, software,
+--    distanceToReporterMeters, distanceToBusinessMeters, gpsMatches, olderThanMaxAge, edited }]
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS photo_metadata JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name = 'photo_metadata';
@@ -0,0 +1,119 @@
+-- ============================================================================
+-- PHASE 13: FACE / LICENCE-PLATE REDACTION OF PUBLISHED EVIDENCE
+-- Run this in Supabase SQL Editor (after Phase 12)
+--
+-- Includes:
+-- - Private complaint-originals bucket; staff-only read
+-- - complaints.image_original_paths / redaction_status / redaction_report / redacted_at
+-- - Trigger that calls the redact-complaint-media edge function through pg_net
+-- - Drops the public upload policy on complaint-images (only edge functions write there)
+--
+-- Notes:
+-- - Requires the pg_net extension (Database > Extensions).
+-- - The function URL and webhook secret are read from Vault, e.g.:
+--     SELECT vault.create_secret('https://<project-ref>.supabase.co/functions/v1/redact-complaint-media', 'redaction_webhook_url');
+--     SELECT vault.create_secret('<same value as REDACTION_WEBHOOK_SECRET>', 'redaction_webhook_secret');
+-- - If either secret is missing nothing is published; originals stay private.
+-- - Only redacted copies are ever listed for display. Since Phase 14 that list is
+--   image_paths (object paths in the private complaint-images bucket, served through
+--   signed URLs); the image_urls column this phase started with is gone.
+-- - Redaction needs a face cascade; plates are blurred only when a plate cascade is
+--   configured, and each redaction_report entry lists the detectors that did not run.
+-- - Complaints filed before this phase can be redacted by moving their files into
+--   complaint-originals and setting image_original_paths + redaction_status = 'pending'.
+-- ============================================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- 1) Private bucket for originals
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('complaint-originals', 'complaint-originals', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+DROP POLICY IF EXISTS "Allow staff read originals" ON storage.objects;
+CREATE POLICY "Allow staff read originals"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'complaint-originals' AND public.is_staff());
+
+-- Browsers no longer upload evidence directly
+DROP POLICY IF EXISTS "Allow authenticated upload images" ON storage.objects;
+
+-- 2) Columns
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS image_original_paths TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS redaction_status TEXT NOT NULL DEFAULT 'none';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'redaction_status_chk') THEN
+    ALTER TABLE public.complaints
+      ADD CONSTRAINT redaction_status_chk CHECK (redaction_status IN ('none', 'pending', 'done', 'failed'));
+  END IF;
+END $$;
+
+-- [{ index, faces, plates, path, notChecked, error }] (publicUrl instead of path before Phase 14)
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS redaction_report JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS redacted_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- 3) Request redaction whenever a complaint becomes pending
+CREATE OR REPLACE FUNCTION public.complaints_request_redaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url text;
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'redaction_webhook_url';
+  SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE name = 'redaction_webhook_secret';
+
+  IF v_url IS NULL OR v_secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-webhook-secret', v_secret
+    ),
+    body := jsonb_build_object(
+      'type', 'UPDATE',
+      'table', 'complaints',
+      'record', jsonb_build_object('id', NEW.id)
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_complaints_request_redaction ON public.complaints;
+CREATE TRIGGER trg_complaints_request_redaction
+AFTER UPDATE OF redaction_status ON public.complaints
+FOR EACH ROW
+WHEN (NEW.redaction_status = 'pending' AND OLD.redaction_status IS DISTINCT FROM 'pending')
+EXECUTE FUNCTION public.complaints_request_redaction();
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT id, public FROM storage.buckets WHERE id IN ('complaint-images', 'complaint-originals');
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('image_original_paths', 'redaction_status', 'redaction_report', 'redacted_at');
+
+SELECT tgname FROM pg_trigger WHERE tgname = 'trg_complaints_request_redaction';
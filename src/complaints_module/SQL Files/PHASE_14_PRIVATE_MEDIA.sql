@@ -0,0 +1,79 @@
+-- ============================================================================
+-- PHASE 14: PRIVATE COMPLAINT MEDIA (SIGNED URLS ONLY)
+-- Run this in Supabase SQL Editor (after Phase 13)
+--
+-- Includes:
+-- - complaint-images becomes a private bucket; the public read policy is dropped
+-- - complaints.image_paths (storage object paths) replaces complaints.image_urls
+-- - Existing public URLs are converted to object paths
+--
+-- Notes:
+-- - Images are viewed only through the get-complaint-media edge function, which
+--   issues short-lived signed URLs to staff and to the reporter (tracking ID plus
+--   a verified email claim).
+-- - redaction_report entries now carry `path` instead of `publicUrl`; entries
+--   written before this phase are rewritten below.
+-- - Deploy get-complaint-media and the updated redact-complaint-media /
+--   submit-complaint functions together with this migration.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Object paths instead of public URLs
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS image_paths TEXT[] NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'complaints' AND column_name = 'image_urls'
+  ) THEN
+    UPDATE public.complaints c
+    SET image_paths = ARRAY(
+      SELECT regexp_replace(u, '^.*/storage/v1/object/public/complaint-images/', '')
+      FROM unnest(c.image_urls) WITH ORDINALITY AS t(u, n)
+      ORDER BY n
+    )
+    WHERE coalesce(array_length(c.image_urls, 1), 0) > 0
+      AND coalesce(array_length(c.image_paths, 1), 0) = 0;
+
+    ALTER TABLE public.complaints DROP COLUMN image_urls;
+  END IF;
+END $$;
+
+-- [{ index, faces, plates, path, error }]
+UPDATE public.complaints c
+SET redaction_report = (
+  SELECT coalesce(jsonb_agg(
+    (e - 'publicUrl') || jsonb_build_object(
+      'path',
+      CASE WHEN e->>'publicUrl' IS NULL THEN NULL
+           ELSE regexp_replace(e->>'publicUrl', '^.*/storage/v1/object/public/complaint-images/', '')
+      END
+    )
+    ORDER BY n
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(c.redaction_report) WITH ORDINALITY AS t(e, n)
+)
+WHERE EXISTS (SELECT 1 FROM jsonb_array_elements(c.redaction_report) e WHERE e ? 'publicUrl');
+
+-- 2) Private bucket; only edge functions (service role) read or write
+UPDATE storage.buckets SET public = false WHERE id = 'complaint-images';
+
+DROP POLICY IF EXISTS "Allow public read images" ON storage.objects;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT id, public FROM storage.buckets WHERE id IN ('complaint-images', 'complaint-originals');
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('image_urls', 'image_paths');
+
+SELECT policyname FROM pg_policies
+WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Allow public read images';
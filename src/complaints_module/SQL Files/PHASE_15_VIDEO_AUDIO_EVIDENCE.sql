@@ -0,0 +1,88 @@
+-- ============================================================================
+-- PHASE 15: VIDEO AND AUDIO EVIDENCE
+-- Run this in Supabase SQL Editor (after Phase 14)
+--
+-- Includes:
+-- - Private complaint-videos bucket (clips and their JPEG thumbnails); staff-only read
+-- - Private complaint-audio bucket (recordings); staff-only read
+-- - complaints.video_paths / audio_paths / media_metadata
+--
+-- Notes:
+-- - Size and type limits mirror COMPLAINT_RULES.videos / .audio in
+--   supabase/functions/_shared/complaintValidation.ts; storage enforces them on upload.
+-- - The project-wide upload limit (Storage settings) must be at least 100 MB for the
+--   video limit to apply.
+-- - media_metadata: [{ kind: 'video' | 'audio', index, contentType, sizeBytes,
+--   durationSeconds, thumbnailPath }], index being the position in video_paths /
+--   audio_paths. Durations are read by the reporter's browser.
+-- - Clips are not redacted. They are viewed only through get-complaint-media
+--   (staff, and the reporter with a verified email claim).
+-- - Deploy the updated create-upload-session / submit-complaint / get-complaint-media
+--   functions together with this migration.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Private buckets
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'complaint-videos',
+  'complaint-videos',
+  false,
+  100 * 1024 * 1024,
+  ARRAY['video/mp4', 'video/webm', 'video/quicktime', 'image/jpeg']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'complaint-audio',
+  'complaint-audio',
+  false,
+  20 * 1024 * 1024,
+  ARRAY['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/webm', 'audio/ogg', 'audio/wav']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Allow staff read videos" ON storage.objects;
+CREATE POLICY "Allow staff read videos"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'complaint-videos' AND public.is_staff());
+
+DROP POLICY IF EXISTS "Allow staff read audio" ON storage.objects;
+CREATE POLICY "Allow staff read audio"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'complaint-audio' AND public.is_staff());
+
+-- 2) Columns
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS video_paths TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS audio_paths TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS media_metadata JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT id, public, file_size_limit, allowed_mime_types
+FROM storage.buckets WHERE id IN ('complaint-videos', 'complaint-audio');
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('video_paths', 'audio_paths', 'media_metadata');
+
+SELECT policyname FROM pg_policies
+WHERE schemaname = 'storage' AND tablename = 'objects'
+  AND policyname IN ('Allow staff read videos', 'Allow staff read audio');
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- PHASE 16: GEOCODED BUSINESS COORDINATES AS A CACHE
+-- Run this in Supabase SQL Editor (after Phase 15)
+--
+-- Includes:
+-- - businesses.business_geocode_source / business_geocoded_at: which geocoder
+--   produced business_lat / business_lng, and when
+-- - Trigger: changing business_address clears the stored coordinates, unless the
+--   same UPDATE also sets new coordinates
+--
+-- Notes:
+-- - verify-business-proximity reuses stored coordinates and geocodes only when they
+--   are missing, so after an address change the next verification geocodes the new
+--   address once and stores the result.
+-- - The geocoder is chosen by the GEOCODER_PROVIDER function secret:
+--   google (needs GOOGLE_MAPS_API_KEY), nominatim (optional NOMINATIM_URL,
+--   NOMINATIM_USER_AGENT, NOMINATIM_EMAIL) or fixture (no network; extra addresses
+--   in GEOCODER_FIXTURES). Unset means google when a key is set, nominatim otherwise.
+-- - Coordinates stored by a fixture geocoder are development data; clear them before
+--   pointing a development database at a real provider:
+--     UPDATE public.businesses SET business_lat = NULL, business_lng = NULL
+--     WHERE business_geocode_source = 'fixture';
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Coordinates and their provenance
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS business_lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS business_lng DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS business_geocode_source TEXT,
+  ADD COLUMN IF NOT EXISTS business_geocoded_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'businesses_geocode_source_chk'
+  ) THEN
+    ALTER TABLE public.businesses
+      ADD CONSTRAINT businesses_geocode_source_chk
+      CHECK (business_geocode_source IS NULL OR business_geocode_source IN ('google', 'nominatim', 'fixture'));
+  END IF;
+END $$;
+
+-- 2) Invalidate coordinates when the address changes
+CREATE OR REPLACE FUNCTION public.businesses_invalidate_geocode()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.business_address IS DISTINCT FROM OLD.business_address
+     AND NEW.business_lat IS NOT DISTINCT FROM OLD.business_lat
+     AND NEW.business_lng IS NOT DISTINCT FROM OLD.business_lng THEN
+    NEW.business_lat := NULL;
+    NEW.business_lng := NULL;
+    NEW.business_geocode_source := NULL;
+    NEW.business_geocoded_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS businesses_invalidate_geocode ON public.businesses;
+CREATE TRIGGER businesses_invalidate_geocode
+  BEFORE UPDATE OF business_address ON public.businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.businesses_invalidate_geocode();
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'businesses'
+  AND column_name IN ('business_lat', 'business_lng', 'business_geocode_source', 'business_geocoded_at');
+
+SELECT tgname FROM pg_trigger WHERE tgname = 'businesses_invalidate_geocode';
+
+-- Address change clears coordinates (inside a transaction you roll back):
+-- BEGIN;
+-- UPDATE public.businesses SET business_address = business_address || ' (moved)'
+-- WHERE business_pk = (SELECT min(business_pk) FROM public.businesses WHERE business_lat IS NOT NULL)
+-- RETURNING business_lat, business_lng;   -- both NULL
+-- ROLLBACK;
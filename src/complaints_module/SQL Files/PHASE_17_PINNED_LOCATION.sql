@@ -0,0 +1,47 @@
+-- ============================================================================
+-- PHASE 17: REPORTER MAP PIN
+-- Run this in Supabase SQL Editor (after Phase 16)
+--
+-- Includes:
+-- - complaints.reporter_pin_lat / reporter_pin_lng: where the reporter dragged the
+--   map pin on the location step
+--
+-- Notes:
+-- - verify-business-proximity weighs the pin together with the device fix and its
+--   accuracy radius (supabase/functions/_shared/proximity.ts); a pin only counts when
+--   it lies inside the device's accuracy circle.
+-- - The back office shows the pin next to the device location and the distance
+--   between them.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS reporter_pin_lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS reporter_pin_lng DOUBLE PRECISION;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'complaints_reporter_pin_range_chk'
+  ) THEN
+    ALTER TABLE public.complaints
+      ADD CONSTRAINT complaints_reporter_pin_range_chk
+      CHECK (
+        (reporter_pin_lat IS NULL AND reporter_pin_lng IS NULL)
+        OR (reporter_pin_lat BETWEEN -90 AND 90 AND reporter_pin_lng BETWEEN -180 AND 180)
+      );
+  END IF;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('reporter_pin_lat', 'reporter_pin_lng');
+
+SELECT conname FROM pg_constraint WHERE conname = 'complaints_reporter_pin_range_chk';
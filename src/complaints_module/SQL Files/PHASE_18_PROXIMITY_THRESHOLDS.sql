@@ -0,0 +1,59 @@
+-- ============================================================================
+-- PHASE 18: PROXIMITY THRESHOLDS PER BUSINESS
+-- Run this in Supabase SQL Editor (after Phase 17)
+--
+-- Includes:
+-- - businesses.business_category: picks the base radius (e.g. mall_stall 75 m,
+--   restaurant 150 m, farm 1500 m)
+-- - businesses.business_area_density: dense / urban / suburban / rural; scales the
+--   base radius (0.75 / 1 / 1.5 / 2.5)
+-- - businesses.proximity_threshold_meters: staff override for a single business
+--
+-- Notes:
+-- - The radii and factors live in supabase/functions/_shared/proximityThresholds.ts;
+--   categories without a rule use the default (PROXIMITY_THRESHOLD_METERS, 200 m).
+--   Every threshold is kept within 50–2000 m.
+-- - verify-business-proximity and submit-complaint resolve the threshold from these
+--   columns; a threshold_meters sent by the browser is ignored.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS business_category TEXT,
+  ADD COLUMN IF NOT EXISTS business_area_density TEXT,
+  ADD COLUMN IF NOT EXISTS proximity_threshold_meters INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'businesses_area_density_chk'
+  ) THEN
+    ALTER TABLE public.businesses
+      ADD CONSTRAINT businesses_area_density_chk
+      CHECK (business_area_density IS NULL OR business_area_density IN ('dense', 'urban', 'suburban', 'rural'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'businesses_proximity_threshold_chk'
+  ) THEN
+    ALTER TABLE public.businesses
+      ADD CONSTRAINT businesses_proximity_threshold_chk
+      CHECK (proximity_threshold_meters IS NULL OR proximity_threshold_meters BETWEEN 50 AND 2000);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS businesses_business_category_idx ON public.businesses (business_category);
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'businesses'
+  AND column_name IN ('business_category', 'business_area_density', 'proximity_threshold_meters');
+
+SELECT conname FROM pg_constraint
+WHERE conname IN ('businesses_area_density_chk', 'businesses_proximity_threshold_chk');
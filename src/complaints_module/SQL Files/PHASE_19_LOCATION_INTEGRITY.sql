@@ -0,0 +1,52 @@
+-- ============================================================================
+-- PHASE 19: LOCATION INTEGRITY
+-- Run this in Supabase SQL Editor (after Phase 18)
+--
+-- Includes:
+-- - complaints.location_samples: the GPS readings taken on the location step
+--   (latitude, longitude, accuracy, timestamp, receivedAt), oldest first
+-- - complaints.location_integrity: the verdict computed from them
+--   ({verdict, sampleCount, failed, checks})
+--
+-- Notes:
+-- - The checks (jitter, implausible accuracy, stale timestamps, jumps between
+--   readings, distance from the IP location) live in
+--   supabase/functions/_shared/locationIntegrity.ts.
+-- - A "suspicious" verdict fails proximity verification, adds the
+--   "Suspicious Location" tag and feeds the location_integrity signal of
+--   authenticity scoring v3. Complaints scored with v2 keep their scores until
+--   recompute-authenticity runs; they have no readings, so the signal is neutral.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS location_samples JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS location_integrity JSONB;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'complaints_location_samples_array_chk'
+  ) THEN
+    ALTER TABLE public.complaints
+      ADD CONSTRAINT complaints_location_samples_array_chk
+      CHECK (jsonb_typeof(location_samples) = 'array');
+  END IF;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type, column_default FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('location_samples', 'location_integrity');
+
+SELECT conname FROM pg_constraint WHERE conname = 'complaints_location_samples_array_chk';
+
+SELECT location_integrity->>'verdict' AS verdict, count(*)
+FROM public.complaints
+GROUP BY 1;
@@ -0,0 +1,94 @@
+-- ============================================================================
+-- PHASE 20: FUZZY BUSINESS SEARCH
+-- Run this in Supabase SQL Editor (after Phase 19)
+--
+-- Includes:
+-- - pg_trgm extension and a trigram index over business name + address
+-- - search_businesses(): typo-tolerant lookup for the complaint form, ranked by
+--   text similarity and, when the reporter's position is known, by distance
+--
+-- Notes:
+-- - Matching uses word_similarity, so "jolibee taft" finds "Jollibee - Taft Ave"
+--   and a branch name can come from the address ("Jollibee" on "Taft Avenue").
+-- - rank = 0.7 × similarity + 0.3 × nearness, where nearness = 1 / (1 + km away);
+--   without a position (or without stored coordinates) nearness counts as 0.
+-- - The function runs with the caller's rights; anon can already read businesses.
+--   The form highlights the matched words itself (businessSearch.ts).
+-- ============================================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Must match the expression in search_businesses() for the index to be used
+CREATE INDEX IF NOT EXISTS businesses_search_trgm_idx
+  ON public.businesses
+  USING gin ((lower(coalesce(business_name, '') || ' ' || coalesce(business_address, ''))) gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  p_query text,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  business_pk integer,
+  business_name text,
+  business_address text,
+  business_lat double precision,
+  business_lng double precision,
+  similarity real,
+  distance_meters double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.3
+AS $$
+  WITH q AS (
+    SELECT lower(btrim(p_query)) AS term
+  ),
+  matches AS (
+    SELECT
+      b.business_pk::integer AS business_pk,
+      b.business_name::text AS business_name,
+      b.business_address::text AS business_address,
+      b.business_lat,
+      b.business_lng,
+      greatest(
+        word_similarity(q.term, lower(coalesce(b.business_name, ''))),
+        word_similarity(q.term, lower(coalesce(b.business_name, '') || ' ' || coalesce(b.business_address, ''))) * 0.9
+      )::real AS similarity,
+      CASE
+        WHEN p_lat IS NULL OR p_lng IS NULL OR b.business_lat IS NULL OR b.business_lng IS NULL THEN NULL
+        ELSE 2 * 6371000 * asin(least(1, sqrt(
+          power(sin(radians(b.business_lat - p_lat) / 2), 2)
+          + cos(radians(p_lat)) * cos(radians(b.business_lat)) * power(sin(radians(b.business_lng - p_lng) / 2), 2)
+        )))
+      END AS distance_meters
+    FROM public.businesses b, q
+    WHERE length(q.term) >= 2
+      AND q.term <% lower(coalesce(b.business_name, '') || ' ' || coalesce(b.business_address, ''))
+  )
+  SELECT m.business_pk, m.business_name, m.business_address, m.business_lat, m.business_lng, m.similarity, m.distance_meters
+  FROM matches m
+  ORDER BY
+    0.7 * m.similarity + 0.3 * coalesce(1 / (1 + m.distance_meters / 1000), 0) DESC,
+    m.business_name ASC
+  LIMIT least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, double precision, double precision, integer) TO anon, authenticated;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT extname FROM pg_extension WHERE extname = 'pg_trgm';
+
+SELECT indexname FROM pg_indexes WHERE tablename = 'businesses' AND indexname = 'businesses_search_trgm_idx';
+
+SELECT business_name, business_address, similarity, round(distance_meters) AS distance_meters
+FROM public.search_businesses('jolibee taft', 14.5649, 120.9932);
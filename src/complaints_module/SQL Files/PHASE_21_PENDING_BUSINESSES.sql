@@ -0,0 +1,218 @@
+-- ============================================================================
+-- PHASE 21: PENDING BUSINESSES ("BUSINESS NOT LISTED")
+-- Run this in Supabase SQL Editor (after Phase 20)
+--
+-- Includes:
+-- - businesses.business_status: active / pending / merged
+-- - businesses.proposed_lat / proposed_lng / proposed_at: map pin and time from the
+--   reporter who added the business
+-- - businesses.merged_into_business_pk, reviewed_at, reviewed_by: staff decision
+-- - search_businesses(): skips merged businesses and returns business_status
+-- - approve_pending_business() / merge_pending_business(): staff-only RPCs
+--
+-- Notes:
+-- - submit-complaint creates the pending row when the reporter chose "Business not
+--   listed", attaches the complaint to it and tags the complaint 'Unlisted Business'.
+-- - The proposed pin is kept apart from business_lat / business_lng: those stay
+--   geocoded from the address, so a reporter cannot place the business next to
+--   themselves to pass the proximity check.
+-- - Merging moves the complaints (and incidents) to the existing business; the
+--   reporter's business_name / business_address on each complaint are kept.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Columns
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS business_status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS proposed_lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS proposed_lng DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS proposed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS merged_into_business_pk INTEGER REFERENCES public.businesses (business_pk),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users (id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'businesses_status_chk'
+  ) THEN
+    ALTER TABLE public.businesses
+      ADD CONSTRAINT businesses_status_chk
+      CHECK (business_status IN ('active', 'pending', 'merged'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'businesses_merged_into_chk'
+  ) THEN
+    ALTER TABLE public.businesses
+      ADD CONSTRAINT businesses_merged_into_chk
+      CHECK ((business_status = 'merged') = (merged_into_business_pk IS NOT NULL));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS businesses_pending_idx
+  ON public.businesses (proposed_at)
+  WHERE business_status = 'pending';
+
+-- 2) Search: merged businesses no longer show; pending ones do, so a second reporter
+--    files against the same pending business instead of adding another
+DROP FUNCTION IF EXISTS public.search_businesses(text, double precision, double precision, integer);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  p_query text,
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  business_pk integer,
+  business_name text,
+  business_address text,
+  business_lat double precision,
+  business_lng double precision,
+  business_status text,
+  similarity real,
+  distance_meters double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.3
+AS $$
+  WITH q AS (
+    SELECT lower(btrim(p_query)) AS term
+  ),
+  matches AS (
+    SELECT
+      b.business_pk::integer AS business_pk,
+      b.business_name::text AS business_name,
+      b.business_address::text AS business_address,
+      b.business_lat,
+      b.business_lng,
+      b.business_status,
+      greatest(
+        word_similarity(q.term, lower(coalesce(b.business_name, ''))),
+        word_similarity(q.term, lower(coalesce(b.business_name, '') || ' ' || coalesce(b.business_address, ''))) * 0.9
+      )::real AS similarity,
+      CASE
+        WHEN p_lat IS NULL OR p_lng IS NULL OR b.business_lat IS NULL OR b.business_lng IS NULL THEN NULL
+        ELSE 2 * 6371000 * asin(least(1, sqrt(
+          power(sin(radians(b.business_lat - p_lat) / 2), 2)
+          + cos(radians(p_lat)) * cos(radians(b.business_lat)) * power(sin(radians(b.business_lng - p_lng) / 2), 2)
+        )))
+      END AS distance_meters
+    FROM public.businesses b, q
+    WHERE length(q.term) >= 2
+      AND b.business_status <> 'merged'
+      AND q.term <% lower(coalesce(b.business_name, '') || ' ' || coalesce(b.business_address, ''))
+  )
+  SELECT m.business_pk, m.business_name, m.business_address, m.business_lat, m.business_lng, m.business_status,
+    m.similarity, m.distance_meters
+  FROM matches m
+  ORDER BY
+    0.7 * m.similarity + 0.3 * coalesce(1 / (1 + m.distance_meters / 1000), 0) DESC,
+    m.business_name ASC
+  LIMIT least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, double precision, double precision, integer) TO anon, authenticated;
+
+-- 3) Staff decisions
+-- SECURITY DEFINER: staff may not have write access to businesses through RLS
+CREATE OR REPLACE FUNCTION public.approve_pending_business(p_business_pk integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can review businesses'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.businesses
+  SET business_status = 'active', reviewed_at = NOW(), reviewed_by = auth.uid()
+  WHERE business_pk = p_business_pk AND business_status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business % is not pending review', p_business_pk
+      USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Returns the number of complaints moved
+CREATE OR REPLACE FUNCTION public.merge_pending_business(p_business_pk integer, p_into_business_pk integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved integer;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can review businesses'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_business_pk = p_into_business_pk THEN
+    RAISE EXCEPTION 'A business cannot be merged into itself'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  PERFORM 1 FROM public.businesses
+  WHERE business_pk = p_business_pk AND business_status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business % is not pending review', p_business_pk
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM 1 FROM public.businesses
+  WHERE business_pk = p_into_business_pk AND business_status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business % is not an active business', p_into_business_pk
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.complaints SET business_pk = p_into_business_pk WHERE business_pk = p_business_pk;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE public.complaint_incidents SET business_pk = p_into_business_pk WHERE business_pk = p_business_pk;
+
+  UPDATE public.businesses
+  SET business_status = 'merged',
+      merged_into_business_pk = p_into_business_pk,
+      reviewed_at = NOW(),
+      reviewed_by = auth.uid()
+  WHERE business_pk = p_business_pk;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_pending_business(integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.merge_pending_business(integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.approve_pending_business(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_pending_business(integer, integer) TO authenticated;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'businesses'
+  AND column_name IN ('business_status', 'proposed_lat', 'proposed_lng', 'proposed_at',
+    'merged_into_business_pk', 'reviewed_at', 'reviewed_by');
+
+SELECT conname FROM pg_constraint WHERE conname IN ('businesses_status_chk', 'businesses_merged_into_chk');
+
+SELECT proname FROM pg_proc
+WHERE proname IN ('search_businesses', 'approve_pending_business', 'merge_pending_business');
+
+SELECT business_status, count(*) FROM public.businesses GROUP BY 1;
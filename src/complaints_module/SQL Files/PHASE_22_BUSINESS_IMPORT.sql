@@ -0,0 +1,48 @@
+-- ============================================================================
+-- PHASE 22: BUSINESS REGISTRY BULK IMPORT
+-- Run this in Supabase SQL Editor (after Phase 21)
+--
+-- Includes:
+-- - businesses.business_permit_number: permit number from the municipal list
+-- - businesses.business_imported_at: when the row was created by import-businesses
+-- - business_geocode_source 'import': coordinates that came with the permit list
+--
+-- Notes:
+-- - import-businesses (admin only) previews a CSV / JSON permit list as a dry run
+--   and inserts only after the admin commits; duplicates are matched on permit
+--   number, then on normalized name and address (supabase/functions/_shared/businessImport.ts).
+-- - The permit index is not unique: existing data may already repeat a number, and
+--   the importer skips repeats itself.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Columns
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS business_permit_number TEXT,
+  ADD COLUMN IF NOT EXISTS business_imported_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS businesses_permit_number_idx
+  ON public.businesses (business_permit_number)
+  WHERE business_permit_number IS NOT NULL;
+
+-- 2) Coordinates supplied by the permit list
+ALTER TABLE public.businesses DROP CONSTRAINT IF EXISTS businesses_geocode_source_chk;
+ALTER TABLE public.businesses
+  ADD CONSTRAINT businesses_geocode_source_chk
+  CHECK (business_geocode_source IS NULL OR business_geocode_source IN ('google', 'nominatim', 'fixture', 'import'));
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'businesses'
+  AND column_name IN ('business_permit_number', 'business_imported_at');
+
+SELECT pg_get_constraintdef(oid) FROM pg_constraint WHERE conname = 'businesses_geocode_source_chk';
+
+SELECT count(*) AS imported, count(business_lat) AS with_coordinates
+FROM public.businesses WHERE business_imported_at IS NOT NULL;
@@ -0,0 +1,145 @@
+-- ============================================================================
+-- PHASE 23: PUBLIC BUSINESS PROFILES
+-- Run this in Supabase SQL Editor (after Phase 22)
+--
+-- Includes:
+-- - get_business_profile(): public-safe summary of one business and the complaints
+--   filed against it (/businesses/:pk)
+-- - Drops "Allow read by email" (Phase 1), which let anyone select every complaint
+--   row, reporter email, description and coordinates included; complaints becomes
+--   readable by staff only ("Allow staff read")
+-- - get_complaint_tracking(): status and dates of one complaint for /track, which
+--   used to read the table directly
+--
+-- Notes:
+-- - complaints stays private. The RPC is SECURITY DEFINER and returns only counts,
+--   and for resolved complaints the filing / resolution dates and the public note
+--   staff attached to the resolution. No reporter data, descriptions, evidence or
+--   internal notes; nothing about complaints that are not resolved beyond counts.
+-- - Pending businesses (not yet reviewed) have no profile. A merged business
+--   returns only merged_into_business_pk so the page can redirect.
+-- - Returns NULL when the business does not exist.
+-- - Edge functions use the service role and are unaffected by the policy change.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) No public reads
+DROP POLICY IF EXISTS "Allow read by email" ON public.complaints;
+
+DROP POLICY IF EXISTS "Allow staff read" ON public.complaints;
+CREATE POLICY "Allow staff read"
+  ON public.complaints FOR SELECT
+  USING (public.is_staff());
+
+-- 2) Tracking page
+CREATE OR REPLACE FUNCTION public.get_complaint_tracking(p_complaint_id uuid)
+RETURNS TABLE (
+  id UUID,
+  status VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE,
+  email_verified_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.status, c.created_at, c.email_verified_at
+  FROM public.complaints c
+  WHERE c.id = p_complaint_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_complaint_tracking(uuid) TO anon, authenticated;
+
+-- 3) Business profile
+CREATE OR REPLACE FUNCTION public.get_business_profile(p_business_pk integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business public.businesses%ROWTYPE;
+BEGIN
+  SELECT * INTO v_business FROM public.businesses WHERE business_pk = p_business_pk;
+  IF NOT FOUND OR v_business.business_status = 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_business.business_status = 'merged' THEN
+    RETURN jsonb_build_object('merged_into_business_pk', v_business.merged_into_business_pk);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'business', jsonb_build_object(
+      'business_pk', v_business.business_pk,
+      'business_name', v_business.business_name,
+      'business_address', v_business.business_address,
+      'business_category', v_business.business_category,
+      'business_lat', v_business.business_lat,
+      'business_lng', v_business.business_lng
+    ),
+    'status_counts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('status', s.status, 'count', s.n) ORDER BY s.status)
+      FROM (
+        SELECT c.status, count(*) AS n
+        FROM public.complaints c
+        WHERE c.business_pk = p_business_pk
+        GROUP BY c.status
+      ) s
+    ), '[]'::jsonb),
+    -- Filing month and current status, last 24 months
+    'monthly_counts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('month', to_char(m.month, 'YYYY-MM'), 'status', m.status, 'count', m.n)
+        ORDER BY m.month, m.status)
+      FROM (
+        SELECT date_trunc('month', c.created_at) AS month, c.status, count(*) AS n
+        FROM public.complaints c
+        WHERE c.business_pk = p_business_pk
+          AND c.created_at >= date_trunc('month', NOW()) - INTERVAL '23 months'
+        GROUP BY 1, 2
+      ) m
+    ), '[]'::jsonb),
+    -- Latest 20 resolutions with the note staff chose to make public
+    'resolutions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('filed_at', r.filed_at, 'resolved_at', r.resolved_at, 'outcome', r.outcome)
+        ORDER BY r.resolved_at DESC)
+      FROM (
+        SELECT c.created_at AS filed_at, h.created_at AS resolved_at, h.public_note AS outcome
+        FROM public.complaints c
+        JOIN LATERAL (
+          SELECT sh.created_at, sh.public_note
+          FROM public.complaint_status_history sh
+          WHERE sh.complaint_id = c.id AND sh.to_status = 'Resolved'
+          ORDER BY sh.created_at DESC
+          LIMIT 1
+        ) h ON TRUE
+        WHERE c.business_pk = p_business_pk AND c.status = 'Resolved'
+        ORDER BY h.created_at DESC
+        LIMIT 20
+      ) r
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_business_profile(integer) TO anon, authenticated;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT proname, prosecdef FROM pg_proc WHERE proname = 'get_business_profile';
+
+-- SELECT public.get_business_profile(1);
+
+SELECT policyname, cmd, qual FROM pg_policies WHERE schemaname = 'public' AND tablename = 'complaints';
+
+-- As anon this should return no rows:
+-- SET ROLE anon; SELECT count(*) FROM public.complaints; RESET ROLE;
+
+-- SELECT * FROM public.get_complaint_tracking('00000000-0000-0000-0000-000000000000');
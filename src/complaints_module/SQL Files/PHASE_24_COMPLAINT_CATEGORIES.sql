@@ -0,0 +1,135 @@
+-- ============================================================================
+-- PHASE 24: COMPLAINT CATEGORIES
+-- Run this in Supabase SQL Editor (after Phase 23)
+--
+-- Includes:
+-- - complaints.complaint_category: what the complaint is about (food_safety, ...)
+-- - complaints.complaint_details: answers to the category's follow-up questions,
+--   keyed by question id
+-- - get_business_profile(): adds category_counts
+--
+-- Notes:
+-- - Categories and their questions are defined in
+--   supabase/functions/_shared/complaintCategories.ts; submit-complaint validates the
+--   answers and tags urgent ones (someone fell ill, immediate fire danger, child
+--   labour) "Urgent". Adding a category means updating the check below as well.
+-- - Complaints filed before this phase keep complaint_category NULL.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Columns
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS complaint_category TEXT,
+  ADD COLUMN IF NOT EXISTS complaint_details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.complaints DROP CONSTRAINT IF EXISTS complaints_category_chk;
+ALTER TABLE public.complaints
+  ADD CONSTRAINT complaints_category_chk
+  CHECK (complaint_category IS NULL OR complaint_category IN (
+    'food_safety', 'sanitation', 'fire_safety', 'overpricing', 'labor',
+    'noise', 'permits', 'consumer_rights', 'other'
+  ));
+
+-- Reviewer queue filter and reporting by category over time
+CREATE INDEX IF NOT EXISTS complaints_category_created_idx
+  ON public.complaints (complaint_category, created_at DESC);
+
+-- 2) Public profile: complaint counts by category
+CREATE OR REPLACE FUNCTION public.get_business_profile(p_business_pk integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_business public.businesses%ROWTYPE;
+BEGIN
+  SELECT * INTO v_business FROM public.businesses WHERE business_pk = p_business_pk;
+  IF NOT FOUND OR v_business.business_status = 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_business.business_status = 'merged' THEN
+    RETURN jsonb_build_object('merged_into_business_pk', v_business.merged_into_business_pk);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'business', jsonb_build_object(
+      'business_pk', v_business.business_pk,
+      'business_name', v_business.business_name,
+      'business_address', v_business.business_address,
+      'business_category', v_business.business_category,
+      'business_lat', v_business.business_lat,
+      'business_lng', v_business.business_lng
+    ),
+    'status_counts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('status', s.status, 'count', s.n) ORDER BY s.status)
+      FROM (
+        SELECT c.status, count(*) AS n
+        FROM public.complaints c
+        WHERE c.business_pk = p_business_pk
+        GROUP BY c.status
+      ) s
+    ), '[]'::jsonb),
+    -- What the complaints were about; NULL for complaints filed before categories
+    'category_counts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', k.category, 'count', k.n) ORDER BY k.n DESC, k.category)
+      FROM (
+        SELECT c.complaint_category AS category, count(*) AS n
+        FROM public.complaints c
+        WHERE c.business_pk = p_business_pk
+        GROUP BY c.complaint_category
+      ) k
+    ), '[]'::jsonb),
+    -- Filing month and current status, last 24 months
+    'monthly_counts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('month', to_char(m.month, 'YYYY-MM'), 'status', m.status, 'count', m.n)
+        ORDER BY m.month, m.status)
+      FROM (
+        SELECT date_trunc('month', c.created_at) AS month, c.status, count(*) AS n
+        FROM public.complaints c
+        WHERE c.business_pk = p_business_pk
+          AND c.created_at >= date_trunc('month', NOW()) - INTERVAL '23 months'
+        GROUP BY 1, 2
+      ) m
+    ), '[]'::jsonb),
+    -- Latest 20 resolutions with the note staff chose to make public
+    'resolutions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('filed_at', r.filed_at, 'resolved_at', r.resolved_at, 'outcome', r.outcome)
+        ORDER BY r.resolved_at DESC)
+      FROM (
+        SELECT c.created_at AS filed_at, h.created_at AS resolved_at, h.public_note AS outcome
+        FROM public.complaints c
+        JOIN LATERAL (
+          SELECT sh.created_at, sh.public_note
+          FROM public.complaint_status_history sh
+          WHERE sh.complaint_id = c.id AND sh.to_status = 'Resolved'
+          ORDER BY sh.created_at DESC
+          LIMIT 1
+        ) h ON TRUE
+        WHERE c.business_pk = p_business_pk AND c.status = 'Resolved'
+        ORDER BY h.created_at DESC
+        LIMIT 20
+      ) r
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_business_profile(integer) TO anon, authenticated;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type, column_default FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints'
+  AND column_name IN ('complaint_category', 'complaint_details');
+
+SELECT pg_get_constraintdef(oid) FROM pg_constraint WHERE conname = 'complaints_category_chk';
+
+SELECT complaint_category, count(*) FROM public.complaints GROUP BY 1 ORDER BY 2 DESC;
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- PHASE 25: SUBMISSION IDEMPOTENCY
+-- Run this in Supabase SQL Editor (after Phase 24)
+--
+-- Includes:
+-- - complaints.submission_id: UUID the reporter's browser generates per report
+-- - Unique index so the same report can only be stored once
+--
+-- Notes:
+-- - submit-complaint looks the id up (scoped to the reporter email) before inserting
+--   and answers a repeat with the complaint it already created, so an outbox replay
+--   after a lost response does not file the report twice.
+-- - Complaints from before this phase, and requests without an id, keep NULL.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.complaints ADD COLUMN IF NOT EXISTS submission_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaints_submission_id
+  ON public.complaints(submission_id)
+  WHERE submission_id IS NOT NULL;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name, data_type FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints' AND column_name = 'submission_id';
+
+SELECT indexname, indexdef FROM pg_indexes
+WHERE schemaname = 'public' AND tablename = 'complaints' AND indexname = 'idx_complaints_submission_id';
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- PHASE 4: INSPECTOR / ADMIN BACK OFFICE
+-- Run this in Supabase SQL Editor
+--
+-- Includes:
+-- - staff_members: maps Supabase Auth users to a back-office role
+-- - is_staff() helper for RLS
+-- - Staff-only UPDATE on complaints (status changes from /admin)
+-- - Indexes for queue filters
+--
+-- Notes:
+-- - Staff accounts are created in Supabase Auth (dashboard or invite), then
+--   registered here, e.g.:
+--     INSERT INTO public.staff_members (user_id, role)
+--     SELECT id, 'inspector' FROM auth.users WHERE email = 'inspector@example.gov';
+-- - Public read/insert policies from Phase 1 are unchanged.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Staff registry
+CREATE TABLE IF NOT EXISTS public.staff_members (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'inspector',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT staff_members_role_chk CHECK (role IN ('inspector', 'admin'))
+);
+
+ALTER TABLE public.staff_members ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read their own membership (used by the /admin route guard)
+DROP POLICY IF EXISTS "Staff read own membership" ON public.staff_members;
+CREATE POLICY "Staff read own membership"
+  ON public.staff_members FOR SELECT
+  USING (user_id = auth.uid());
+
+-- 2) Helper used by RLS policies
+-- SECURITY DEFINER so it can read staff_members regardless of the caller's RLS.
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members s WHERE s.user_id = auth.uid()
+  );
+$$;
+
+-- 3) Complaints: staff may update (status changes)
+DROP POLICY IF EXISTS "Allow staff update" ON public.complaints;
+CREATE POLICY "Allow staff update"
+  ON public.complaints FOR UPDATE
+  USING (public.is_staff())
+  WITH CHECK (public.is_staff());
+
+-- 4) Queue filter indexes
+CREATE INDEX IF NOT EXISTS idx_complaints_authenticity_tier ON public.complaints(authenticity_tier);
+CREATE INDEX IF NOT EXISTS idx_complaints_tags ON public.complaints USING GIN (tags);
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT table_name FROM information_schema.tables
+WHERE table_schema = 'public' AND table_name = 'staff_members';
+
+SELECT policyname FROM pg_policies
+WHERE schemaname = 'public' AND tablename = 'complaints';
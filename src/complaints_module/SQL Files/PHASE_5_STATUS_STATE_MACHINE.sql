@@ -0,0 +1,221 @@
+-- ============================================================================
+-- PHASE 5: COMPLAINT STATUS STATE MACHINE
+-- Run this in Supabase SQL Editor (after Phase 4)
+--
+-- Includes:
+-- - complaints.status restricted to the known statuses
+-- - complaint_status_transitions: allowed (from -> to) pairs
+-- - Trigger rejecting illegal transitions, whatever the update path
+-- - complaint_status_history: one row per transition, with actor and note
+-- - transition_complaint_status() RPC used by the back office
+--
+-- The back office reads complaint_status_transitions to decide which moves to offer;
+-- the status names are also listed in src/complaints_module/status.ts.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Normalize legacy free-text statuses before constraining the column
+UPDATE public.complaints
+SET status = 'Submitted'
+WHERE status IS NULL
+   OR status NOT IN (
+     'Submitted',
+     'Under Review',
+     'Approved for Inspection',
+     'Inspection In Progress',
+     'Resolved',
+     'Dismissed'
+   );
+
+ALTER TABLE public.complaints ALTER COLUMN status SET DEFAULT 'Submitted';
+ALTER TABLE public.complaints ALTER COLUMN status SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'complaints_status_chk'
+  ) THEN
+    ALTER TABLE public.complaints
+      ADD CONSTRAINT complaints_status_chk CHECK (status IN (
+        'Submitted',
+        'Under Review',
+        'Approved for Inspection',
+        'Inspection In Progress',
+        'Resolved',
+        'Dismissed'
+      ));
+  END IF;
+END $$;
+
+-- 2) Allowed transitions
+CREATE TABLE IF NOT EXISTS public.complaint_status_transitions (
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.complaint_status_transitions (from_status, to_status) VALUES
+  ('Submitted', 'Under Review'),
+  ('Submitted', 'Dismissed'),
+  ('Under Review', 'Approved for Inspection'),
+  ('Under Review', 'Dismissed'),
+  ('Approved for Inspection', 'Inspection In Progress'),
+  ('Approved for Inspection', 'Dismissed'),
+  ('Inspection In Progress', 'Resolved'),
+  ('Inspection In Progress', 'Dismissed'),
+  -- Reopen a dismissed complaint for another review
+  ('Dismissed', 'Under Review')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read transitions" ON public.complaint_status_transitions;
+CREATE POLICY "Allow public read transitions"
+  ON public.complaint_status_transitions FOR SELECT
+  USING (TRUE);
+
+-- 3) History
+CREATE TABLE IF NOT EXISTS public.complaint_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  from_status VARCHAR(50) NULL,
+  to_status VARCHAR(50) NOT NULL,
+
+  -- Supabase Auth user who made the change (NULL for service-role / SQL editor changes)
+  actor_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_label TEXT NULL,
+  note TEXT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_csh_complaint_created_at
+  ON public.complaint_status_history(complaint_id, created_at);
+
+ALTER TABLE public.complaint_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Only staff can read history directly; rows are written by trigger only.
+DROP POLICY IF EXISTS "Allow staff read history" ON public.complaint_status_history;
+CREATE POLICY "Allow staff read history"
+  ON public.complaint_status_history FOR SELECT
+  USING (public.is_staff());
+
+-- 4) Reject illegal transitions (server-side, regardless of caller)
+CREATE OR REPLACE FUNCTION public.complaints_enforce_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.complaint_status_transitions t
+      WHERE t.from_status = OLD.status
+        AND t.to_status = NEW.status
+    ) THEN
+      RAISE EXCEPTION 'Illegal status transition: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5) Record every transition
+-- The optional note is passed through the transaction-local setting inspekto.status_note.
+CREATE OR REPLACE FUNCTION public.complaints_record_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_label text := NULL;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT u.email INTO v_actor_label FROM auth.users u WHERE u.id = v_actor_id;
+  ELSE
+    v_actor_label := 'system';
+  END IF;
+
+  INSERT INTO public.complaint_status_history (complaint_id, from_status, to_status, actor_id, actor_label, note)
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    v_actor_id,
+    v_actor_label,
+    NULLIF(btrim(current_setting('inspekto.status_note', true)), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_complaints_enforce_status_transition ON public.complaints;
+CREATE TRIGGER trg_complaints_enforce_status_transition
+BEFORE UPDATE OF status ON public.complaints
+FOR EACH ROW
+EXECUTE FUNCTION public.complaints_enforce_status_transition();
+
+DROP TRIGGER IF EXISTS trg_complaints_record_status_history ON public.complaints;
+CREATE TRIGGER trg_complaints_record_status_history
+AFTER UPDATE OF status ON public.complaints
+FOR EACH ROW
+EXECUTE FUNCTION public.complaints_record_status_history();
+
+-- 6) RPC used by the back office
+CREATE OR REPLACE FUNCTION public.transition_complaint_status(
+  p_complaint_id uuid,
+  p_to_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current text;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change complaint status'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO v_current
+  FROM public.complaints
+  WHERE id = p_complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint % not found', p_complaint_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('inspekto.status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.complaints
+  SET status = p_to_status
+  WHERE id = p_complaint_id;
+
+  PERFORM set_config('inspekto.status_note', '', true);
+
+  RETURN p_to_status;
+END;
+$$;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT from_status, to_status FROM public.complaint_status_transitions ORDER BY 1, 2;
+
+SELECT status, COUNT(*) FROM public.complaints GROUP BY status;
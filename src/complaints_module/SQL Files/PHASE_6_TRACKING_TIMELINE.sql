@@ -0,0 +1,130 @@
+-- ============================================================================
+-- PHASE 6: PUBLIC TRACKING TIMELINE
+-- Run this in Supabase SQL Editor (after Phase 5)
+--
+-- Includes:
+-- - complaint_status_history.public_note: optional note staff choose to show the reporter
+-- - transition_complaint_status() accepts p_public_note
+-- - get_public_status_timeline(): public-safe status events for one complaint
+--
+-- Notes:
+-- - complaint_status_history stays staff-only (actor, internal note).
+-- - The RPC is SECURITY DEFINER and only returns to_status, public_note, created_at.
+-- ============================================================================
+
+BEGIN;
+
+-- 1) Public note column
+ALTER TABLE public.complaint_status_history
+  ADD COLUMN IF NOT EXISTS public_note TEXT NULL;
+
+-- 2) History trigger also records the public note (inspekto.status_public_note)
+CREATE OR REPLACE FUNCTION public.complaints_record_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_label text := NULL;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT u.email INTO v_actor_label FROM auth.users u WHERE u.id = v_actor_id;
+  ELSE
+    v_actor_label := 'system';
+  END IF;
+
+  INSERT INTO public.complaint_status_history (
+    complaint_id, from_status, to_status, actor_id, actor_label, note, public_note
+  )
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    v_actor_id,
+    v_actor_label,
+    NULLIF(btrim(current_setting('inspekto.status_note', true)), ''),
+    NULLIF(btrim(current_setting('inspekto.status_public_note', true)), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3) RPC now takes an optional public note
+DROP FUNCTION IF EXISTS public.transition_complaint_status(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.transition_complaint_status(
+  p_complaint_id uuid,
+  p_to_status text,
+  p_note text DEFAULT NULL,
+  p_public_note text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current text;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change complaint status'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO v_current
+  FROM public.complaints
+  WHERE id = p_complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint % not found', p_complaint_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('inspekto.status_note', COALESCE(p_note, ''), true);
+  PERFORM set_config('inspekto.status_public_note', COALESCE(p_public_note, ''), true);
+
+  UPDATE public.complaints
+  SET status = p_to_status
+  WHERE id = p_complaint_id;
+
+  PERFORM set_config('inspekto.status_note', '', true);
+  PERFORM set_config('inspekto.status_public_note', '', true);
+
+  RETURN p_to_status;
+END;
+$$;
+
+-- 4) Public timeline (tracking page)
+CREATE OR REPLACE FUNCTION public.get_public_status_timeline(p_complaint_id uuid)
+RETURNS TABLE (
+  to_status VARCHAR(50),
+  public_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.to_status, h.public_note, h.created_at
+  FROM public.complaint_status_history h
+  WHERE h.complaint_id = p_complaint_id
+  ORDER BY h.created_at ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_status_timeline(uuid) TO anon, authenticated;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaint_status_history' AND column_name = 'public_note';
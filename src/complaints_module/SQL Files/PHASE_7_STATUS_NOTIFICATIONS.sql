@@ -0,0 +1,84 @@
+-- ============================================================================
+-- PHASE 7: STATUS CHANGE EMAIL NOTIFICATIONS
+-- Run this in Supabase SQL Editor (after Phase 6)
+--
+-- Includes:
+-- - complaints.status_notifications_opt_out(_at): per-complaint unsubscribe
+-- - Trigger on complaint_status_history that calls the notify-status-change
+--   edge function through pg_net
+--
+-- Notes:
+-- - Requires the pg_net extension (Database > Extensions).
+-- - The function URL and webhook secret are read from Vault, e.g.:
+--     SELECT vault.create_secret('https://<project-ref>.supabase.co/functions/v1/notify-status-change', 'status_webhook_url');
+--     SELECT vault.create_secret('<same value as STATUS_WEBHOOK_SECRET>', 'status_webhook_secret');
+-- - If either secret is missing the trigger does nothing; status changes are never blocked.
+-- ============================================================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- 1) Opt-out columns (set by the unsubscribe-status-updates edge function)
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS status_notifications_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.complaints
+  ADD COLUMN IF NOT EXISTS status_notifications_opt_out_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- 2) Fire the webhook for every recorded transition
+CREATE OR REPLACE FUNCTION public.complaints_notify_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url text;
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'status_webhook_url';
+  SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE name = 'status_webhook_secret';
+
+  IF v_url IS NULL OR v_secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-webhook-secret', v_secret
+    ),
+    body := jsonb_build_object(
+      'type', 'INSERT',
+      'table', 'complaint_status_history',
+      'record', jsonb_build_object(
+        'complaint_id', NEW.complaint_id,
+        'from_status', NEW.from_status,
+        'to_status', NEW.to_status,
+        'public_note', NEW.public_note
+      )
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_complaint_status_history_notify ON public.complaint_status_history;
+CREATE TRIGGER trg_complaint_status_history_notify
+AFTER INSERT ON public.complaint_status_history
+FOR EACH ROW
+EXECUTE FUNCTION public.complaints_notify_status_change();
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'complaints' AND column_name LIKE 'status_notifications_%';
+
+SELECT tgname FROM pg_trigger WHERE tgname = 'trg_complaint_status_history_notify';
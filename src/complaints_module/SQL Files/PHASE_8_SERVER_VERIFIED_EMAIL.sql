@@ -0,0 +1,28 @@
+-- ============================================================================
+-- PHASE 8: SERVER-ENFORCED EMAIL VERIFICATION
+-- Run this in Supabase SQL Editor (after Phase 7)
+--
+-- Includes:
+-- - Removes the public INSERT policy on complaints
+--
+-- Notes:
+-- - Complaints are created only by the submit-complaint edge function (service role),
+--   which requires a signed email claim from verify-email and sets
+--   email_verified / email_verified_at itself.
+-- - Edge function secrets: EMAIL_CLAIM_SIGNING_SECRET (required),
+--   EMAIL_CLAIM_TTL_MINUTES (optional, default 120).
+-- ============================================================================
+
+BEGIN;
+
+DROP POLICY IF EXISTS "Allow public insert" ON public.complaints;
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+-- "Allow public insert" should no longer be listed
+SELECT policyname, cmd FROM pg_policies
+WHERE schemaname = 'public' AND tablename = 'complaints';
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- PHASE 9: EMAIL VERIFICATION RATE LIMITING
+-- Run this in Supabase SQL Editor (after Phase 8)
+--
+-- Includes:
+-- - email_verification_tokens.requester_ip: caller IP, for per-IP throttling
+-- - Indexes for the "requests in the last hour" lookups
+--
+-- Notes:
+-- - Limits are enforced in the request-email-verification edge function.
+--   Secrets (all optional):
+--     EMAIL_VERIFICATION_MAX_PER_EMAIL_PER_HOUR (default 5)
+--     EMAIL_VERIFICATION_MAX_PER_IP_PER_HOUR    (default 20)
+--     EMAIL_VERIFICATION_COOLDOWN_SECONDS       (default 30, doubles per request)
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.email_verification_tokens
+  ADD COLUMN IF NOT EXISTS requester_ip TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_evt_email_created_at
+  ON public.email_verification_tokens(email, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_evt_requester_ip_created_at
+  ON public.email_verification_tokens(requester_ip, created_at);
+
+COMMIT;
+
+-- ============================================================================
+-- VERIFY
+-- ============================================================================
+
+SELECT column_name FROM information_schema.columns
+WHERE table_schema = 'public' AND table_name = 'email_verification_tokens' AND column_name = 'requester_ip';
@@ -0,0 +1,56 @@
+import { vi, describe, it, expect } from 'vitest';
+
+vi.mock('../../supabaseClient', () => ({
+  supabase: { rpc: vi.fn() },
+}));
+
+import { formatSearchDistance, highlightMatches, searchBusinesses } from '../businessSearch';
+import { supabase } from '../../supabaseClient';
+
+type RpcResult = Awaited<ReturnType<typeof supabase.rpc>>;
+
+describe('searchBusinesses', () => {
+  it('passes the reporter position to the RPC', async () => {
+    const row = { business_pk: 3, business_name: 'Jollibee - Taft Ave', similarity: 0.8, distance_meters: 420 };
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: [row], error: null } as unknown as RpcResult);
+
+    const results = await searchBusinesses('jolibee taft', { latitude: 14.56, longitude: 120.99 });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_businesses', {
+      p_query: 'jolibee taft',
+      p_lat: 14.56,
+      p_lng: 120.99,
+      p_limit: 10,
+    });
+    expect(results).toEqual([row]);
+  });
+
+  it('returns no results on an error', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'boom' } } as unknown as RpcResult);
+    expect(await searchBusinesses('jollibee')).toEqual([]);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('marks words starting with a query word, ignoring case and punctuation', () => {
+    expect(highlightMatches('Jollibee - Taft Ave', 'jolli taft')).toEqual([
+      { text: 'Jollibee', match: true },
+      { text: ' - ', match: false },
+      { text: 'Taft', match: true },
+      { text: ' Ave', match: false },
+    ]);
+  });
+
+  it('leaves typo matches plain', () => {
+    expect(highlightMatches('Jollibee', 'jolibee')).toEqual([{ text: 'Jollibee', match: false }]);
+  });
+});
+
+describe('formatSearchDistance', () => {
+  it('rounds to a readable distance', () => {
+    expect(formatSearchDistance(437)).toBe('440 m');
+    expect(formatSearchDistance(2345)).toBe('2.3 km');
+    expect(formatSearchDistance(25400)).toBe('25 km');
+    expect(formatSearchDistance(null)).toBeNull();
+  });
+});
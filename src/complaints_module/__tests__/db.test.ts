@@ -0,0 +1,210 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../supabaseClient', () => ({
+  supabase: { functions: { invoke: vi.fn() } },
+}));
+
+vi.mock('../evidenceUpload', () => ({
+  stageEvidence: vi.fn(),
+  resetUploadSession: vi.fn(),
+}));
+
+import { IN_APP_CAPTURE_PREFIX, submitComplaint } from '../db';
+import { resetUploadSession, stageEvidence } from '../evidenceUpload';
+import { supabase } from '../../supabaseClient';
+import type { ComplaintFormData } from '../types';
+
+type InvokeResult = Awaited<ReturnType<typeof supabase.functions.invoke>>;
+
+function formData(): ComplaintFormData {
+  return {
+    businessName: 'Sample Eatery',
+    businessAddress: '123 Rizal Ave, Manila',
+    complaintDescription: 'Expired products displayed on the shelves.',
+    reporterEmail: 'reporter@example.com',
+    images: [
+      new File(['a'], 'front.jpg', { type: 'image/jpeg' }),
+      new File(['b'], 'shelf.png', { type: 'image/png' }),
+    ],
+    businessPk: 7,
+    certificationAccepted: true,
+    emailClaim: 'payload.signature',
+  };
+}
+
+const staged = {
+  id: 'u-1',
+  ticket: 'ticket',
+  files: [
+    { path: 'staging/u-1/0.jpg', name: 'front.jpg' },
+    { path: 'staging/u-1/1.jpg', name: 'shelf.jpg' },
+  ],
+};
+
+type SubmitBody = { payload: Record<string, unknown>; emailClaim: string; upload?: typeof staged };
+
+describe('submitComplaint', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(stageEvidence).mockResolvedValue({ success: true, upload: staged, durations: { videos: [], audio: [] } });
+  });
+
+  it('uploads the images first and submits the payload with the staged paths', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: { success: true, complaintId: 'c-1' },
+      error: null,
+    } as InvokeResult);
+    const onProgress = vi.fn();
+
+    const data = formData();
+    const res = await submitComplaint(data, onProgress);
+
+    expect(res).toMatchObject({ success: true, complaintId: 'c-1' });
+    expect(stageEvidence).toHaveBeenCalledWith(
+      { images: data.images, videos: [], audio: [] },
+      'payload.signature',
+      onProgress
+    );
+    expect(resetUploadSession).toHaveBeenCalled();
+
+    const [name, options] = vi.mocked(supabase.functions.invoke).mock.calls[0];
+    expect(name).toBe('submit-complaint');
+
+    const body = options?.body as SubmitBody;
+    expect(body.payload).toMatchObject({ businessPk: 7, reporterEmail: 'reporter@example.com' });
+    expect(body.payload).not.toHaveProperty('emailClaim');
+    expect(body.payload).not.toHaveProperty('images');
+    expect(body.emailClaim).toBe('payload.signature');
+    expect(body.upload).toEqual(staged);
+  });
+
+  it('sends clip durations with the payload and the clips only as staged paths', async () => {
+    const withClips = {
+      ...staged,
+      videos: [{ path: 'staging/u-1/0.webm', name: 'capture-1.webm', thumbnailPath: 'staging/u-1/0-thumb.jpg' }],
+      audio: [{ path: 'staging/u-1/0.m4a', name: 'noise.m4a' }],
+    };
+    vi.mocked(stageEvidence).mockResolvedValueOnce({
+      success: true,
+      upload: withClips,
+      durations: { videos: [12.5], audio: [null] },
+    });
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: { success: true, complaintId: 'c-1' },
+      error: null,
+    } as InvokeResult);
+
+    const data = formData();
+    data.videos = [new File(['v'], 'capture-1.webm', { type: 'video/webm' })];
+    data.audio = [new File(['a'], 'noise.m4a', { type: 'audio/mp4' })];
+    await submitComplaint(data);
+
+    expect(stageEvidence).toHaveBeenCalledWith(
+      { images: data.images, videos: data.videos, audio: data.audio },
+      'payload.signature',
+      undefined
+    );
+
+    const body = vi.mocked(supabase.functions.invoke).mock.calls[0][1]?.body as SubmitBody;
+    expect(body.payload).toMatchObject({ videoDurations: [12.5], audioDurations: [null] });
+    expect(body.payload).not.toHaveProperty('videos');
+    expect(body.payload).not.toHaveProperty('audio');
+    expect(body.upload).toEqual(withClips);
+  });
+
+  it('does not submit when an upload failed', async () => {
+    vi.mocked(stageEvidence).mockResolvedValueOnce({
+      success: false,
+      message: 'Some photos could not be uploaded. Check your connection and retry.',
+      fileErrors: [{ kind: 'images', index: 1, fileName: 'shelf.png', message: 'Upload failed' }],
+    });
+
+    const res = await submitComplaint(formData());
+
+    expect(res.success).toBe(false);
+    expect(res.fileErrors).toEqual([{ kind: 'images', index: 1, fileName: 'shelf.png', message: 'Upload failed' }]);
+    expect(supabase.functions.invoke).not.toHaveBeenCalled();
+  });
+
+  it('marks in-app camera captures so the server can tag them', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: { success: true, complaintId: 'c-1' },
+      error: null,
+    } as InvokeResult);
+
+    const data = formData();
+    data.images = [new File(['x'], `${IN_APP_CAPTURE_PREFIX}1700000000000.jpg`, { type: 'image/jpeg' }), ...data.images];
+    await submitComplaint(data);
+
+    const { payload } = vi.mocked(supabase.functions.invoke).mock.calls[0][1]?.body as SubmitBody;
+    expect(payload.imageSources).toEqual(['camera', 'upload', 'upload']);
+    expect(payload.imageLastModified).toHaveLength(3);
+  });
+
+  it('surfaces per-file errors when the server rolled the submission back', async () => {
+    const response = new Response(
+      JSON.stringify({
+        error: 'Some images could not be saved. Nothing was saved.',
+        fileErrors: [{ kind: 'images', index: 1, fileName: 'shelf.png', message: 'The object exceeded the maximum allowed size' }],
+      }),
+      { status: 500 }
+    );
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: Object.assign(new Error('Edge Function returned a non-2xx status code'), { context: response }),
+    } as InvokeResult);
+
+    const res = await submitComplaint(formData());
+
+    expect(res.success).toBe(false);
+    expect(res.message).toBe('Some images could not be saved. Nothing was saved.');
+    expect(res.fileErrors).toEqual([{ kind: 'images', index: 1, fileName: 'shelf.png', message: 'The object exceeded the maximum allowed size' }]);
+  });
+
+  it('returns a retryable failure when the function cannot be reached', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: new Error('Failed to send a request to the Edge Function'),
+    } as InvokeResult);
+
+    const res = await submitComplaint(formData());
+    expect(res).toEqual({ success: false, message: 'Failed to submit complaint. Please try again.', retryable: true });
+  });
+
+  it('treats server errors as retryable and client errors as final', async () => {
+    const failWith = (status: number, body: unknown) =>
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+        data: null,
+        error: Object.assign(new Error('Edge Function returned a non-2xx status code'), {
+          context: new Response(JSON.stringify(body), { status }),
+        }),
+      } as InvokeResult);
+
+    failWith(503, { error: 'Database unavailable' });
+    expect(await submitComplaint(formData())).toMatchObject({ status: 503, retryable: true });
+
+    failWith(403, { error: 'The complaint email must match your verified email address.', code: 'email_mismatch' });
+    expect(await submitComplaint(formData())).toMatchObject({ status: 403, code: 'email_mismatch', retryable: false });
+    expect(resetUploadSession).not.toHaveBeenCalled();
+  });
+
+  it('drops the upload session the server no longer accepts so a retry stages again', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: Object.assign(new Error('Edge Function returned a non-2xx status code'), {
+        context: new Response(
+          JSON.stringify({
+            error: 'These uploads belong to a different session. Please upload your files again.',
+            code: 'upload_session_invalid',
+          }),
+          { status: 403 }
+        ),
+      }),
+    } as InvokeResult);
+
+    const res = await submitComplaint(formData());
+
+    expect(res).toMatchObject({ success: false, status: 403, code: 'upload_session_invalid', retryable: true });
+    expect(resetUploadSession).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { fromDraftImages, isDraftEmpty, isDraftExpired, parseDraftTtlHours, toDraftImages } from '../drafts';
+
+describe('complaint drafts', () => {
+  it('falls back to 24 hours for a missing or invalid TTL', () => {
+    expect(parseDraftTtlHours(undefined)).toBe(24);
+    expect(parseDraftTtlHours('abc')).toBe(24);
+    expect(parseDraftTtlHours('0')).toBe(24);
+    expect(parseDraftTtlHours('6')).toBe(6);
+  });
+
+  it('expires drafts older than the TTL', () => {
+    const hour = 60 * 60 * 1000;
+    const now = Date.UTC(2026, 0, 5, 12);
+
+    expect(isDraftExpired({ savedAt: now - 2 * hour }, now, 3 * hour)).toBe(false);
+    expect(isDraftExpired({ savedAt: now - 4 * hour }, now, 3 * hour)).toBe(true);
+  });
+
+  it('treats a draft with only the prefilled email as empty', () => {
+    expect(isDraftEmpty({ formData: { reporterEmail: 'a@b.com', complaintDescription: '  ' }, images: [] })).toBe(true);
+    expect(isDraftEmpty({ formData: { businessPk: 12 }, images: [] })).toBe(false);
+  });
+
+  it('round-trips captured photos through blobs', () => {
+    const file = new File(['jpeg-bytes'], 'capture-1.jpg', { type: 'image/jpeg', lastModified: 1700000000000 });
+
+    const [restored] = fromDraftImages(toDraftImages([file]));
+
+    expect(restored.name).toBe('capture-1.jpg');
+    expect(restored.type).toBe('image/jpeg');
+    expect(restored.lastModified).toBe(1700000000000);
+    expect(restored.size).toBe(file.size);
+  });
+});
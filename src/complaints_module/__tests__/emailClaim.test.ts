@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { clearEmailClaim, readEmailClaim, storeEmailClaim } from '../emailClaim';
+
+describe('verified email claim storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns a stored claim until it expires', () => {
+    storeEmailClaim({ email: 'Reporter@Example.com', claim: 'payload.sig', expiresAt: '2026-01-05T10:00:00Z' });
+
+    expect(readEmailClaim(Date.parse('2026-01-05T09:00:00Z'))).toEqual({
+      email: 'reporter@example.com',
+      claim: 'payload.sig',
+      expiresAt: '2026-01-05T10:00:00Z',
+    });
+    expect(readEmailClaim(Date.parse('2026-01-05T10:00:01Z'))).toBeNull();
+    expect(localStorage.getItem('inspekto_email_claim')).toBeNull();
+  });
+
+  it('ignores the legacy plain-email key', () => {
+    localStorage.setItem('inspekto_verified_email', 'someone@example.com');
+
+    expect(readEmailClaim()).toBeNull();
+    expect(localStorage.getItem('inspekto_verified_email')).toBeNull();
+  });
+
+  it('drops malformed entries', () => {
+    localStorage.setItem('inspekto_email_claim', '{not json');
+    expect(readEmailClaim()).toBeNull();
+
+    storeEmailClaim({ email: 'a@b.com', claim: '', expiresAt: '2099-01-01T00:00:00Z' });
+    expect(readEmailClaim()).toBeNull();
+  });
+
+  it('clears the claim', () => {
+    storeEmailClaim({ email: 'a@b.com', claim: 'payload.sig', expiresAt: '2099-01-01T00:00:00Z' });
+    clearEmailClaim();
+    expect(readEmailClaim()).toBeNull();
+  });
+});
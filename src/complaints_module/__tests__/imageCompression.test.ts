@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractExifSegment,
+  fitWithin,
+  insertExifSegment,
+  parseMaxDimension,
+  parseQuality,
+  resetExifOrientation,
+} from '../imageCompression';
+
+// APP1 Exif segment with a little-endian TIFF header and one IFD0 entry: Orientation = 6
+function exifSegment(): Uint8Array {
+  const tiff = [
+    0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, // "II", 42, IFD0 at 8
+    0x01, 0x00, // one entry
+    0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00, // Orientation SHORT 6
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ];
+  const body = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff];
+  const length = body.length + 2;
+  return Uint8Array.from([0xff, 0xe1, length >> 8, length & 0xff, ...body]);
+}
+
+function jpeg(...segments: Uint8Array[]): Uint8Array {
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+  const scan = [0xff, 0xda, 0x00, 0x02, 0x11, 0x22, 0xff, 0xd9];
+  return Uint8Array.from([0xff, 0xd8, ...app0, ...segments.flatMap((s) => [...s]), ...scan]);
+}
+
+describe('image compression helpers', () => {
+  it('caps the longest side and keeps the aspect ratio', () => {
+    expect(fitWithin(4032, 3024, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(fitWithin(3024, 4032, 2048)).toEqual({ width: 1536, height: 2048 });
+    expect(fitWithin(800, 600, 2048)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('falls back to the defaults for invalid settings', () => {
+    expect(parseMaxDimension(undefined)).toBe(2048);
+    expect(parseMaxDimension('100')).toBe(2048);
+    expect(parseMaxDimension('1600')).toBe(1600);
+    expect(parseQuality('1.5')).toBe(0.82);
+    expect(parseQuality('0.7')).toBe(0.7);
+  });
+
+  it('finds the Exif segment after other APPn segments', () => {
+    const segment = exifSegment();
+    expect(extractExifSegment(jpeg(segment))).toEqual(segment);
+    expect(extractExifSegment(jpeg())).toBeNull();
+    expect(extractExifSegment(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+
+  it('resets the orientation without touching the original', () => {
+    const segment = exifSegment();
+    const reset = resetExifOrientation(segment);
+
+    // Value of the single IFD0 entry: 10 (TIFF start) + 8 (IFD0) + 2 (count) + 8
+    expect(reset[28]).toBe(1);
+    expect(segment[28]).toBe(6);
+  });
+
+  it('carries the Exif segment into the re-encoded JPEG', () => {
+    const segment = exifSegment();
+    const reencoded = jpeg();
+
+    const out = insertExifSegment(reencoded, segment);
+
+    expect([...out.subarray(0, 2)]).toEqual([0xff, 0xd8]);
+    expect(extractExifSegment(out)).toEqual(segment);
+    expect(out.length).toBe(reencoded.length + segment.length);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { collectLocationSamples, pickFix } from '../locationSampling';
+import type { LocationSample } from '../types';
+
+const options = { durationMs: 4000, maxSamples: 3, timeoutMs: 12000 };
+
+function fakeGeolocation() {
+  let success: PositionCallback | null = null;
+  let failure: PositionErrorCallback | null | undefined = null;
+  const geolocation = {
+    watchPosition: vi.fn((onSuccess: PositionCallback, onError?: PositionErrorCallback | null) => {
+      success = onSuccess;
+      failure = onError;
+      return 7;
+    }),
+    clearWatch: vi.fn(),
+    getCurrentPosition: vi.fn(),
+  };
+
+  return {
+    geolocation: geolocation as unknown as Geolocation,
+    clearWatch: geolocation.clearWatch,
+    emit(latitude: number, accuracy: number) {
+      success!({ coords: { latitude, longitude: 121, accuracy }, timestamp: Date.now() } as GeolocationPosition);
+    },
+    fail(code: number) {
+      failure!({ code, PERMISSION_DENIED: 1, POSITION_UNAVAILABLE: 2, TIMEOUT: 3 } as GeolocationPositionError);
+    },
+  };
+}
+
+describe('collectLocationSamples', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops once enough readings arrive', async () => {
+    const fake = fakeGeolocation();
+    const result = collectLocationSamples(options, fake.geolocation);
+
+    fake.emit(14.6, 30);
+    vi.advanceTimersByTime(1000);
+    fake.emit(14.6001, 12);
+    fake.emit(14.6002, 9);
+
+    const settled = await result;
+    expect(settled.ok && settled.samples.map((s) => s.accuracy)).toEqual([30, 12, 9]);
+    expect(fake.clearWatch).toHaveBeenCalledWith(7);
+  });
+
+  it('returns what it has when the sampling window ends', async () => {
+    const fake = fakeGeolocation();
+    const result = collectLocationSamples(options, fake.geolocation);
+
+    vi.advanceTimersByTime(3000);
+    fake.emit(14.6, 20);
+    vi.advanceTimersByTime(4000);
+
+    const settled = await result;
+    expect(settled.ok && settled.samples).toHaveLength(1);
+  });
+
+  it('gives up on denied permission', async () => {
+    const fake = fakeGeolocation();
+    const result = collectLocationSamples(options, fake.geolocation);
+
+    fake.fail(1);
+
+    const settled = await result;
+    expect(settled.ok).toBe(false);
+    expect(!settled.ok && settled.error?.code).toBe(1);
+  });
+});
+
+describe('pickFix', () => {
+  it('prefers the most accurate reading, then the latest', () => {
+    const sample = (accuracy: number | null, timestamp: number): LocationSample => ({
+      latitude: 14.6,
+      longitude: 121,
+      accuracy,
+      timestamp,
+      receivedAt: timestamp,
+    });
+
+    expect(pickFix([sample(30, 1), sample(9, 2), sample(12, 3)])?.timestamp).toBe(2);
+    expect(pickFix([sample(9, 1), sample(9, 2)])?.timestamp).toBe(2);
+    expect(pickFix([sample(null, 1), sample(50, 2)])?.timestamp).toBe(2);
+    expect(pickFix([])).toBeNull();
+  });
+});
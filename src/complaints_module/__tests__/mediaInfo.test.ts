@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { baseMimeType, describeEvidence, formatDuration, isVideoFile, thumbnailTime } from '../mediaInfo';
+
+describe('media info helpers', () => {
+  it('strips codec parameters from recorder MIME types', () => {
+    expect(baseMimeType('video/webm;codecs=vp8,opus')).toBe('video/webm');
+    expect(baseMimeType('Audio/MP4')).toBe('audio/mp4');
+    expect(isVideoFile(new Blob([], { type: 'video/quicktime' }))).toBe(true);
+    expect(isVideoFile(new Blob([], { type: 'audio/webm' }))).toBe(false);
+  });
+
+  it('formats durations as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(59.6)).toBe('1:00');
+    expect(formatDuration(272)).toBe('4:32');
+    expect(formatDuration(null)).toBe('–:––');
+    expect(formatDuration(Infinity)).toBe('–:––');
+  });
+
+  it('takes the poster frame one second in, or halfway through short clips', () => {
+    expect(thumbnailTime(30)).toBe(1);
+    expect(thumbnailTime(1.2)).toBeCloseTo(0.6);
+    expect(thumbnailTime(null)).toBe(0);
+  });
+
+  it('summarizes the attached evidence', () => {
+    expect(describeEvidence({ photos: 2, videos: 1, audio: 0 })).toBe('2 photos, 1 video clip');
+    expect(describeEvidence({ photos: 1, videos: 0, audio: 3 })).toBe('1 photo, 3 audio recordings');
+    expect(describeEvidence({ photos: 0, videos: 0, audio: 0 })).toBe('No files');
+  });
+});
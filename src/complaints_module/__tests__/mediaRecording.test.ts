@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { pickRecordingType, startRecording } from '../mediaRecording';
+
+class FakeRecorder {
+  static instances: FakeRecorder[] = [];
+  static isTypeSupported = (type: string) => type.startsWith('video/webm') || type.startsWith('audio/webm');
+
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(_stream: MediaStream, options?: { mimeType?: string }) {
+    this.mimeType = options?.mimeType ?? '';
+    FakeRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['frames'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+const stream = {} as MediaStream;
+
+describe('in-app recording', () => {
+  beforeEach(() => {
+    FakeRecorder.instances = [];
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('prefers MP4 and falls back to WebM', () => {
+    expect(pickRecordingType('videos', () => true)).toBe('video/mp4');
+    expect(pickRecordingType('videos', (t) => t.startsWith('video/webm'))).toBe('video/webm;codecs=vp9,opus');
+    expect(pickRecordingType('audio', () => false)).toBeNull();
+  });
+
+  it('produces a capture file without codec parameters', async () => {
+    const session = startRecording(stream, { kind: 'audio', maxDurationSeconds: 300, namePrefix: 'capture-' });
+    expect(FakeRecorder.instances[0].mimeType).toBe('audio/webm;codecs=opus');
+
+    session.stop();
+    const file = await session.result;
+
+    expect(file?.type).toBe('audio/webm');
+    expect(file?.name).toMatch(/^capture-\d+\.webm$/);
+  });
+
+  it('stops by itself at the duration limit', async () => {
+    const session = startRecording(stream, { kind: 'videos', maxDurationSeconds: 60, namePrefix: 'capture-' });
+
+    vi.advanceTimersByTime(59_000);
+    expect(FakeRecorder.instances[0].state).toBe('recording');
+
+    vi.advanceTimersByTime(1_000);
+    expect(FakeRecorder.instances[0].state).toBe('inactive');
+    expect((await session.result)?.type).toBe('video/webm');
+  });
+
+  it('discards a cancelled recording', async () => {
+    const session = startRecording(stream, { kind: 'videos', maxDurationSeconds: 60, namePrefix: 'capture-' });
+    session.cancel();
+
+    expect(await session.result).toBeNull();
+  });
+});
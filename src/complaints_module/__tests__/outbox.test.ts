@@ -0,0 +1,233 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const { rows } = vi.hoisted(() => ({ rows: new Map<string, unknown>() }));
+
+// In-memory stand-in for the IndexedDB object store.
+vi.mock('../localStore', () => ({
+  LOCAL_STORES: { drafts: 'complaint_drafts', outbox: 'complaint_outbox' },
+  withStore: vi.fn(async (_name: string, _mode: string, run: (store: unknown) => { result: unknown }) => {
+    const store = {
+      put: (value: unknown, key: string) => {
+        rows.set(key, value);
+        return { result: key };
+      },
+      get: (key: string) => ({ result: rows.get(key) }),
+      getAll: () => ({ result: [...rows.values()] }),
+      delete: (key: string) => {
+        rows.delete(key);
+        return { result: undefined };
+      },
+    };
+    return run(store).result;
+  }),
+}));
+
+vi.mock('../db', () => ({
+  submitComplaint: vi.fn(),
+}));
+
+vi.mock('../../supabaseClient', () => ({
+  supabase: { functions: { invoke: vi.fn().mockResolvedValue({ data: null, error: null }) } },
+}));
+
+import { enqueueComplaint, flushOutbox, getOutboxEntry, needsReverification, shouldQueue } from '../outbox';
+import { submitComplaint } from '../db';
+import { clearEmailClaim, storeEmailClaim } from '../emailClaim';
+import { supabase } from '../../supabaseClient';
+import type { ComplaintFormData } from '../types';
+
+function payload(): ComplaintFormData {
+  return {
+    businessName: 'Sample Eatery',
+    businessAddress: '123 Rizal Ave, Manila',
+    complaintDescription: 'Expired products displayed on the shelves.',
+    reporterEmail: ' reporter@example.com ',
+    images: [new File(['jpeg-bytes'], 'capture-1.jpg', { type: 'image/jpeg' })],
+    businessPk: 7,
+    emailClaim: 'claim-at-submit',
+    locationVerificationTag: 'Location Verified',
+    certificationAccepted: true,
+  };
+}
+
+function setOnline(online: boolean) {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => online });
+}
+
+describe('complaint outbox', () => {
+  beforeEach(() => {
+    rows.clear();
+    vi.clearAllMocks();
+    clearEmailClaim();
+    setOnline(true);
+  });
+
+  it('replays queued complaints and records the tracking ID', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: true, message: 'ok', complaintId: 'c-1' });
+
+    const entry = await enqueueComplaint(payload());
+    expect(entry?.status).toBe('pending');
+
+    await flushOutbox();
+
+    const submitted = vi.mocked(submitComplaint).mock.calls[0][0];
+    expect(submitted.businessPk).toBe(7);
+    expect(submitted.images[0].name).toBe('capture-1.jpg');
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('send-complaint-confirmation', {
+      body: { email: 'reporter@example.com', complaintId: 'c-1' },
+    });
+
+    const stored = await getOutboxEntry(entry!.id);
+    expect(stored).toMatchObject({ status: 'submitted', complaintId: 'c-1', images: [] });
+  });
+
+  it('replays queued video and audio evidence', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: true, message: 'ok', complaintId: 'c-2' });
+
+    const entry = await enqueueComplaint({
+      ...payload(),
+      videos: [new File(['webm-bytes'], 'capture-2.webm', { type: 'video/webm' })],
+      audio: [new File(['m4a-bytes'], 'noise.m4a', { type: 'audio/mp4' })],
+    });
+    await flushOutbox();
+
+    const submitted = vi.mocked(submitComplaint).mock.calls[0][0];
+    expect(submitted.videos?.map((f) => [f.name, f.type])).toEqual([['capture-2.webm', 'video/webm']]);
+    expect(submitted.audio?.map((f) => f.name)).toEqual(['noise.m4a']);
+
+    expect(await getOutboxEntry(entry!.id)).toMatchObject({ status: 'submitted', videos: [], audio: [] });
+  });
+
+  it('keeps failed entries pending for the next attempt', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: false, message: 'Failed to submit complaint. Please try again.' });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+
+    const stored = await getOutboxEntry(entry!.id);
+    expect(stored).toMatchObject({ status: 'pending', attempts: 1, complaintId: null });
+    expect(supabase.functions.invoke).not.toHaveBeenCalled();
+  });
+
+  it('keeps server errors and expired upload sessions pending', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: false, message: 'Server error', status: 503, retryable: true });
+    vi.mocked(submitComplaint).mockResolvedValueOnce({
+      success: false,
+      message: 'These uploads belong to a different session. Please upload your files again.',
+      status: 403,
+      code: 'upload_session_invalid',
+      retryable: true,
+    });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+    await flushOutbox();
+
+    const stored = await getOutboxEntry(entry!.id);
+    expect(stored).toMatchObject({ status: 'pending', attempts: 2, rejection: null });
+    expect(needsReverification(stored!)).toBe(false);
+  });
+
+  it('asks for a new verification when the email does not match the claim', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({
+      success: false,
+      message: 'The complaint email must match your verified email address.',
+      status: 403,
+      code: 'email_mismatch',
+      retryable: false,
+    });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+
+    const stored = await getOutboxEntry(entry!.id);
+    expect(stored).toMatchObject({ status: 'rejected', rejection: { status: 403, code: 'email_mismatch' } });
+    expect(needsReverification(stored!)).toBe(true);
+  });
+
+  it('queues failed submits that a later attempt can fix, even when the browser reports online', () => {
+    expect(shouldQueue({ retryable: true })).toBe(true);
+    expect(shouldQueue({ retryable: false })).toBe(false);
+    expect(shouldQueue({})).toBe(false);
+
+    setOnline(false);
+    expect(shouldQueue({})).toBe(true);
+  });
+
+  it('keeps the submission id across replays', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: false, message: 'Failed to submit complaint. Please try again.' });
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: true, message: 'ok', complaintId: 'c-3' });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+    await flushOutbox();
+
+    const [first, second] = vi.mocked(submitComplaint).mock.calls.map(([data]) => data.submissionId);
+    expect(first).toBeTruthy();
+    expect(second).toBe(first);
+    expect(await getOutboxEntry(entry!.id)).toMatchObject({ status: 'submitted', complaintId: 'c-3' });
+  });
+
+  it('stops retrying an expired claim until the reporter verifies again', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({
+      success: false,
+      message: 'Your email verification has expired. Please verify your email again.',
+      status: 401,
+      code: 'email_unverified',
+    });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+
+    const rejected = await getOutboxEntry(entry!.id);
+    expect(rejected).toMatchObject({ status: 'rejected', attempts: 1, rejection: { status: 401, code: 'email_unverified' } });
+    expect(needsReverification(rejected!)).toBe(true);
+
+    await flushOutbox();
+    expect(submitComplaint).toHaveBeenCalledTimes(1);
+
+    vi.mocked(submitComplaint).mockResolvedValueOnce({ success: true, message: 'ok', complaintId: 'c-4' });
+    storeEmailClaim({
+      email: 'reporter@example.com',
+      claim: 'claim-after-reverify',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    await flushOutbox();
+
+    expect(vi.mocked(submitComplaint).mock.calls[1][0].emailClaim).toBe('claim-after-reverify');
+    expect(await getOutboxEntry(entry!.id)).toMatchObject({ status: 'submitted', complaintId: 'c-4', rejection: null });
+  });
+
+  it('does not resend an entry rejected as invalid', async () => {
+    vi.mocked(submitComplaint).mockResolvedValueOnce({
+      success: false,
+      message: 'Validation failed',
+      status: 422,
+    });
+
+    const entry = await enqueueComplaint(payload());
+    await flushOutbox();
+    storeEmailClaim({
+      email: 'reporter@example.com',
+      claim: 'claim-after-reverify',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    await flushOutbox();
+
+    const stored = await getOutboxEntry(entry!.id);
+    expect(stored).toMatchObject({ status: 'rejected', rejection: { status: 422, code: null } });
+    expect(needsReverification(stored!)).toBe(false);
+    expect(submitComplaint).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not replay while offline', async () => {
+    const entry = await enqueueComplaint(payload());
+    setOnline(false);
+
+    await flushOutbox();
+
+    expect(submitComplaint).not.toHaveBeenCalled();
+    expect(await getOutboxEntry(entry!.id)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+});
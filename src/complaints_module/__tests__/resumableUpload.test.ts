@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { uploadResumable } from '../resumableUpload';
+import type { TusRequest, TusResponse, TusTransport } from '../resumableUpload';
+
+const ENDPOINT = 'https://project.supabase.co/storage/v1/upload/resumable/sign';
+
+function response(status: number, headers: Record<string, string> = {}): TusResponse {
+  return { status, header: (name) => headers[name] ?? null };
+}
+
+// In-memory TUS server; `failNextPatch` simulates a dropped connection
+function fakeServer() {
+  const state = { offset: 0, failNextPatch: false, requests: [] as TusRequest[] };
+  const transport: TusTransport = async (req) => {
+    state.requests.push(req);
+    if (req.method === 'POST') return response(201, { Location: '/storage/v1/upload/resumable/sign/abc' });
+    if (req.method === 'HEAD') return response(200, { 'Upload-Offset': String(state.offset) });
+
+    if (state.failNextPatch) {
+      state.failNextPatch = false;
+      return response(0);
+    }
+    if (Number(req.headers['Upload-Offset']) !== state.offset) return response(409);
+    state.offset += req.body?.size ?? 0;
+    return response(204, { 'Upload-Offset': String(state.offset) });
+  };
+  return { state, transport };
+}
+
+const noSleep = () => Promise.resolve();
+
+describe('uploadResumable', () => {
+  it('creates the upload and sends the file in chunks', async () => {
+    const { state, transport } = fakeServer();
+    const onProgress = vi.fn();
+
+    const url = await uploadResumable({
+      endpoint: ENDPOINT,
+      file: new Blob(['x'.repeat(25)]),
+      headers: { 'x-signature': 'token' },
+      metadata: { bucketName: 'complaint-originals', objectName: 'staging/u1/0.jpg' },
+      chunkSize: 10,
+      transport,
+      sleep: noSleep,
+      onProgress,
+    });
+
+    expect(url).toBe('https://project.supabase.co/storage/v1/upload/resumable/sign/abc');
+    expect(state.requests.map((r) => r.method)).toEqual(['POST', 'PATCH', 'PATCH', 'PATCH']);
+    expect(state.requests[0].headers).toMatchObject({
+      'Tus-Resumable': '1.0.0',
+      'Upload-Length': '25',
+      'x-signature': 'token',
+      'Upload-Metadata': `bucketName ${btoa('complaint-originals')},objectName ${btoa('staging/u1/0.jpg')}`,
+    });
+    expect(onProgress).toHaveBeenLastCalledWith(25, 25);
+  });
+
+  it('resumes from the server offset after a dropped connection', async () => {
+    const { state, transport } = fakeServer();
+    state.failNextPatch = true;
+    const sleep = vi.fn(noSleep);
+
+    await uploadResumable({
+      endpoint: ENDPOINT,
+      file: new Blob(['x'.repeat(15)]),
+      headers: {},
+      metadata: {},
+      chunkSize: 10,
+      transport,
+      sleep,
+    });
+
+    expect(sleep).toHaveBeenCalledWith(1000);
+    expect(state.requests.map((r) => r.method)).toEqual(['POST', 'PATCH', 'HEAD', 'PATCH', 'PATCH']);
+    expect(state.offset).toBe(15);
+  });
+
+  it('continues an earlier upload instead of starting over', async () => {
+    const { state, transport } = fakeServer();
+    state.offset = 10;
+
+    await uploadResumable({
+      endpoint: ENDPOINT,
+      file: new Blob(['x'.repeat(15)]),
+      headers: {},
+      metadata: {},
+      chunkSize: 10,
+      uploadUrl: 'https://project.supabase.co/storage/v1/upload/resumable/sign/abc',
+      transport,
+      sleep: noSleep,
+    });
+
+    expect(state.requests.map((r) => r.method)).toEqual(['HEAD', 'PATCH']);
+    expect(state.requests[1].headers['Upload-Offset']).toBe('10');
+  });
+
+  it('gives up after the last retry', async () => {
+    const transport: TusTransport = async () => response(503);
+
+    await expect(
+      uploadResumable({
+        endpoint: ENDPOINT,
+        file: new Blob(['x']),
+        headers: {},
+        metadata: {},
+        retryDelaysMs: [1, 1],
+        transport,
+        sleep: noSleep,
+      })
+    ).rejects.toThrow('Could not start upload (503)');
+  });
+
+  it('does not retry a rejected token', async () => {
+    const transport = vi.fn<TusTransport>(async () => response(403));
+
+    await expect(
+      uploadResumable({ endpoint: ENDPOINT, file: new Blob(['x']), headers: {}, metadata: {}, transport, sleep: noSleep })
+    ).rejects.toThrow('403');
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
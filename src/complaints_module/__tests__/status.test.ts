@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getAllowedTransitions, groupTransitions, isComplaintStatus } from '../status';
+
+describe('complaint statuses', () => {
+  it('groups transition rows by source status in workflow order', () => {
+    const transitions = groupTransitions([
+      { from_status: 'Inspection In Progress', to_status: 'Dismissed' },
+      { from_status: 'Inspection In Progress', to_status: 'Resolved' },
+      { from_status: 'Dismissed', to_status: 'Under Review' },
+    ]);
+
+    expect(getAllowedTransitions(transitions, 'Inspection In Progress')).toEqual(['Resolved', 'Dismissed']);
+    expect(getAllowedTransitions(transitions, 'Dismissed')).toEqual(['Under Review']);
+  });
+
+  it('offers nothing from a status without rows', () => {
+    expect(getAllowedTransitions(groupTransitions([]), 'Resolved')).toEqual([]);
+  });
+
+  it('skips rows naming unknown statuses', () => {
+    const transitions = groupTransitions([
+      { from_status: 'Submitted', to_status: 'Escalated' },
+      { from_status: 'Archived', to_status: 'Submitted' },
+    ]);
+
+    expect(transitions).toEqual({});
+  });
+
+  it('recognises only known statuses', () => {
+    expect(isComplaintStatus('Under Review')).toBe(true);
+    expect(isComplaintStatus('under review')).toBe(false);
+    expect(isComplaintStatus(null)).toBe(false);
+  });
+});
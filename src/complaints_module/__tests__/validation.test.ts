@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { validateCategory } from '../validation';
+
+describe('validateCategory', () => {
+  it('asks for a category before anything else', () => {
+    expect(validateCategory(undefined, {})).toEqual([{ field: 'complaintCategory', message: 'Choose what the complaint is about' }]);
+    expect(validateCategory('vibes', {})).toEqual([{ field: 'complaintCategory', message: 'Unknown category' }]);
+  });
+
+  it('flags required and malformed answers per question', () => {
+    expect(validateCategory('overpricing', { issue: 'above_srp', product: ' ', price_charged: 'abc' })).toEqual([
+      { field: 'categoryDetails.product', message: 'Required' },
+      { field: 'categoryDetails.price_charged', message: 'Enter an amount in pesos' },
+    ]);
+  });
+
+  it('accepts a complete answer set and categories without questions', () => {
+    expect(validateCategory('fire_safety', { issue: 'blocked_exit', immediate_danger: false })).toEqual([]);
+    expect(validateCategory('other', undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Complaints Module - Business Categories
+ * Choices offered when a reporter adds a business that is not listed: every
+ * business_category with a proximity radius in
+ * supabase/functions/_shared/proximityThresholds.ts, with the label shown for it.
+ */
+
+import { PROXIMITY_THRESHOLDS } from '../../supabase/functions/_shared/proximityThresholds.ts';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  restaurant: 'Restaurant',
+  food_stall: 'Food stall',
+  market_stall: 'Market stall',
+  mall_stall: 'Mall stall or kiosk',
+  retail_store: 'Store',
+  supermarket: 'Supermarket',
+  salon: 'Salon or spa',
+  clinic: 'Clinic',
+  hospital: 'Hospital',
+  gas_station: 'Gas station',
+  hotel: 'Hotel',
+  resort: 'Resort',
+  school: 'School',
+  factory: 'Factory',
+  farm: 'Farm',
+};
+
+// A category added on the server without a label here still shows, as e.g. "Car wash"
+function fallbackLabel(key: string): string {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export const BUSINESS_CATEGORIES: Array<{ key: string; label: string }> = Object.keys(PROXIMITY_THRESHOLDS.categories)
+  .map((key) => ({ key, label: CATEGORY_LABELS[key] ?? fallbackLabel(key) }))
+  .sort((a, b) => a.label.localeCompare(b.label));
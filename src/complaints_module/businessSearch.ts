@@ -0,0 +1,66 @@
+/**
+ * Complaints Module - Business Search
+ * Looks businesses up through the search_businesses RPC (Phase 20): trigram matching
+ * on name and address, ranked by similarity and by distance from the reporter.
+ * The matched words are highlighted here rather than in SQL.
+ */
+
+import { supabase } from '../supabaseClient';
+import type { BusinessSearchResult } from './types';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export async function searchBusinesses(
+  term: string,
+  near?: { latitude: number; longitude: number } | null,
+  limit = 10
+): Promise<BusinessSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_businesses', {
+    p_query: term,
+    p_lat: near?.latitude ?? null,
+    p_lng: near?.longitude ?? null,
+    p_limit: limit,
+  });
+
+  if (error || !Array.isArray(data)) return [];
+  return data as BusinessSearchResult[];
+}
+
+function queryWords(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 2);
+}
+
+/**
+ * Splits `text` into plain and matched parts. A word matches when it starts with a
+ * query word ("jolli" marks "Jollibee") or is the start of one; words the RPC
+ * matched despite a typo are left plain.
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const words = queryWords(query);
+  const segments: HighlightSegment[] = [];
+
+  for (const part of text.split(/([\p{L}\p{N}]+)/u)) {
+    if (!part) continue;
+    const lower = part.toLowerCase();
+    const match = words.some((w) => lower.startsWith(w) || (lower.length >= 2 && w.startsWith(lower)));
+
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += part;
+    else segments.push({ text: part, match });
+  }
+
+  return segments;
+}
+
+export function formatSearchDistance(meters: number | null | undefined): string | null {
+  if (typeof meters !== 'number' || !Number.isFinite(meters)) return null;
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  if (meters < 10000) return `${(meters / 1000).toFixed(1)} km`;
+  return `${Math.round(meters / 1000)} km`;
+}
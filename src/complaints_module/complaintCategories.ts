@@ -0,0 +1,251 @@
+/**
+ * Complaints Module - Complaint Categories
+ * What a complaint is about, and the follow-up questions asked on the details step for
+ * each category. Keys, question ids, kinds and option values come from
+ * supabase/functions/_shared/complaintCategories.ts, the rules submit-complaint
+ * applies; this module only adds the wording shown to reporters and staff.
+ */
+
+import { COMPLAINT_CATEGORIES as CATEGORY_RULES } from '../../supabase/functions/_shared/complaintCategories.ts';
+import type { CategoryAnswer, CategoryQuestion as QuestionRule } from '../../supabase/functions/_shared/complaintCategories.ts';
+
+export { MAX_AMOUNT } from '../../supabase/functions/_shared/complaintCategories.ts';
+export type { CategoryAnswer } from '../../supabase/functions/_shared/complaintCategories.ts';
+
+type QuestionCopy = { label: string; hint?: string; placeholder?: string };
+
+type Labelled<Q> = Q extends { kind: 'choice' }
+  ? Omit<Q, 'options'> & QuestionCopy & { options: Array<{ value: string; label: string }> }
+  : Q & QuestionCopy;
+
+export type CategoryQuestion = Labelled<QuestionRule>;
+
+export interface ComplaintCategory {
+  key: string;
+  label: string;
+  description: string;
+  questions: CategoryQuestion[];
+}
+
+type CategoryCopy = {
+  label: string;
+  description: string;
+  // By question id; `options` labels choice values
+  questions: Record<string, QuestionCopy & { options?: Record<string, string> }>;
+};
+
+const OTHER = 'Something else';
+
+const CATEGORY_COPY: Record<string, CategoryCopy> = {
+  food_safety: {
+    label: 'Food safety',
+    description: 'Expired, spoiled or contaminated food, or food that made someone sick.',
+    questions: {
+      issue: {
+        label: 'What was wrong?',
+        options: {
+          expired_products: 'Expired products on sale',
+          spoiled_food: 'Spoiled food',
+          foreign_object: 'Foreign object in food',
+          improper_storage: 'Food stored unsafely',
+          food_poisoning: 'Suspected food poisoning',
+          other: OTHER,
+        },
+      },
+      became_ill: { label: 'Did anyone get sick?' },
+      product: { label: 'Product or dish', placeholder: 'e.g. canned tuna' },
+    },
+  },
+  sanitation: {
+    label: 'Sanitation and hygiene',
+    description: 'Pests, dirty premises or restrooms, improper waste disposal.',
+    questions: {
+      issue: {
+        label: 'What did you see?',
+        options: {
+          pests: 'Rats, cockroaches or other pests',
+          dirty_premises: 'Dirty premises',
+          dirty_restroom: 'Dirty restroom',
+          no_handwashing: 'No handwashing facilities',
+          improper_waste_disposal: 'Improper waste disposal',
+          other: OTHER,
+        },
+      },
+      area: {
+        label: 'Where?',
+        options: {
+          kitchen: 'Kitchen',
+          dining_area: 'Dining or selling area',
+          restroom: 'Restroom',
+          storage: 'Storage',
+          outside: 'Outside the premises',
+        },
+      },
+    },
+  },
+  fire_safety: {
+    label: 'Fire safety',
+    description: 'Blocked exits, missing extinguishers, faulty wiring.',
+    questions: {
+      issue: {
+        label: 'What is the hazard?',
+        options: {
+          blocked_exit: 'Blocked or locked exit',
+          no_extinguisher: 'No fire extinguisher',
+          faulty_wiring: 'Faulty or exposed wiring',
+          flammable_storage: 'Flammable materials stored unsafely',
+          no_exit_signage: 'No exit signs',
+          other: OTHER,
+        },
+      },
+      immediate_danger: { label: 'Is anyone in immediate danger?', hint: 'If there is a fire now, call 911 first.' },
+    },
+  },
+  overpricing: {
+    label: 'Overpricing',
+    description: 'Prices above the suggested retail price, missing price tags, short weight.',
+    questions: {
+      issue: {
+        label: 'What happened?',
+        options: {
+          above_srp: 'Priced above the SRP',
+          no_price_tag: 'No price tag',
+          wrong_price_charged: 'Charged more than the tag',
+          short_weight: 'Short weight or measure',
+          other: OTHER,
+        },
+      },
+      product: { label: 'Product', placeholder: 'e.g. 1 kg rice' },
+      price_charged: { label: 'Price charged (₱)' },
+      price_expected: { label: 'Expected price (₱)' },
+    },
+  },
+  labor: {
+    label: 'Labor practices',
+    description: 'Unpaid or low wages, excessive hours, child labor, unsafe work.',
+    questions: {
+      issue: {
+        label: 'What is the issue?',
+        options: {
+          unpaid_wages: 'Unpaid wages',
+          below_minimum_wage: 'Paid below minimum wage',
+          excessive_hours: 'Excessive working hours',
+          child_labor: 'Child labor',
+          unsafe_conditions: 'Unsafe working conditions',
+          other: OTHER,
+        },
+      },
+      is_employee: { label: 'Do you work there?', hint: 'Your identity is never shared with the business.' },
+    },
+  },
+  noise: {
+    label: 'Noise and nuisance',
+    description: 'Loud music or machinery, odors, smoke.',
+    questions: {
+      issue: {
+        label: 'What kind of nuisance?',
+        options: {
+          loud_music: 'Loud music',
+          machinery: 'Machinery or construction',
+          odor: 'Odor',
+          smoke: 'Smoke',
+          other: OTHER,
+        },
+      },
+      time_of_day: {
+        label: 'When does it happen?',
+        options: {
+          morning: 'Morning',
+          afternoon: 'Afternoon',
+          evening: 'Evening',
+          late_night: 'Late at night',
+        },
+      },
+      recurring: { label: 'Does it happen regularly?' },
+    },
+  },
+  permits: {
+    label: 'Permits and licensing',
+    description: 'Operating without a permit, or with an expired one.',
+    questions: {
+      issue: {
+        label: 'What is missing?',
+        options: {
+          no_business_permit: 'No business permit',
+          expired_permit: 'Expired permit',
+          no_sanitary_permit: 'No sanitary permit',
+          permit_not_displayed: 'Permit not displayed',
+          other: OTHER,
+        },
+      },
+    },
+  },
+  consumer_rights: {
+    label: 'Consumer rights',
+    description: 'No receipt, refused refunds, misleading ads, defective products.',
+    questions: {
+      issue: {
+        label: 'What happened?',
+        options: {
+          no_receipt: 'No official receipt',
+          refund_refused: 'Refund or exchange refused',
+          misleading_advertising: 'Misleading advertising',
+          defective_product: 'Defective product',
+          other: OTHER,
+        },
+      },
+    },
+  },
+  other: {
+    label: 'Other',
+    description: 'Anything that does not fit the categories above.',
+    questions: {},
+  },
+};
+
+// Wording for a key added on the server before it got copy here, e.g. "late_night" -> "Late night"
+function fallbackLabel(key: string): string {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function labelQuestion(rule: QuestionRule, copy: CategoryCopy['questions'][string] | undefined): CategoryQuestion {
+  const { options: optionLabels, ...wording } = copy ?? { label: fallbackLabel(rule.id) };
+  if (rule.kind !== 'choice') return { ...rule, ...wording };
+  return {
+    ...rule,
+    ...wording,
+    options: rule.options.map((value) => ({ value, label: optionLabels?.[value] ?? fallbackLabel(value) })),
+  };
+}
+
+export const COMPLAINT_CATEGORIES: ComplaintCategory[] = Object.entries(CATEGORY_RULES).map(([key, rules]) => {
+  const copy = CATEGORY_COPY[key];
+  return {
+    key,
+    label: copy?.label ?? fallbackLabel(key),
+    description: copy?.description ?? '',
+    questions: rules.questions.map((rule) => labelQuestion(rule, copy?.questions[rule.id])),
+  };
+});
+
+export function getComplaintCategory(key: string | null | undefined): ComplaintCategory | null {
+  return COMPLAINT_CATEGORIES.find((c) => c.key === key) ?? null;
+}
+
+/**
+ * An answer as shown to reviewers: option labels, Yes / No, pesos.
+ */
+export function formatCategoryAnswer(question: CategoryQuestion, answer: CategoryAnswer | undefined): string {
+  if (answer === undefined || answer === '') return '—';
+  switch (question.kind) {
+    case 'choice':
+      return question.options.find((o) => o.value === answer)?.label ?? String(answer);
+    case 'yes_no':
+      return answer === true ? 'Yes' : answer === false ? 'No' : String(answer);
+    case 'amount':
+      return typeof answer === 'number' ? `₱${answer.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : String(answer);
+    default:
+      return String(answer);
+  }
+}
@@ -2,129 +2,104 @@
  * Complaints Module - Database Operations
  *
  * Notes:
- * - We must create the complaint first to get a stable complaintId.
- * - Then upload files under complaintId/ in the appropriate bucket.
- * - Then persist the public URLs back to the complaint record.
+ * - Photos, video clips and audio recordings are uploaded to staging storage first
+ *   (evidenceUpload.ts; photos are compressed on the way).
+ * - Submission goes through the submit-complaint edge function, which creates the
+ *   record and attaches every staged file as one unit (rolled back on any failure).
+ * - The function re-validates with the rules from validation.ts and reports
+ *   failures per field / per file.
+ * - The reporter email is only accepted with a valid signed claim from verify-email.
+ * - `retryable` marks failures worth queueing in the outbox: no response, 5xx / 429,
+ *   or an upload session the server no longer accepts.
  */
 
 import { supabase } from '../supabaseClient';
-import type { ComplaintFormData, Complaint, SubmitResult } from './types';
-
-function getStorageBucket(type: 'image') {
-  return 'complaint-images';
-}
-
-function safeExtFromFile(file: File) {
-  const fromName = file.name.includes('.') ? file.name.split('.').pop() : '';
-  const fromType = file.type.includes('/') ? file.type.split('/').pop() : '';
-  const ext = (fromName || fromType || '').toLowerCase();
-  return ext ? `.${ext.replace(/[^a-z0-9]/g, '')}` : '';
-}
-
-function randomToken(len = 10) {
-  return Math.random().toString(36).slice(2, 2 + len);
-}
-
-/**
- * Upload files to Supabase Storage and return public URLs.
- */
-async function uploadFiles(params: {
-  files: File[];
-  type: 'image';
-  complaintId: string;
-}): Promise<string[]> {
-  const { files, type, complaintId } = params;
-  const bucket = getStorageBucket(type);
-  const urls: string[] = [];
-
-  for (const file of files) {
-    const ext = safeExtFromFile(file);
-    const objectPath = `${complaintId}/${Date.now()}-${randomToken()}${ext}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from(bucket)
-      .upload(objectPath, file, {
-        // Avoid silent overwrites
-        upsert: false,
-        contentType: file.type || undefined,
-      });
-
-    if (uploadError) {
-      console.error(`Upload error for ${file.name}:`, uploadError);
-      continue;
-    }
-
-    const { data } = supabase.storage.from(bucket).getPublicUrl(objectPath);
-    if (data?.publicUrl) urls.push(data.publicUrl);
-  }
-
-  return urls;
-}
+import { functionErrorStatus, isRetryableStatus, readFunctionErrorBody } from './functionError';
+import { resetUploadSession, stageEvidence } from './evidenceUpload';
+import type {
+  ComplaintFormData,
+  EvidenceUploadProgress,
+  FormError,
+  SubmitFileError,
+  SubmitResult,
+} from './types';
+
+// File name prefix of photos and recordings made in the app (ComplaintForm)
+export const IN_APP_CAPTURE_PREFIX = 'capture-';
+
+type SubmitComplaintResponse = {
+  success?: boolean;
+  complaintId?: string;
+  error?: string;
+  code?: string;
+  fieldErrors?: FormError[];
+  fileErrors?: SubmitFileError[];
+};
 
 /**
- * Create complaint record first (no files), then upload files and update URLs.
+ * Upload the evidence, then submit the complaint referencing it.
+ * `onUploadProgress` receives per-file preparation / upload progress.
  */
-export async function submitComplaint(formData: ComplaintFormData): Promise<SubmitResult> {
+export async function submitComplaint(
+  formData: ComplaintFormData,
+  onUploadProgress?: (progress: EvidenceUploadProgress[]) => void
+): Promise<SubmitResult> {
   try {
-    // 1) Create complaint record (without file URLs yet)
-    const { data, error } = await supabase
-      .from('complaints')
-      .insert([
-        {
-          business_name: formData.businessName,
-          business_address: formData.businessAddress,
-          complaint_description: formData.complaintDescription,
-          reporter_email: formData.reporterEmail,
-
-          image_urls: [],
-          
-          // Let DB triggers compute / clamp authenticity_level based on spam rules.
-          // If DB default is configured, omitting is fine; keeping undefined avoids overriding.
-          tags: formData.locationVerificationTag ? [formData.locationVerificationTag] : [],
-          status: 'Submitted',
-
-          // Phase 3: Location-Based Authenticity
-          business_pk: formData.businessPk ?? null,
-          reporter_lat: formData.location?.latitude ?? null,
-          reporter_lng: formData.location?.longitude ?? null,
-          reporter_accuracy: formData.location?.accuracy ?? null,
-          reporter_location_timestamp: formData.location?.timestamp
-            ? new Date(formData.location.timestamp).toISOString()
-            : null,
-
-          // Certification
-          certification_accepted: formData.certificationAccepted ?? false,
-          certification_accepted_at: formData.certificationAccepted ? new Date().toISOString() : null,
-        },
-      ])
-      // Select id plus server-computed tags/authenticity if we want to display later.
-      .select('id, authenticity_level, authenticity_tier, tags')
-      .single();
-
-    if (error) throw error;
-    if (!data?.id) throw new Error('Complaint insert succeeded but no id was returned');
+    const { images, videos = [], audio = [], emailClaim, ...fields } = formData;
+
+    const staged = await stageEvidence({ images, videos, audio }, emailClaim, onUploadProgress);
+    if (!staged.success) {
+      return {
+        success: false,
+        message: staged.message,
+        status: staged.status,
+        code: staged.code,
+        fieldErrors: staged.fieldErrors,
+        fileErrors: staged.fileErrors,
+        retryable: staged.retryable,
+      };
+    }
 
-    const complaintId = data.id as string;
+    const body = {
+      // lastModified and source feed the photo signals of the authenticity score
+      payload: {
+        ...fields,
+        imageLastModified: images.map((f) => f.lastModified),
+        imageSources: images.map((f) => (f.name.startsWith(IN_APP_CAPTURE_PREFIX) ? 'camera' : 'upload')),
+        videoDurations: staged.durations.videos,
+        audioDurations: staged.durations.audio,
+      },
+      emailClaim: emailClaim ?? '',
+      upload: staged.upload ?? undefined,
+    };
 
-    // 2) Upload files using the real complaint id
-    const imageUrls = formData.images.length > 0
-      ? await uploadFiles({ files: formData.images, type: 'image', complaintId })
-      : [];
+    const { data, error } = await supabase.functions.invoke('submit-complaint', { body });
+
+    if (error) {
+      // No JSON body: unreachable (FunctionsFetchError) or an error page from a proxy
+      const details = await readFunctionErrorBody<SubmitComplaintResponse>(error);
+      const status = functionErrorStatus(error);
+
+      // The upload ticket expired or is not ours: the next attempt has to stage the files again
+      const sessionInvalid = details?.code === 'upload_session_invalid';
+      if (sessionInvalid) resetUploadSession();
+
+      return {
+        success: false,
+        message: details?.error || 'Failed to submit complaint. Please try again.',
+        status: status ?? undefined,
+        code: details?.code,
+        fieldErrors: details?.fieldErrors,
+        fileErrors: details?.fileErrors,
+        retryable: sessionInvalid || isRetryableStatus(status),
+      };
+    }
 
-    // 3) Persist URLs
-    if (imageUrls.length > 0) {
-      const { error: updateError } = await supabase
-        .from('complaints')
-        .update({
-          image_urls: imageUrls,
-        })
-        .eq('id', complaintId);
+    const complaintId = (data as SubmitComplaintResponse | null)?.complaintId;
+    if (!complaintId) throw new Error('submit-complaint succeeded but no id was returned');
 
-      if (updateError) {
-        console.error('Failed to update complaint file URLs:', updateError);
-        // We still return success because complaint exists; files may still have uploaded.
-      }
-    }
+    // The server has moved the staged files; a new report needs a new session
+    resetUploadSession();
 
     return {
       success: true,
@@ -139,18 +114,3 @@ export async function submitComplaint(formData: ComplaintFormData): Promise<Subm
     };
   }
 }
-
-/**
- * Get complaint by ID
- */
-export async function getComplaint(id: string): Promise<Complaint | null> {
-  try {
-    const { data, error } = await supabase.from('complaints').select('*').eq('id', id).single();
-
-    if (error) throw error;
-    return data;
-  } catch (error) {
-    console.error('Get complaint error:', error);
-    return null;
-  }
-}
@@ -0,0 +1,110 @@
+/**
+ * Complaints Module - Draft Persistence
+ * Keeps an in-progress complaint in IndexedDB so a reload, a camera permission
+ * prompt or a locked phone does not lose the report (photos included).
+ * Video clips and audio recordings are not kept: autosave rewrites the draft on every
+ * change, which is too much for files of up to 100 MB. Their count is saved instead so
+ * the resume prompt can ask for them again, and the form says so next to them.
+ *
+ * Drafts expire after VITE_COMPLAINT_DRAFT_TTL_HOURS (default 24).
+ */
+
+import { LOCAL_STORES, withStore } from './localStore';
+import type { BusinessLookupRow, ComplaintFormData } from './types';
+
+const DRAFT_KEY = 'current';
+
+const DEFAULT_DRAFT_TTL_HOURS = 24;
+
+export interface DraftImage {
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+}
+
+export interface ComplaintDraft {
+  savedAt: number;
+  step: string;
+  formData: Omit<Partial<ComplaintFormData>, 'images' | 'videos' | 'audio' | 'certificationAccepted'>;
+  images: DraftImage[];
+  // Clips the form held when saved; absent from drafts saved before it was recorded
+  unsavedMedia?: { videos: number; audio: number };
+  selectedBusiness: BusinessLookupRow | null;
+  verification: {
+    message: string | null;
+    distanceMeters: number | null;
+    hasRunLocationCheck: boolean;
+  };
+}
+
+export function parseDraftTtlHours(raw: string | undefined): number {
+  const hours = Number(raw);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_DRAFT_TTL_HOURS;
+}
+
+export function getDraftTtlMs(): number {
+  return parseDraftTtlHours(import.meta.env.VITE_COMPLAINT_DRAFT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+export function isDraftExpired(draft: Pick<ComplaintDraft, 'savedAt'>, now = Date.now(), ttlMs = getDraftTtlMs()): boolean {
+  return now - draft.savedAt > ttlMs;
+}
+
+/**
+ * A draft is only worth keeping once the reporter has entered something of their own.
+ */
+export function isDraftEmpty(draft: Pick<ComplaintDraft, 'formData' | 'images'>): boolean {
+  return (
+    !draft.formData.businessPk &&
+    !draft.formData.newBusiness &&
+    !draft.formData.complaintCategory &&
+    !draft.formData.complaintDescription?.trim() &&
+    draft.images.length === 0
+  );
+}
+
+export function toDraftImages(files: File[]): DraftImage[] {
+  return files.map((f) => ({ name: f.name, type: f.type, lastModified: f.lastModified, blob: f }));
+}
+
+export function fromDraftImages(images: DraftImage[]): File[] {
+  return images.map((img) => new File([img.blob], img.name, { type: img.type, lastModified: img.lastModified }));
+}
+
+export async function saveDraft(draft: Omit<ComplaintDraft, 'savedAt'>): Promise<void> {
+  try {
+    const record: ComplaintDraft = { ...draft, savedAt: Date.now() };
+    await withStore(LOCAL_STORES.drafts, 'readwrite', (store) => store.put(record, DRAFT_KEY));
+  } catch (e) {
+    console.error('saveDraft error', e);
+  }
+}
+
+/**
+ * Returns the saved draft, or null if there is none or it has expired (expired drafts are removed).
+ */
+export async function loadDraft(): Promise<ComplaintDraft | null> {
+  try {
+    const draft = await withStore<ComplaintDraft | undefined>(LOCAL_STORES.drafts, 'readonly', (store) => store.get(DRAFT_KEY));
+    if (!draft) return null;
+
+    if (isDraftExpired(draft)) {
+      await clearDraft();
+      return null;
+    }
+
+    return draft;
+  } catch (e) {
+    console.error('loadDraft error', e);
+    return null;
+  }
+}
+
+export async function clearDraft(): Promise<void> {
+  try {
+    await withStore(LOCAL_STORES.drafts, 'readwrite', (store) => store.delete(DRAFT_KEY));
+  } catch (e) {
+    console.error('clearDraft error', e);
+  }
+}
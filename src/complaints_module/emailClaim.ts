@@ -0,0 +1,52 @@
+/**
+ * Complaints Module - Verified Email Claim
+ * verify-email returns a short-lived signed claim; submit-complaint checks it
+ * server-side. The browser only stores it and reads back the email for display.
+ */
+
+const EMAIL_CLAIM_STORAGE_KEY = 'inspekto_email_claim';
+
+// Plain-email key used before claims existed; removed on read.
+const LEGACY_VERIFIED_EMAIL_STORAGE_KEY = 'inspekto_verified_email';
+
+export interface StoredEmailClaim {
+  email: string;
+  claim: string;
+  // ISO timestamp
+  expiresAt: string;
+}
+
+export function storeEmailClaim(value: StoredEmailClaim): void {
+  localStorage.setItem(EMAIL_CLAIM_STORAGE_KEY, JSON.stringify(value));
+  localStorage.removeItem(LEGACY_VERIFIED_EMAIL_STORAGE_KEY);
+}
+
+export function clearEmailClaim(): void {
+  localStorage.removeItem(EMAIL_CLAIM_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_VERIFIED_EMAIL_STORAGE_KEY);
+}
+
+/**
+ * Returns the stored claim, or null if missing, malformed or expired.
+ */
+export function readEmailClaim(now = Date.now()): StoredEmailClaim | null {
+  localStorage.removeItem(LEGACY_VERIFIED_EMAIL_STORAGE_KEY);
+
+  const raw = localStorage.getItem(EMAIL_CLAIM_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredEmailClaim>;
+    const expiresAt = new Date(parsed.expiresAt ?? '').getTime();
+
+    if (!parsed.email || !parsed.claim || Number.isNaN(expiresAt) || expiresAt <= now) {
+      clearEmailClaim();
+      return null;
+    }
+
+    return { email: parsed.email.trim().toLowerCase(), claim: parsed.claim, expiresAt: parsed.expiresAt as string };
+  } catch {
+    clearEmailClaim();
+    return null;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Complaints Module - Evidence Upload
+ * Moves the reporter's photos, video clips and audio recordings into staging storage
+ * before the complaint is submitted: prepare (compress photos with imageCompression.ts,
+ * read clip durations and video thumbnails with mediaInfo.ts), open an upload session
+ * (create-upload-session), then upload each file resumably (resumableUpload.ts).
+ *
+ * Work is remembered per selected File, so a retry after a failure skips files that
+ * are already prepared or uploaded and resumes partial uploads. A new session is
+ * opened when the evidence or the email claim change, or the signed tokens are about
+ * to expire.
+ */
+
+import { supabase, supabaseAnonKey, supabaseUrl } from '../supabaseClient';
+import { compressImage } from './imageCompression';
+import { functionErrorStatus, isRetryableStatus, readFunctionErrorBody } from './functionError';
+import { baseMimeType, readMediaInfo } from './mediaInfo';
+import { uploadResumable } from './resumableUpload';
+import { mediaDurationError } from './validation';
+import type { EvidenceKind, EvidenceUploadProgress, FormError, StagedUpload, SubmitFileError } from './types';
+
+const BUCKETS: Record<EvidenceKind, string> = {
+  images: 'complaint-originals',
+  videos: 'complaint-videos',
+  audio: 'complaint-audio',
+};
+
+// Signed upload tokens last two hours; leave room for a slow upload
+const SESSION_MAX_AGE_MS = 90 * 60 * 1000;
+
+type SignedUpload = { index: number; path: string; token: string };
+
+type UploadSessionResponse = {
+  uploadId?: string;
+  ticket?: string;
+  uploads?: SignedUpload[];
+  videoUploads?: Array<SignedUpload & { thumbnailPath: string | null; thumbnailToken: string | null }>;
+  audioUploads?: SignedUpload[];
+  error?: string;
+  code?: string;
+  fieldErrors?: FormError[];
+  fileErrors?: SubmitFileError[];
+};
+
+export interface EvidenceFiles {
+  images: File[];
+  videos: File[];
+  audio: File[];
+}
+
+// What is actually uploaded for one selected file
+interface PreparedFile {
+  kind: EvidenceKind;
+  index: number;
+  // The file as selected, for names in messages
+  source: File;
+  // Compressed for photos, as-is for clips
+  file: File;
+  durationSeconds: number | null;
+  thumbnail: Blob | null;
+}
+
+interface UploadTarget {
+  bucket: string;
+  path: string;
+  token: string;
+  body: Blob;
+  contentType: string;
+  uploadUrl: string | null;
+  done: boolean;
+}
+
+interface UploadSession {
+  evidence: EvidenceFiles;
+  emailClaim: string;
+  createdAt: number;
+  uploadId: string;
+  ticket: string;
+  prepared: PreparedFile[];
+  // Same order as prepared
+  uploads: Array<{ file: UploadTarget; thumbnail: UploadTarget | null }>;
+}
+
+export type StageEvidenceResult =
+  | { success: true; upload: StagedUpload | null; durations: { videos: Array<number | null>; audio: Array<number | null> } }
+  | {
+      success: false;
+      message: string;
+      // Set when create-upload-session rejected the request (SubmitResult.status / code)
+      status?: number;
+      code?: string;
+      fieldErrors?: FormError[];
+      fileErrors?: SubmitFileError[];
+      // See SubmitResult.retryable; unset for per-file upload failures, which resume in place
+      retryable?: boolean;
+    };
+
+type StageFailure = Extract<StageEvidenceResult, { success: false }>;
+
+const compressed = new WeakMap<File, Promise<File>>();
+let session: UploadSession | null = null;
+
+function sameFiles(a: File[], b: File[]): boolean {
+  return a.length === b.length && a.every((f, i) => f === b[i]);
+}
+
+function sameEvidence(a: EvidenceFiles, b: EvidenceFiles): boolean {
+  return sameFiles(a.images, b.images) && sameFiles(a.videos, b.videos) && sameFiles(a.audio, b.audio);
+}
+
+function compressOnce(file: File): Promise<File> {
+  let pending = compressed.get(file);
+  if (!pending) {
+    pending = compressImage(file);
+    compressed.set(file, pending);
+  }
+  return pending;
+}
+
+function target(bucket: string, signed: { path: string; token: string }, body: Blob): UploadTarget {
+  return {
+    bucket,
+    path: signed.path,
+    token: signed.token,
+    body,
+    // The evidence buckets allow base MIME types only
+    contentType: baseMimeType(body.type),
+    uploadUrl: null,
+    done: false,
+  };
+}
+
+async function openSession(
+  evidence: EvidenceFiles,
+  prepared: PreparedFile[],
+  emailClaim: string
+): Promise<UploadSession | StageFailure> {
+  const ofKind = (kind: EvidenceKind) => prepared.filter((p) => p.kind === kind);
+  const describe = (p: PreparedFile) => ({ name: p.file.name, size: p.file.size, type: baseMimeType(p.file.type) });
+
+  const { data, error } = await supabase.functions.invoke('create-upload-session', {
+    body: {
+      emailClaim,
+      files: ofKind('images').map(describe),
+      videos: ofKind('videos').map((p) => ({
+        ...describe(p),
+        durationSeconds: p.durationSeconds,
+        thumbnail: p.thumbnail ? { size: p.thumbnail.size, type: p.thumbnail.type } : null,
+      })),
+      audio: ofKind('audio').map((p) => ({ ...describe(p), durationSeconds: p.durationSeconds })),
+    },
+  });
+
+  if (error) {
+    // No JSON body: unreachable (FunctionsFetchError) or an error page from a proxy
+    const details = await readFunctionErrorBody<UploadSessionResponse>(error);
+    const status = functionErrorStatus(error);
+    return {
+      success: false,
+      message: details?.error || 'Could not prepare the upload. Please try again.',
+      status: status ?? undefined,
+      code: details?.code,
+      fieldErrors: details?.fieldErrors,
+      fileErrors: details?.fileErrors,
+      retryable: isRetryableStatus(status),
+    };
+  }
+
+  const res = data as UploadSessionResponse;
+  const signed: Record<EvidenceKind, SignedUpload[] | undefined> = {
+    images: res?.uploads,
+    videos: res?.videoUploads,
+    audio: res?.audioUploads,
+  };
+  const complete = (Object.keys(signed) as EvidenceKind[]).every(
+    (kind) => (signed[kind]?.length ?? 0) === ofKind(kind).length
+  );
+  if (!res?.uploadId || !res.ticket || !complete) {
+    throw new Error('create-upload-session returned an incomplete session');
+  }
+
+  return {
+    evidence,
+    emailClaim,
+    createdAt: Date.now(),
+    uploadId: res.uploadId,
+    ticket: res.ticket,
+    prepared,
+    uploads: prepared.map((p) => {
+      const upload = signed[p.kind]![p.index];
+      const video = p.kind === 'videos' ? res.videoUploads![p.index] : null;
+      return {
+        file: target(BUCKETS[p.kind], upload, p.file),
+        thumbnail:
+          video?.thumbnailPath && video.thumbnailToken && p.thumbnail
+            ? target(BUCKETS.videos, { path: video.thumbnailPath, token: video.thumbnailToken }, p.thumbnail)
+            : null,
+      };
+    }),
+  };
+}
+
+function uploadTarget(upload: UploadTarget, onProgress?: (uploadedBytes: number) => void): Promise<string> {
+  return uploadResumable({
+    endpoint: `${supabaseUrl}/storage/v1/upload/resumable/sign`,
+    file: upload.body,
+    headers: {
+      apikey: supabaseAnonKey,
+      authorization: `Bearer ${supabaseAnonKey}`,
+      'x-signature': upload.token,
+      'x-upsert': 'true',
+    },
+    metadata: {
+      bucketName: upload.bucket,
+      objectName: upload.path,
+      contentType: upload.contentType,
+      cacheControl: '3600',
+    },
+    uploadUrl: upload.uploadUrl,
+    onUploadUrl: (url) => {
+      upload.uploadUrl = url;
+    },
+    onProgress,
+  });
+}
+
+/**
+ * Prepare and upload every file, reporting per-file progress.
+ * On success the returned reference is what submit-complaint expects as `upload`,
+ * and `durations` its videoDurations / audioDurations.
+ */
+export async function stageEvidence(
+  evidence: EvidenceFiles,
+  emailClaim: string | undefined,
+  onProgress?: (progress: EvidenceUploadProgress[]) => void
+): Promise<StageEvidenceResult> {
+  const selected = (['images', 'videos', 'audio'] as const).flatMap((kind) =>
+    evidence[kind].map((source, index) => ({ kind, index, source }))
+  );
+  if (selected.length === 0) return { success: true, upload: null, durations: { videos: [], audio: [] } };
+
+  const progress: EvidenceUploadProgress[] = selected.map(({ kind, index, source }) => ({
+    kind,
+    index,
+    fileName: source.name,
+    stage: 'queued',
+    uploadedBytes: 0,
+    totalBytes: source.size,
+    error: null,
+  }));
+  const report = (position: number, update: Partial<EvidenceUploadProgress>) => {
+    progress[position] = { ...progress[position], ...update };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  try {
+    // One at a time: decoding several large photos or clips at once can exhaust a phone's memory
+    const prepared: PreparedFile[] = [];
+    const tooLong: SubmitFileError[] = [];
+    for (const [position, { kind, index, source }] of selected.entries()) {
+      if (kind === 'images') {
+        report(position, { stage: 'compressing' });
+        const file = await compressOnce(source);
+        prepared.push({ kind, index, source, file, durationSeconds: null, thumbnail: null });
+        report(position, { stage: 'queued', totalBytes: file.size });
+        continue;
+      }
+
+      report(position, { stage: 'preparing' });
+      const info = await readMediaInfo(source);
+      const durationError = mediaDurationError(kind, info.durationSeconds);
+      if (durationError) {
+        tooLong.push({ kind, index, fileName: source.name, message: durationError });
+        report(position, { stage: 'failed', error: durationError });
+        continue;
+      }
+      prepared.push({ kind, index, source, file: source, durationSeconds: info.durationSeconds, thumbnail: info.thumbnail });
+      report(position, { stage: 'queued' });
+    }
+
+    if (tooLong.length > 0) {
+      return { success: false, message: 'Some recordings are too long. Remove or shorten them.', fileErrors: tooLong };
+    }
+
+    const claim = emailClaim ?? '';
+    const reusable =
+      session &&
+      sameEvidence(session.evidence, evidence) &&
+      session.emailClaim === claim &&
+      Date.now() - session.createdAt < SESSION_MAX_AGE_MS;
+
+    if (!reusable) {
+      const opened = await openSession(evidence, prepared, claim);
+      if ('success' in opened) return opened;
+      session = opened;
+    }
+    const current = session!;
+
+    const fileErrors: SubmitFileError[] = [];
+    for (const [position, { kind, index, source, file }] of current.prepared.entries()) {
+      const { file: upload, thumbnail } = current.uploads[position];
+      if (upload.done) {
+        report(position, { stage: 'done', uploadedBytes: file.size });
+        continue;
+      }
+
+      report(position, { stage: 'uploading', error: null });
+      try {
+        await uploadTarget(upload, (uploadedBytes) => report(position, { uploadedBytes }));
+        upload.done = true;
+      } catch (e) {
+        console.error('stageEvidence upload error', e);
+        const message = 'Upload failed';
+        fileErrors.push({ kind, index, fileName: source.name, message });
+        report(position, { stage: 'failed', error: message });
+        continue;
+      }
+
+      if (thumbnail && !thumbnail.done) {
+        try {
+          await uploadTarget(thumbnail);
+          thumbnail.done = true;
+        } catch (e) {
+          // Optional: submit-complaint leaves out thumbnails that are missing
+          console.error('stageEvidence thumbnail error', kind, index, e);
+        }
+      }
+      report(position, { stage: 'done', uploadedBytes: file.size });
+    }
+
+    if (fileErrors.length > 0) {
+      return { success: false, message: 'Some files could not be uploaded. Check your connection and retry.', fileErrors };
+    }
+
+    const staged = (kind: EvidenceKind) =>
+      current.prepared.flatMap((p, i) => (p.kind === kind ? [{ prepared: p, upload: current.uploads[i] }] : []));
+
+    return {
+      success: true,
+      upload: {
+        id: current.uploadId,
+        ticket: current.ticket,
+        files: staged('images').map(({ prepared: p, upload }) => ({ path: upload.file.path, name: p.file.name })),
+        videos: staged('videos').map(({ prepared: p, upload }) => ({
+          path: upload.file.path,
+          name: p.file.name,
+          thumbnailPath: upload.thumbnail?.path ?? null,
+        })),
+        audio: staged('audio').map(({ prepared: p, upload }) => ({ path: upload.file.path, name: p.file.name })),
+      },
+      durations: {
+        videos: staged('videos').map(({ prepared: p }) => p.durationSeconds),
+        audio: staged('audio').map(({ prepared: p }) => p.durationSeconds),
+      },
+    };
+  } catch (e) {
+    console.error('stageEvidence error', e);
+    return { success: false, message: 'Could not upload your files. Please try again.' };
+  }
+}
+
+/**
+ * Forget the current session, e.g. once its files were submitted.
+ */
+export function resetUploadSession(): void {
+  session = null;
+}
@@ -0,0 +1,29 @@
+/**
+ * supabase-js wraps non-2xx edge function responses in FunctionsHttpError;
+ * the JSON body the function returned is on `context`.
+ */
+export async function readFunctionErrorBody<T>(error: unknown): Promise<T | null> {
+  const context = (error as { context?: unknown } | null)?.context;
+  if (!(context instanceof Response)) return null;
+  try {
+    return (await context.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HTTP status of a non-2xx edge function response; null for network failures.
+ */
+export function functionErrorStatus(error: unknown): number | null {
+  const context = (error as { context?: unknown } | null)?.context;
+  return context instanceof Response ? context.status : null;
+}
+
+/**
+ * True when sending the same request later may succeed: no response at all (network
+ * failure, captive portal, timeout), a server error, or a rate limit.
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  return status === null || status >= 500 || status === 408 || status === 429;
+}
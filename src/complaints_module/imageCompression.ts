@@ -0,0 +1,161 @@
+/**
+ * Complaints Module - Image Compression
+ * Photos are downscaled and re-encoded as JPEG in a Web Worker before upload, so a
+ * phone photo goes up as roughly 1 MB instead of 5-10 MB.
+ *
+ * - The longest side is capped at VITE_IMAGE_MAX_DIMENSION (default 2048) and the
+ *   JPEG quality is VITE_IMAGE_QUALITY (default 0.82).
+ * - The original EXIF block (capture time, GPS, camera) is copied into the private
+ *   upload because submit-complaint reads it for photo provenance. Location is only
+ *   stripped from the public derivative: redact-complaint-media re-encodes without EXIF.
+ * - PNG / WebP photos also become JPEG; their (rarely present) EXIF is not carried over.
+ * - Without Worker / OffscreenCanvas support the original file is uploaded as-is.
+ */
+
+const DEFAULT_MAX_DIMENSION = 2048;
+const DEFAULT_QUALITY = 0.82;
+
+// An APP1 segment is at most 64 KB and sits near the start of the file
+const EXIF_SEARCH_BYTES = 128 * 1024;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+export interface CompressionOptions {
+  maxDimension: number;
+  // 0..1
+  quality: number;
+}
+
+export interface CompressionRequest extends CompressionOptions {
+  file: Blob;
+  copyExif: boolean;
+}
+
+export type CompressionResponse = { ok: true; bytes: ArrayBuffer; resized: boolean } | { ok: false; error: string };
+
+export function parseMaxDimension(raw: string | undefined): number {
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 320 ? Math.round(value) : DEFAULT_MAX_DIMENSION;
+}
+
+export function parseQuality(raw: string | undefined): number {
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : DEFAULT_QUALITY;
+}
+
+export function getCompressionOptions(): CompressionOptions {
+  return {
+    maxDimension: parseMaxDimension(import.meta.env.VITE_IMAGE_MAX_DIMENSION),
+    quality: parseQuality(import.meta.env.VITE_IMAGE_QUALITY),
+  };
+}
+
+/**
+ * Output size keeping the aspect ratio, longest side at most `maxDimension`.
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * The APP1 "Exif" segment of a JPEG (marker included), or null if there is none.
+ */
+export function extractExifSegment(jpeg: Uint8Array): Uint8Array | null {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return null;
+
+  let p = 2;
+  while (p + 4 <= jpeg.length && jpeg[p] === 0xff) {
+    const marker = jpeg[p + 1];
+    // Start of scan: no metadata after this
+    if (marker === 0xda) return null;
+
+    const length = (jpeg[p + 2] << 8) | jpeg[p + 3];
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => jpeg[p + 4 + i] === b)) {
+      return p + 2 + length <= jpeg.length ? jpeg.slice(p, p + 2 + length) : null;
+    }
+    p += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Copy of an Exif segment with Orientation set to 1: the pixels were already
+ * rotated when the image was drawn, so the tag must not rotate them again.
+ */
+export function resetExifOrientation(segment: Uint8Array): Uint8Array {
+  const out = segment.slice();
+  const tiff = 10; // marker (2) + length (2) + "Exif\0\0" (6)
+  if (out.length < tiff + 8) return out;
+
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  const little = out[tiff] === 0x49;
+  const ifd0 = tiff + view.getUint32(tiff + 4, little);
+  if (ifd0 + 2 > out.length) return out;
+
+  const count = view.getUint16(ifd0, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > out.length) break;
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, little);
+      break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Insert an Exif segment right after the JPEG start-of-image marker.
+ */
+export function insertExifSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(jpeg.length + segment.length);
+  out.set(jpeg.subarray(0, 2), 0);
+  out.set(segment, 2);
+  out.set(jpeg.subarray(2), 2 + segment.length);
+  return out;
+}
+
+export async function readExifSegment(file: Blob): Promise<Uint8Array | null> {
+  return extractExifSegment(new Uint8Array(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer()));
+}
+
+function jpegName(name: string): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base || 'photo'}.jpg`;
+}
+
+function runWorker(request: CompressionRequest): Promise<CompressionResponse> {
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./imageCompression.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompressionResponse>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      resolve({ ok: false, error: event.message || 'Compression worker failed' });
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Downscale and re-encode one photo. Returns the original file when compression is
+ * unavailable, fails, or would not make the upload smaller.
+ */
+export async function compressImage(file: File, options: CompressionOptions = getCompressionOptions()): Promise<File> {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return file;
+
+  const result = await runWorker({ ...options, file, copyExif: file.type === 'image/jpeg' });
+  if (!result.ok) {
+    console.error('compressImage error', result.error);
+    return file;
+  }
+
+  // Re-encoding a small JPEG can make it larger; keep the original then
+  if (!result.resized && file.type === 'image/jpeg' && result.bytes.byteLength >= file.size) return file;
+
+  return new File([result.bytes], jpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified });
+}
@@ -0,0 +1,49 @@
+/**
+ * Complaints Module - Image Compression Worker
+ * Decodes, downscales and re-encodes one image off the main thread (see imageCompression.ts).
+ */
+
+import { fitWithin, insertExifSegment, readExifSegment, resetExifOrientation } from './imageCompression';
+import type { CompressionRequest, CompressionResponse } from './imageCompression';
+
+// The app is type-checked with the DOM lib only; this is the part of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CompressionRequest>) => void) | null;
+  postMessage(message: CompressionResponse, transfer?: Transferable[]): void;
+};
+
+async function compress({ file, maxDimension, quality, copyExif }: CompressionRequest): Promise<CompressionResponse> {
+  // Applies the EXIF orientation, so the output pixels are upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const size = fitWithin(bitmap.width, bitmap.height, maxDimension);
+  const resized = size.width !== bitmap.width || size.height !== bitmap.height;
+
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    return { ok: false, error: 'OffscreenCanvas 2D context unavailable' };
+  }
+
+  // JPEG has no alpha; transparent PNG areas would otherwise turn black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  let bytes: Uint8Array<ArrayBuffer> = new Uint8Array(await blob.arrayBuffer());
+
+  if (copyExif) {
+    const exif = await readExifSegment(file);
+    if (exif) bytes = insertExifSegment(bytes, resetExifOrientation(exif));
+  }
+
+  return { ok: true, bytes: bytes.buffer, resized };
+}
+
+scope.onmessage = (event) => {
+  compress(event.data)
+    .then((response) => scope.postMessage(response, response.ok ? [response.bytes] : []))
+    .catch((e: unknown) => scope.postMessage({ ok: false, error: e instanceof Error ? e.message : String(e) }));
+};
@@ -3,6 +3,14 @@
  */
 
 export { default as ComplaintForm } from './ComplaintForm';
-export { submitComplaint, getComplaint } from './db';
+export { submitComplaint } from './db';
 export { validateForm, getFieldError } from './validation';
-export type { ComplaintFormData, Complaint, FormError, SubmitResult } from './types';
+export {
+  COMPLAINT_STATUSES,
+  INITIAL_COMPLAINT_STATUS,
+  isComplaintStatus,
+  groupTransitions,
+  getAllowedTransitions,
+} from './status';
+export type { ComplaintStatus, StatusTransitions } from './status';
+export type { ComplaintFormData, Complaint, FormError, SubmitFileError, SubmitResult } from './types';
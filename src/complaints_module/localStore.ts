@@ -0,0 +1,56 @@
+/**
+ * Complaints Module - Local (IndexedDB) Storage
+ * One browser database shared by the draft store and the offline outbox.
+ */
+
+const DB_NAME = 'inspekto';
+const DB_VERSION = 2;
+
+export const LOCAL_STORES = {
+  // v1
+  drafts: 'complaint_drafts',
+  // v2
+  outbox: 'complaint_outbox',
+} as const;
+
+export type LocalStoreName = (typeof LOCAL_STORES)[keyof typeof LOCAL_STORES];
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      for (const name of Object.values(LOCAL_STORES)) {
+        if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Run a single request in its own transaction and resolve once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Complaints Module - Location Sampling
+ * Takes several GPS readings over a few seconds instead of a single fix. The server
+ * compares them (supabase/functions/_shared/locationIntegrity.ts) to spot mocked or
+ * replayed locations, and stores them for reviewers.
+ *
+ * - Readings are requested fresh (maximumAge 0) and stamped with the time the page
+ *   received them, so a stale fix shows up as a gap between the two.
+ * - Sampling ends after `durationMs` or `maxSamples` readings, whichever comes first.
+ */
+
+import type { LocationSample } from './types';
+
+export interface SamplingOptions {
+  durationMs: number;
+  maxSamples: number;
+  // Wait this long for the first reading before giving up
+  timeoutMs: number;
+}
+
+export const DEFAULT_SAMPLING: SamplingOptions = {
+  durationMs: 4000,
+  maxSamples: 5,
+  timeoutMs: 12000,
+};
+
+export type SamplingResult =
+  | { ok: true; samples: LocationSample[] }
+  | { ok: false; error: GeolocationPositionError | null };
+
+export function collectLocationSamples(
+  options: SamplingOptions = DEFAULT_SAMPLING,
+  geolocation: Geolocation = navigator.geolocation
+): Promise<SamplingResult> {
+  return new Promise((resolve) => {
+    const samples: LocationSample[] = [];
+    let lastError: GeolocationPositionError | null = null;
+    let durationTimer: number | undefined;
+    let watchId: number | undefined = undefined;
+    let done = false;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      window.clearTimeout(timeoutTimer);
+      window.clearTimeout(durationTimer);
+      if (watchId !== undefined) geolocation.clearWatch(watchId);
+      resolve(samples.length > 0 ? { ok: true, samples } : { ok: false, error: lastError });
+    };
+
+    const timeoutTimer = window.setTimeout(finish, options.timeoutMs);
+
+    watchId = geolocation.watchPosition(
+      (pos) => {
+        samples.push({
+          latitude: pos.coords.latitude,
+          longitude: pos.coords.longitude,
+          accuracy: Number.isFinite(pos.coords.accuracy) ? pos.coords.accuracy : null,
+          timestamp: pos.timestamp,
+          receivedAt: Date.now(),
+        });
+
+        // The window starts with the first reading, so a slow permission prompt does not eat it
+        if (samples.length === 1) durationTimer = window.setTimeout(finish, options.durationMs);
+        if (samples.length >= options.maxSamples) finish();
+      },
+      (err) => {
+        lastError = err;
+        // Denied permission will not change; other errors may be followed by a reading
+        if (err.code === err.PERMISSION_DENIED) finish();
+      },
+      { enableHighAccuracy: true, timeout: options.timeoutMs, maximumAge: 0 }
+    );
+
+    // watchPosition may call back synchronously
+    if (done) geolocation.clearWatch(watchId);
+  });
+}
+
+/**
+ * The reading to use as the reporter's location: the most accurate, latest on ties.
+ */
+export function pickFix(samples: LocationSample[]): LocationSample | null {
+  let best: LocationSample | null = null;
+  for (const sample of samples) {
+    const accuracy = sample.accuracy ?? Infinity;
+    const bestAccuracy = best?.accuracy ?? Infinity;
+    if (!best || accuracy < bestAccuracy || (accuracy === bestAccuracy && sample.timestamp >= best.timestamp)) {
+      best = sample;
+    }
+  }
+  return best;
+}
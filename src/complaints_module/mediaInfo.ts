@@ -0,0 +1,175 @@
+/**
+ * Complaints Module - Media Info
+ * Duration and a poster frame of a video clip / audio recording, read in the browser.
+ * The server cannot decode media, so durations travel with the submission
+ * (videoDurations / audioDurations) and the poster frame is uploaded as a small JPEG.
+ *
+ * - A detached <video> / <audio> element does the decoding; files the browser cannot
+ *   play (or that take longer than READ_TIMEOUT_MS) yield null values, not errors.
+ * - Chrome reports an Infinity duration for MediaRecorder WebM files until it has seen
+ *   the end, so those are seeked to the end once to learn their length.
+ */
+
+import { fitWithin } from './imageCompression';
+import type { EvidenceCounts } from './types';
+
+const READ_TIMEOUT_MS = 10_000;
+const THUMBNAIL_MAX_DIMENSION = 480;
+const THUMBNAIL_QUALITY = 0.8;
+
+export interface MediaInfo {
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  // JPEG poster frame (videos only)
+  thumbnail: Blob | null;
+}
+
+const UNKNOWN: MediaInfo = { durationSeconds: null, width: null, height: null, thumbnail: null };
+
+const cache = new WeakMap<Blob, Promise<MediaInfo>>();
+
+/**
+ * MIME type without parameters: MediaRecorder reports e.g. "video/webm;codecs=vp8,opus".
+ */
+export function baseMimeType(type: string): string {
+  return type.split(';')[0].trim().toLowerCase();
+}
+
+export function isVideoFile(file: Blob): boolean {
+  return baseMimeType(file.type).startsWith('video/');
+}
+
+/**
+ * m:ss, or a placeholder while the duration is unknown.
+ */
+export function formatDuration(seconds: number | null): string {
+  if (seconds == null || !Number.isFinite(seconds)) return '–:––';
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * "2 photos, 1 video clip" style summary for the review step and the confirmation page.
+ */
+export function describeEvidence(counts: EvidenceCounts): string {
+  const parts = [
+    [counts.photos, 'photo', 'photos'],
+    [counts.videos, 'video clip', 'video clips'],
+    [counts.audio, 'audio recording', 'audio recordings'],
+  ] as const;
+
+  const text = parts
+    .filter(([n]) => n > 0)
+    .map(([n, one, many]) => `${n} ${n === 1 ? one : many}`)
+    .join(', ');
+  return text || 'No files';
+}
+
+/**
+ * Where the poster frame is taken: one second in (the first frame is often black),
+ * or halfway through shorter clips.
+ */
+export function thumbnailTime(durationSeconds: number | null): number {
+  return durationSeconds != null && Number.isFinite(durationSeconds) ? Math.min(1, durationSeconds / 2) : 0;
+}
+
+function waitFor(el: HTMLMediaElement, event: 'loadedmetadata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      el.removeEventListener(event, done);
+      el.removeEventListener('error', fail);
+    };
+    const done = () => {
+      cleanup();
+      resolve();
+    };
+    const fail = () => {
+      cleanup();
+      reject(el.error ?? new Error('Media could not be read'));
+    };
+    el.addEventListener(event, done);
+    el.addEventListener('error', fail);
+  });
+}
+
+async function seek(el: HTMLMediaElement, time: number): Promise<void> {
+  const seeked = waitFor(el, 'seeked');
+  el.currentTime = time;
+  await seeked;
+}
+
+async function readDuration(el: HTMLMediaElement): Promise<number | null> {
+  if (Number.isFinite(el.duration)) return el.duration;
+
+  await seek(el, Number.MAX_SAFE_INTEGER);
+  const duration = el.duration;
+  await seek(el, 0);
+  return Number.isFinite(duration) ? duration : null;
+}
+
+async function captureFrame(video: HTMLVideoElement, time: number): Promise<Blob | null> {
+  await seek(video, time);
+
+  const size = fitWithin(video.videoWidth, video.videoHeight, THUMBNAIL_MAX_DIMENSION);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, size.width, size.height);
+
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+}
+
+async function inspect(file: Blob): Promise<MediaInfo> {
+  const isVideo = isVideoFile(file);
+  const el = document.createElement(isVideo ? 'video' : 'audio');
+  el.preload = 'metadata';
+  el.muted = true;
+
+  const url = URL.createObjectURL(file);
+  try {
+    const loaded = waitFor(el, 'loadedmetadata');
+    el.src = url;
+    await loaded;
+
+    const durationSeconds = await readDuration(el);
+    if (!isVideo) return { ...UNKNOWN, durationSeconds };
+
+    const video = el as HTMLVideoElement;
+    const hasFrames = video.videoWidth > 0 && video.videoHeight > 0;
+    return {
+      durationSeconds,
+      width: hasFrames ? video.videoWidth : null,
+      height: hasFrames ? video.videoHeight : null,
+      thumbnail: hasFrames ? await captureFrame(video, thumbnailTime(durationSeconds)) : null,
+    };
+  } finally {
+    el.removeAttribute('src');
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Duration, dimensions and poster frame of `file`; read once per file.
+ */
+export function readMediaInfo(file: Blob): Promise<MediaInfo> {
+  let pending = cache.get(file);
+  if (!pending) {
+    let timer = 0;
+    const timeout = new Promise<MediaInfo>((resolve) => {
+      timer = window.setTimeout(() => resolve(UNKNOWN), READ_TIMEOUT_MS);
+    });
+
+    pending = Promise.race([inspect(file), timeout])
+      .catch((e: unknown) => {
+        console.error('readMediaInfo error', e);
+        return UNKNOWN;
+      })
+      .finally(() => window.clearTimeout(timer));
+    cache.set(file, pending);
+  }
+  return pending;
+}
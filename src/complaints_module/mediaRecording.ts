@@ -0,0 +1,103 @@
+/**
+ * Complaints Module - In-app Recording
+ * Records video clips from the camera stream ComplaintForm already opens, and audio
+ * from the microphone, with MediaRecorder.
+ *
+ * - MP4 is preferred over WebM when the browser can record both, because it plays
+ *   back in more browsers on the review side.
+ * - A recording stops by itself after `maxDurationSeconds`.
+ */
+
+import { baseMimeType } from './mediaInfo';
+
+type RecordingKind = 'videos' | 'audio';
+
+// In order of preference
+export const RECORDING_TYPES: Record<RecordingKind, string[]> = {
+  videos: ['video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  audio: ['audio/mp4', 'audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus'],
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'audio/mp4': '.m4a',
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+};
+
+// Chunks are flushed every second so a crash loses little
+const TIMESLICE_MS = 1000;
+
+export interface RecordingOptions {
+  kind: RecordingKind;
+  maxDurationSeconds: number;
+  // Start of the file name, e.g. IN_APP_CAPTURE_PREFIX
+  namePrefix: string;
+}
+
+export interface RecordingSession {
+  startedAt: number;
+  // Resolves once stopped (by stop() or at the time limit); null when cancelled or empty
+  result: Promise<File | null>;
+  stop(): void;
+  cancel(): void;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined';
+}
+
+/**
+ * First type in RECORDING_TYPES the browser can record, or null to let it choose.
+ */
+export function pickRecordingType(
+  kind: RecordingKind,
+  isTypeSupported: (type: string) => boolean = (type) => MediaRecorder.isTypeSupported(type)
+): string | null {
+  return RECORDING_TYPES[kind].find((type) => isTypeSupported(type)) ?? null;
+}
+
+export function startRecording(stream: MediaStream, options: RecordingOptions): RecordingSession {
+  const preferred = pickRecordingType(options.kind);
+  const recorder = new MediaRecorder(stream, preferred ? { mimeType: preferred } : undefined);
+  const chunks: Blob[] = [];
+  let cancelled = false;
+  let timer = 0;
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const result = new Promise<File | null>((resolve) => {
+    recorder.onstop = () => {
+      window.clearTimeout(timer);
+      if (cancelled || chunks.length === 0) {
+        resolve(null);
+        return;
+      }
+
+      // Stored without codec parameters; the evidence buckets allow base types only
+      const fallback = options.kind === 'videos' ? 'video/webm' : 'audio/webm';
+      const type = baseMimeType(recorder.mimeType || preferred || chunks[0].type) || fallback;
+      resolve(new File(chunks, `${options.namePrefix}${Date.now()}${EXTENSIONS[type] ?? ''}`, { type }));
+    };
+  });
+
+  recorder.start(TIMESLICE_MS);
+  timer = window.setTimeout(stop, options.maxDurationSeconds * 1000);
+
+  return {
+    startedAt: Date.now(),
+    result,
+    stop,
+    cancel: () => {
+      cancelled = true;
+      stop();
+    },
+  };
+}
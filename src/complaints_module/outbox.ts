@@ -0,0 +1,291 @@
+/**
+ * Complaints Module - Offline Outbox
+ *
+ * When the reporter has no connectivity at submit time, or the submit fails in a way a
+ * later attempt can fix (no response, 5xx, see SubmitResult.retryable), the full payload
+ * (images, videos and audio included) is queued in IndexedDB and replayed later through
+ * submitComplaint + send-complaint-confirmation.
+ *
+ * Replay is triggered by:
+ * - app start (startOutboxSync in main.tsx)
+ * - the browser `online` event
+ * - a Background Sync event relayed by public/sw.js to an open tab (supported browsers
+ *   only); with no tab open the sync fails and the browser tries it again later
+ *
+ * Submitted entries are kept (without files) so the confirmation page can swap
+ * the "pending upload" state for the real tracking ID; they are pruned after a week.
+ *
+ * A 4xx response that is not retryable stops the retries and marks the entry 'rejected'.
+ * Of those, email_unverified (401, the claim expired) and email_mismatch (403) can be
+ * fixed by verifying the email again. An expired claim is the common case after a long
+ * time offline; once the reporter verifies again, the next flush resends the entry with
+ * the new claim. An expired upload session (403 upload_session_invalid) is retryable:
+ * the replay stages the files again.
+ *
+ * Each entry carries a submissionId, so a replay whose earlier response was lost
+ * returns the complaint already created instead of filing it twice.
+ */
+
+import { supabase } from '../supabaseClient';
+import { submitComplaint } from './db';
+import { fromDraftImages, toDraftImages } from './drafts';
+import { readEmailClaim } from './emailClaim';
+import type { DraftImage } from './drafts';
+import { LOCAL_STORES, withStore } from './localStore';
+import type { ComplaintFormData, SubmitResult } from './types';
+
+export const OUTBOX_SYNC_TAG = 'complaint-outbox';
+const OUTBOX_CHANGED_EVENT = 'inspekto:outbox-changed';
+const SUBMITTED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type OutboxStatus = 'pending' | 'submitted' | 'rejected';
+
+// Rejection codes a new email claim can fix
+const REVERIFY_CODES = ['email_unverified', 'email_mismatch'];
+
+export interface OutboxEntry {
+  id: string;
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  // Set once the complaint has been created.
+  complaintId: string | null;
+  // Why the server refused the entry; set with status 'rejected'
+  rejection?: { status: number; code: string | null } | null;
+  payload: Omit<ComplaintFormData, 'images' | 'videos' | 'audio'>;
+  images: DraftImage[];
+  // Absent from entries queued before video / audio evidence existed
+  videos?: DraftImage[];
+  audio?: DraftImage[];
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+function newEntryId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(LOCAL_STORES.outbox, 'readwrite', (store) => store.put(entry, entry.id));
+  notifyChanged();
+}
+
+async function deleteEntry(id: string): Promise<void> {
+  await withStore(LOCAL_STORES.outbox, 'readwrite', (store) => store.delete(id));
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncCapableRegistration;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (e) {
+    // Background Sync is optional; `online` and app start still flush the outbox.
+    console.error('requestBackgroundSync error', e);
+  }
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * True when a failed submit should be queued rather than reported as an error.
+ * navigator.onLine alone misses captive portals, dropped mobile data and timeouts.
+ */
+export function shouldQueue(result: Pick<SubmitResult, 'retryable'>): boolean {
+  return isOffline() || !!result.retryable;
+}
+
+export async function enqueueComplaint(formData: ComplaintFormData): Promise<OutboxEntry | null> {
+  try {
+    const { images, videos = [], audio = [], ...payload } = formData;
+    const id = newEntryId();
+    const entry: OutboxEntry = {
+      id,
+      createdAt: Date.now(),
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      complaintId: null,
+      rejection: null,
+      payload: { ...payload, submissionId: payload.submissionId ?? id },
+      images: toDraftImages(images),
+      videos: toDraftImages(videos),
+      audio: toDraftImages(audio),
+    };
+
+    await putEntry(entry);
+    void requestBackgroundSync();
+    return entry;
+  } catch (e) {
+    console.error('enqueueComplaint error', e);
+    return null;
+  }
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const rows = await withStore<OutboxEntry[]>(LOCAL_STORES.outbox, 'readonly', (store) => store.getAll());
+    return rows.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    console.error('listOutbox error', e);
+    return [];
+  }
+}
+
+export async function getOutboxEntry(id: string): Promise<OutboxEntry | null> {
+  try {
+    const row = await withStore<OutboxEntry | undefined>(LOCAL_STORES.outbox, 'readonly', (store) => store.get(id));
+    return row ?? null;
+  } catch (e) {
+    console.error('getOutboxEntry error', e);
+    return null;
+  }
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  window.addEventListener(OUTBOX_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, listener);
+}
+
+/**
+ * True when the reporter can unblock a rejected entry by verifying their email again.
+ */
+export function needsReverification(entry: Pick<OutboxEntry, 'status' | 'rejection'>): boolean {
+  return entry.status === 'rejected' && REVERIFY_CODES.includes(entry.rejection?.code ?? '');
+}
+
+/**
+ * The claim to send: a newer one stored for the same email after re-verifying, else
+ * the one captured when the entry was queued.
+ */
+function currentClaim(entry: OutboxEntry): string | undefined {
+  const stored = readEmailClaim();
+  return stored && stored.email === entry.payload.reporterEmail.trim().toLowerCase()
+    ? stored.claim
+    : entry.payload.emailClaim;
+}
+
+async function replayEntry(queued: OutboxEntry): Promise<void> {
+  const entry: OutboxEntry = { ...queued, payload: { ...queued.payload, emailClaim: currentClaim(queued) } };
+
+  const result = await submitComplaint({
+    ...entry.payload,
+    images: fromDraftImages(entry.images),
+    videos: fromDraftImages(entry.videos ?? []),
+    audio: fromDraftImages(entry.audio ?? []),
+  });
+
+  if (!result.success || !result.complaintId) {
+    // No status: a local failure or an upload that stopped midway; try again next flush
+    const terminal = result.status !== undefined && !result.retryable;
+    await putEntry({
+      ...entry,
+      status: terminal ? 'rejected' : 'pending',
+      attempts: entry.attempts + 1,
+      lastError: result.message,
+      rejection: terminal ? { status: result.status!, code: result.code ?? null } : null,
+    });
+    return;
+  }
+
+  const email = entry.payload.reporterEmail.trim();
+  try {
+    await supabase.functions.invoke('send-complaint-confirmation', {
+      body: { email, complaintId: result.complaintId },
+    });
+  } catch (emailErr) {
+    console.error('Failed to send confirmation email:', emailErr);
+    // Continue anyway - complaint was submitted successfully
+  }
+
+  await putEntry({
+    ...entry,
+    status: 'submitted',
+    attempts: entry.attempts + 1,
+    lastError: null,
+    rejection: null,
+    complaintId: result.complaintId,
+    images: [],
+    videos: [],
+    audio: [],
+  });
+}
+
+async function runFlush(): Promise<void> {
+  const entries = await listOutbox();
+  const now = Date.now();
+
+  for (const entry of entries) {
+    if (entry.status === 'submitted') {
+      if (now - entry.createdAt > SUBMITTED_RETENTION_MS) await deleteEntry(entry.id);
+      continue;
+    }
+
+    // Rejected entries wait for the reporter; only a new claim is worth another try
+    if (entry.status === 'rejected' && !(needsReverification(entry) && currentClaim(entry) !== entry.payload.emailClaim)) {
+      continue;
+    }
+
+    // Stop early rather than burning attempts while still offline.
+    if (isOffline()) return;
+    await replayEntry(entry);
+  }
+}
+
+/**
+ * Remove an entry the reporter gave up on (e.g. one rejected as invalid).
+ */
+export async function discardOutboxEntry(id: string): Promise<void> {
+  try {
+    await deleteEntry(id);
+    notifyChanged();
+  } catch (e) {
+    console.error('discardOutboxEntry error', e);
+  }
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay every pending entry, oldest first. Concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch((e) => console.error('flushOutbox error', e))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+/**
+ * Wire up replay triggers. Call once at app start.
+ */
+export function startOutboxSync(): void {
+  window.addEventListener('online', () => void flushOutbox());
+
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      if ((event.data as { type?: string } | null)?.type !== 'flush-outbox') return;
+      // public/sw.js keeps the sync pending until nothing is left to send
+      void flushOutbox()
+        .then(listOutbox)
+        .then((entries) => event.ports[0]?.postMessage({ pending: entries.filter((e) => e.status === 'pending').length }));
+    });
+  }
+
+  void flushOutbox();
+}
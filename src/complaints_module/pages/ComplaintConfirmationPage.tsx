@@ -1,14 +1,23 @@
-import { useMemo, useState } from 'react'
-import { Link, useLocation, useSearchParams } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from '../ui/Button'
 import { ComplaintsHeader } from '../ui/ComplaintsHeader'
-import { CheckCircle, Copy, ArrowRight } from 'lucide-react'
+import { CheckCircle, Copy, ArrowRight, CloudOff, AlertTriangle } from 'lucide-react'
+import { describeEvidence } from '../mediaInfo'
+import { discardOutboxEntry, flushOutbox, getOutboxEntry, needsReverification, subscribeOutbox } from '../outbox'
+import type { OutboxEntry } from '../outbox'
+import type { EvidenceCounts } from '../types'
 
 type LocationState = {
   complaintId?: string
   email?: string
+  // Files attached to the report that was just submitted
+  evidence?: EvidenceCounts
 }
 
+// entry is null when the pending ID is unknown on this device
+type PendingLookup = { key: string; entry: OutboxEntry | null }
+
 function maskEmail(email: string) {
   const [name, domain] = email.split('@')
   if (!name || !domain) return email
@@ -18,13 +27,54 @@ function maskEmail(email: string) {
 
 export default function ComplaintConfirmationPage() {
   const location = useLocation()
+  const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const state = (location.state || {}) as LocationState
 
-  const complaintId = state.complaintId || searchParams.get('id') || undefined
+  // Set when the complaint was queued for later (see outbox.ts)
+  const pendingId = searchParams.get('pending') || undefined
+  const [pending, setPending] = useState<PendingLookup | null>(null)
+
+  useEffect(() => {
+    if (!pendingId) return
+
+    let cancelled = false
+    const refresh = () => {
+      void getOutboxEntry(pendingId).then((entry) => {
+        if (!cancelled) setPending({ key: pendingId, entry })
+      })
+    }
+
+    refresh()
+    const unsubscribe = subscribeOutbox(refresh)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [pendingId])
+
+  const pendingEntry = pending && pending.key === pendingId ? pending.entry : undefined
+
+  const complaintId = state.complaintId || searchParams.get('id') || pendingEntry?.complaintId || undefined
   const email = state.email
+  const evidence = state.evidence
+  const isRejected = !!pendingId && !complaintId && pendingEntry?.status === 'rejected'
+  const isPendingUpload = !!pendingId && !complaintId && pendingEntry !== null && !isRejected
 
   const [copied, setCopied] = useState(false)
+  const [retrying, setRetrying] = useState(false)
+
+  const retryNow = async () => {
+    setRetrying(true)
+    await flushOutbox()
+    setRetrying(false)
+  }
+
+  const discard = async () => {
+    if (!pendingId) return
+    await discardOutboxEntry(pendingId)
+    navigate('/complaints/submit', { replace: true })
+  }
 
   const trackingLink = useMemo(() => {
     if (!complaintId) return '/tracking'
@@ -45,7 +95,87 @@ export default function ComplaintConfirmationPage() {
       {/* Main */}
       <main className="flex justify-center px-6 sm:px-10 lg:px-16 py-12 sm:py-16">
         <div className="w-full max-w-5xl">
-          {!complaintId ? (
+          {isRejected && pendingEntry ? (
+            <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-hidden animate-fade-in-slow">
+              <div className="h-2 bg-gradient-to-r from-red-400 via-red-500 to-rose-500" />
+
+              <div className="p-8 sm:p-10 lg:p-14 text-center">
+                <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-red-100 ring-1 ring-red-200">
+                  <AlertTriangle className="h-10 w-10 text-red-700" />
+                </div>
+
+                <h2 className="text-4xl font-bold text-slate-900 tracking-tight">Not sent yet</h2>
+                {pendingEntry.lastError && <p className="mt-4 text-lg text-slate-600">{pendingEntry.lastError}</p>}
+
+                {needsReverification(pendingEntry) ? (
+                  <>
+                    <p className="mt-2 text-sm text-slate-500">
+                      Your complaint is still saved on this device. Verify{' '}
+                      <span className="font-semibold text-slate-700">{maskEmail(pendingEntry.payload.reporterEmail.trim())}</span>{' '}
+                      again and it will be sent automatically.
+                    </p>
+
+                    <div className="mt-10 flex flex-col sm:flex-row justify-center gap-4">
+                      <Link to="/complaints/submit">
+                        <Button size="lg">Verify email</Button>
+                      </Link>
+                      <Button size="lg" variant="secondary" onClick={() => void retryNow()} disabled={retrying}>
+                        {retrying ? 'Sending…' : 'I verified, send now'}
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="mt-2 text-sm text-slate-500">
+                      This report cannot be sent as it is. Please submit it again from the complaint form.
+                    </p>
+
+                    <div className="mt-10 flex flex-col sm:flex-row justify-center gap-4">
+                      <Button size="lg" onClick={() => void discard()}>
+                        Discard and start again
+                      </Button>
+                      <Link to="/">
+                        <Button size="lg" variant="secondary">Back to home</Button>
+                      </Link>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          ) : isPendingUpload ? (
+            <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-hidden animate-fade-in-slow">
+              <div className="h-2 bg-gradient-to-r from-amber-400 via-amber-500 to-orange-500" />
+
+              <div className="p-8 sm:p-10 lg:p-14 text-center">
+                <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-amber-100 ring-1 ring-amber-200">
+                  <CloudOff className="h-10 w-10 text-amber-700" />
+                </div>
+
+                <h2 className="text-4xl font-bold text-slate-900 tracking-tight">Pending upload</h2>
+                <p className="mt-4 text-lg text-slate-600">
+                  Your complaint is saved on this device and will be sent automatically once the connection is back.
+                </p>
+                <p className="mt-2 text-sm text-slate-500">
+                  Your tracking ID will appear here after upload. Keep this page open or come back to it later.
+                </p>
+
+                {pendingEntry?.lastError && (
+                  <p className="mt-6 text-sm text-amber-800">
+                    Last attempt failed ({pendingEntry.attempts} {pendingEntry.attempts === 1 ? 'try' : 'tries'} so far). We will keep retrying.
+                  </p>
+                )}
+
+                <div className="mt-10 flex flex-col sm:flex-row justify-center gap-4">
+                  <Button size="lg" onClick={() => void retryNow()} disabled={retrying}>
+                    {retrying ? 'Sending…' : 'Try now'}
+                  </Button>
+                  <Link to="/">
+                    <Button size="lg" variant="secondary">Back to home</Button>
+                  </Link>
+                </div>
+              </div>
+            </div>
+          ) : !complaintId ? (
             <div className="bg-white rounded-3xl border border-slate-200 shadow-xl p-8 sm:p-10 lg:p-12 animate-fade-in-slow">
               <h2 className="text-2xl font-bold text-slate-900">Confirmation unavailable</h2>
               <p className="mt-3 text-slate-600">
@@ -99,6 +229,12 @@ export default function ComplaintConfirmationPage() {
                           <span className="font-semibold text-slate-900">{maskEmail(email)}</span>
                         </p>
                       )}
+                      {evidence && (
+                        <p className="mt-2 text-sm text-slate-600">
+                          Evidence received:{' '}
+                          <span className="font-semibold text-slate-900">{describeEvidence(evidence)}</span>
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex flex-col gap-3 sm:items-end">
@@ -1,7 +1,9 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { ComplaintForm } from '..'
 import { ComplaintsHeader } from '../ui/ComplaintsHeader'
 import { supabase } from '../../supabaseClient'
+import { clearEmailClaim, readEmailClaim } from '../emailClaim'
+import { readFunctionErrorBody } from '../functionError'
 
 type Status =
   | { kind: 'idle' }
@@ -18,20 +20,45 @@ function isValidEmail(email: string) {
   return /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/.test(email)
 }
 
-const VERIFIED_EMAIL_STORAGE_KEY = 'inspekto_verified_email'
+function formatCountdown(totalSeconds: number) {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+type VerificationResponse = {
+  error?: string
+  // Seconds until request-email-verification accepts another request for this email / IP
+  retryAfterSeconds?: number
+}
 
 export default function SubmitComplaintPage() {
   const [email, setEmail] = useState('')
   const [status, setStatus] = useState<Status>({ kind: 'idle' })
 
-  const verifiedEmail = useMemo(() => {
-    const stored = localStorage.getItem(VERIFIED_EMAIL_STORAGE_KEY)
-    return stored ? normalizeEmail(stored) : null
-  }, [])
+  // Only a display hint: submit-complaint re-checks the signed claim.
+  const emailClaim = useMemo(() => readEmailClaim(), [])
+  const verifiedEmail = emailClaim?.email ?? null
+
+  const canAccessForm = emailClaim !== null
+
+  // Resend cooldown reported by the server
+  const [retryAt, setRetryAt] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
 
-  const [useVerifiedEmailForForm, setUseVerifiedEmailForForm] = useState(true)
+  useEffect(() => {
+    if (retryAt === null) return
+    const handle = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(handle)
+  }, [retryAt])
 
-  const canAccessForm = verifiedEmail !== null
+  const retryInSeconds = retryAt === null ? 0 : Math.max(0, Math.ceil((retryAt - now) / 1000))
+
+  const startCooldown = (seconds: number | undefined) => {
+    const t = Date.now()
+    setNow(t)
+    setRetryAt(seconds && seconds > 0 ? t + seconds * 1000 : null)
+  }
 
   const requestVerification = async () => {
     const normalized = normalizeEmail(email)
@@ -40,22 +67,27 @@ export default function SubmitComplaintPage() {
       return
     }
 
+    if (retryInSeconds > 0) return
+
     setStatus({ kind: 'sending' })
 
-    const { error } = await supabase.functions.invoke('request-email-verification', {
+    const { data, error } = await supabase.functions.invoke('request-email-verification', {
       body: { email: normalized },
     })
 
     if (error) {
-      setStatus({ kind: 'error', message: error.message || 'Failed to send verification email.' })
+      const details = await readFunctionErrorBody<VerificationResponse>(error)
+      startCooldown(details?.retryAfterSeconds)
+      setStatus({ kind: 'error', message: details?.error || error.message || 'Failed to send verification email.' })
       return
     }
 
+    startCooldown((data as VerificationResponse | null)?.retryAfterSeconds)
     setStatus({ kind: 'sent' })
   }
 
   const clearVerification = () => {
-    localStorage.removeItem(VERIFIED_EMAIL_STORAGE_KEY)
+    clearEmailClaim()
     // reload to refresh memoized storage state
     window.location.reload()
   }
@@ -117,7 +149,7 @@ export default function SubmitComplaintPage() {
 
               <button
                 onClick={requestVerification}
-                disabled={status.kind === 'sending'}
+                disabled={status.kind === 'sending' || retryInSeconds > 0}
                 className="w-full bg-[#1a5f5f] text-white py-3 rounded-lg font-medium hover:bg-[#164d4d] transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {status.kind === 'sending' ? (
@@ -128,6 +160,8 @@ export default function SubmitComplaintPage() {
                     </svg>
                     Sending verification link...
                   </>
+                ) : retryInSeconds > 0 ? (
+                  <>You can request another link in {formatCountdown(retryInSeconds)}</>
                 ) : (
                   <>
                     <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -160,9 +194,12 @@ export default function SubmitComplaintPage() {
                     Didn't receive the email?{' '}
                     <button
                       onClick={requestVerification}
-                      className="text-blue-600 hover:text-blue-700 font-medium"
+                      disabled={retryInSeconds > 0}
+                      className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
                     >
-                      Resend verification link
+                      {retryInSeconds > 0
+                        ? `Resend available in ${formatCountdown(retryInSeconds)}`
+                        : 'Resend verification link'}
                     </button>
                   </p>
                 </div>
@@ -180,16 +217,9 @@ export default function SubmitComplaintPage() {
                       <p className="text-xs font-medium text-gray-600 uppercase tracking-wide">Verified Email Address</p>
                     </div>
                     <p className="text-lg font-semibold text-gray-900 break-all">{verifiedEmail}</p>
-
-                    <label className="mt-4 flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
-                      <input
-                        type="checkbox"
-                        className="h-4 w-4"
-                        checked={useVerifiedEmailForForm}
-                        onChange={(e) => setUseVerifiedEmailForForm(e.target.checked)}
-                      />
-                      Use this email for the complaint form
-                    </label>
+                    <p className="mt-2 text-sm text-gray-600">
+                      Complaints are filed under this address. Use Change Email to verify a different one.
+                    </p>
                   </div>
 
                   <div className="flex items-center gap-3">
@@ -204,7 +234,7 @@ export default function SubmitComplaintPage() {
                 </div>
               </div>
 
-              <ComplaintForm prefillEmail={useVerifiedEmailForForm ? verifiedEmail ?? undefined : undefined} />
+              <ComplaintForm prefillEmail={verifiedEmail ?? undefined} emailClaim={emailClaim?.claim} />
             </section>
           )}
         </div>
@@ -1,8 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { supabase } from '../../supabaseClient'
-
-const VERIFIED_EMAIL_STORAGE_KEY = 'inspekto_verified_email'
+import { storeEmailClaim } from '../emailClaim'
 
 type Status =
   | { kind: 'verifying' }
@@ -32,11 +31,14 @@ export default function VerifyEmailPage() {
         return
       }
 
-      const email = (data as { email?: string } | null)?.email
-      if (email) {
-        localStorage.setItem(VERIFIED_EMAIL_STORAGE_KEY, email)
+      const result = data as { email?: string; claim?: string; claimExpiresAt?: string } | null
+      if (!result?.email || !result.claim || !result.claimExpiresAt) {
+        setStatus({ kind: 'error', message: 'Verification failed.' })
+        return
       }
 
+      storeEmailClaim({ email: result.email, claim: result.claim, expiresAt: result.claimExpiresAt })
+
       setStatus({ kind: 'success' })
 
       // redirect back to main page after a moment
@@ -0,0 +1,172 @@
+/**
+ * Complaints Module - Resumable Uploads
+ * Minimal TUS 1.0 client for Supabase Storage's resumable upload endpoint.
+ *
+ * Notes:
+ * - Files go up in 6 MB chunks, the chunk size Supabase Storage requires.
+ * - A failed request is retried after each delay in RETRY_DELAYS_MS; the upload
+ *   continues from the offset the server reports, not from the start.
+ * - Passing the uploadUrl of an earlier attempt resumes that upload.
+ */
+
+export const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+export const RETRY_DELAYS_MS = [1000, 3000, 5000];
+
+const TUS_VERSION = '1.0.0';
+
+export interface TusRequest {
+  method: 'POST' | 'HEAD' | 'PATCH';
+  url: string;
+  headers: Record<string, string>;
+  body?: Blob;
+  // Bytes of `body` sent so far
+  onProgress?: (sentBytes: number) => void;
+}
+
+export interface TusResponse {
+  // 0 when the request never reached the server
+  status: number;
+  header(name: string): string | null;
+}
+
+export type TusTransport = (request: TusRequest) => Promise<TusResponse>;
+
+export interface ResumableUploadOptions {
+  endpoint: string;
+  file: Blob;
+  // Auth headers for the endpoint
+  headers: Record<string, string>;
+  metadata: Record<string, string>;
+  // Upload URL from an earlier attempt
+  uploadUrl?: string | null;
+  onUploadUrl?: (url: string) => void;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  chunkSize?: number;
+  retryDelaysMs?: number[];
+  transport?: TusTransport;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+type UploadRequestError = Error & { status: number };
+
+function requestError(message: string, status: number): UploadRequestError {
+  return Object.assign(new Error(message), { status });
+}
+
+function isRetryable(error: unknown): boolean {
+  const status = (error as Partial<UploadRequestError> | null)?.status;
+  if (typeof status !== 'number') return false;
+  // 409: offset mismatch, recovered by asking the server for its offset again
+  return status === 0 || status === 409 || status === 423 || status === 429 || status >= 500;
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(',');
+}
+
+function readOffset(response: TusResponse): number {
+  const offset = Number(response.header('Upload-Offset'));
+  if (!Number.isFinite(offset) || offset < 0) throw requestError('Missing Upload-Offset', response.status);
+  return offset;
+}
+
+/**
+ * Browser transport: XMLHttpRequest, because fetch cannot report upload progress.
+ */
+export const xhrTransport: TusTransport = (request) =>
+  new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+    for (const [name, value] of Object.entries(request.headers)) xhr.setRequestHeader(name, value);
+    if (request.onProgress) {
+      const onProgress = request.onProgress;
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => resolve({ status: xhr.status, header: (name) => xhr.getResponseHeader(name) });
+    xhr.onerror = () => resolve({ status: 0, header: () => null });
+    xhr.ontimeout = () => resolve({ status: 0, header: () => null });
+    xhr.send(request.body ?? null);
+  });
+
+/**
+ * Upload `file` and return its upload URL (keep it to resume after a failure).
+ */
+export async function uploadResumable(options: ResumableUploadOptions): Promise<string> {
+  const {
+    endpoint,
+    file,
+    headers,
+    metadata,
+    chunkSize = TUS_CHUNK_SIZE,
+    retryDelaysMs = RETRY_DELAYS_MS,
+    transport = xhrTransport,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  } = options;
+  const total = file.size;
+  const base = { ...headers, 'Tus-Resumable': TUS_VERSION };
+
+  let uploadUrl = options.uploadUrl ?? null;
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      let offset = 0;
+
+      if (uploadUrl) {
+        const head = await transport({ method: 'HEAD', url: uploadUrl, headers: base });
+        if (head.status === 404 || head.status === 410) {
+          // Expired or unknown upload: start a new one
+          uploadUrl = null;
+        } else if (head.status >= 200 && head.status < 300) {
+          offset = readOffset(head);
+        } else {
+          throw requestError(`Could not resume upload (${head.status})`, head.status);
+        }
+      }
+
+      if (!uploadUrl) {
+        const created = await transport({
+          method: 'POST',
+          url: endpoint,
+          headers: { ...base, 'Upload-Length': String(total), 'Upload-Metadata': encodeMetadata(metadata) },
+        });
+        const location = created.header('Location');
+        if (created.status !== 201 || !location) {
+          throw requestError(`Could not start upload (${created.status})`, created.status);
+        }
+        uploadUrl = new URL(location, endpoint).toString();
+        options.onUploadUrl?.(uploadUrl);
+      }
+
+      options.onProgress?.(offset, total);
+
+      while (offset < total) {
+        const start = offset;
+        const patched = await transport({
+          method: 'PATCH',
+          url: uploadUrl,
+          headers: { ...base, 'Upload-Offset': String(start), 'Content-Type': 'application/offset+octet-stream' },
+          body: file.slice(start, start + chunkSize),
+          onProgress: (sent) => options.onProgress?.(start + sent, total),
+        });
+        if (patched.status !== 204) {
+          throw requestError(`Upload failed (${patched.status})`, patched.status);
+        }
+
+        offset = readOffset(patched);
+        attempt = 0;
+        options.onProgress?.(offset, total);
+      }
+
+      return uploadUrl;
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= retryDelaysMs.length) throw error;
+      await sleep(retryDelaysMs[attempt++]);
+    }
+  }
+}
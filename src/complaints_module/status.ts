@@ -0,0 +1,49 @@
+/**
+ * Complaints Module - Status State Machine
+ *
+ * The statuses allowed by the complaints.status CHECK (PHASE_5_STATUS_STATE_MACHINE.sql).
+ * Which moves between them are legal lives only in public.complaint_status_transitions:
+ * the back office reads that table to decide what to offer, and a trigger rejects
+ * anything else whatever the update path.
+ */
+
+export const COMPLAINT_STATUSES = [
+  'Submitted',
+  'Under Review',
+  'Approved for Inspection',
+  'Inspection In Progress',
+  'Resolved',
+  'Dismissed',
+] as const;
+
+export type ComplaintStatus = (typeof COMPLAINT_STATUSES)[number];
+
+export const INITIAL_COMPLAINT_STATUS: ComplaintStatus = 'Submitted';
+
+// Allowed targets by source status, as loaded from complaint_status_transitions
+export type StatusTransitions = Partial<Record<ComplaintStatus, ComplaintStatus[]>>;
+
+export function isComplaintStatus(value: unknown): value is ComplaintStatus {
+  return typeof value === 'string' && (COMPLAINT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Groups complaint_status_transitions rows by source status, targets in workflow order
+ * so the next step is offered before Dismissed. Rows naming a status this build does
+ * not know are skipped rather than offered.
+ */
+export function groupTransitions(rows: Array<{ from_status: string; to_status: string }>): StatusTransitions {
+  const grouped: StatusTransitions = {};
+  for (const { from_status: from, to_status: to } of rows) {
+    if (!isComplaintStatus(from) || !isComplaintStatus(to)) continue;
+    (grouped[from] ??= []).push(to);
+  }
+  for (const targets of Object.values(grouped)) {
+    targets.sort((a, b) => COMPLAINT_STATUSES.indexOf(a) - COMPLAINT_STATUSES.indexOf(b));
+  }
+  return grouped;
+}
+
+export function getAllowedTransitions(transitions: StatusTransitions, from: ComplaintStatus): ComplaintStatus[] {
+  return transitions[from] ?? [];
+}
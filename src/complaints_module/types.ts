@@ -3,6 +3,9 @@
  * Minimal types for Phase 1: Basic complaint submission
  */
 
+import type { CategoryAnswer } from './complaintCategories';
+import type { ComplaintStatus } from './status';
+
 export interface ComplaintFormData {
   businessName: string;
   businessAddress: string;
@@ -10,9 +13,24 @@ export interface ComplaintFormData {
   reporterEmail: string;
   images: File[];
 
+  // Phase 24: Category key (complaintCategories.ts) and answers to its follow-up questions by id
+  complaintCategory?: string;
+  categoryDetails?: Record<string, CategoryAnswer>;
+
+  // Phase 15: Short video clips and audio recordings (picked or recorded in the app)
+  videos?: File[];
+  audio?: File[];
+
   // Phase 3: Location-Based Authenticity
   businessPk?: number;
 
+  // Phase 21: "Business not listed" instead of businessPk; submit-complaint adds
+  // businessName / businessAddress as a pending business with this category and pin
+  newBusiness?: {
+    category: string | null;
+    location: { latitude: number; longitude: number } | null;
+  };
+
   // Device-captured location
   location?: {
     latitude: number;
@@ -21,7 +39,10 @@ export interface ComplaintFormData {
     timestamp: number;
   };
 
-  // User-confirmed pin location (Google Maps)
+  // All readings taken on the location step; `location` is the best of them
+  locationSamples?: LocationSample[];
+
+  // Where the reporter dragged the map pin on the location step
   pinnedLocation?: {
     latitude: number;
     longitude: number;
@@ -31,6 +52,42 @@ export interface ComplaintFormData {
 
   // Certification (final step)
   certificationAccepted?: boolean;
+
+  // Signed claim from verify-email; submit-complaint requires it
+  emailClaim?: string;
+
+  // Random UUID per report. submit-complaint answers a repeat (e.g. an outbox replay
+  // after a lost response) with the complaint it already created
+  submissionId?: string;
+}
+
+// One GPS reading (supabase/functions/_shared/locationIntegrity.ts)
+export interface LocationSample {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  // Position timestamp from the browser and when the page received it (ms since epoch)
+  timestamp: number;
+  receivedAt: number;
+}
+
+// Row shape used by the business search on the complaint form.
+export interface BusinessLookupRow {
+  business_pk: number;
+  business_name: string | null;
+  business_address: string | null;
+  business_lat: number | null;
+  business_lng: number | null;
+}
+
+// Row returned by search_businesses (Phase 20)
+export interface BusinessSearchResult extends BusinessLookupRow {
+  // Pending businesses were added by reporters and await staff review (Phase 21)
+  business_status: 'active' | 'pending';
+  // 0..1 trigram word similarity to the query
+  similarity: number;
+  // From the reporter's position; null without one or without stored coordinates
+  distance_meters: number | null;
 }
 
 export interface Complaint {
@@ -38,13 +95,22 @@ export interface Complaint {
   business_name: string;
   business_address: string;
   complaint_description: string;
+  // Phase 24: null for complaints filed before categories existed
+  complaint_category?: string | null;
+  complaint_details?: Record<string, CategoryAnswer> | null;
   reporter_email: string;
-  image_urls: string[];
+  // Storage object paths in the private complaint-images bucket (redacted copies)
+  image_paths: string[];
   authenticity_level: number; // 0..100 numeric score
   authenticity_tier?: 'Low' | 'Medium' | 'High';
   tags: string[];
+  status: ComplaintStatus;
   created_at: string;
 
+  // Phase 2: Email verification
+  email_verified?: boolean;
+  email_verified_at?: string | null;
+
   // Phase 3: Location-Based Authenticity (optional until DB updated)
   business_pk?: number | null;
   reporter_lat?: number | null;
@@ -57,6 +123,125 @@ export interface Complaint {
 
   certification_accepted?: boolean | null;
   certification_accepted_at?: string | null;
+
+  // Phase 11: Versioned authenticity scoring
+  authenticity_version?: number;
+  authenticity_breakdown?: AuthenticitySignalScore[];
+  authenticity_scored_at?: string | null;
+
+  // Phase 12: Photo provenance, same order as image_original_paths
+  photo_metadata?: PhotoProvenance[];
+
+  // Phase 13: Redaction. image_paths lists only redacted copies; originals are private.
+  image_original_paths?: string[];
+  redaction_status?: 'none' | 'pending' | 'done' | 'failed';
+  redaction_report?: RedactionReportEntry[];
+  redacted_at?: string | null;
+
+  // Phase 10: Duplicate detection
+  incident_id?: string | null;
+  duplicate_candidates?: DuplicateCandidate[];
+
+  // Phase 15: Video / audio evidence, object paths in the private complaint-videos / complaint-audio buckets
+  video_paths?: string[];
+  audio_paths?: string[];
+  media_metadata?: MediaMetadataEntry[];
+
+  // Phase 19: Location integrity
+  location_samples?: LocationSample[];
+  location_integrity?: LocationIntegrity | null;
+}
+
+export interface LocationIntegrity {
+  verdict: 'consistent' | 'suspicious' | 'insufficient';
+  sampleCount: number;
+  failed: string[];
+  checks: Array<{ check: string; passed: boolean | null; detail: string }>;
+}
+
+// One line of the authenticity score (supabase/functions/_shared/authenticity.ts)
+export interface AuthenticitySignalScore {
+  signal: string;
+  points: number;
+  detail: string;
+}
+
+// EXIF-derived provenance of one image (supabase/functions/_shared/photoProvenance.ts)
+export interface PhotoProvenance {
+  index: number;
+  source: 'camera' | 'upload';
+  capturedAt: number | null;
+  modifiedAt: number | null;
+  gps: { latitude: number; longitude: number } | null;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  distanceToReporterMeters: number | null;
+  distanceToBusinessMeters: number | null;
+  gpsMatches: boolean | null;
+  olderThanMaxAge: boolean;
+  edited: boolean;
+}
+
+// Result of redact-complaint-media for one original
+export interface RedactionReportEntry {
+  index: number;
+  faces: number;
+  plates: number;
+  path: string | null;
+  // Detectors that were not configured (e.g. no plate cascade); absent on older reports
+  notChecked?: Array<'face' | 'plate'>;
+  error: string | null;
+}
+
+// Stored by submit-complaint for each clip / recording
+export interface MediaMetadataEntry {
+  kind: 'video' | 'audio';
+  // Position in video_paths / audio_paths
+  index: number;
+  contentType: string;
+  sizeBytes: number;
+  // As read by the reporter's browser; null when it could not tell
+  durationSeconds: number | null;
+  // complaint-videos object path of the poster frame
+  thumbnailPath: string | null;
+}
+
+// One image as returned by get-complaint-media; signed URLs expire after a few minutes
+export interface ComplaintMediaImage {
+  index: number;
+  // Redacted copy; null until redaction has produced it
+  url: string | null;
+  // Staff only
+  originalUrl?: string | null;
+}
+
+// One video clip or audio recording as returned by get-complaint-media
+export interface ComplaintMediaClip {
+  index: number;
+  url: string | null;
+  // Videos only
+  thumbnailUrl?: string | null;
+  durationSeconds: number | null;
+}
+
+export interface ComplaintMedia {
+  role: 'staff' | 'reporter';
+  expiresInSeconds: number;
+  images: ComplaintMediaImage[];
+  // Phase 15; absent from complaints filed before it
+  videos?: ComplaintMediaClip[];
+  audio?: ComplaintMediaClip[];
+}
+
+export type DuplicateReason = 'same_business' | 'same_reporter' | 'nearby' | 'similar_text';
+
+// Match recorded by submit-complaint when the complaint was filed
+export interface DuplicateCandidate {
+  complaint_id: string;
+  reasons: DuplicateReason[];
+  text_similarity: number;
+  distance_meters: number | null;
 }
 
 export interface FormError {
@@ -64,8 +249,59 @@ export interface FormError {
   message: string;
 }
 
+export interface SubmitFileError {
+  // Which list the file is in, and its position in ComplaintFormData[kind]
+  kind: EvidenceKind;
+  index: number;
+  fileName: string;
+  message: string;
+}
+
+export type EvidenceKind = 'images' | 'videos' | 'audio';
+
+// Number of files of each kind in a submitted report
+export interface EvidenceCounts {
+  photos: number;
+  videos: number;
+  audio: number;
+}
+
+// compressing: photos only; preparing: reading a clip's duration / thumbnail
+export type EvidenceUploadStage = 'queued' | 'compressing' | 'preparing' | 'uploading' | 'done' | 'failed';
+
+export interface EvidenceUploadProgress {
+  kind: EvidenceKind;
+  // Position in ComplaintFormData[kind]
+  index: number;
+  fileName: string;
+  stage: EvidenceUploadStage;
+  uploadedBytes: number;
+  // Size after compression once known
+  totalBytes: number;
+  error: string | null;
+}
+
+// Evidence staged by evidenceUpload.ts, as submit-complaint expects it
+export interface StagedUpload {
+  id: string;
+  ticket: string;
+  // Images
+  files: Array<{ path: string; name: string }>;
+  videos?: Array<{ path: string; name: string; thumbnailPath: string | null }>;
+  audio?: Array<{ path: string; name: string }>;
+}
+
 export interface SubmitResult {
   success: boolean;
   message: string;
   complaintId?: string;
+
+  // Set when the server rejected or rolled back the submission
+  // HTTP status and error code (e.g. 401 "email_unverified"); unset for network failures
+  status?: number;
+  code?: string;
+  fieldErrors?: FormError[];
+  fileErrors?: SubmitFileError[];
+  // The same submission may go through later (connectivity, 5xx, expired upload session)
+  retryable?: boolean;
 }
@@ -0,0 +1,150 @@
+import { COMPLAINT_CATEGORIES, getComplaintCategory } from '../complaintCategories';
+import type { CategoryAnswer, CategoryQuestion } from '../complaintCategories';
+import type { FormError } from '../types';
+import { getFieldError } from '../validation';
+import { Field } from './Field';
+
+function inputClass(error: string | null) {
+  return [
+    'w-full border px-5 py-4 text-lg outline-none transition',
+    error ? 'border-red-300 bg-red-50' : 'border-slate-300 bg-white',
+    'focus:ring-4 focus:ring-blue-100 focus:border-blue-300',
+  ].join(' ');
+}
+
+function QuestionInput({
+  question,
+  answer,
+  error,
+  onAnswer,
+}: {
+  question: CategoryQuestion;
+  answer: CategoryAnswer | undefined;
+  error: string | null;
+  onAnswer: (answer: CategoryAnswer | undefined) => void;
+}) {
+  const field = `categoryDetails.${question.id}`;
+
+  switch (question.kind) {
+    case 'choice':
+      return (
+        <select
+          data-field={field}
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onAnswer(e.target.value || undefined)}
+          className={inputClass(error)}
+        >
+          <option value="">Choose one</option>
+          {question.options.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      );
+    case 'yes_no':
+      return (
+        <div data-field={field} tabIndex={-1} className="flex gap-3" role="radiogroup" aria-label={question.label}>
+          {([true, false] as const).map((value) => (
+            <button
+              key={String(value)}
+              type="button"
+              role="radio"
+              aria-checked={answer === value}
+              onClick={() => onAnswer(value)}
+              className={[
+                'flex-1 border px-5 py-3 text-base font-semibold transition',
+                answer === value ? 'border-blue-600 bg-blue-50 text-blue-900' : 'border-slate-300 bg-white text-slate-700',
+              ].join(' ')}
+            >
+              {value ? 'Yes' : 'No'}
+            </button>
+          ))}
+        </div>
+      );
+    case 'text':
+      return (
+        <input
+          data-field={field}
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onAnswer(e.target.value)}
+          maxLength={question.maxLength}
+          placeholder={question.placeholder}
+          className={inputClass(error)}
+        />
+      );
+    case 'amount':
+      return (
+        <input
+          data-field={field}
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={answer === undefined ? '' : String(answer)}
+          onChange={(e) => {
+            const raw = e.target.value;
+            const amount = Number(raw);
+            // Anything unparseable is kept as typed so validation can flag it
+            onAnswer(raw === '' ? undefined : Number.isFinite(amount) ? amount : raw);
+          }}
+          className={inputClass(error)}
+        />
+      );
+  }
+}
+
+/**
+ * ComplaintCategoryFields
+ * Category picker for the details step, followed by that category's questions.
+ */
+export function ComplaintCategoryFields({
+  category,
+  details,
+  errors,
+  onCategoryChange,
+  onAnswer,
+}: {
+  category: string | undefined;
+  details: Record<string, CategoryAnswer>;
+  errors: FormError[];
+  onCategoryChange: (category: string) => void;
+  onAnswer: (questionId: string, answer: CategoryAnswer | undefined) => void;
+}) {
+  const selected = getComplaintCategory(category);
+  const categoryError = getFieldError(errors, 'complaintCategory');
+
+  return (
+    <div className="space-y-5">
+      <Field label="What is the complaint about?" error={categoryError}>
+        <div data-field="complaintCategory" tabIndex={-1} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3" role="radiogroup">
+          {COMPLAINT_CATEGORIES.map((c) => (
+            <button
+              key={c.key}
+              type="button"
+              role="radio"
+              aria-checked={c.key === category}
+              onClick={() => onCategoryChange(c.key)}
+              className={[
+                'text-left border px-4 py-3 transition',
+                c.key === category ? 'border-blue-600 bg-blue-50' : 'border-slate-300 bg-white hover:border-slate-400',
+              ].join(' ')}
+            >
+              <div className="text-base font-semibold text-slate-900">{c.label}</div>
+              <div className="mt-1 text-sm text-slate-600">{c.description}</div>
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      {selected?.questions.map((q) => {
+        const error = getFieldError(errors, `categoryDetails.${q.id}`);
+        return (
+          <Field key={`${selected.key}-${q.id}`} label={q.label} hint={q.hint} error={error} required={q.required}>
+            <QuestionInput question={q} answer={details[q.id]} error={error} onAnswer={(answer) => onAnswer(q.id, answer)} />
+          </Field>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+
+/**
+ * FilePreview
+ * An image of a file picked on this device. The object URL is created when the
+ * <img> mounts and revoked when it unmounts or the file changes, so removed photos
+ * do not stay in memory.
+ */
+export function FilePreview({ file, alt, className }: { file: File; alt: string; className?: string }) {
+  const attach = useCallback(
+    (img: HTMLImageElement | null) => {
+      if (!img) return;
+      const url = URL.createObjectURL(file);
+      img.src = url;
+      return () => URL.revokeObjectURL(url);
+    },
+    [file]
+  );
+
+  return <img ref={attach} alt={alt} className={className} />;
+}
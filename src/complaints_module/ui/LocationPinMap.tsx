@@ -0,0 +1,129 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+type Point = { latitude: number; longitude: number };
+
+type MapLayers = {
+  map: L.Map;
+  accuracy: L.Circle;
+  device: L.CircleMarker;
+  pin: L.Marker;
+  business: L.CircleMarker;
+};
+
+const TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Built from markup so no marker images need bundling
+const PIN_ICON = L.divIcon({
+  className: '',
+  html: '<div class="h-7 w-7 -translate-y-1 rounded-full rounded-br-none rotate-45 border-2 border-white bg-red-600 shadow-md"></div>',
+  iconSize: [28, 28],
+  iconAnchor: [14, 28],
+});
+
+function toLatLng(p: Point): L.LatLngExpression {
+  return [p.latitude, p.longitude];
+}
+
+/**
+ * LocationPinMap
+ * Device fix with its accuracy circle, the business, and a pin the reporter can drag
+ * to where they actually are. The pin starts on the device fix.
+ * `pinLabel` describes the pin when it marks something else (e.g. a new business).
+ */
+export function LocationPinMap({
+  device,
+  accuracyMeters,
+  business,
+  pin,
+  onPinChange,
+  disabled,
+  pinLabel = 'Your position (drag to adjust)',
+}: {
+  device: Point;
+  accuracyMeters: number | null;
+  business: Point | null;
+  pin: Point | null;
+  onPinChange: (pin: Point) => void;
+  disabled?: boolean;
+  pinLabel?: string;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const layersRef = useRef<MapLayers | null>(null);
+  const onPinChangeRef = useRef(onPinChange);
+  // Read once, when the marker is created
+  const pinLabelRef = useRef(pinLabel);
+
+  useEffect(() => {
+    onPinChangeRef.current = onPinChange;
+  }, [onPinChange]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, { scrollWheelZoom: false });
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+
+    const origin: L.LatLngExpression = [0, 0];
+    const layers: MapLayers = {
+      map,
+      accuracy: L.circle(origin, { radius: 0, color: '#2563eb', weight: 1, fillOpacity: 0.1, interactive: false }).addTo(map),
+      device: L.circleMarker(origin, { radius: 7, color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 })
+        .bindTooltip('Device location')
+        .addTo(map),
+      business: L.circleMarker(origin, { radius: 8, color: '#ffffff', weight: 2, fillColor: '#0f172a', fillOpacity: 1 })
+        .bindTooltip('Business'),
+      pin: L.marker(origin, { icon: PIN_ICON, draggable: true, autoPan: true, alt: pinLabelRef.current }).addTo(map),
+    };
+
+    layers.pin.on('dragend', () => {
+      const at = layers.pin.getLatLng();
+      onPinChangeRef.current({ latitude: at.lat, longitude: at.lng });
+    });
+
+    layersRef.current = layers;
+    return () => {
+      layersRef.current = null;
+      map.remove();
+    };
+  }, []);
+
+  const businessLat = business?.latitude;
+  const businessLng = business?.longitude;
+
+  // Markers follow the props
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+
+    layers.accuracy.setLatLng(toLatLng(device)).setRadius(accuracyMeters ?? 0);
+    layers.device.setLatLng(toLatLng(device));
+    layers.pin.setLatLng(toLatLng(pin ?? device));
+
+    if (businessLat != null && businessLng != null) {
+      layers.business.setLatLng([businessLat, businessLng]).addTo(layers.map);
+    } else {
+      layers.business.remove();
+    }
+  }, [device, accuracyMeters, pin, businessLat, businessLng]);
+
+  // Re-frame only when the fix or the business change, not after each drag
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+
+    const points: L.LatLngExpression[] = [[device.latitude, device.longitude]];
+    if (businessLat != null && businessLng != null) points.push([businessLat, businessLng]);
+    layers.map.fitBounds(L.latLngBounds(points).pad(0.3), { maxZoom: 17 });
+  }, [device.latitude, device.longitude, businessLat, businessLng]);
+
+  useEffect(() => {
+    const dragging = layersRef.current?.pin.dragging;
+    if (disabled) dragging?.disable();
+    else dragging?.enable();
+  }, [disabled]);
+
+  return <div ref={containerRef} className="w-full h-80 z-0" role="application" aria-label="Location map" />;
+}
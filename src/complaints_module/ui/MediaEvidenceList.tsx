@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Film, Mic } from 'lucide-react';
+import { formatDuration, isVideoFile, readMediaInfo } from '../mediaInfo';
+import { Button } from './Button';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+type ClipDetails = { file: File; durationSeconds: number | null; thumbnailUrl: string | null };
+
+function ClipRow({ file, onRemove, disabled }: { file: File; onRemove: () => void; disabled?: boolean }) {
+  const [loaded, setLoaded] = useState<ClipDetails | null>(null);
+  const details = loaded?.file === file ? loaded : null;
+  const isVideo = isVideoFile(file);
+
+  useEffect(() => {
+    let active = true;
+    let thumbnailUrl: string | null = null;
+
+    void readMediaInfo(file).then((info) => {
+      if (!active) return;
+      thumbnailUrl = info.thumbnail ? URL.createObjectURL(info.thumbnail) : null;
+      setLoaded({ file, durationSeconds: info.durationSeconds, thumbnailUrl });
+    });
+
+    return () => {
+      active = false;
+      if (thumbnailUrl) URL.revokeObjectURL(thumbnailUrl);
+    };
+  }, [file]);
+
+  return (
+    <li className="flex items-center gap-4 border border-slate-200 bg-slate-50 rounded-xl p-3">
+      <div className="h-14 w-20 shrink-0 overflow-hidden rounded-lg bg-slate-200 flex items-center justify-center">
+        {details?.thumbnailUrl ? (
+          <img src={details.thumbnailUrl} alt="" className="h-full w-full object-cover" />
+        ) : isVideo ? (
+          <Film className="h-6 w-6 text-slate-500" aria-hidden />
+        ) : (
+          <Mic className="h-6 w-6 text-slate-500" aria-hidden />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-semibold text-slate-900 truncate">{file.name}</div>
+        <div className="text-xs text-slate-600">
+          {formatDuration(details?.durationSeconds ?? null)} · {formatBytes(file.size)}
+        </div>
+      </div>
+      <Button type="button" variant="secondary" onClick={onRemove} disabled={disabled}>
+        Remove
+      </Button>
+    </li>
+  );
+}
+
+/**
+ * MediaEvidenceList
+ * Selected or recorded video clips / audio recordings, with duration, poster frame and remove.
+ */
+export function MediaEvidenceList({
+  files,
+  onRemove,
+  disabled,
+  label,
+}: {
+  files: File[];
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+  label: string;
+}) {
+  if (files.length === 0) return null;
+
+  return (
+    <ul className="space-y-3" aria-label={label}>
+      {files.map((file, index) => (
+        <ClipRow
+          key={`${file.name}-${file.lastModified}-${index}`}
+          file={file}
+          onRemove={() => onRemove(index)}
+          disabled={disabled}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import { IN_APP_CAPTURE_PREFIX } from '../db';
+import { formatDuration } from '../mediaInfo';
+import { isRecordingSupported, startRecording } from '../mediaRecording';
+import type { RecordingSession } from '../mediaRecording';
+import { MEDIA_RULES } from '../validation';
+import { Button } from './Button';
+
+export type AcquiredStream = {
+  stream: MediaStream;
+  // Stops whatever was opened just for this recording
+  release: () => void;
+};
+
+/**
+ * RecordingControls
+ * Record / stop button with elapsed time for in-app video clips and audio recordings.
+ * The recording stops by itself at the MEDIA_RULES limit.
+ */
+export function RecordingControls({
+  kind,
+  label,
+  acquireStream,
+  onRecorded,
+  onError,
+  disabled,
+}: {
+  kind: 'videos' | 'audio';
+  label: string;
+  acquireStream: () => Promise<AcquiredStream | null>;
+  onRecorded: (file: File) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}) {
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const maxSeconds = MEDIA_RULES[kind].maxDurationSeconds;
+
+  useEffect(() => {
+    if (startedAt == null) return;
+    const handle = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(handle);
+  }, [startedAt]);
+
+  // Leaving the step discards an unfinished recording
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  const start = async () => {
+    const acquired = await acquireStream();
+    if (!acquired) return;
+
+    let session: RecordingSession;
+    try {
+      session = startRecording(acquired.stream, { kind, maxDurationSeconds: maxSeconds, namePrefix: IN_APP_CAPTURE_PREFIX });
+    } catch (e) {
+      acquired.release();
+      onError(`Recording could not start. Details: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    sessionRef.current = session;
+    setStartedAt(session.startedAt);
+
+    void session.result.then((file) => {
+      acquired.release();
+      if (sessionRef.current !== session) return;
+      sessionRef.current = null;
+      setStartedAt(null);
+      if (file) onRecorded(file);
+    });
+  };
+
+  if (!isRecordingSupported()) {
+    return <div className="text-sm text-slate-600">Recording is not supported by this browser. Choose a file instead.</div>;
+  }
+
+  if (startedAt == null) {
+    return (
+      <Button type="button" size="lg" onClick={() => void start()} disabled={disabled}>
+        {label}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="inline-flex items-center gap-2 text-sm font-semibold text-red-700" role="status">
+        <span className="h-2.5 w-2.5 rounded-full bg-red-600 animate-pulse" aria-hidden />
+        Recording {formatDuration(Math.max(0, now - startedAt) / 1000)} / {formatDuration(maxSeconds)}
+      </span>
+      <Button type="button" variant="danger" size="lg" onClick={() => sessionRef.current?.stop()}>
+        Stop
+      </Button>
+    </div>
+  );
+}
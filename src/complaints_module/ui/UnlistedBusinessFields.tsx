@@ -0,0 +1,104 @@
+import { BUSINESS_CATEGORIES } from '../businessCategories';
+import type { ComplaintFormData } from '../types';
+import { Field } from './Field';
+import { LocationPinMap } from './LocationPinMap';
+
+type NewBusiness = NonNullable<ComplaintFormData['newBusiness']>;
+
+export type UnlistedBusinessChange = Partial<NewBusiness> & { name?: string; address?: string };
+
+function inputClass(error: string | null) {
+  return [
+    'w-full border px-5 py-4 text-lg outline-none transition',
+    error ? 'border-red-300 bg-red-50' : 'border-slate-300 bg-white',
+    'focus:ring-4 focus:ring-blue-100 focus:border-blue-300',
+  ].join(' ');
+}
+
+/**
+ * UnlistedBusinessFields
+ * Name, address, category and map pin for a business the reporter could not find.
+ * The business is added for staff review when the complaint is submitted.
+ */
+export function UnlistedBusinessFields({
+  name,
+  address,
+  business,
+  device,
+  nameError,
+  addressError,
+  onChange,
+}: {
+  name: string;
+  address: string;
+  business: NewBusiness;
+  device: { latitude: number; longitude: number; accuracy: number | null } | null;
+  nameError: string | null;
+  addressError: string | null;
+  onChange: (change: UnlistedBusinessChange) => void;
+}) {
+  return (
+    <div className="space-y-5">
+      <Field label="Business name" error={nameError}>
+        <input
+          data-field="businessName"
+          value={name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Name on the sign"
+          autoComplete="off"
+          className={inputClass(nameError)}
+        />
+      </Field>
+
+      <Field label="Address" error={addressError}>
+        <textarea
+          data-field="businessAddress"
+          value={address}
+          onChange={(e) => onChange({ address: e.target.value })}
+          rows={3}
+          placeholder="Street, barangay, city"
+          className={`${inputClass(addressError)} resize-none`}
+        />
+      </Field>
+
+      <Field label="Category" required={false}>
+        <select
+          value={business.category ?? ''}
+          onChange={(e) => onChange({ category: e.target.value || null })}
+          className={inputClass(null)}
+        >
+          <option value="">Not sure</option>
+          {BUSINESS_CATEGORIES.map((c) => (
+            <option key={c.key} value={c.key}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+
+      <Field label="Location on the map" required={false}>
+        {device ? (
+          <div className="space-y-2">
+            <div className="border border-slate-200 overflow-hidden bg-slate-50">
+              <LocationPinMap
+                device={device}
+                accuracyMeters={device.accuracy}
+                business={null}
+                pin={business.location}
+                onPinChange={(location) => onChange({ location })}
+                pinLabel="Business location (drag to adjust)"
+              />
+            </div>
+            <div className="text-sm text-slate-600">
+              Drag the red pin onto the business. The blue dot is where your device says you are.
+            </div>
+          </div>
+        ) : (
+          <div className="border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-700">
+            Allow location access to place the business on a map.
+          </div>
+        )}
+      </Field>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import type { EvidenceUploadProgress } from '../types';
+import { Button } from './Button';
+
+function cx(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(' ');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function stageLabel(item: EvidenceUploadProgress): string {
+  switch (item.stage) {
+    case 'queued':
+      return 'Waiting';
+    case 'compressing':
+      return 'Optimizing…';
+    case 'preparing':
+      return 'Preparing…';
+    case 'uploading':
+      return `${formatBytes(item.uploadedBytes)} of ${formatBytes(item.totalBytes)}`;
+    case 'done':
+      return 'Uploaded';
+    case 'failed':
+      return item.error || 'Upload failed';
+  }
+}
+
+/**
+ * UploadProgressList
+ * One progress bar per file while evidence is uploading, with a retry for failures.
+ */
+export function UploadProgressList({
+  items,
+  onRetry,
+  retryDisabled,
+}: {
+  items: EvidenceUploadProgress[];
+  onRetry: () => void;
+  retryDisabled?: boolean;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="space-y-3" aria-label="Evidence uploads">
+      {items.map((item) => {
+        const fraction =
+          item.stage === 'done' ? 1 : item.totalBytes > 0 ? Math.min(1, item.uploadedBytes / item.totalBytes) : 0;
+
+        return (
+          <li key={`${item.kind}-${item.index}`} className="border border-slate-200 bg-white rounded-2xl px-4 py-3">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="font-semibold text-slate-900 truncate">{item.fileName}</span>
+              <span className={cx('shrink-0', item.stage === 'failed' ? 'text-red-700 font-semibold' : 'text-slate-600')}>
+                {stageLabel(item)}
+              </span>
+            </div>
+            <div
+              className="mt-2 h-2 rounded-full bg-slate-100 overflow-hidden"
+              role="progressbar"
+              aria-label={`Upload progress for ${item.fileName}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(fraction * 100)}
+            >
+              <div
+                className={cx(
+                  'h-full transition-all duration-300',
+                  item.stage === 'failed' ? 'bg-red-500' : item.stage === 'done' ? 'bg-green-600' : 'bg-blue-600'
+                )}
+                style={{ width: `${Math.round(fraction * 100)}%` }}
+              />
+            </div>
+            {item.stage === 'failed' && (
+              <div className="mt-2 flex justify-end">
+                <Button type="button" variant="secondary" onClick={onRetry} disabled={retryDisabled}>
+                  Retry
+                </Button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
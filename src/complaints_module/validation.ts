@@ -3,16 +3,21 @@
  * Simple validation for Phase 1
  */
 
+import { MAX_AMOUNT, getComplaintCategory } from './complaintCategories';
+import type { CategoryAnswer } from './complaintCategories';
+import { baseMimeType } from './mediaInfo';
+import { COMPLAINT_RULES, MEDIA_LABELS } from '../../supabase/functions/_shared/complaintValidation.ts';
 import type { ComplaintFormData, FormError } from './types';
 
-const RULES = {
-  businessName: { min: 2, max: 255 },
-  businessAddress: { min: 5, max: 500 },
-  complaintDescription: { min: 20, max: 5000 },
-  reporterEmail: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-  images: { maxCount: 10, maxSize: 50 * 1024 * 1024, types: ['image/jpeg', 'image/png', 'image/webp'] },
+// Video clips and audio recordings; the recorder in ComplaintForm stops at maxDurationSeconds
+export const MEDIA_RULES = {
+  videos: { ...COMPLAINT_RULES.videos, label: MEDIA_LABELS.videos },
+  audio: { ...COMPLAINT_RULES.audio, label: MEDIA_LABELS.audio },
 };
 
+// The limits submit-complaint enforces, checked here first so the form can explain them
+const RULES = { ...COMPLAINT_RULES, ...MEDIA_RULES };
+
 export function validateForm(data: Partial<ComplaintFormData>): FormError[] {
   const errors: FormError[] = [];
 
@@ -43,6 +48,8 @@ export function validateForm(data: Partial<ComplaintFormData>): FormError[] {
     errors.push({ field: 'complaintDescription', message: `Maximum ${RULES.complaintDescription.max} characters` });
   }
 
+  errors.push(...validateCategory(data.complaintCategory, data.categoryDetails));
+
   // Email
   if (!data.reporterEmail?.trim()) {
     errors.push({ field: 'reporterEmail', message: 'Email is required' });
@@ -67,9 +74,59 @@ export function validateForm(data: Partial<ComplaintFormData>): FormError[] {
     }
   }
 
+  // Videos / audio; durations are checked once read (mediaDurationError)
+  for (const kind of ['videos', 'audio'] as const) {
+    const files = data[kind] || [];
+    const rule = RULES[kind];
+    if (files.length > rule.maxCount) {
+      errors.push({ field: kind, message: `Maximum ${rule.maxCount} ${rule.label.many}` });
+    }
+    for (const file of files) {
+      if (file.size > rule.maxSize) {
+        errors.push({ field: kind, message: `${rule.label.one} too large (max ${rule.maxSize / (1024 * 1024)}MB)` });
+        break;
+      }
+      if (!rule.types.includes(baseMimeType(file.type))) {
+        errors.push({ field: kind, message: `Invalid ${rule.label.one.toLowerCase()} type` });
+        break;
+      }
+    }
+  }
+
   return errors;
 }
 
+/**
+ * Category and its follow-up answers; errors on "complaintCategory" and "categoryDetails.<question id>".
+ */
+export function validateCategory(category: string | undefined, details: Record<string, CategoryAnswer> | undefined): FormError[] {
+  const definition = getComplaintCategory(category);
+  if (!definition) {
+    return [{ field: 'complaintCategory', message: category ? 'Unknown category' : 'Choose what the complaint is about' }];
+  }
+
+  const errors: FormError[] = [];
+  for (const question of definition.questions) {
+    const answer = details?.[question.id];
+    const field = `categoryDetails.${question.id}`;
+
+    if (answer === undefined || (typeof answer === 'string' && !answer.trim())) {
+      if (question.required) errors.push({ field, message: 'Required' });
+    } else if (question.kind === 'text' && String(answer).trim().length > question.maxLength) {
+      errors.push({ field, message: `Maximum ${question.maxLength} characters` });
+    } else if (question.kind === 'amount' && !(typeof answer === 'number' && answer >= 0 && answer <= MAX_AMOUNT)) {
+      errors.push({ field, message: 'Enter an amount in pesos' });
+    }
+  }
+  return errors;
+}
+
+export function mediaDurationError(kind: keyof typeof MEDIA_RULES, durationSeconds: number | null): string | null {
+  const rule = MEDIA_RULES[kind];
+  if (durationSeconds == null || durationSeconds <= rule.maxDurationSeconds) return null;
+  return `${rule.label.one} too long (max ${rule.maxDurationSeconds} seconds)`;
+}
+
 export function getFieldError(errors: FormError[], field: string): string | null {
   return errors.find(e => e.field === field)?.message || null;
 }
@@ -2,6 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { startOutboxSync } from './complaints_module/outbox'
+
+// Service worker only in production builds; it would cache Vite's dev modules.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((e) => console.error('Service worker registration failed:', e))
+  })
+}
+
+startOutboxSync()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,8 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Unmount whatever a test rendered; without test globals Testing Library cannot do it itself
+afterEach(() => {
+  cleanup();
+});
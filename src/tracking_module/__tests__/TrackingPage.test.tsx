@@ -1,24 +1,33 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
 import { TrackingPage } from '../ui/TrackingPage';
 import * as service from '../service';
 
 vi.mock('../service');
 
+function renderPage() {
+  return render(
+    <MemoryRouter>
+      <TrackingPage />
+    </MemoryRouter>
+  );
+}
+
 describe('TrackingPage', () => {
   beforeEach(() => {
     vi.resetAllMocks();
   });
 
   it('shows error for empty input', async () => {
-    render(<TrackingPage />);
+    renderPage();
     fireEvent.click(screen.getByRole('button', { name: /track/i }));
     expect(await screen.findByText(/please enter a tracking id/i)).toBeInTheDocument();
   });
 
   it('shows not found message when service returns null', async () => {
     (service.getTrackingSummary as any).mockResolvedValueOnce(null);
-    render(<TrackingPage />);
+    renderPage();
     const input = screen.getByPlaceholderText(/enter tracking id/i);
     fireEvent.change(input, { target: { value: 'abc' } });
     fireEvent.click(screen.getByRole('button', { name: /track/i }));
@@ -28,15 +37,40 @@ describe('TrackingPage', () => {
   it('renders status when found', async () => {
     (service.getTrackingSummary as any).mockResolvedValueOnce({
       trackingId: 'abc',
-      status: 'Received',
+      status: 'Under Review',
+      timeline: [],
     });
 
-    render(<TrackingPage />);
+    renderPage();
     const input = screen.getByPlaceholderText(/enter tracking id/i);
     fireEvent.change(input, { target: { value: 'abc' } });
     fireEvent.click(screen.getByRole('button', { name: /track/i }));
 
-    await waitFor(() => screen.getByText(/received/i));
-    expect(screen.getByText(/received/i)).toBeInTheDocument();
+    await waitFor(() => screen.getByText(/under review/i));
+    expect(screen.getByText(/under review/i)).toBeInTheDocument();
+  });
+
+  it('renders the status timeline with public notes', async () => {
+    vi.mocked(service.getTrackingSummary).mockResolvedValueOnce({
+      trackingId: 'abc',
+      status: 'Approved for Inspection',
+      timeline: [
+        { kind: 'submitted', label: 'Submitted', occurredAt: '2026-01-05T08:00:00Z', note: null },
+        {
+          kind: 'status_changed',
+          label: 'Inspection scheduled',
+          occurredAt: '2026-01-08T09:00:00Z',
+          status: 'Approved for Inspection',
+          note: 'Inspection set for Friday.',
+        },
+      ],
+    });
+
+    renderPage();
+    fireEvent.change(screen.getByPlaceholderText(/enter tracking id/i), { target: { value: 'abc' } });
+    fireEvent.click(screen.getByRole('button', { name: /track/i }));
+
+    expect(await screen.findByText(/inspection scheduled/i)).toBeInTheDocument();
+    expect(screen.getByText(/inspection set for friday/i)).toBeInTheDocument();
   });
 });
@@ -1,16 +1,14 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 
 vi.mock('../../supabaseClient', () => {
-  const select = vi.fn().mockReturnThis();
-  const eq = vi.fn().mockReturnThis();
-  const maybeSingle = vi.fn();
-  const from = vi.fn(() => ({ select, eq, maybeSingle }));
+  const rpc = vi.fn().mockResolvedValue({ data: [], error: null });
+  const invoke = vi.fn().mockResolvedValue({ data: { success: true }, error: null });
   return {
-    supabase: { from },
+    supabase: { rpc, functions: { invoke } },
   };
 });
 
-import { getTrackingSummary } from '../service';
+import { buildTimeline, getComplaintPhotos, getTrackingSummary, unsubscribeFromStatusUpdates } from '../service';
 
 describe('getTrackingSummary', () => {
   beforeEach(() => {
@@ -19,20 +17,141 @@ describe('getTrackingSummary', () => {
 
   it('returns null when not found', async () => {
     const { supabase } = await import('../../supabaseClient');
-    (supabase.from('complaints').maybeSingle as any).mockResolvedValueOnce({ data: null, error: null });
 
     const res = await getTrackingSummary('abc');
+    expect(supabase.rpc).toHaveBeenCalledWith('get_complaint_tracking', { p_complaint_id: 'abc' });
     expect(res).toBeNull();
   });
 
-  it('returns status varchar from complaints table', async () => {
+  it('returns null when the lookup fails', async () => {
     const { supabase } = await import('../../supabaseClient');
-    (supabase.from('complaints').maybeSingle as any).mockResolvedValueOnce({
-      data: { id: 'id1', status: 'For Approval' },
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'invalid input syntax for type uuid' } } as never);
+
+    expect(await getTrackingSummary('not-a-uuid')).toBeNull();
+  });
+
+  it('returns the complaint status', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: [{ id: 'id1', status: 'Under Review' }], error: null } as never);
+
+    const res = await getTrackingSummary('id1');
+    expect(res).toEqual({ trackingId: 'id1', status: 'Under Review', timeline: [] });
+  });
+
+  it('falls back to Submitted for statuses outside the state machine', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: [{ id: 'id1', status: 'For Approval' }], error: null } as never);
+
+    const res = await getTrackingSummary('id1');
+    expect(res).toEqual({ trackingId: 'id1', status: 'Submitted', timeline: [] });
+  });
+
+  it('builds the timeline from the complaint and public status events', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: [
+        {
+          id: 'id1',
+          status: 'Approved for Inspection',
+          created_at: '2026-01-05T08:00:00Z',
+          email_verified_at: '2026-01-05T08:05:00Z',
+        },
+      ],
       error: null,
-    });
+    } as never);
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: [
+        { to_status: 'Approved for Inspection', public_note: 'Inspection set for Friday.', created_at: '2026-01-08T09:00:00Z' },
+        { to_status: 'Under Review', public_note: null, created_at: '2026-01-06T10:00:00Z' },
+      ],
+      error: null,
+    } as never);
 
     const res = await getTrackingSummary('id1');
-    expect(res).toEqual({ trackingId: 'id1', status: 'For Approval' });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_public_status_timeline', { p_complaint_id: 'id1' });
+    expect(res?.timeline.map((e) => e.label)).toEqual([
+      'Submitted',
+      'Email verified',
+      'Under review',
+      'Inspection scheduled',
+    ]);
+    expect(res?.timeline[3].note).toBe('Inspection set for Friday.');
+  });
+});
+
+describe('buildTimeline', () => {
+  it('skips unknown statuses and missing timestamps', () => {
+    const timeline = buildTimeline({ created_at: '2026-01-05T08:00:00Z', email_verified_at: null }, [
+      { to_status: 'Archived', public_note: null, created_at: '2026-01-06T08:00:00Z' },
+    ]);
+
+    expect(timeline).toEqual([{ kind: 'submitted', label: 'Submitted', occurredAt: '2026-01-05T08:00:00Z', note: null }]);
+  });
+});
+
+describe('unsubscribeFromStatusUpdates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes the tracking ID and link signature to the edge function', async () => {
+    const { supabase } = await import('../../supabaseClient');
+
+    const res = await unsubscribeFromStatusUpdates('id1', 'abc123');
+
+    expect(res.success).toBe(true);
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('unsubscribe-status-updates', {
+      body: { complaintId: 'id1', signature: 'abc123' },
+    });
+  });
+
+  it('reports failure when the signature is rejected', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: new Error('Invalid unsubscribe link'),
+    } as Awaited<ReturnType<typeof supabase.functions.invoke>>);
+
+    const res = await unsubscribeFromStatusUpdates('id1', 'forged');
+    expect(res.success).toBe(false);
+  });
+});
+
+describe('getComplaintPhotos', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the tracking ID with the email claim', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: { role: 'reporter', expiresInSeconds: 300, images: [{ index: 0, url: 'https://signed/r0' }] },
+      error: null,
+    } as Awaited<ReturnType<typeof supabase.functions.invoke>>);
+
+    const res = await getComplaintPhotos('id1', 'claim-token');
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('get-complaint-media', {
+      body: { complaintId: 'id1', emailClaim: 'claim-token' },
+    });
+    expect(res).toEqual({ success: true, code: null, message: '', images: [{ index: 0, url: 'https://signed/r0' }] });
+  });
+
+  it('surfaces a rejected email claim', async () => {
+    const { supabase } = await import('../../supabaseClient');
+    const context = new Response(JSON.stringify({ error: 'These photos belong to a different email address.', code: 'not_reporter' }), {
+      status: 403,
+    });
+    vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+      data: null,
+      error: Object.assign(new Error('Edge Function returned a non-2xx status code'), { context }),
+    } as Awaited<ReturnType<typeof supabase.functions.invoke>>);
+
+    const res = await getComplaintPhotos('id1', 'someone-else');
+
+    expect(res.success).toBe(false);
+    expect(res.code).toBe('not_reporter');
+    expect(res.message).toMatch(/different email/);
   });
 });
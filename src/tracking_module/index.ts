@@ -2,3 +2,4 @@
 export * from './types';
 export * from './service';
 export * from './ui/TrackingPage';
+export * from './ui/UnsubscribePage';
@@ -1,24 +1,125 @@
 import { supabase } from '../supabaseClient';
-import type { TrackingSummary } from './types';
+import { INITIAL_COMPLAINT_STATUS, isComplaintStatus } from '../complaints_module/status';
+import { readFunctionErrorBody } from '../complaints_module/functionError';
+import type { ComplaintMedia } from '../complaints_module/types';
+import type { TrackingPhotosResult, TrackingStatus, TrackingSummary, TrackingTimelineEntry } from './types';
+
+type ComplaintTrackingRow = {
+  id: string;
+  status: string | null;
+  created_at: string | null;
+  email_verified_at: string | null;
+};
+
+type PublicStatusEventRow = {
+  to_status: string;
+  public_note: string | null;
+  created_at: string;
+};
+
+const STATUS_EVENT_LABELS: Record<TrackingStatus, string> = {
+  Submitted: 'Submitted',
+  'Under Review': 'Under review',
+  'Approved for Inspection': 'Inspection scheduled',
+  'Inspection In Progress': 'Inspection in progress',
+  Resolved: 'Resolved',
+  Dismissed: 'Dismissed',
+};
+
+export function buildTimeline(
+  complaint: Pick<ComplaintTrackingRow, 'created_at' | 'email_verified_at'>,
+  statusEvents: PublicStatusEventRow[]
+): TrackingTimelineEntry[] {
+  const entries: TrackingTimelineEntry[] = [];
+
+  if (complaint.created_at) {
+    entries.push({ kind: 'submitted', label: 'Submitted', occurredAt: complaint.created_at, note: null });
+  }
+
+  if (complaint.email_verified_at) {
+    entries.push({ kind: 'email_verified', label: 'Email verified', occurredAt: complaint.email_verified_at, note: null });
+  }
+
+  for (const e of statusEvents) {
+    if (!isComplaintStatus(e.to_status)) continue;
+    entries.push({
+      kind: 'status_changed',
+      label: STATUS_EVENT_LABELS[e.to_status],
+      occurredAt: e.created_at,
+      status: e.to_status,
+      note: e.public_note?.trim() || null,
+    });
+  }
+
+  return entries.sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+}
 
 export async function getTrackingSummary(trackingId: string): Promise<TrackingSummary | null> {
-  // Tracking ID is complaints.id
+  // Tracking ID is complaints.id. complaints is staff-only; this RPC returns just status and dates.
   try {
-    const { data, error } = await supabase
-      .from('complaints')
-      .select('id, status')
-      .eq('id', trackingId)
-      .maybeSingle();
+    const { data, error } = await supabase.rpc('get_complaint_tracking', { p_complaint_id: trackingId });
 
     if (error) throw error;
-    if (!data) return null;
+    const row = ((data ?? []) as ComplaintTrackingRow[])[0];
+    if (!row) return null;
+
+    // History is staff-only; this RPC exposes just the public-safe columns.
+    const { data: events, error: eventsError } = await supabase.rpc('get_public_status_timeline', {
+      p_complaint_id: row.id,
+    });
+
+    if (eventsError) console.error('get_public_status_timeline error', eventsError);
 
     return {
-      trackingId: data.id,
-      status: data.status ?? '',
+      trackingId: row.id,
+      // complaints_status_chk only admits known statuses; the fallback covers un-migrated rows.
+      status: isComplaintStatus(row.status) ? row.status : INITIAL_COMPLAINT_STATUS,
+      timeline: buildTimeline(row, (events ?? []) as PublicStatusEventRow[]),
     };
   } catch (e) {
     console.error('getTrackingSummary error', e);
     return null;
   }
 }
+
+export async function unsubscribeFromStatusUpdates(
+  trackingId: string,
+  signature: string
+): Promise<{ success: boolean; message: string }> {
+  // Signature comes from the link in the status update email (notify-status-change).
+  try {
+    const { error } = await supabase.functions.invoke('unsubscribe-status-updates', {
+      body: { complaintId: trackingId, signature },
+    });
+
+    if (error) throw error;
+
+    return { success: true, message: 'You will no longer receive status emails for this complaint.' };
+  } catch (e) {
+    console.error('unsubscribeFromStatusUpdates error', e);
+    return { success: false, message: 'We could not process this unsubscribe link. Please try again.' };
+  }
+}
+
+export async function getComplaintPhotos(trackingId: string, emailClaim: string): Promise<TrackingPhotosResult> {
+  // Only the reporter may see their photos: get-complaint-media checks the claim's email
+  // against the complaint and returns short-lived links to the redacted copies.
+  try {
+    const { data, error } = await supabase.functions.invoke('get-complaint-media', {
+      body: { complaintId: trackingId, emailClaim },
+    });
+
+    if (error) {
+      const details = await readFunctionErrorBody<{ error?: string; code?: string }>(error);
+      if (details?.code === 'email_unverified' || details?.code === 'not_reporter') {
+        return { success: false, code: details.code, message: details.error || 'You cannot view these photos.', images: [] };
+      }
+      throw error;
+    }
+
+    return { success: true, code: null, message: '', images: (data as ComplaintMedia).images ?? [] };
+  } catch (e) {
+    console.error('getComplaintPhotos error', e);
+    return { success: false, code: null, message: 'We could not load your photos. Please try again.', images: [] };
+  }
+}
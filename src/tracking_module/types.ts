@@ -1,7 +1,33 @@
 // Tracking Module - Types
-export type TrackingStatus = string;
+import type { ComplaintStatus } from '../complaints_module/status';
+import type { ComplaintMediaImage } from '../complaints_module/types';
+
+export type TrackingStatus = ComplaintStatus;
+
+export type TimelineEventKind = 'submitted' | 'email_verified' | 'status_changed';
+
+export interface TrackingTimelineEntry {
+  kind: TimelineEventKind;
+  label: string;
+  occurredAt: string;
+  // Set for status_changed entries.
+  status?: TrackingStatus;
+  // Only notes staff explicitly marked as public are ever returned.
+  note: string | null;
+}
 
 export interface TrackingSummary {
   trackingId: string;
   status: TrackingStatus;
+  // Oldest first.
+  timeline: TrackingTimelineEntry[];
+}
+
+export interface TrackingPhotosResult {
+  success: boolean;
+  // Set when the reporter needs to (re)verify their email, or used another address.
+  code: 'email_unverified' | 'not_reporter' | null;
+  message: string;
+  // Redacted copies only; links expire after a few minutes.
+  images: ComplaintMediaImage[];
 }
@@ -1,36 +1,129 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '../../complaints_module/ui/Button';
 import { Alert } from '../../complaints_module/ui/Alert';
 import { ComplaintsHeader } from '../../complaints_module/ui/ComplaintsHeader';
-import { getTrackingSummary } from '../service';
-import type { TrackingSummary } from '../types';
-
-function StatusBadge({ status }: { status: string }) {
-  const tone = useMemo(() => {
-    const s = status.toLowerCase();
-    if (s.includes('complete') || s.includes('resolved') || s.includes('transmitted')) return 'emerald';
-    if (s.includes('progress') || s.includes('inspect')) return 'amber';
-    if (s.includes('approve') || s.includes('review')) return 'sky';
-    return 'slate';
-  }, [status]);
-
-  const cls =
-    tone === 'emerald'
-      ? 'bg-emerald-50 border-emerald-600 text-emerald-900'
-      : tone === 'amber'
-        ? 'bg-amber-50 border-amber-600 text-amber-900'
-        : tone === 'sky'
-          ? 'bg-sky-50 border-sky-600 text-sky-900'
-          : 'bg-slate-50 border-slate-600 text-slate-900';
-
+import { readEmailClaim } from '../../complaints_module/emailClaim';
+import { getComplaintPhotos, getTrackingSummary } from '../service';
+import type { TrackingPhotosResult, TrackingStatus, TrackingSummary, TrackingTimelineEntry } from '../types';
+
+const STATUS_BADGE_STYLES: Record<TrackingStatus, string> = {
+  Submitted: 'bg-slate-50 border-slate-600 text-slate-900',
+  'Under Review': 'bg-sky-50 border-sky-600 text-sky-900',
+  'Approved for Inspection': 'bg-sky-50 border-sky-600 text-sky-900',
+  'Inspection In Progress': 'bg-amber-50 border-amber-600 text-amber-900',
+  Resolved: 'bg-emerald-50 border-emerald-600 text-emerald-900',
+  Dismissed: 'bg-red-50 border-red-600 text-red-900',
+};
+
+function StatusBadge({ status }: { status: TrackingStatus }) {
   return (
-    <span className={`inline-flex items-center rounded-lg border-l-4 px-4 py-2 text-sm font-bold ${cls}`}>
-      {status || '—'}
+    <span className={`inline-flex items-center rounded-lg border-l-4 px-4 py-2 text-sm font-bold ${STATUS_BADGE_STYLES[status]}`}>
+      {status}
     </span>
   );
 }
 
+function formatTimelineDate(value: string): string {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+function StatusTimeline({ entries }: { entries: TrackingTimelineEntry[] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-slate-200">
+      <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">Timeline</p>
+      <ol className="mt-6 relative border-l-2 border-slate-200 ml-2 space-y-8">
+        {entries.map((entry, idx) => {
+          const isLatest = idx === entries.length - 1;
+          return (
+            <li key={`${entry.kind}-${entry.occurredAt}-${idx}`} className="ml-6">
+              <span
+                className={`absolute -left-[9px] mt-1 h-4 w-4 rounded-full border-2 border-white ${
+                  isLatest ? 'bg-amber-500' : 'bg-slate-400'
+                }`}
+                aria-hidden="true"
+              />
+              <p className="text-base font-bold text-slate-900">{entry.label}</p>
+              <p className="text-sm text-slate-600 mt-1">{formatTimelineDate(entry.occurredAt)}</p>
+              {entry.note && <p className="mt-2 text-sm text-slate-700 whitespace-pre-wrap">{entry.note}</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function ReporterPhotos({ trackingId }: { trackingId: string }) {
+  const [claim] = useState(() => readEmailClaim());
+  const [loading, setLoading] = useState(false);
+  const [photos, setPhotos] = useState<TrackingPhotosResult | null>(null);
+
+  const load = async () => {
+    if (!claim) return;
+    setLoading(true);
+    setPhotos(await getComplaintPhotos(trackingId, claim.claim));
+    setLoading(false);
+  };
+
+  const verifyLink = (
+    <Link to="/complaints/submit" className="font-semibold text-slate-900 underline">
+      verify your email
+    </Link>
+  );
+
+  return (
+    <div className="mt-8 pt-8 border-t border-slate-200">
+      <p className="text-xs font-bold text-slate-600 uppercase tracking-widest">Your photos</p>
+
+      {!claim ? (
+        <p className="mt-3 text-sm text-slate-600">
+          Photos are private. To view the ones you attached, {verifyLink} with the address you used for this complaint.
+        </p>
+      ) : !photos?.success ? (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm text-slate-600">
+            Photos are private. Verified as <span className="font-semibold">{claim.email}</span>; faces and licence plates are
+            blurred.
+          </p>
+          {photos && (
+            <Alert
+              kind="error"
+              title="Photos unavailable"
+              message={photos.code === 'email_unverified' ? 'Your email verification has expired. Please verify again.' : photos.message}
+            />
+          )}
+          <Button type="button" variant="secondary" onClick={load} disabled={loading}>
+            {loading ? 'Loading…' : 'Show my photos'}
+          </Button>
+        </div>
+      ) : photos.images.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-600">No photos were attached to this complaint.</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+          {photos.images.map((img) =>
+            img.url ? (
+              <a key={img.index} href={img.url} target="_blank" rel="noreferrer" className="block">
+                <img src={img.url} alt={`Photo ${img.index + 1}`} className="w-full h-40 object-cover rounded-lg border border-slate-200" />
+              </a>
+            ) : (
+              <div
+                key={img.index}
+                className="h-40 flex items-center justify-center rounded-lg border border-slate-200 bg-slate-50 text-xs text-slate-500 text-center p-2"
+              >
+                Still being processed
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function TrackingPage() {
   const [searchParams] = useSearchParams();
   const [trackingId, setTrackingId] = useState('');
@@ -135,6 +228,10 @@ export function TrackingPage() {
                 <div className="mt-6 text-sm text-slate-600">
                   Status is updated by the receiving office as the complaint progresses.
                 </div>
+
+                <StatusTimeline entries={result.timeline} />
+
+                <ReporterPhotos key={result.trackingId} trackingId={result.trackingId} />
               </div>
             )}
           </section>
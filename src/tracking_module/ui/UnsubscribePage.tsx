@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Alert } from '../../complaints_module/ui/Alert';
+import { ComplaintsHeader } from '../../complaints_module/ui/ComplaintsHeader';
+import { unsubscribeFromStatusUpdates } from '../service';
+
+type UnsubscribeResult = { key: string; success: boolean; message: string };
+
+export function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const trackingId = (searchParams.get('id') || '').trim();
+  const signature = (searchParams.get('sig') || '').trim();
+  const requestKey = `${trackingId}:${signature}`;
+
+  const [result, setResult] = useState<UnsubscribeResult | null>(null);
+
+  useEffect(() => {
+    if (!trackingId || !signature) return;
+
+    let cancelled = false;
+    void unsubscribeFromStatusUpdates(trackingId, signature).then((res) => {
+      if (!cancelled) setResult({ key: requestKey, ...res });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, trackingId, signature]);
+
+  const missingParams = !trackingId || !signature;
+  const loading = !missingParams && result?.key !== requestKey;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-50 flex flex-col gap-8">
+      <ComplaintsHeader subtitle="Official Complaint Management System" />
+
+      <main className="w-full px-8 py-12 flex justify-center">
+        <div className="w-full max-w-3xl">
+          <section className="bg-white rounded-xl shadow-2xl border border-slate-200 p-10 md:p-12 animate-fade-in-up">
+            <div className="mb-8 pb-8 border-b-2 border-slate-200">
+              <h2 className="text-4xl font-bold text-slate-900 tracking-tight">Status Email Preferences</h2>
+              <p className="mt-3 text-slate-600 text-lg">Stop status update emails for a single complaint.</p>
+            </div>
+
+            {missingParams && (
+              <Alert kind="error" title="Invalid link" message="This unsubscribe link is incomplete." />
+            )}
+
+            {loading && <p className="text-slate-700 font-semibold">Updating your preferences…</p>}
+
+            {!loading && result && (
+              <Alert
+                kind={result.success ? 'success' : 'error'}
+                title={result.success ? 'Unsubscribed' : 'Unsubscribe failed'}
+                message={result.message}
+              />
+            )}
+
+            {trackingId && (
+              <div className="mt-6 text-sm text-slate-600">
+                You can still follow progress on the{' '}
+                <Link to={`/tracking?id=${encodeURIComponent(trackingId)}`} className="font-semibold text-slate-900 underline">
+                  tracking page
+                </Link>
+                .
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default UnsubscribePage;
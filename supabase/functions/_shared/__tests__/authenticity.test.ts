@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { AUTHENTICITY_SCORING_VERSION, BASE_SCORE, scoreAuthenticity, tierForScore } from '../authenticity.ts';
+import type { AuthenticitySignals } from '../authenticity.ts';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const strong: AuthenticitySignals = {
+  proximityMeters: 40,
+  proximityThresholdMeters: 200,
+  gpsAccuracyMeters: 12,
+  locationTimestamp: NOW - 2 * 60_000,
+  submittedAt: NOW,
+  emailVerified: true,
+  photoTimestamps: [NOW - 3 * 3600_000],
+  certificationAccepted: true,
+  reporterHistory: { priorComplaints: 2, resolved: 1, dismissed: 0 },
+};
+
+function points(result: ReturnType<typeof scoreAuthenticity>, signal: string) {
+  return result.breakdown.find((b) => b.signal === signal)?.points;
+}
+
+describe('scoreAuthenticity', () => {
+  it('rates a well-supported report High and explains every signal', () => {
+    const result = scoreAuthenticity(strong);
+
+    expect(result.version).toBe(AUTHENTICITY_SCORING_VERSION);
+    expect(result.score).toBe(100);
+    expect(result.tier).toBe('High');
+    expect(result.breakdown.map((b) => b.signal)).toEqual([
+      'proximity',
+      'gps_accuracy',
+      'location_freshness',
+      'location_integrity',
+      'email_verification',
+      'photo_freshness',
+      'photo_provenance',
+      'certification',
+      'reporter_history',
+    ]);
+    expect(result.breakdown[0].detail).toContain('40m');
+  });
+
+  it('treats missing location and photos as neutral', () => {
+    const result = scoreAuthenticity({
+      ...strong,
+      proximityMeters: null,
+      gpsAccuracyMeters: null,
+      locationTimestamp: null,
+      photoTimestamps: [],
+      reporterHistory: { priorComplaints: 0, resolved: 0, dismissed: 0 },
+    });
+
+    expect(points(result, 'proximity')).toBe(0);
+    expect(points(result, 'photo_freshness')).toBe(0);
+    expect(result.score).toBe(BASE_SCORE + 10 + 5);
+    expect(result.tier).toBe('Medium');
+  });
+
+  it('penalises distance, stale location, old photos and a dismissed history', () => {
+    const result = scoreAuthenticity({
+      ...strong,
+      proximityMeters: 5000,
+      gpsAccuracyMeters: 400,
+      locationTimestamp: NOW - 3 * 3600_000,
+      photoTimestamps: [NOW - 60 * 24 * 3600_000, null],
+      reporterHistory: { priorComplaints: 3, resolved: 0, dismissed: 2 },
+    });
+
+    expect(points(result, 'proximity')).toBeLessThan(0);
+    expect(points(result, 'gps_accuracy')).toBeLessThan(0);
+    expect(points(result, 'location_freshness')).toBeLessThan(0);
+    expect(points(result, 'photo_freshness')).toBeLessThan(0);
+    expect(points(result, 'reporter_history')).toBeLessThan(0);
+    expect(result.tier).toBe('Low');
+  });
+
+  it('scores photo provenance tags', () => {
+    const matched = scoreAuthenticity({ ...strong, photoTags: ['Photo GPS Matches', 'Camera Captured In-App'] });
+    expect(points(matched, 'photo_provenance')).toBe(15);
+
+    const doubtful = scoreAuthenticity({ ...strong, photoTags: ['Photo GPS Mismatch', 'Photo Edited', 'Photo Older Than 7 Days'] });
+    expect(points(doubtful, 'photo_provenance')).toBe(-25);
+    expect(doubtful.breakdown.find((b) => b.signal === 'photo_provenance')?.detail).toBe('Photo GPS Mismatch, Photo Edited');
+  });
+
+  it('keeps v1 signals without photo tags neutral', () => {
+    expect(points(scoreAuthenticity(strong), 'photo_provenance')).toBe(0);
+  });
+
+  it('scores the location integrity verdict and keeps older signals neutral', () => {
+    const genuine = scoreAuthenticity({ ...strong, locationIntegrity: { verdict: 'consistent', failed: [] } });
+    expect(points(genuine, 'location_integrity')).toBe(5);
+
+    const spoofed = scoreAuthenticity({ ...strong, locationIntegrity: { verdict: 'suspicious', failed: ['jitter', 'speed'] } });
+    expect(points(spoofed, 'location_integrity')).toBe(-20);
+    expect(spoofed.breakdown.find((b) => b.signal === 'location_integrity')?.detail).toBe('Failed checks: jitter, speed');
+
+    expect(points(scoreAuthenticity(strong), 'location_integrity')).toBe(0);
+  });
+
+  it('caps the score when a negative tag is present', () => {
+    const result = scoreAuthenticity(strong, ['High-Volume Reporter']);
+
+    expect(result.score).toBe(25);
+    expect(result.tier).toBe('Low');
+    expect(result.breakdown.at(-1)).toMatchObject({ signal: 'tags', points: -75 });
+  });
+
+  it('flags a location timestamp from the future', () => {
+    const result = scoreAuthenticity({ ...strong, locationTimestamp: NOW + 30 * 60_000 });
+    expect(result.breakdown.find((b) => b.signal === 'location_freshness')?.detail).toMatch(/future/);
+    expect(points(result, 'location_freshness')).toBeLessThan(0);
+  });
+});
+
+describe('tierForScore', () => {
+  it('uses the tier boundaries', () => {
+    expect(tierForScore(75)).toBe('High');
+    expect(tierForScore(74)).toBe('Medium');
+    expect(tierForScore(40)).toBe('Medium');
+    expect(tierForScore(39)).toBe('Low');
+  });
+});
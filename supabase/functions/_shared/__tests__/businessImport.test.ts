@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeBusinessAddress,
+  normalizeBusinessName,
+  parseCsv,
+  parseImportFile,
+  planImport,
+  rowsToImport,
+} from '../businessImport.ts';
+import type { ExistingBusiness } from '../businessImport.ts';
+
+const existing: ExistingBusiness[] = [
+  { business_pk: 1, business_name: 'Jollibee Taft Inc.', business_address: '1850 Taft Ave., Malate, Manila' },
+  { business_pk: 2, business_name: 'Mercury Drug', business_address: '25 Rizal Avenue, Sta. Cruz, Manila', business_permit_number: 'BP-2026-0042' },
+];
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and CRLF', () => {
+    expect(parseCsv('name,address\r\n"Aling Nena\'s ""Carinderia""","12 Mabini St, Ermita"\r\n')).toEqual([
+      ['name', 'address'],
+      ['Aling Nena\'s "Carinderia"', '12 Mabini St, Ermita'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('maps header aliases and keeps CSV line numbers', () => {
+    const records = parseImportFile('Business Name,Business Address,Permit No.\n\nSM Hypermarket,Pasay City,BP-1\n', 'csv');
+    expect(records).toEqual([
+      { line: 3, values: { business_name: 'SM Hypermarket', business_address: 'Pasay City', permit_no: 'BP-1' } },
+    ]);
+  });
+
+  it('accepts a JSON array or { businesses: [...] } and rejects anything else', () => {
+    expect(parseImportFile('{"businesses":[{"name":"A"}]}', 'json')).toEqual([{ line: 1, values: { name: 'A' } }]);
+    expect(() => parseImportFile('{"rows":[]}', 'json')).toThrow(/JSON array/);
+    expect(() => parseImportFile('not json', 'json')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('normalization', () => {
+  it('ignores punctuation, "&" and company suffixes in names', () => {
+    expect(normalizeBusinessName('  Jollibee  Taft, Inc. ')).toBe('jollibee taft');
+    expect(normalizeBusinessName('Ben & Jerry\'s Co.')).toBe(normalizeBusinessName('ben and jerry s'));
+  });
+
+  it('spells out common address abbreviations', () => {
+    expect(normalizeBusinessAddress('1850 Taft Ave., Brgy. 5, Manila')).toBe('1850 taft avenue barangay 5 manila');
+  });
+});
+
+describe('planImport', () => {
+  it('classifies new, duplicate, possible duplicate and invalid rows', () => {
+    const csv = [
+      'name,address,permit_number,category,lat,lng',
+      'JOLLIBEE TAFT,"1850 Taft Avenue, Malate, Manila",,Restaurant,,',
+      'Mercury Drugstore Rizal,"25 Rizal Ave, Sta. Cruz, Manila",BP 2026 0042,,,',
+      'Mercury Drug Sta Cruz,"25 Rizal Ave, Sta. Cruz, Manila",,,,',
+      'Kuya J Restaurant,"99 Roxas Blvd, Pasay City",,Restaurant,14.55,120.99',
+      'Kuya J Restaurant,"99 Roxas Boulevard, Pasay City",,,,',
+      'X,"Somewhere in Manila",,,,',
+      'Lola Nena Bakery,"5 Dapitan St, Sampaloc, Manila",,Bakery,91,0',
+    ].join('\n');
+
+    const plan = planImport(parseImportFile(csv, 'csv'), existing);
+    const byLine = Object.fromEntries(plan.rows.map((r) => [r.line, r]));
+
+    expect(byLine[2].status).toBe('duplicate');
+    expect(byLine[2].match).toMatchObject({ business_pk: 1, reason: 'same_name_and_address' });
+    expect(byLine[3].match).toMatchObject({ business_pk: 2, reason: 'permit_number' });
+    expect(byLine[4].status).toBe('possible_duplicate');
+    expect(byLine[4].match).toMatchObject({ business_pk: 2, reason: 'similar_name' });
+    expect(byLine[5]).toMatchObject({ status: 'new', category: 'restaurant', coordinates: { lat: 14.55, lng: 120.99 } });
+    expect(byLine[6].match).toMatchObject({ business_pk: null, line: 5, reason: 'same_name_and_address' });
+    expect(byLine[7].status).toBe('invalid');
+    expect(byLine[8].errors).toEqual(['Coordinates are not a valid latitude/longitude pair']);
+
+    expect(plan.summary).toEqual({ total: 7, new: 1, duplicate: 3, possibleDuplicate: 1, invalid: 2 });
+  });
+
+  it('imports new rows plus the possible duplicates staff accepted', () => {
+    const csv = 'name,address\nMercury Drug Sta Cruz,"25 Rizal Ave, Sta. Cruz, Manila"\nBago Cafe,"3 Arnaiz Ave, Makati"\n';
+    const plan = planImport(parseImportFile(csv, 'csv'), existing);
+
+    expect(rowsToImport(plan).map((r) => r.line)).toEqual([3]);
+    expect(rowsToImport(plan, [2]).map((r) => r.line)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { URGENT_TAG, categoryTags, sanitizeCategoryDetails, validateCategory } from '../complaintCategories.ts';
+
+describe('validateCategory', () => {
+  it('accepts a missing category from submissions queued before categories existed', () => {
+    expect(validateCategory(undefined, undefined)).toEqual([]);
+  });
+
+  it('rejects unknown categories', () => {
+    expect(validateCategory('vibes', {})).toEqual([{ field: 'complaintCategory', message: 'Unknown complaint category' }]);
+  });
+
+  it('reports missing and malformed answers per question', () => {
+    expect(
+      validateCategory('overpricing', { issue: 'too_expensive', product: '   ', price_charged: -5, price_expected: 120 })
+    ).toEqual([
+      { field: 'categoryDetails.issue', message: 'Choose one of the options' },
+      { field: 'categoryDetails.product', message: 'This question is required' },
+      { field: 'categoryDetails.price_charged', message: 'Enter an amount in pesos' },
+    ]);
+  });
+
+  it('requires a boolean for yes / no questions', () => {
+    expect(validateCategory('fire_safety', { issue: 'blocked_exit', immediate_danger: 'yes' })).toEqual([
+      { field: 'categoryDetails.immediate_danger', message: 'Answer yes or no' },
+    ]);
+  });
+});
+
+describe('sanitizeCategoryDetails', () => {
+  it('keeps only the category questions, trimmed', () => {
+    expect(
+      sanitizeCategoryDetails('food_safety', { issue: 'spoiled_food', became_ill: false, product: ' Longganisa ', extra: 'x' })
+    ).toEqual({ issue: 'spoiled_food', became_ill: false, product: 'Longganisa' });
+    expect(sanitizeCategoryDetails(null, { issue: 'x' })).toEqual({});
+  });
+});
+
+describe('categoryTags', () => {
+  it('marks ongoing danger to people as urgent', () => {
+    expect(categoryTags('food_safety', { issue: 'food_poisoning', became_ill: true })).toEqual([URGENT_TAG]);
+    expect(categoryTags('labor', { issue: 'child_labor', is_employee: false })).toEqual([URGENT_TAG]);
+    expect(categoryTags('fire_safety', { issue: 'no_extinguisher', immediate_danger: false })).toEqual([]);
+    expect(categoryTags(null, {})).toEqual([]);
+  });
+});
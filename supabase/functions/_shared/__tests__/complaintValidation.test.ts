@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { baseMimeType, validateMedia, validateSubmission } from '../complaintValidation.ts';
+
+const MB = 1024 * 1024;
+
+const fields = {
+  businessName: 'Corner Bakery',
+  businessAddress: '12 Market Street',
+  complaintDescription: 'Mice running behind the counter at lunch time.',
+  reporterEmail: 'reporter@example.com',
+};
+
+describe('media validation', () => {
+  it('accepts recorded clips whose MIME type carries codecs', () => {
+    expect(baseMimeType('video/webm;codecs=vp8,opus')).toBe('video/webm');
+
+    const result = validateMedia('videos', [
+      { name: 'clip.webm', size: 4 * MB, type: 'video/webm;codecs=vp8,opus', durationSeconds: 12 },
+    ]);
+    expect(result).toEqual({ fieldErrors: [], fileErrors: [] });
+  });
+
+  it('rejects clips that are too long, too large or of the wrong type', () => {
+    const { fileErrors } = validateMedia('videos', [
+      { name: 'long.mp4', size: 10 * MB, type: 'video/mp4', durationSeconds: 61 },
+      { name: 'huge.mp4', size: 101 * MB, type: 'video/mp4', durationSeconds: 20 },
+      { name: 'clip.avi', size: MB, type: 'video/x-msvideo', durationSeconds: 5 },
+    ]);
+
+    expect(fileErrors.map((e) => [e.index, e.message])).toEqual([
+      [0, 'Video too long (max 60 seconds)'],
+      [1, 'Video too large (max 100MB)'],
+      [2, 'Invalid video type (video/x-msvideo)'],
+    ]);
+  });
+
+  it('says which kind of evidence each file error belongs to', () => {
+    const { fileErrors } = validateSubmission(
+      fields,
+      [{ name: 'shelf.gif', size: MB, type: 'image/gif' }],
+      { videos: [], audio: [{ name: 'noise.flac', size: MB, type: 'audio/flac', durationSeconds: 10 }] },
+    );
+
+    expect(fileErrors.map((e) => [e.kind, e.index, e.fileName])).toEqual([
+      ['images', 0, 'shelf.gif'],
+      ['audio', 0, 'noise.flac'],
+    ]);
+  });
+
+  it('does not hold an unreadable duration against a recording', () => {
+    const { fileErrors } = validateMedia('audio', [{ name: 'noise.m4a', size: MB, type: 'audio/mp4', durationSeconds: null }]);
+    expect(fileErrors).toEqual([]);
+  });
+
+  it('limits the number of recordings', () => {
+    const clip = { name: 'noise.mp3', size: MB, type: 'audio/mpeg', durationSeconds: 30 };
+    const { fieldErrors } = validateSubmission(fields, [], { videos: [], audio: [clip, clip, clip, clip] });
+
+    expect(fieldErrors).toEqual([{ field: 'audio', message: 'Maximum 3 audio recordings' }]);
+  });
+});
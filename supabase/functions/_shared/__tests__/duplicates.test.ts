@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { detectDuplicates, textSimilarity } from '../duplicates.ts';
+import type { DuplicateSubject } from '../duplicates.ts';
+
+const base: DuplicateSubject = {
+  business_pk: 7,
+  reporter_email: 'first@example.com',
+  reporter_lat: 14.5995,
+  reporter_lng: 120.9842,
+  complaint_description: 'Expired canned goods on the shelves and no price tags on the meat section.',
+  created_at: '2026-01-05T10:00:00Z',
+};
+
+function existing(overrides: Partial<DuplicateSubject> & { id: string }): DuplicateSubject & { id: string } {
+  return { ...base, ...overrides };
+}
+
+describe('textSimilarity', () => {
+  it('scores identical text as 1 and unrelated text low', () => {
+    expect(textSimilarity('Expired goods on shelves', 'expired goods on shelves!')).toBe(1);
+    expect(textSimilarity('Expired goods on shelves', 'Loud karaoke after midnight')).toBeLessThan(0.2);
+  });
+});
+
+describe('detectDuplicates', () => {
+  it('links similar reports from different reporters about the same business', () => {
+    const subject = {
+      ...base,
+      reporter_email: 'second@example.com',
+      complaint_description: 'Saw expired canned goods on the shelves, meat section has no price tags.',
+      created_at: '2026-01-05T14:00:00Z',
+    };
+
+    const decision = detectDuplicates(subject, [existing({ id: 'c-1', incident_id: 'inc-1' })]);
+
+    expect(decision.linkTo).toMatchObject({ complaintId: 'c-1', incidentId: 'inc-1', sameIncident: true });
+    expect(decision.possibleDuplicate).toBe(false);
+  });
+
+  it('flags the same reporter filing again about the same business', () => {
+    const subject = {
+      ...base,
+      complaint_description: 'Staff were rude and refused to issue an official receipt.',
+      created_at: '2026-01-05T10:30:00Z',
+    };
+
+    const decision = detectDuplicates(subject, [existing({ id: 'c-1' })]);
+
+    expect(decision.possibleDuplicate).toBe(true);
+    expect(decision.linkTo).toBeNull();
+    expect(decision.matches[0].reasons).toEqual(['same_business', 'same_reporter', 'nearby']);
+  });
+
+  it('ignores complaints outside the time window', () => {
+    const subject = { ...base, created_at: '2026-01-10T10:00:00Z' };
+    expect(detectDuplicates(subject, [existing({ id: 'c-1' })]).matches).toEqual([]);
+  });
+
+  it('links nearby reports about an unlisted business by location and text', () => {
+    const subject = {
+      ...base,
+      business_pk: null,
+      reporter_email: 'second@example.com',
+      reporter_lat: 14.5996,
+      created_at: '2026-01-05T12:00:00Z',
+    };
+
+    const decision = detectDuplicates(subject, [existing({ id: 'c-1', business_pk: null })]);
+    expect(decision.linkTo?.reasons).toContain('nearby');
+  });
+
+  it('prefers a match that already belongs to an incident', () => {
+    const subject = { ...base, reporter_email: 'third@example.com', created_at: '2026-01-05T12:00:00Z' };
+
+    const decision = detectDuplicates(subject, [
+      existing({ id: 'c-1', reporter_email: 'a@example.com' }),
+      existing({ id: 'c-2', reporter_email: 'b@example.com', incident_id: 'inc-9' }),
+    ]);
+
+    expect(decision.linkTo?.incidentId).toBe('inc-9');
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_PHOTO_METADATA, findTiffBlock, parseExifDate, readPhotoMetadata } from '../exif.ts';
+import { analyzePhoto, summarizeProvenance } from '../photoProvenance.ts';
+
+type Entry = { tag: number; type: 2 | 4 | 5; value: string | number | number[][] };
+
+// Little-endian TIFF with IFD0 -> Exif IFD and GPS IFD
+function buildTiff(ifd0: Entry[], exif: Entry[], gps: Entry[]): Uint8Array {
+  const bytes: number[] = [0x49, 0x49, 42, 0, 8, 0, 0, 0];
+  const u16 = (at: number, v: number) => {
+    bytes[at] = v & 0xff;
+    bytes[at + 1] = (v >> 8) & 0xff;
+  };
+  const u32 = (at: number, v: number) => {
+    for (let i = 0; i < 4; i++) bytes[at + i] = (v >>> (8 * i)) & 0xff;
+  };
+
+  const writeIfd = (entries: Entry[]): number[] => {
+    const start = bytes.length;
+    const pointers: number[] = [];
+    bytes.push(...new Array(2 + entries.length * 12 + 4).fill(0));
+    u16(start, entries.length);
+
+    entries.forEach((e, i) => {
+      const at = start + 2 + i * 12;
+      u16(at, e.tag);
+      u16(at + 2, e.type);
+
+      if (e.type === 4) {
+        u32(at + 4, 1);
+        u32(at + 8, e.value as number);
+        pointers.push(at + 8);
+        return;
+      }
+
+      let data: number[];
+      let count: number;
+      if (e.type === 2) {
+        data = [...new TextEncoder().encode(`${e.value}\0`)];
+        count = data.length;
+      } else {
+        const parts = e.value as number[][];
+        data = [];
+        parts.forEach(([num, den]) => {
+          const chunk = new Array(8).fill(0);
+          for (let k = 0; k < 4; k++) chunk[k] = (num >>> (8 * k)) & 0xff;
+          for (let k = 0; k < 4; k++) chunk[4 + k] = (den >>> (8 * k)) & 0xff;
+          data.push(...chunk);
+        });
+        count = parts.length;
+      }
+      u32(at + 4, count);
+      if (data.length <= 4) {
+        data.forEach((b, k) => (bytes[at + 8 + k] = b));
+      } else {
+        u32(at + 8, bytes.length);
+        bytes.push(...data);
+      }
+    });
+    return pointers;
+  };
+
+  const ifd0Pointers = writeIfd(ifd0);
+  const exifOffset = bytes.length;
+  writeIfd(exif);
+  const gpsOffset = bytes.length;
+  writeIfd(gps);
+  u32(ifd0Pointers[0], exifOffset);
+  u32(ifd0Pointers[1], gpsOffset);
+
+  return new Uint8Array(bytes);
+}
+
+function jpegWithExif(tiff: Uint8Array): Uint8Array {
+  const header = [0x45, 0x78, 0x69, 0x66, 0, 0];
+  const length = 2 + header.length + tiff.length;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...header, ...tiff, 0xff, 0xda, 0, 2, 0xff, 0xd9]);
+}
+
+const tiff = buildTiff(
+  [
+    { tag: 0x8769, type: 4, value: 0 },
+    { tag: 0x8825, type: 4, value: 0 },
+    { tag: 0x010f, type: 2, value: 'Google' },
+    { tag: 0x0110, type: 2, value: 'Pixel 8' },
+    { tag: 0x0131, type: 2, value: 'Adobe Photoshop 25.0' },
+  ],
+  [
+    { tag: 0x9003, type: 2, value: '2026:02:20 09:30:00' },
+    { tag: 0x9011, type: 2, value: '+08:00' },
+  ],
+  [
+    { tag: 0x0001, type: 2, value: 'N' },
+    { tag: 0x0002, type: 5, value: [[14, 1], [35, 1], [5820, 100]] },
+    { tag: 0x0003, type: 2, value: 'E' },
+    { tag: 0x0004, type: 5, value: [[120, 1], [59, 1], [312, 100]] },
+  ]
+);
+
+describe('readPhotoMetadata', () => {
+  it('reads capture time, GPS, camera and software from a JPEG', () => {
+    const meta = readPhotoMetadata(jpegWithExif(tiff));
+
+    expect(meta.capturedAt).toBe(Date.parse('2026-02-20T01:30:00Z'));
+    expect(meta.make).toBe('Google');
+    expect(meta.model).toBe('Pixel 8');
+    expect(meta.software).toBe('Adobe Photoshop 25.0');
+    expect(meta.gps?.latitude).toBeCloseTo(14.5995, 4);
+    expect(meta.gps?.longitude).toBeCloseTo(120.9842, 4);
+  });
+
+  it('finds EXIF in PNG eXIf chunks', () => {
+    const length = tiff.length;
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+      0x65, 0x58, 0x49, 0x66, ...tiff, 0, 0, 0, 0,
+    ]);
+    expect(findTiffBlock(png)).toEqual(tiff);
+  });
+
+  it('returns empty metadata for files without EXIF or with garbage', () => {
+    expect(readPhotoMetadata(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]))).toEqual(EMPTY_PHOTO_METADATA);
+    expect(readPhotoMetadata(jpegWithExif(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8])))).toEqual(EMPTY_PHOTO_METADATA);
+  });
+
+  it('parses EXIF dates as UTC unless an offset is given', () => {
+    expect(parseExifDate('2026:01:02 03:04:05')).toBe(Date.parse('2026-01-02T03:04:05Z'));
+    expect(parseExifDate('2026:01:02 03:04:05', '-05:00')).toBe(Date.parse('2026-01-02T08:04:05Z'));
+    expect(parseExifDate('0000:00:00 00:00:00')).toBeNull();
+  });
+});
+
+describe('photo provenance', () => {
+  const submittedAt = Date.parse('2026-03-01T00:00:00Z');
+  const context = {
+    reporter: { latitude: 14.5995, longitude: 120.9842 },
+    business: { latitude: 14.6, longitude: 120.985 },
+    submittedAt,
+  };
+
+  it('tags matching GPS, old photos, edits and in-app captures', () => {
+    const photo = analyzePhoto(0, readPhotoMetadata(jpegWithExif(tiff)), 'upload', context);
+    expect(photo.gpsMatches).toBe(true);
+    expect(photo.olderThanMaxAge).toBe(true);
+    expect(photo.edited).toBe(true);
+
+    const captured = analyzePhoto(1, EMPTY_PHOTO_METADATA, 'camera', context);
+    expect(summarizeProvenance([photo, captured]).tags).toEqual([
+      'Photo GPS Matches',
+      'Photo Older Than 7 Days',
+      'Camera Captured In-App',
+      'Photo Edited',
+    ]);
+  });
+
+  it('reports a mismatch only when every located photo is far away', () => {
+    const far = analyzePhoto(
+      0,
+      { ...EMPTY_PHOTO_METADATA, gps: { latitude: 10.3157, longitude: 123.8854 }, capturedAt: submittedAt - 3600_000 },
+      'upload',
+      context
+    );
+    expect(far.gpsMatches).toBe(false);
+    expect(summarizeProvenance([far]).tags).toEqual(['Photo GPS Mismatch']);
+    expect(summarizeProvenance([analyzePhoto(0, EMPTY_PHOTO_METADATA, 'upload', context)]).tags).toEqual([]);
+  });
+});
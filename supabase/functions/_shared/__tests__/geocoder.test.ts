@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fixtureGeocoder,
+  geocoderFromEnv,
+  googleGeocoder,
+  nominatimGeocoder,
+  normalizeAddress,
+  storedCoordinates,
+} from '../geocoder.ts';
+
+function fakeFetch(body: unknown, status = 200) {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  const fn = (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    return Promise.resolve(new Response(JSON.stringify(body), { status }));
+  };
+  return { fn, calls };
+}
+
+const env = (vars: Record<string, string>) => (name: string) => vars[name];
+
+describe('providers', () => {
+  it('reads the first Google result and treats ZERO_RESULTS as no match', async () => {
+    const ok = fakeFetch({ status: 'OK', results: [{ geometry: { location: { lat: 14.6, lng: 120.98 } } }] });
+    expect(await googleGeocoder('key', ok.fn).geocode('123 Rizal Ave')).toEqual({ lat: 14.6, lng: 120.98 });
+    expect(ok.calls[0].url).toContain('address=123%20Rizal%20Ave');
+
+    const none = fakeFetch({ status: 'ZERO_RESULTS', results: [] });
+    expect(await googleGeocoder('key', none.fn).geocode('nowhere')).toBeNull();
+
+    const denied = fakeFetch({ status: 'REQUEST_DENIED', error_message: 'bad key' });
+    await expect(googleGeocoder('key', denied.fn).geocode('x')).rejects.toThrow(/REQUEST_DENIED/);
+  });
+
+  it('parses Nominatim string coordinates and identifies itself', async () => {
+    const { fn, calls } = fakeFetch([{ lat: '14.5352', lon: '120.9822' }]);
+    const geocoder = nominatimGeocoder({ baseUrl: 'http://osm.local/', userAgent: 'test-agent' }, fn);
+
+    expect(await geocoder.geocode('SM Mall of Asia')).toEqual({ lat: 14.5352, lng: 120.9822 });
+    expect(calls[0].url).toBe('http://osm.local/search?q=SM+Mall+of+Asia&format=jsonv2&limit=1');
+    expect((calls[0].init?.headers as Record<string, string>)['User-Agent']).toBe('test-agent');
+
+    await expect(nominatimGeocoder({}, fakeFetch([], 503).fn).geocode('x')).rejects.toThrow(/503/);
+  });
+
+  it('matches fixtures regardless of case, commas and spacing', async () => {
+    const geocoder = fixtureGeocoder({ '1 Main St, Manila': { lat: 1, lng: 2 } });
+    expect(normalizeAddress('  1 MAIN st.,   Manila ')).toBe('1 main st manila');
+    expect(await geocoder.geocode('1 main st manila')).toEqual({ lat: 1, lng: 2 });
+    expect(await geocoder.geocode('2 Main St, Manila')).toBeNull();
+  });
+});
+
+describe('geocoderFromEnv', () => {
+  it('defaults to Google with a key and Nominatim without one', () => {
+    expect(geocoderFromEnv(env({ GOOGLE_MAPS_API_KEY: 'k' })).name).toBe('google');
+    expect(geocoderFromEnv(env({})).name).toBe('nominatim');
+  });
+
+  it('selects the fixture geocoder with extra fixtures from the environment', async () => {
+    const geocoder = geocoderFromEnv(
+      env({ GEOCODER_PROVIDER: 'Fixture', GEOCODER_FIXTURES: '{"9 Test Rd": {"lat": 10, "lng": 20}}' })
+    );
+    expect(geocoder.name).toBe('fixture');
+    expect(await geocoder.geocode('9 test rd')).toEqual({ lat: 10, lng: 20 });
+    expect(await geocoder.geocode('123 Rizal Ave, Manila')).not.toBeNull();
+  });
+
+  it('rejects misconfiguration', () => {
+    expect(() => geocoderFromEnv(env({ GEOCODER_PROVIDER: 'google' }))).toThrow(/GOOGLE_MAPS_API_KEY/);
+    expect(() => geocoderFromEnv(env({ GEOCODER_PROVIDER: 'bing' }))).toThrow(/Unknown GEOCODER_PROVIDER/);
+    expect(() =>
+      geocoderFromEnv(env({ GEOCODER_PROVIDER: 'fixture', GEOCODER_FIXTURES: '{"x": {"lat": 91, "lng": 0}}' }))
+    ).toThrow(/invalid coordinates/);
+  });
+});
+
+describe('storedCoordinates', () => {
+  it('reuses valid stored coordinates only', () => {
+    expect(storedCoordinates({ business_lat: 14.6, business_lng: 120.98 })).toEqual({ lat: 14.6, lng: 120.98 });
+    expect(storedCoordinates({ business_lat: null, business_lng: 120.98 })).toBeNull();
+    expect(storedCoordinates({ business_lat: 0, business_lng: 0 })).toEqual({ lat: 0, lng: 0 });
+    expect(storedCoordinates({ business_lat: 200, business_lng: 0 })).toBeNull();
+  });
+});
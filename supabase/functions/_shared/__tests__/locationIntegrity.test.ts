@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { assessLocationIntegrity, ipLocationFromHeaders, sanitizeSamples } from '../locationIntegrity.ts';
+import type { LocationSample } from '../locationIntegrity.ts';
+
+const T0 = Date.parse('2026-03-01T12:00:00Z');
+
+// Readings one second apart, drifting a few centimetres north each time
+function readings(count: number, overrides: Partial<LocationSample> = {}, drift = 0.000001): LocationSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    latitude: 14.6 + i * drift,
+    longitude: 120.98,
+    accuracy: 8,
+    timestamp: T0 + i * 1000,
+    receivedAt: T0 + i * 1000 + 200,
+    ...overrides,
+  }));
+}
+
+function check(result: ReturnType<typeof assessLocationIntegrity>, name: string) {
+  return result.checks.find((c) => c.check === name);
+}
+
+describe('assessLocationIntegrity', () => {
+  it('accepts a handful of fresh, slightly wandering readings', () => {
+    const result = assessLocationIntegrity(readings(5), { latitude: 14.55, longitude: 121.0 });
+    expect(result.verdict).toBe('consistent');
+    expect(result.failed).toEqual([]);
+    expect(check(result, 'ip_region')?.passed).toBe(true);
+  });
+
+  it('reports too few readings as insufficient, not suspicious', () => {
+    expect(assessLocationIntegrity([]).verdict).toBe('insufficient');
+    const result = assessLocationIntegrity(readings(2));
+    expect(result.verdict).toBe('insufficient');
+    expect(check(result, 'jitter')?.passed).toBeNull();
+  });
+
+  it('flags frozen precise readings but not repeated network fixes', () => {
+    expect(assessLocationIntegrity(readings(5, {}, 0)).failed).toEqual(['jitter']);
+    expect(assessLocationIntegrity(readings(5, { accuracy: 65 }, 0)).verdict).toBe('consistent');
+  });
+
+  it('flags implausible accuracy and stale or future timestamps', () => {
+    expect(assessLocationIntegrity(readings(4, { accuracy: 0 })).failed).toContain('accuracy');
+
+    const stale = readings(4).map((s) => ({ ...s, timestamp: s.timestamp - 5 * 60_000 }));
+    expect(assessLocationIntegrity(stale).failed).toContain('staleness');
+
+    const future = readings(4).map((s) => ({ ...s, receivedAt: s.timestamp - 60_000 }));
+    expect(assessLocationIntegrity(future).failed).toContain('staleness');
+  });
+
+  it('flags teleporting between readings', () => {
+    const samples = readings(4);
+    samples[2] = { ...samples[2], latitude: 14.7 };
+    const result = assessLocationIntegrity(samples);
+    expect(result.verdict).toBe('suspicious');
+    expect(result.failed).toEqual(['speed']);
+    expect(check(result, 'speed')?.detail).toMatch(/km\/h/);
+  });
+
+  it('flags a position far from the network location', () => {
+    const result = assessLocationIntegrity(readings(4), { latitude: 35.68, longitude: 139.76 });
+    expect(result.failed).toEqual(['ip_region']);
+  });
+});
+
+describe('request helpers', () => {
+  it('keeps only well-formed readings, oldest first', () => {
+    const [a, b] = readings(2);
+    const samples = sanitizeSamples([b, { ...a, accuracy: -1 }, { latitude: 'x' }, null, { ...a, latitude: 95 }]);
+    expect(samples).toEqual([{ ...a, accuracy: null }, b]);
+    expect(sanitizeSamples('nope')).toEqual([]);
+  });
+
+  it('reads proxy geolocation headers when present', () => {
+    const headers = new Headers({ 'cf-iplatitude': '14.5995', 'cf-iplongitude': '120.9842' });
+    expect(ipLocationFromHeaders(headers)).toEqual({ latitude: 14.5995, longitude: 120.9842 });
+    expect(ipLocationFromHeaders(new Headers())).toBeNull();
+  });
+});
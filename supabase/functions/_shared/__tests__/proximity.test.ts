@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { accuracyCredit, evaluateProximity, isValidLatLng, locationVerificationTag, pinRadius } from '../proximity.ts';
+
+const business = { latitude: 14.6, longitude: 120.98 };
+// ~111 m of latitude per 0.001 degree
+const north = (meters: number) => ({ latitude: business.latitude + meters / 111_195, longitude: business.longitude });
+
+describe('evaluateProximity', () => {
+  it('verifies a device fix within the threshold', () => {
+    const device = { ...north(150), accuracyMeters: 10 };
+    const result = evaluateProximity({ business, device, pin: null, thresholdMeters: 200 });
+    expect(result.verified).toBe(true);
+    expect(result.verifiedBy).toBe('device');
+    expect(result.deviceDistanceMeters).toBeCloseTo(150, 0);
+    expect(result.pinConsistent).toBeNull();
+  });
+
+  it('accepts a fix whose accuracy circle reaches the threshold', () => {
+    const input = { business, pin: null, thresholdMeters: 200 };
+    expect(evaluateProximity({ ...input, device: { ...north(280), accuracyMeters: 100 } }).verifiedBy).toBe('device');
+    expect(evaluateProximity({ ...input, device: { ...north(280), accuracyMeters: 50 } }).verified).toBe(false);
+    // Too vague to credit
+    expect(evaluateProximity({ ...input, device: { ...north(400), accuracyMeters: 300 } }).verified).toBe(false);
+  });
+
+  it('verifies by pin only when the pin lies inside the accuracy circle', () => {
+    const device = { ...north(450), accuracyMeters: 300 };
+
+    const nearPin = evaluateProximity({ business, device, pin: north(180), thresholdMeters: 200 });
+    expect(nearPin.verifiedBy).toBe('pin');
+    expect(nearPin.pinConsistent).toBe(true);
+    expect(nearPin.pinDistanceMeters).toBeCloseTo(180, 0);
+
+    const preciseFix = { ...north(450), accuracyMeters: 10 };
+    const draggedPin = evaluateProximity({ business, device: preciseFix, pin: north(100), thresholdMeters: 200 });
+    expect(draggedPin.verified).toBe(false);
+    expect(draggedPin.pinConsistent).toBe(false);
+  });
+
+  it('prefers the device signal when both verify', () => {
+    const result = evaluateProximity({
+      business,
+      device: { ...north(100), accuracyMeters: 20 },
+      pin: north(90),
+      thresholdMeters: 200,
+    });
+    expect(result.verifiedBy).toBe('device');
+    expect(result.pinConsistent).toBe(true);
+  });
+});
+
+describe('locationVerificationTag', () => {
+  const input = { business, device: { ...north(100), accuracyMeters: 20 }, pin: null, thresholdMeters: 200 };
+
+  it('verifies when either signal is within the threshold', () => {
+    expect(locationVerificationTag(input, false)).toBe('Location Verified');
+    expect(locationVerificationTag({ ...input, device: { ...north(450), accuracyMeters: 300 }, pin: north(180) }, false)).toBe(
+      'Location Verified'
+    );
+    expect(locationVerificationTag({ ...input, device: { ...north(500), accuracyMeters: 20 } }, false)).toBe(
+      'Failed Location Verification'
+    );
+  });
+
+  it('fails suspicious readings and missing coordinates', () => {
+    expect(locationVerificationTag(input, true)).toBe('Failed Location Verification');
+    expect(locationVerificationTag({ ...input, device: null }, false)).toBe('Failed Location Verification');
+    expect(locationVerificationTag({ ...input, business: null }, false)).toBe('Failed Location Verification');
+  });
+});
+
+describe('helpers', () => {
+  it('credits only plausible accuracy values', () => {
+    expect(accuracyCredit(null)).toBe(0);
+    expect(accuracyCredit(-5)).toBe(0);
+    expect(accuracyCredit(120)).toBe(120);
+    expect(accuracyCredit(151)).toBe(0);
+  });
+
+  it('lets the pin move within the accuracy circle, bounded both ways', () => {
+    expect(pinRadius(null)).toBe(50);
+    expect(pinRadius(10)).toBe(50);
+    expect(pinRadius(300)).toBe(300);
+    expect(pinRadius(5000)).toBe(1000);
+  });
+
+  it('validates coordinates', () => {
+    expect(isValidLatLng(business)).toBe(true);
+    expect(isValidLatLng({ latitude: 91, longitude: 0 })).toBe(false);
+    expect(isValidLatLng({ latitude: 10, longitude: undefined })).toBe(false);
+    expect(isValidLatLng(null)).toBe(false);
+  });
+});
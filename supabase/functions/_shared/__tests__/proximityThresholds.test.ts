@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { resolveProximityThreshold } from '../proximityThresholds.ts';
+
+describe('resolveProximityThreshold', () => {
+  it('falls back to the default without category or density', () => {
+    expect(resolveProximityThreshold({})).toEqual({
+      meters: 200,
+      source: 'default',
+      category: null,
+      density: null,
+      reason: 'Default 200 m',
+    });
+    expect(resolveProximityThreshold({}, 300).meters).toBe(300);
+  });
+
+  it('uses the category radius scaled by area density', () => {
+    const stall = resolveProximityThreshold({ business_category: 'Mall_Stall', business_area_density: 'dense' });
+    expect(stall.meters).toBe(56);
+    expect(stall.source).toBe('category');
+    expect(stall.reason).toBe('Category mall_stall: 75 m × 0.75 (dense area) = 56 m');
+
+    expect(resolveProximityThreshold({ business_category: 'restaurant', business_area_density: 'urban' }).meters).toBe(150);
+  });
+
+  it('keeps the result within bounds and says so', () => {
+    const farm = resolveProximityThreshold({ business_category: 'farm', business_area_density: 'rural' });
+    expect(farm.meters).toBe(2000);
+    expect(farm.reason).toBe('Category farm: 1500 m × 2.5 (rural area) = 3750 m, kept within 50–2000 m: 2000 m');
+  });
+
+  it('prefers a per-business override', () => {
+    const result = resolveProximityThreshold({ business_category: 'farm', proximity_threshold_meters: 350 });
+    expect(result).toMatchObject({ meters: 350, source: 'override', reason: 'Set for this business: 350 m' });
+  });
+
+  it('ignores unknown categories and densities', () => {
+    const result = resolveProximityThreshold({ business_category: 'spaceport', business_area_density: 'lunar' });
+    expect(result.meters).toBe(200);
+    expect(result.density).toBeNull();
+    expect(result.reason).toBe('Default 200 m (no rule for category spaceport)');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRateLimit, getClientIp, strictestDecision } from '../rateLimit.ts';
+
+const now = new Date('2026-01-05T12:00:00Z');
+const secondsAgo = (s: number) => new Date(now.getTime() - s * 1000);
+
+describe('evaluateRateLimit', () => {
+  const config = { maxPerWindow: 3, windowSeconds: 3600, baseCooldownSeconds: 30 };
+
+  it('allows the first request', () => {
+    expect(evaluateRateLimit([], config, now)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+  });
+
+  it('doubles the cooldown with each request in the window', () => {
+    // One request 10s ago: 30s cooldown
+    expect(evaluateRateLimit([secondsAgo(10)], config, now)).toEqual({ allowed: false, retryAfterSeconds: 20 });
+
+    // Two requests, latest 10s ago: 60s cooldown
+    expect(evaluateRateLimit([secondsAgo(100), secondsAgo(10)], config, now)).toEqual({
+      allowed: false,
+      retryAfterSeconds: 50,
+    });
+
+    // Cooldown already elapsed
+    expect(evaluateRateLimit([secondsAgo(100), secondsAgo(70)], config, now).allowed).toBe(true);
+  });
+
+  it('blocks until the oldest request leaves the window once the cap is reached', () => {
+    const recent = [secondsAgo(3000), secondsAgo(2000), secondsAgo(1000)];
+    expect(evaluateRateLimit(recent, config, now)).toEqual({ allowed: false, retryAfterSeconds: 600 });
+  });
+
+  it('ignores requests outside the window', () => {
+    const recent = [secondsAgo(7200), secondsAgo(5000), secondsAgo(4000)];
+    expect(evaluateRateLimit(recent, config, now)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+  });
+
+  it('keeps a cap of one when misconfigured with zero', () => {
+    const zeroCap = { maxPerWindow: 0, windowSeconds: 3600, baseCooldownSeconds: 0 };
+    expect(evaluateRateLimit([secondsAgo(10)], zeroCap, now)).toEqual({ allowed: false, retryAfterSeconds: 3590 });
+    expect(evaluateRateLimit([secondsAgo(10)], { ...zeroCap, maxPerWindow: Number.NaN }, now).allowed).toBe(false);
+  });
+
+  it('applies only the window cap when cooldown is disabled', () => {
+    const ipConfig = { maxPerWindow: 2, windowSeconds: 3600, baseCooldownSeconds: 0 };
+    expect(evaluateRateLimit([secondsAgo(5)], ipConfig, now).allowed).toBe(true);
+    expect(evaluateRateLimit([secondsAgo(10), secondsAgo(5)], ipConfig, now)).toEqual({
+      allowed: false,
+      retryAfterSeconds: 3590,
+    });
+  });
+});
+
+describe('strictestDecision', () => {
+  it('returns the longest wait', () => {
+    expect(
+      strictestDecision({ allowed: true, retryAfterSeconds: 0 }, { allowed: false, retryAfterSeconds: 90 })
+    ).toEqual({ allowed: false, retryAfterSeconds: 90 });
+  });
+});
+
+describe('getClientIp', () => {
+  const forwardedFor = (value: string, extra: Record<string, string> = {}) =>
+    new Request('https://example.com', { headers: { 'x-forwarded-for': value, ...extra } });
+
+  it('uses the x-forwarded-for entry added by the trusted proxy', () => {
+    expect(getClientIp(forwardedFor('203.0.113.7'))).toBe('203.0.113.7');
+    expect(getClientIp(forwardedFor('203.0.113.7, 10.0.0.1'), 2)).toBe('203.0.113.7');
+  });
+
+  it('ignores entries a client prepends to x-forwarded-for', () => {
+    expect(getClientIp(forwardedFor('198.51.100.1, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(getClientIp(forwardedFor('198.51.100.2, 203.0.113.7'))).toBe('203.0.113.7');
+    // Fewer entries than trusted proxies: nothing in the header can be trusted
+    expect(getClientIp(forwardedFor('198.51.100.1'), 2)).toBeNull();
+  });
+
+  it('prefers the platform-set cf-connecting-ip', () => {
+    expect(getClientIp(forwardedFor('198.51.100.1, 10.0.0.1', { 'cf-connecting-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('returns null without proxy headers', () => {
+    expect(getClientIp(new Request('https://example.com'))).toBeNull();
+  });
+});
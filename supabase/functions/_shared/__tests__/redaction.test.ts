@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { createCascadeDetector, detectRegions, missingDetectors, pixelateRegions, redactImages } from '../redaction.ts';
+import type { Detector, RgbaImage } from '../redaction.ts';
+
+// One depth-1 tree: fires when the window centre is brighter than a point above it
+function syntheticCascade(): Uint8Array {
+  const buffer = new ArrayBuffer(8 + 4 + 4 + 4 + 8 + 4);
+  const view = new DataView(buffer);
+  view.setInt32(8, 1, true); // tdepth
+  view.setInt32(12, 1, true); // ntrees
+  view.setInt8(16, 0); // centre row
+  view.setInt8(17, 0); // centre col
+  view.setInt8(18, -100); // row above
+  view.setInt8(19, 0);
+  view.setFloat32(20, 1, true); // centre brighter
+  view.setFloat32(24, -1, true); // centre not brighter
+  view.setFloat32(28, 0, true); // threshold
+  return new Uint8Array(buffer);
+}
+
+function image(size: number, paint: (x: number, y: number) => number): RgbaImage {
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = paint(x, y);
+      data.set([v, v, v, 255], (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+const params = { minSize: 16, maxSize: 32, shiftFactor: 0.1, scaleFactor: 1.2, minScore: 1, iouThreshold: 0.2 };
+
+describe('cascade detection', () => {
+  it('finds nothing in a flat image', () => {
+    const detector = createCascadeDetector('face', syntheticCascade(), params);
+    expect(detectRegions(image(64, () => 0), [detector])).toEqual([]);
+  });
+
+  it('locates a bright square on a dark background', () => {
+    const detector = createCascadeDetector('face', syntheticCascade(), params);
+    const regions = detectRegions(image(64, (x, y) => (x >= 20 && x < 44 && y >= 20 && y < 44 ? 255 : 0)), [detector]);
+
+    expect(regions.length).toBeGreaterThan(0);
+    for (const r of regions) {
+      expect(r.kind).toBe('face');
+      expect(r.x + r.width / 2).toBeGreaterThanOrEqual(20);
+      expect(r.x + r.width / 2).toBeLessThan(44);
+    }
+  });
+
+  it('runs no detectors when none are configured', () => {
+    expect(detectRegions(image(8, () => 128), [])).toEqual([]);
+  });
+});
+
+describe('pixelateRegions', () => {
+  it('averages pixels inside the padded region and leaves the rest alone', () => {
+    const checker = image(32, (x, y) => ((x + y) % 2 === 0 ? 255 : 0));
+    const before = checker.data.slice();
+
+    pixelateRegions(checker, [{ kind: 'plate', x: 8, y: 8, width: 16, height: 16, score: 1 }], 0);
+
+    const px = (x: number, y: number) => checker.data[(y * 32 + x) * 4];
+    expect(px(8, 8)).toBe(px(9, 8));
+    expect(px(8, 8)).toBe(px(8, 9));
+    expect(px(8, 8)).toBeGreaterThan(100);
+    expect(px(8, 8)).toBeLessThan(155);
+    expect(px(0, 0)).toBe(before[0]);
+    expect(px(31, 31)).toBe(before[(31 * 32 + 31) * 4]);
+    // Alpha is untouched
+    expect(checker.data[(8 * 32 + 8) * 4 + 3]).toBe(255);
+  });
+});
+
+describe('redactImages', () => {
+  const face = (): Detector => createCascadeDetector('face', syntheticCascade(), params);
+  const plate = (): Detector => createCascadeDetector('plate', syntheticCascade(), params);
+
+  // Stand-in for decode + detect + upload: runs the detectors on a dark frame
+  const redactFrame = async (index: number, detectors: Detector[]) => {
+    const regions = detectRegions(image(32, () => 0), detectors);
+    return { path: `c-1/${index}-redacted.jpg`, faces: regions.length, plates: 0 };
+  };
+
+  it('publishes every copy once all images pass both detectors', async () => {
+    const outcome = await redactImages(2, [face(), plate()], redactFrame);
+
+    expect(outcome.status).toBe('done');
+    expect(outcome.imagePaths).toEqual(['c-1/0-redacted.jpg', 'c-1/1-redacted.jpg']);
+    expect(outcome.withdrawn).toEqual([]);
+  });
+
+  it('withholds every copy when an image cannot be decoded', async () => {
+    const outcome = await redactImages(2, [face(), plate()], async (index, detectors) => {
+      if (index === 1) throw new Error('Could not decode image: unsupported format');
+      return redactFrame(index, detectors);
+    });
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.imagePaths).toEqual([]);
+    expect(outcome.withdrawn).toEqual(['c-1/0-redacted.jpg']);
+    expect(outcome.report).toEqual([
+      { index: 0, faces: 0, plates: 0, path: null, notChecked: [], error: 'Withheld: 1 other image(s) could not be redacted' },
+      { index: 1, faces: 0, plates: 0, path: null, notChecked: [], error: 'Could not decode image: unsupported format' },
+    ]);
+  });
+
+  it('withholds every copy when a detector fails', async () => {
+    const broken: Detector = {
+      kind: 'plate',
+      detect: () => {
+        throw new RangeError('offset is outside the bounds of the DataView');
+      },
+    };
+    const outcome = await redactImages(1, [face(), broken], redactFrame);
+
+    expect(outcome).toMatchObject({ status: 'failed', imagePaths: [], withdrawn: [] });
+    expect(outcome.report[0]).toMatchObject({ path: null, error: 'offset is outside the bounds of the DataView' });
+  });
+
+  it('publishes with the face detector alone and records that plates were not checked', async () => {
+    const outcome = await redactImages(1, [face()], redactFrame);
+
+    expect(missingDetectors([face()])).toEqual(['plate']);
+    expect(outcome).toMatchObject({ status: 'done', imagePaths: ['c-1/0-redacted.jpg'] });
+    expect(outcome.report[0]).toMatchObject({ notChecked: ['plate'], error: null });
+  });
+
+  it('redacts nothing without a face detector', async () => {
+    let calls = 0;
+    const outcome = await redactImages(1, [plate()], async (index, detectors) => {
+      calls++;
+      return redactFrame(index, detectors);
+    });
+
+    expect(calls).toBe(0);
+    expect(outcome).toMatchObject({ status: 'failed', imagePaths: [] });
+    expect(outcome.report[0].error).toBe('No face detector configured');
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { signValue, timingSafeEqual, verifySignedValue } from '../token.ts';
+
+describe('timingSafeEqual', () => {
+  it('matches only identical strings', () => {
+    expect(timingSafeEqual('webhook-secret', 'webhook-secret')).toBe(true);
+    expect(timingSafeEqual('webhook-secret', 'webhook-secreT')).toBe(false);
+    expect(timingSafeEqual('webhook-secret', 'webhook')).toBe(false);
+    expect(timingSafeEqual('webhook-secret', '')).toBe(false);
+  });
+});
+
+describe('verifySignedValue', () => {
+  it('accepts the signature signValue produced and nothing else', async () => {
+    const signature = await signValue('complaint-1', 'signing-secret');
+
+    expect(await verifySignedValue('complaint-1', signature, 'signing-secret')).toBe(true);
+    expect(await verifySignedValue('complaint-2', signature, 'signing-secret')).toBe(false);
+    expect(await verifySignedValue('complaint-1', signature, 'other-secret')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isStagedPath,
+  signUploadTicket,
+  stagingPath,
+  thumbnailStagingPath,
+  verifyUploadTicket,
+} from '../uploadSession.ts';
+
+describe('upload sessions', () => {
+  it('names staged objects by upload id and position', () => {
+    expect(stagingPath('u1', 0, 'IMG_0001.JPG', 'image/jpeg')).toBe('staging/u1/0.jpg');
+    expect(stagingPath('u1', 2, 'capture', 'image/webp')).toBe('staging/u1/2.webp');
+  });
+
+  it('ignores MIME parameters of recorded clips', () => {
+    expect(stagingPath('u1', 0, 'recording', 'video/webm;codecs=vp8,opus')).toBe('staging/u1/0.webm');
+    expect(thumbnailStagingPath('u1', 0)).toBe('staging/u1/0-thumb.jpg');
+    expect(isStagedPath('u1', thumbnailStagingPath('u1', 0))).toBe(true);
+  });
+
+  it('only accepts paths inside the session folder', () => {
+    expect(isStagedPath('u1', 'staging/u1/0.jpg')).toBe(true);
+    expect(isStagedPath('u1', 'staging/u2/0.jpg')).toBe(false);
+    expect(isStagedPath('u1', 'staging/u1/../u2/0.jpg')).toBe(false);
+    expect(isStagedPath('u1', 'c-1/photo.jpg')).toBe(false);
+  });
+
+  it('binds the ticket to the reporter email', async () => {
+    const ticket = await signUploadTicket('u1', 'Reporter@Example.com', 'secret');
+
+    expect(await verifyUploadTicket('u1', 'reporter@example.com', ticket, 'secret')).toBe(true);
+    expect(await verifyUploadTicket('u1', 'someone@example.com', ticket, 'secret')).toBe(false);
+    expect(await verifyUploadTicket('u2', 'reporter@example.com', ticket, 'secret')).toBe(false);
+  });
+});
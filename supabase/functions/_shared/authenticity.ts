@@ -0,0 +1,265 @@
+// Authenticity scoring for Supabase Edge Functions (Deno)
+//
+// Turns the signals recorded for a complaint into authenticity_level (0..100),
+// authenticity_tier and a per-signal breakdown reviewers can read.
+//
+// Scores start at BASE_SCORE and each signal adds or removes points.
+// Bump AUTHENTICITY_SCORING_VERSION whenever a rule or weight changes so stored
+// scores can be recomputed from complaints.authenticity_signals.
+
+// v2: photo_provenance signal (EXIF GPS / editing / in-app capture)
+// v3: location_integrity signal (multi-reading GPS checks, locationIntegrity.ts)
+export const AUTHENTICITY_SCORING_VERSION = 3;
+
+export type AuthenticityTier = "Low" | "Medium" | "High";
+
+// Inputs, stored as-is in complaints.authenticity_signals
+export type AuthenticitySignals = {
+  // Reporter device to business, from businesses.business_lat/lng
+  proximityMeters: number | null;
+  proximityThresholdMeters: number;
+  gpsAccuracyMeters: number | null;
+  // Location fix time and submission time (ms since epoch)
+  locationTimestamp: number | null;
+  // Verdict of locationIntegrity.ts; absent for v1 / v2 signals
+  locationIntegrity?: { verdict: "consistent" | "suspicious" | "insufficient"; failed: string[] };
+  submittedAt: number;
+  emailVerified: boolean;
+  // Capture time of each photo (ms since epoch), null when unknown
+  photoTimestamps: Array<number | null>;
+  // PHOTO_TAGS assigned by photoProvenance.ts; absent for v1 signals
+  photoTags?: string[];
+  certificationAccepted: boolean;
+  reporterHistory: {
+    priorComplaints: number;
+    resolved: number;
+    dismissed: number;
+  };
+};
+
+export type AuthenticitySignalName =
+  | "proximity"
+  | "gps_accuracy"
+  | "location_freshness"
+  | "location_integrity"
+  | "email_verification"
+  | "photo_freshness"
+  | "photo_provenance"
+  | "certification"
+  | "reporter_history"
+  | "tags";
+
+export type AuthenticitySignalScore = {
+  signal: AuthenticitySignalName;
+  points: number;
+  detail: string;
+};
+
+export type AuthenticityResult = {
+  version: number;
+  score: number;
+  tier: AuthenticityTier;
+  breakdown: AuthenticitySignalScore[];
+};
+
+export const BASE_SCORE = 50;
+
+export const AUTHENTICITY_RULES = {
+  proximity: { within: 20, near: -5, far: -25, nearFactor: 3 },
+  gpsAccuracy: { goodMeters: 25, poorMeters: 100, good: 5, poor: -5 },
+  locationFreshness: { freshMinutes: 10, staleMinutes: 60, fresh: 5, stale: -10, clockSkewMinutes: 5 },
+  locationIntegrity: { consistent: 5, suspicious: -20 },
+  emailVerification: { verified: 10, unverified: -20 },
+  photoFreshness: { recentHours: 48, oldDays: 30, recent: 5, old: -5 },
+  photoProvenance: {
+    "Photo GPS Matches": 10,
+    "Camera Captured In-App": 5,
+    "Photo GPS Mismatch": -15,
+    "Photo Edited": -10,
+  } as Record<string, number>,
+  certification: { accepted: 5, missing: -10 },
+  reporterHistory: { resolved: 5, dismissed: -15, minDismissed: 2, dismissedRatio: 0.5 },
+  tiers: { high: 75, low: 40 },
+  // Same tags complaints_apply_authenticity_tier treats as negative
+  negativeTags: [
+    "Failed Location Verification",
+    "High-Volume Reporter",
+    "Multi-Establishment Reporter",
+    "Existing Case",
+    "Reporter Under Review",
+    "Post-Clearance Complaint",
+  ],
+  negativeTagCap: 25,
+} as const;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+function scoreProximity(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.proximity;
+  const d = s.proximityMeters;
+  if (d == null || !Number.isFinite(d)) {
+    return { signal: "proximity", points: 0, detail: "Distance to the business could not be determined" };
+  }
+
+  const meters = Math.round(d);
+  if (d <= s.proximityThresholdMeters) {
+    return { signal: "proximity", points: rule.within, detail: `${meters}m from the business (within ${s.proximityThresholdMeters}m)` };
+  }
+  if (d <= s.proximityThresholdMeters * rule.nearFactor) {
+    return { signal: "proximity", points: rule.near, detail: `${meters}m from the business` };
+  }
+  return { signal: "proximity", points: rule.far, detail: `${meters}m from the business (far outside ${s.proximityThresholdMeters}m)` };
+}
+
+function scoreGpsAccuracy(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.gpsAccuracy;
+  const acc = s.gpsAccuracyMeters;
+  if (acc == null || !Number.isFinite(acc)) {
+    return { signal: "gps_accuracy", points: 0, detail: "No GPS accuracy reported" };
+  }
+
+  const meters = Math.round(acc);
+  if (acc <= rule.goodMeters) return { signal: "gps_accuracy", points: rule.good, detail: `Precise fix (±${meters}m)` };
+  if (acc > rule.poorMeters) return { signal: "gps_accuracy", points: rule.poor, detail: `Imprecise fix (±${meters}m)` };
+  return { signal: "gps_accuracy", points: 0, detail: `Fix accuracy ±${meters}m` };
+}
+
+function scoreLocationFreshness(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.locationFreshness;
+  if (s.locationTimestamp == null) {
+    return { signal: "location_freshness", points: 0, detail: "No device location captured" };
+  }
+
+  const ageMinutes = (s.submittedAt - s.locationTimestamp) / MINUTE;
+  if (ageMinutes < -rule.clockSkewMinutes) {
+    return { signal: "location_freshness", points: rule.stale, detail: "Location timestamp is in the future" };
+  }
+
+  const rounded = Math.max(0, Math.round(ageMinutes));
+  if (ageMinutes <= rule.freshMinutes) {
+    return { signal: "location_freshness", points: rule.fresh, detail: `Location captured ${rounded} min before submitting` };
+  }
+  if (ageMinutes > rule.staleMinutes) {
+    return { signal: "location_freshness", points: rule.stale, detail: `Location captured ${rounded} min before submitting` };
+  }
+  return { signal: "location_freshness", points: 0, detail: `Location captured ${rounded} min before submitting` };
+}
+
+function scoreLocationIntegrity(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.locationIntegrity;
+  const integrity = s.locationIntegrity;
+  if (!integrity) {
+    return { signal: "location_integrity", points: 0, detail: "No location readings recorded" };
+  }
+
+  if (integrity.verdict === "suspicious") {
+    return { signal: "location_integrity", points: rule.suspicious, detail: `Failed checks: ${integrity.failed.join(", ")}` };
+  }
+  if (integrity.verdict === "consistent") {
+    return { signal: "location_integrity", points: rule.consistent, detail: "Location readings look genuine" };
+  }
+  return { signal: "location_integrity", points: 0, detail: "Too few location readings to judge" };
+}
+
+function scoreEmailVerification(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.emailVerification;
+  return s.emailVerified
+    ? { signal: "email_verification", points: rule.verified, detail: "Email verified" }
+    : { signal: "email_verification", points: rule.unverified, detail: "Email not verified" };
+}
+
+function scorePhotoFreshness(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.photoFreshness;
+  if (s.photoTimestamps.length === 0) {
+    return { signal: "photo_freshness", points: 0, detail: "No photos attached" };
+  }
+
+  const known = s.photoTimestamps.filter((t): t is number => typeof t === "number" && Number.isFinite(t));
+  if (known.length === 0) {
+    return { signal: "photo_freshness", points: 0, detail: "Photo capture times unknown" };
+  }
+
+  const ageHours = known.map((t) => (s.submittedAt - t) / HOUR);
+  const newest = Math.min(...ageHours);
+  if (newest <= rule.recentHours) {
+    return { signal: "photo_freshness", points: rule.recent, detail: `Newest photo taken ${Math.max(0, Math.round(newest))}h before submitting` };
+  }
+  if (newest > rule.oldDays * 24) {
+    return { signal: "photo_freshness", points: rule.old, detail: `All photos are older than ${rule.oldDays} days` };
+  }
+  return { signal: "photo_freshness", points: 0, detail: `Newest photo taken ${Math.round(newest / 24)} days before submitting` };
+}
+
+function scorePhotoProvenance(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.photoProvenance;
+  const applied = (s.photoTags ?? []).filter((t) => t in rule);
+  if (applied.length === 0) {
+    return { signal: "photo_provenance", points: 0, detail: "No photo location or editing evidence" };
+  }
+
+  return {
+    signal: "photo_provenance",
+    points: applied.reduce((sum, t) => sum + rule[t], 0),
+    detail: applied.join(", "),
+  };
+}
+
+function scoreCertification(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.certification;
+  return s.certificationAccepted
+    ? { signal: "certification", points: rule.accepted, detail: "Reporter certified the report is truthful" }
+    : { signal: "certification", points: rule.missing, detail: "Certification not accepted" };
+}
+
+function scoreReporterHistory(s: AuthenticitySignals): AuthenticitySignalScore {
+  const rule = AUTHENTICITY_RULES.reporterHistory;
+  const { priorComplaints, resolved, dismissed } = s.reporterHistory;
+
+  if (priorComplaints === 0) {
+    return { signal: "reporter_history", points: 0, detail: "First complaint from this reporter" };
+  }
+  if (dismissed >= rule.minDismissed && dismissed / priorComplaints >= rule.dismissedRatio) {
+    return { signal: "reporter_history", points: rule.dismissed, detail: `${dismissed} of ${priorComplaints} earlier complaints were dismissed` };
+  }
+  if (resolved > 0 && dismissed === 0) {
+    return { signal: "reporter_history", points: rule.resolved, detail: `${resolved} earlier complaint(s) resolved, none dismissed` };
+  }
+  return { signal: "reporter_history", points: 0, detail: `${priorComplaints} earlier complaint(s)` };
+}
+
+export function tierForScore(score: number): AuthenticityTier {
+  if (score >= AUTHENTICITY_RULES.tiers.high) return "High";
+  if (score < AUTHENTICITY_RULES.tiers.low) return "Low";
+  return "Medium";
+}
+
+/**
+ * Score a complaint. `tags` are the complaint's current tags; any negative tag
+ * caps the score and forces the Low tier, as the database tier rules do.
+ */
+export function scoreAuthenticity(signals: AuthenticitySignals, tags: string[] = []): AuthenticityResult {
+  const breakdown = [
+    scoreProximity(signals),
+    scoreGpsAccuracy(signals),
+    scoreLocationFreshness(signals),
+    scoreLocationIntegrity(signals),
+    scoreEmailVerification(signals),
+    scorePhotoFreshness(signals),
+    scorePhotoProvenance(signals),
+    scoreCertification(signals),
+    scoreReporterHistory(signals),
+  ];
+
+  let score = BASE_SCORE + breakdown.reduce((sum, s) => sum + s.points, 0);
+  score = Math.max(0, Math.min(100, score));
+
+  const negative = tags.filter((t) => (AUTHENTICITY_RULES.negativeTags as readonly string[]).includes(t));
+  if (negative.length > 0) {
+    const capped = Math.min(score, AUTHENTICITY_RULES.negativeTagCap);
+    breakdown.push({ signal: "tags", points: capped - score, detail: `Flagged: ${negative.join(", ")}` });
+    return { version: AUTHENTICITY_SCORING_VERSION, score: capped, tier: "Low", breakdown };
+  }
+
+  return { version: AUTHENTICITY_SCORING_VERSION, score, tier: tierForScore(score), breakdown };
+}
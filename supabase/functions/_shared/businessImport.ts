@@ -0,0 +1,446 @@
+// Business registry bulk import (pure, no I/O)
+//
+// import-businesses parses a municipal permit list (CSV or JSON), normalizes
+// each row and compares it with the businesses already on file:
+// - same permit number, or same normalized name and address -> duplicate, skipped
+// - same row earlier in the file                           -> duplicate, skipped
+// - same address with a similar name, or same name with a
+//   similar address                                        -> possible duplicate,
+//                                                             imported only when staff accept it
+// - anything else that validates                           -> new
+//
+// The plan is recomputed from the file on every call, so re-running an import
+// that was already committed reports every row as a duplicate.
+
+import { COMPLAINT_RULES } from "./complaintValidation.ts";
+import { textSimilarity } from "./duplicates.ts";
+import { normalizeAddress, type Coordinates } from "./geocoder.ts";
+import { PROXIMITY_THRESHOLDS } from "./proximityThresholds.ts";
+
+export const IMPORT_RULES = {
+  maxRows: 5000,
+  // 0..1, trigram Jaccard of the normalized names when the addresses match
+  similarName: 0.5,
+  // 0..1, trigram Jaccard of the normalized addresses when the names match
+  similarAddress: 0.6,
+};
+
+export type ImportFormat = "csv" | "json";
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ["csv", "json"];
+
+// Accepted column names, compared after headerKey(); first present wins
+const COLUMN_ALIASES = {
+  name: ["business_name", "name", "trade_name", "registered_name", "establishment", "establishment_name"],
+  address: ["business_address", "address", "location", "establishment_address"],
+  category: ["business_category", "category", "type", "business_type", "line_of_business"],
+  permitNumber: ["permit_number", "permit_no", "permit", "business_permit", "mayors_permit_no"],
+  lat: ["business_lat", "latitude", "lat"],
+  lng: ["business_lng", "longitude", "lng", "lon", "long"],
+} as const;
+
+type ImportColumn = keyof typeof COLUMN_ALIASES;
+
+export type ExistingBusiness = {
+  business_pk: number;
+  business_name: string | null;
+  business_address: string | null;
+  business_permit_number?: string | null;
+};
+
+export type ImportRowStatus = "new" | "duplicate" | "possible_duplicate" | "invalid";
+
+export type ImportMatch = {
+  // Existing business, or null when the match is an earlier row of the same file
+  business_pk: number | null;
+  line: number | null;
+  name: string;
+  address: string;
+  reason: "permit_number" | "same_name_and_address" | "similar_name" | "similar_address";
+  similarity: number;
+};
+
+export type ImportRow = {
+  // 1-based: the CSV line (header is line 1) or the JSON array position
+  line: number;
+  name: string;
+  address: string;
+  category: string | null;
+  permitNumber: string | null;
+  coordinates: Coordinates | null;
+  status: ImportRowStatus;
+  match: ImportMatch | null;
+  errors: string[];
+};
+
+export type ImportSummary = {
+  total: number;
+  new: number;
+  duplicate: number;
+  possibleDuplicate: number;
+  invalid: number;
+};
+
+export type ImportPlan = {
+  rows: ImportRow[];
+  summary: ImportSummary;
+};
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line endings.
+ * Blank lines are returned as empty rows so line numbers stay aligned.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Lowercase snake_case, so "Business Name", "business-name" and "BUSINESS_NAME" agree.
+ */
+export function headerKey(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+type RawRecord = { line: number; values: Record<string, unknown> };
+
+function csvRecords(content: string): RawRecord[] {
+  const [header, ...body] = parseCsv(content);
+  if (!header) return [];
+  const keys = header.map(headerKey);
+
+  const records: RawRecord[] = [];
+  body.forEach((cells, index) => {
+    if (cells.every((c) => c.trim() === "")) return;
+    const values: Record<string, unknown> = {};
+    keys.forEach((key, i) => {
+      if (key && !(key in values)) values[key] = cells[i] ?? "";
+    });
+    records.push({ line: index + 2, values });
+  });
+  return records;
+}
+
+function jsonRecords(content: string): RawRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const list =
+    Array.isArray(parsed) ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { businesses?: unknown }).businesses)
+      ? (parsed as { businesses: unknown[] }).businesses
+      : null;
+  if (!list) throw new Error("Expected a JSON array of businesses, or { \"businesses\": [...] }");
+
+  return list.map((item, index) => {
+    const values: Record<string, unknown> = {};
+    if (item && typeof item === "object") {
+      for (const [key, value] of Object.entries(item)) values[headerKey(key)] = value;
+    }
+    return { line: index + 1, values };
+  });
+}
+
+/**
+ * Records from a CSV or JSON export. Throws when the file cannot be read at all
+ * or has more than IMPORT_RULES.maxRows rows.
+ */
+export function parseImportFile(content: string, format: ImportFormat): RawRecord[] {
+  const records = format === "json" ? jsonRecords(content) : csvRecords(content);
+  if (records.length > IMPORT_RULES.maxRows) {
+    throw new Error(`The file has ${records.length} rows; import at most ${IMPORT_RULES.maxRows} at a time`);
+  }
+  return records;
+}
+
+function column(values: Record<string, unknown>, name: ImportColumn): string {
+  for (const alias of COLUMN_ALIASES[name]) {
+    const value = values[alias];
+    if (value != null && String(value).trim() !== "") return String(value);
+  }
+  return "";
+}
+
+/**
+ * Single-spaced display form of a name or address as it will be stored.
+ */
+export function cleanText(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .replace(/\s+,/g, ",")
+    .trim();
+}
+
+const NAME_SUFFIXES = /(\s+(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|opc))+$/;
+
+/**
+ * Comparison key for a business name: lowercase, "&" as "and", no punctuation,
+ * without trailing company-form suffixes ("Inc.", "Corp.", "Co.").
+ */
+export function normalizeBusinessName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(NAME_SUFFIXES, "");
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  ave: "avenue",
+  av: "avenue",
+  rd: "road",
+  blvd: "boulevard",
+  hwy: "highway",
+  brgy: "barangay",
+  bgy: "barangay",
+  bldg: "building",
+  flr: "floor",
+  cor: "corner",
+};
+
+/**
+ * Comparison key for an address: normalizeAddress() with common abbreviations
+ * spelled out, so "123 Rizal Ave., Brgy. 5" matches "123 rizal avenue barangay 5".
+ */
+export function normalizeBusinessAddress(address: string): string {
+  return normalizeAddress(address)
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+function normalizePermit(permit: string): string {
+  return permit.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function importCoordinates(lat: string, lng: string, errors: string[]): Coordinates | null {
+  if (lat === "" && lng === "") return null;
+  const la = Number(lat);
+  const ln = Number(lng);
+  if (lat === "" || lng === "" || !Number.isFinite(la) || !Number.isFinite(ln) || Math.abs(la) > 90 || Math.abs(ln) > 180) {
+    errors.push("Coordinates are not a valid latitude/longitude pair");
+    return null;
+  }
+  return { lat: la, lng: ln };
+}
+
+/**
+ * Category key when it is one the proximity rules know ("Gas Station" -> "gas_station"),
+ * otherwise null; an unknown category is not an error, it is just not imported.
+ */
+export function importCategory(value: string): string | null {
+  const key = headerKey(value);
+  return key && key in PROXIMITY_THRESHOLDS.categories ? key : null;
+}
+
+function toRow(record: RawRecord): ImportRow {
+  const errors: string[] = [];
+  const name = cleanText(column(record.values, "name"));
+  const address = cleanText(column(record.values, "address"));
+  const permit = cleanText(column(record.values, "permitNumber"));
+
+  const nameRule = COMPLAINT_RULES.businessName;
+  const addressRule = COMPLAINT_RULES.businessAddress;
+  if (name.length < nameRule.min || name.length > nameRule.max) {
+    errors.push(`Name must be ${nameRule.min}–${nameRule.max} characters`);
+  }
+  if (address.length < addressRule.min || address.length > addressRule.max) {
+    errors.push(`Address must be ${addressRule.min}–${addressRule.max} characters`);
+  }
+
+  const coordinates = importCoordinates(column(record.values, "lat").trim(), column(record.values, "lng").trim(), errors);
+
+  return {
+    line: record.line,
+    name,
+    address,
+    category: importCategory(column(record.values, "category")),
+    permitNumber: permit || null,
+    coordinates,
+    status: errors.length > 0 ? "invalid" : "new",
+    match: null,
+    errors,
+  };
+}
+
+type Candidate = {
+  business_pk: number | null;
+  line: number | null;
+  name: string;
+  address: string;
+  nameKey: string;
+  addressKey: string;
+};
+
+function pushTo(index: Map<string, Candidate[]>, key: string, candidate: Candidate) {
+  if (!key) return;
+  const list = index.get(key);
+  if (list) list.push(candidate);
+  else index.set(key, [candidate]);
+}
+
+/**
+ * Classify every record against the existing businesses and the rows before it.
+ * Only candidates sharing a name key or an address key are compared, so large
+ * registries stay linear rather than every-row-against-every-business.
+ */
+export function planImport(
+  records: RawRecord[],
+  existing: ExistingBusiness[],
+  rules: typeof IMPORT_RULES = IMPORT_RULES,
+): ImportPlan {
+  const byPermit = new Map<string, Candidate>();
+  const byName = new Map<string, Candidate[]>();
+  const byAddress = new Map<string, Candidate[]>();
+
+  const remember = (candidate: Candidate, permit: string | null | undefined) => {
+    const permitKey = permit ? normalizePermit(permit) : "";
+    if (permitKey && !byPermit.has(permitKey)) byPermit.set(permitKey, candidate);
+    pushTo(byName, candidate.nameKey, candidate);
+    pushTo(byAddress, candidate.addressKey, candidate);
+  };
+
+  for (const b of existing) {
+    const name = b.business_name ?? "";
+    const address = b.business_address ?? "";
+    remember(
+      {
+        business_pk: b.business_pk,
+        line: null,
+        name,
+        address,
+        nameKey: normalizeBusinessName(name),
+        addressKey: normalizeBusinessAddress(address),
+      },
+      b.business_permit_number,
+    );
+  }
+
+  const rows = records.map((record) => {
+    const row = toRow(record);
+    if (row.status === "invalid") return row;
+
+    const candidate: Candidate = {
+      business_pk: null,
+      line: row.line,
+      name: row.name,
+      address: row.address,
+      nameKey: normalizeBusinessName(row.name),
+      addressKey: normalizeBusinessAddress(row.address),
+    };
+    const matchFrom = (other: Candidate, reason: ImportMatch["reason"], similarity: number): ImportMatch => ({
+      business_pk: other.business_pk,
+      line: other.line,
+      name: other.name,
+      address: other.address,
+      reason,
+      similarity: Math.round(similarity * 100) / 100,
+    });
+
+    const permitMatch = row.permitNumber ? byPermit.get(normalizePermit(row.permitNumber)) : undefined;
+    const exact = (byName.get(candidate.nameKey) ?? []).find((c) => c.addressKey === candidate.addressKey);
+
+    if (permitMatch) {
+      row.status = "duplicate";
+      row.match = matchFrom(permitMatch, "permit_number", 1);
+    } else if (exact) {
+      row.status = "duplicate";
+      row.match = matchFrom(exact, "same_name_and_address", 1);
+    } else {
+      let best: ImportMatch | null = null;
+      for (const other of byAddress.get(candidate.addressKey) ?? []) {
+        const similarity = textSimilarity(candidate.nameKey, other.nameKey);
+        if (similarity >= rules.similarName && (!best || similarity > best.similarity)) {
+          best = matchFrom(other, "similar_name", similarity);
+        }
+      }
+      for (const other of byName.get(candidate.nameKey) ?? []) {
+        const similarity = textSimilarity(candidate.addressKey, other.addressKey);
+        if (similarity >= rules.similarAddress && (!best || similarity > best.similarity)) {
+          best = matchFrom(other, "similar_address", similarity);
+        }
+      }
+      if (best) {
+        row.status = "possible_duplicate";
+        row.match = best;
+      }
+    }
+
+    // Later rows in the file are compared with this one too, whatever it was classified as
+    remember(candidate, row.permitNumber);
+    return row;
+  });
+
+  return { rows, summary: summarizeImport(rows) };
+}
+
+export function summarizeImport(rows: ImportRow[]): ImportSummary {
+  const count = (status: ImportRowStatus) => rows.filter((r) => r.status === status).length;
+  return {
+    total: rows.length,
+    new: count("new"),
+    duplicate: count("duplicate"),
+    possibleDuplicate: count("possible_duplicate"),
+    invalid: count("invalid"),
+  };
+}
+
+/**
+ * Rows to insert on commit: every new row, plus the possible duplicates staff accepted by line.
+ */
+export function rowsToImport(plan: ImportPlan, acceptLines: number[] = []): ImportRow[] {
+  const accepted = new Set(acceptLines);
+  return plan.rows.filter((r) => r.status === "new" || (r.status === "possible_duplicate" && accepted.has(r.line)));
+}
@@ -0,0 +1,193 @@
+// Complaint categories and their follow-up questions (pure, no I/O)
+//
+// The browser builds its category list from this module
+// (src/complaints_module/complaintCategories.ts adds the labels shown to reporters and
+// staff), so keep it free of Deno APIs. A new key also needs adding to the
+// complaint_category CHECK (PHASE_24_COMPLAINT_CATEGORIES.sql).
+//
+// The category is stored as complaints.complaint_category and the answers, keyed by
+// question id, as complaints.complaint_details (PHASE_24_COMPLAINT_CATEGORIES.sql).
+
+import type { FieldError } from "./complaintValidation.ts";
+
+export const URGENT_TAG = "Urgent";
+
+export type CategoryAnswer = string | number | boolean;
+
+export type CategoryQuestion =
+  | { id: string; kind: "choice"; options: string[]; required: boolean }
+  | { id: string; kind: "yes_no"; required: boolean; urgentWhen?: boolean }
+  | { id: string; kind: "text"; maxLength: number; required: boolean }
+  // Pesos, whole or with centavos
+  | { id: string; kind: "amount"; required: boolean };
+
+export const MAX_AMOUNT = 10_000_000;
+
+export const COMPLAINT_CATEGORIES: Record<string, { questions: CategoryQuestion[]; urgentIssues?: string[] }> = {
+  food_safety: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["expired_products", "spoiled_food", "foreign_object", "improper_storage", "food_poisoning", "other"],
+        required: true,
+      },
+      { id: "became_ill", kind: "yes_no", required: true, urgentWhen: true },
+      { id: "product", kind: "text", maxLength: 200, required: false },
+    ],
+  },
+  sanitation: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["pests", "dirty_premises", "dirty_restroom", "no_handwashing", "improper_waste_disposal", "other"],
+        required: true,
+      },
+      { id: "area", kind: "choice", options: ["kitchen", "dining_area", "restroom", "storage", "outside"], required: false },
+    ],
+  },
+  fire_safety: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["blocked_exit", "no_extinguisher", "faulty_wiring", "flammable_storage", "no_exit_signage", "other"],
+        required: true,
+      },
+      { id: "immediate_danger", kind: "yes_no", required: true, urgentWhen: true },
+    ],
+  },
+  overpricing: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["above_srp", "no_price_tag", "wrong_price_charged", "short_weight", "other"],
+        required: true,
+      },
+      { id: "product", kind: "text", maxLength: 200, required: true },
+      { id: "price_charged", kind: "amount", required: false },
+      { id: "price_expected", kind: "amount", required: false },
+    ],
+  },
+  labor: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["unpaid_wages", "below_minimum_wage", "excessive_hours", "child_labor", "unsafe_conditions", "other"],
+        required: true,
+      },
+      { id: "is_employee", kind: "yes_no", required: true },
+    ],
+    urgentIssues: ["child_labor"],
+  },
+  noise: {
+    questions: [
+      { id: "issue", kind: "choice", options: ["loud_music", "machinery", "odor", "smoke", "other"], required: true },
+      { id: "time_of_day", kind: "choice", options: ["morning", "afternoon", "evening", "late_night"], required: false },
+      { id: "recurring", kind: "yes_no", required: false },
+    ],
+  },
+  permits: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["no_business_permit", "expired_permit", "no_sanitary_permit", "permit_not_displayed", "other"],
+        required: true,
+      },
+    ],
+  },
+  consumer_rights: {
+    questions: [
+      {
+        id: "issue",
+        kind: "choice",
+        options: ["no_receipt", "refund_refused", "misleading_advertising", "defective_product", "other"],
+        required: true,
+      },
+    ],
+  },
+  other: { questions: [] },
+};
+
+export function isComplaintCategory(value: unknown): value is string {
+  return typeof value === "string" && Object.hasOwn(COMPLAINT_CATEGORIES, value);
+}
+
+function isBlank(answer: unknown): boolean {
+  return answer == null || (typeof answer === "string" && answer.trim() === "");
+}
+
+function answerError(question: CategoryQuestion, answer: unknown): string | null {
+  switch (question.kind) {
+    case "choice":
+      return typeof answer === "string" && question.options.includes(answer) ? null : "Choose one of the options";
+    case "yes_no":
+      return typeof answer === "boolean" ? null : "Answer yes or no";
+    case "text":
+      if (typeof answer !== "string") return "Invalid answer";
+      return answer.trim().length <= question.maxLength ? null : `Maximum ${question.maxLength} characters`;
+    case "amount":
+      return typeof answer === "number" && Number.isFinite(answer) && answer >= 0 && answer <= MAX_AMOUNT
+        ? null
+        : "Enter an amount in pesos";
+  }
+}
+
+/**
+ * Errors for the category and its answers, one per question, on field "categoryDetails.<id>".
+ * A missing category is allowed: submissions queued offline before categories existed
+ * still replay. The form always sends one.
+ */
+export function validateCategory(category: unknown, details: unknown): FieldError[] {
+  if (category == null || category === "") return [];
+  if (!isComplaintCategory(category)) return [{ field: "complaintCategory", message: "Unknown complaint category" }];
+
+  const answers = details && typeof details === "object" ? (details as Record<string, unknown>) : {};
+  const errors: FieldError[] = [];
+  for (const question of COMPLAINT_CATEGORIES[category].questions) {
+    const answer = answers[question.id];
+    const field = `categoryDetails.${question.id}`;
+    if (isBlank(answer)) {
+      if (question.required) errors.push({ field, message: "This question is required" });
+      continue;
+    }
+    const message = answerError(question, answer);
+    if (message) errors.push({ field, message });
+  }
+  return errors;
+}
+
+/**
+ * The answers to store: only the category's own questions, trimmed, blanks dropped.
+ * Call after validateCategory.
+ */
+export function sanitizeCategoryDetails(category: string | null, details: unknown): Record<string, CategoryAnswer> {
+  if (!category || !isComplaintCategory(category) || !details || typeof details !== "object") return {};
+  const answers = details as Record<string, unknown>;
+
+  const clean: Record<string, CategoryAnswer> = {};
+  for (const question of COMPLAINT_CATEGORIES[category].questions) {
+    const answer = answers[question.id];
+    if (isBlank(answer)) continue;
+    clean[question.id] = typeof answer === "string" ? answer.trim() : (answer as CategoryAnswer);
+  }
+  return clean;
+}
+
+/**
+ * Routing tags from the answers: "Urgent" for an ongoing danger to people
+ * (someone fell ill, immediate fire danger, child labour).
+ */
+export function categoryTags(category: string | null, details: Record<string, CategoryAnswer>): string[] {
+  if (!category || !isComplaintCategory(category)) return [];
+  const definition = COMPLAINT_CATEGORIES[category];
+
+  const urgent =
+    definition.questions.some((q) => q.kind === "yes_no" && q.urgentWhen !== undefined && details[q.id] === q.urgentWhen) ||
+    (definition.urgentIssues ?? []).includes(String(details.issue ?? ""));
+  return urgent ? [URGENT_TAG] : [];
+}
@@ -0,0 +1,204 @@
+// Complaint submission rules for Supabase Edge Functions (Deno)
+//
+// The browser imports COMPLAINT_RULES too (src/complaints_module/validation.ts) so the
+// form can explain the limits before upload; keep this module free of Deno APIs.
+
+import { validateCategory } from "./complaintCategories.ts";
+import type { CategoryAnswer } from "./complaintCategories.ts";
+import type { LocationSample } from "./locationIntegrity.ts";
+
+export const COMPLAINT_RULES = {
+  businessName: { min: 2, max: 255 },
+  businessAddress: { min: 5, max: 500 },
+  complaintDescription: { min: 20, max: 5000 },
+  reporterEmail: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  images: { maxCount: 10, maxSize: 50 * 1024 * 1024, types: ["image/jpeg", "image/png", "image/webp"] },
+  videos: {
+    maxCount: 3,
+    maxSize: 100 * 1024 * 1024,
+    // Advisory: checked against the duration the browser reports; maxSize is the hard cap
+    maxDurationSeconds: 60,
+    types: ["video/mp4", "video/webm", "video/quicktime"],
+    // JPEG poster frame extracted in the browser
+    thumbnailMaxSize: 1024 * 1024,
+  },
+  audio: {
+    maxCount: 3,
+    maxSize: 20 * 1024 * 1024,
+    // Advisory, as for videos
+    maxDurationSeconds: 300,
+    types: ["audio/mpeg", "audio/mp4", "audio/x-m4a", "audio/aac", "audio/webm", "audio/ogg", "audio/wav"],
+  },
+};
+
+export type SubmissionFields = {
+  businessName?: string;
+  businessAddress?: string;
+  complaintDescription?: string;
+  // Key from _shared/complaintCategories.ts and the answers to its questions by question id
+  complaintCategory?: string;
+  categoryDetails?: Record<string, CategoryAnswer>;
+  reporterEmail?: string;
+  businessPk?: number;
+  // "Business not listed": no businessPk; submit-complaint adds businessName / businessAddress
+  // as a pending business with this category and map pin
+  newBusiness?: {
+    category: string | null;
+    location: { latitude: number; longitude: number } | null;
+  };
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    timestamp: number;
+  };
+  // Readings taken on the location step (locationIntegrity.ts); location is the best of them
+  locationSamples?: LocationSample[];
+  // Map pin the reporter dragged on the location step
+  pinnedLocation?: {
+    latitude: number;
+    longitude: number;
+  };
+  certificationAccepted?: boolean;
+  // File.lastModified per image, same order as the images field
+  imageLastModified?: number[];
+  // "camera" for photos taken with the in-app camera, same order as images
+  imageSources?: Array<"camera" | "upload">;
+  // Seconds per clip as read by the browser (null when it could not tell), same order as videos / audio.
+  // Not verified against the stored files, so the duration limits only stop honest mistakes.
+  videoDurations?: Array<number | null>;
+  audioDurations?: Array<number | null>;
+  // Client-generated UUID per report; a repeat returns the complaint already created
+  submissionId?: string;
+};
+
+export type FieldError = { field: string; message: string };
+
+// index is the file's position within its kind (images, videos or audio)
+export type FileError = { kind: EvidenceKind; index: number; fileName: string; message: string };
+
+// What the rules need to know about an image; File satisfies it, as does an upload manifest entry
+export type ImageDescriptor = { name: string; size: number; type: string };
+
+export type MediaDescriptor = ImageDescriptor & { durationSeconds: number | null };
+
+export type MediaKind = "videos" | "audio";
+
+export type EvidenceKind = "images" | MediaKind;
+
+export const MEDIA_LABELS: Record<MediaKind, { one: string; many: string }> = {
+  videos: { one: "Video", many: "videos" },
+  audio: { one: "Audio recording", many: "audio recordings" },
+};
+
+/**
+ * MIME type without parameters: MediaRecorder reports e.g. "video/webm;codecs=vp8,opus".
+ */
+export function baseMimeType(type: string): string {
+  return type.split(";")[0].trim().toLowerCase();
+}
+
+function checkLength(
+  errors: FieldError[],
+  field: string,
+  value: string | undefined,
+  rule: { min: number; max: number },
+  requiredMessage: string,
+) {
+  if (!value?.trim()) errors.push({ field, message: requiredMessage });
+  else if (value.length < rule.min) errors.push({ field, message: `Minimum ${rule.min} characters` });
+  else if (value.length > rule.max) errors.push({ field, message: `Maximum ${rule.max} characters` });
+}
+
+/**
+ * Image count, size and type rules. Used on the upload manifest before anything is
+ * uploaded (create-upload-session) and again on the stored files (submit-complaint).
+ */
+export function validateImages(files: ImageDescriptor[]): { fieldErrors: FieldError[]; fileErrors: FileError[] } {
+  const fieldErrors: FieldError[] = [];
+  const fileErrors: FileError[] = [];
+
+  if (files.length > COMPLAINT_RULES.images.maxCount) {
+    fieldErrors.push({ field: "images", message: `Maximum ${COMPLAINT_RULES.images.maxCount} images` });
+  }
+
+  files.forEach((file, index) => {
+    if (file.size > COMPLAINT_RULES.images.maxSize) {
+      fileErrors.push({ kind: "images", index, fileName: file.name, message: "Image too large (max 50MB)" });
+    } else if (!COMPLAINT_RULES.images.types.includes(file.type)) {
+      fileErrors.push({
+        kind: "images",
+        index,
+        fileName: file.name,
+        message: `Invalid image type (${file.type || "unknown"})`,
+      });
+    }
+  });
+
+  return { fieldErrors, fileErrors };
+}
+
+/**
+ * Count, size, type and duration rules for video clips or audio recordings.
+ * Durations come from the browser and are advisory: one it could not read is not held
+ * against the file, and a false one is not detected. Size is the enforced cap.
+ */
+export function validateMedia(
+  kind: MediaKind,
+  files: MediaDescriptor[],
+): { fieldErrors: FieldError[]; fileErrors: FileError[] } {
+  const rule = COMPLAINT_RULES[kind];
+  const label = MEDIA_LABELS[kind];
+  const fieldErrors: FieldError[] = [];
+  const fileErrors: FileError[] = [];
+
+  if (files.length > rule.maxCount) {
+    fieldErrors.push({ field: kind, message: `Maximum ${rule.maxCount} ${label.many}` });
+  }
+
+  files.forEach((file, index) => {
+    let message: string | null = null;
+    if (file.size > rule.maxSize) {
+      message = `${label.one} too large (max ${rule.maxSize / (1024 * 1024)}MB)`;
+    } else if (!rule.types.includes(baseMimeType(file.type))) {
+      message = `Invalid ${label.one.toLowerCase()} type (${file.type || "unknown"})`;
+    } else if (file.durationSeconds != null && file.durationSeconds > rule.maxDurationSeconds) {
+      message = `${label.one} too long (max ${rule.maxDurationSeconds} seconds)`;
+    }
+    if (message) fileErrors.push({ kind, index, fileName: file.name, message });
+  });
+
+  return { fieldErrors, fileErrors };
+}
+
+export function validateSubmission(
+  fields: SubmissionFields,
+  files: ImageDescriptor[],
+  media: Record<MediaKind, MediaDescriptor[]> = { videos: [], audio: [] },
+): { fieldErrors: FieldError[]; fileErrors: FileError[] } {
+  const fieldErrors: FieldError[] = [];
+
+  checkLength(fieldErrors, "businessName", fields.businessName, COMPLAINT_RULES.businessName, "Business name is required");
+  checkLength(fieldErrors, "businessAddress", fields.businessAddress, COMPLAINT_RULES.businessAddress, "Business address is required");
+  checkLength(
+    fieldErrors,
+    "complaintDescription",
+    fields.complaintDescription,
+    COMPLAINT_RULES.complaintDescription,
+    "Description is required",
+  );
+  fieldErrors.push(...validateCategory(fields.complaintCategory, fields.categoryDetails));
+
+  if (!fields.reporterEmail?.trim()) {
+    fieldErrors.push({ field: "reporterEmail", message: "Email is required" });
+  } else if (!COMPLAINT_RULES.reporterEmail.test(fields.reporterEmail)) {
+    fieldErrors.push({ field: "reporterEmail", message: "Invalid email address" });
+  }
+
+  const images = validateImages(files);
+  const videos = validateMedia("videos", media.videos);
+  const audio = validateMedia("audio", media.audio);
+  fieldErrors.push(...images.fieldErrors, ...videos.fieldErrors, ...audio.fieldErrors);
+
+  return { fieldErrors, fileErrors: [...images.fileErrors, ...videos.fileErrors, ...audio.fileErrors] };
+}
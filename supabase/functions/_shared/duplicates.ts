@@ -0,0 +1,144 @@
+// Duplicate / same-incident detection for new complaints (pure, no I/O)
+//
+// submit-complaint loads recent complaints for the same business, the same
+// reporter, or nearby coordinates, and asks:
+// - is this the same incident as an existing complaint? -> link to its incident
+// - is this likely a repeat filing?                     -> tag "Possible Duplicate"
+
+import { haversineMeters } from "./geo.ts";
+
+export const POSSIBLE_DUPLICATE_TAG = "Possible Duplicate";
+
+export type DuplicateConfig = {
+  windowHours: number;
+  radiusMeters: number;
+  // 0..1, trigram Jaccard of the descriptions
+  similarText: number;
+  nearIdenticalText: number;
+};
+
+export const DEFAULT_DUPLICATE_CONFIG: DuplicateConfig = {
+  windowHours: 72,
+  radiusMeters: 150,
+  similarText: 0.35,
+  nearIdenticalText: 0.8,
+};
+
+export type DuplicateSubject = {
+  id?: string;
+  business_pk: number | null;
+  reporter_email: string;
+  reporter_lat: number | null;
+  reporter_lng: number | null;
+  complaint_description: string;
+  created_at: string;
+  incident_id?: string | null;
+};
+
+export type DuplicateReason = "same_business" | "same_reporter" | "nearby" | "similar_text";
+
+export type DuplicateMatch = {
+  complaintId: string;
+  incidentId: string | null;
+  reasons: DuplicateReason[];
+  textSimilarity: number;
+  distanceMeters: number | null;
+  sameIncident: boolean;
+  possibleDuplicate: boolean;
+};
+
+export type DuplicateDecision = {
+  matches: DuplicateMatch[];
+  // Best same-incident match, if any
+  linkTo: DuplicateMatch | null;
+  possibleDuplicate: boolean;
+};
+
+function trigrams(text: string): Set<string> {
+  const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").replace(/\s+/g, " ").trim()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < normalized.length - 2; i++) grams.add(normalized.slice(i, i + 3));
+  return grams;
+}
+
+/**
+ * Jaccard similarity of character trigrams, 0..1.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  if (ga.size === 0 || gb.size === 0) return 0;
+
+  let shared = 0;
+  for (const g of ga) if (gb.has(g)) shared++;
+  return shared / (ga.size + gb.size - shared);
+}
+
+export function compareComplaints(
+  subject: DuplicateSubject,
+  other: DuplicateSubject & { id: string },
+  config: DuplicateConfig = DEFAULT_DUPLICATE_CONFIG,
+): DuplicateMatch | null {
+  const gapMs = Math.abs(new Date(subject.created_at).getTime() - new Date(other.created_at).getTime());
+  if (!Number.isFinite(gapMs) || gapMs > config.windowHours * 3600_000) return null;
+
+  const reasons: DuplicateReason[] = [];
+
+  const sameBusiness = subject.business_pk != null && subject.business_pk === other.business_pk;
+  if (sameBusiness) reasons.push("same_business");
+
+  const sameReporter = subject.reporter_email.trim().toLowerCase() === other.reporter_email.trim().toLowerCase();
+  if (sameReporter) reasons.push("same_reporter");
+
+  let distanceMeters: number | null = null;
+  if (
+    subject.reporter_lat != null && subject.reporter_lng != null &&
+    other.reporter_lat != null && other.reporter_lng != null
+  ) {
+    distanceMeters = haversineMeters(
+      { latitude: subject.reporter_lat, longitude: subject.reporter_lng },
+      { latitude: other.reporter_lat, longitude: other.reporter_lng },
+    );
+  }
+  const nearby = distanceMeters != null && distanceMeters <= config.radiusMeters;
+  if (nearby) reasons.push("nearby");
+
+  const similarity = textSimilarity(subject.complaint_description, other.complaint_description);
+  const similar = similarity >= config.similarText;
+  if (similar) reasons.push("similar_text");
+
+  // Same place, same story: several reporters describing one incident.
+  const sameIncident = similar && (sameBusiness || nearby);
+  // Same person filing again about the same business, or a near copy of another report.
+  const possibleDuplicate = (sameReporter && (sameBusiness || nearby)) || similarity >= config.nearIdenticalText;
+
+  if (!sameIncident && !possibleDuplicate) return null;
+
+  return {
+    complaintId: other.id,
+    incidentId: other.incident_id ?? null,
+    reasons,
+    textSimilarity: similarity,
+    distanceMeters,
+    sameIncident,
+    possibleDuplicate,
+  };
+}
+
+export function detectDuplicates(
+  subject: DuplicateSubject,
+  candidates: Array<DuplicateSubject & { id: string }>,
+  config: DuplicateConfig = DEFAULT_DUPLICATE_CONFIG,
+): DuplicateDecision {
+  const matches = candidates
+    .filter((c) => c.id !== subject.id)
+    .map((c) => compareComplaints(subject, c, config))
+    .filter((m): m is DuplicateMatch => m !== null)
+    .sort((a, b) => b.textSimilarity - a.textSimilarity);
+
+  // Prefer joining an existing incident over starting a new one.
+  const incidentMatches = matches.filter((m) => m.sameIncident);
+  const linkTo = incidentMatches.find((m) => m.incidentId) ?? incidentMatches[0] ?? null;
+
+  return { matches, linkTo, possibleDuplicate: matches.some((m) => m.possibleDuplicate) };
+}
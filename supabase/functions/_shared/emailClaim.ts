@@ -0,0 +1,62 @@
+// Signed "this browser verified this email" claim for Supabase Edge Functions (Deno)
+//
+// Issued by verify-email after a token is consumed; required by submit-complaint.
+// Format: base64url(JSON payload) + "." + HMAC-SHA256 hex (see token.ts signValue).
+
+import { signValue, verifySignedValue } from "./token.ts";
+
+export type EmailClaim = {
+  email: string;
+  // Epoch seconds
+  iat: number;
+  exp: number;
+};
+
+const DEFAULT_CLAIM_TTL_MINUTES = 120;
+
+export function getEmailClaimTtlMinutes(): number {
+  const minutes = Number(Deno.env.get("EMAIL_CLAIM_TTL_MINUTES"));
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_CLAIM_TTL_MINUTES;
+}
+
+function toBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+function fromBase64Url(value: string): string {
+  const b64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export async function issueEmailClaim(
+  email: string,
+  secret: string,
+  verifiedAt: Date = new Date(),
+): Promise<{ claim: string; expiresAt: string }> {
+  const iat = Math.floor(verifiedAt.getTime() / 1000);
+  const exp = iat + getEmailClaimTtlMinutes() * 60;
+  const payload = toBase64Url(JSON.stringify({ email: email.trim().toLowerCase(), iat, exp } satisfies EmailClaim));
+  const signature = await signValue(payload, secret);
+
+  return { claim: `${payload}.${signature}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/**
+ * Returns the claim if the signature is valid and it has not expired, otherwise null.
+ */
+export async function verifyEmailClaim(claim: string, secret: string): Promise<EmailClaim | null> {
+  const [payload, signature, ...rest] = claim.trim().split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  if (!(await verifySignedValue(payload, signature, secret))) return null;
+
+  try {
+    const parsed = JSON.parse(fromBase64Url(payload)) as EmailClaim;
+    if (typeof parsed.email !== "string" || typeof parsed.exp !== "number") return null;
+    if (parsed.exp * 1000 < Date.now()) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
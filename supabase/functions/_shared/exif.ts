@@ -0,0 +1,242 @@
+// Minimal EXIF reader for Supabase Edge Functions (Deno)
+//
+// Extracts the provenance fields we care about from JPEG (APP1), PNG (eXIf)
+// and WebP (EXIF chunk) images: capture time, GPS position, camera make/model
+// and the editing software, if any. Anything unreadable is returned as null;
+// a missing or corrupt EXIF block is not an error.
+
+import type { LatLng } from "./geo.ts";
+
+export type PhotoMetadata = {
+  // ms since epoch; EXIF times without an offset are read as UTC
+  capturedAt: number | null;
+  modifiedAt: number | null;
+  gps: LatLng | null;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+};
+
+export const EMPTY_PHOTO_METADATA: PhotoMetadata = {
+  capturedAt: null,
+  modifiedAt: null,
+  gps: null,
+  make: null,
+  model: null,
+  software: null,
+};
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  offsetTime: 0x9010,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+};
+
+// Bytes per component, by TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type IfdEntry = { type: number; count: number; valueOffset: number };
+
+class TiffReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private le: boolean;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const order = this.view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF header");
+    this.le = order === 0x4949;
+    if (this.u16(2) !== 42) throw new Error("Bad TIFF magic");
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, this.le);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, this.le);
+  }
+
+  firstIfdOffset(): number {
+    return this.u32(4);
+  }
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    if (offset <= 0 || offset + 2 > this.bytes.length) return entries;
+
+    const count = this.u16(offset);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      if (at + 12 > this.bytes.length) break;
+
+      const type = this.u16(at + 2);
+      const n = this.u32(at + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * n;
+      // Values up to 4 bytes are stored inline
+      const valueOffset = size <= 4 ? at + 8 : this.u32(at + 8);
+      if (valueOffset + size > this.bytes.length) continue;
+
+      entries.set(this.u16(at), { type, count: n, valueOffset });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | null {
+    if (!entry || entry.type !== 2) return null;
+    const raw = this.bytes.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+    const text = new TextDecoder().decode(raw).replace(/\0+$/, "").trim();
+    return text || null;
+  }
+
+  long(entry: IfdEntry | undefined): number | null {
+    if (!entry) return null;
+    if (entry.type === 4) return this.u32(entry.valueOffset);
+    if (entry.type === 3) return this.u16(entry.valueOffset);
+    return null;
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] | null {
+    if (!entry || entry.type !== 5) return null;
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const num = this.u32(entry.valueOffset + i * 8);
+      const den = this.u32(entry.valueOffset + i * 8 + 4);
+      values.push(den === 0 ? NaN : num / den);
+    }
+    return values;
+  }
+}
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" plus an optional "+HH:MM" offset to ms since epoch.
+ */
+export function parseExifDate(value: string | null, offset?: string | null): number | null {
+  const m = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return null;
+
+  const tz = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "Z";
+  const ms = Date.parse(`${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${tz}`);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function gpsCoordinate(dms: number[] | null, ref: string | null, negativeRef: string): number | null {
+  if (!dms || dms.length < 3 || dms.some((v) => !Number.isFinite(v))) return null;
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref?.toUpperCase() === negativeRef ? -value : value;
+}
+
+export function parseTiffMetadata(tiff: Uint8Array): PhotoMetadata {
+  const reader = new TiffReader(tiff);
+  const ifd0 = reader.readIfd(reader.firstIfdOffset());
+  const exifIfd = reader.readIfd(reader.long(ifd0.get(TAG.exifIfd)) ?? 0);
+  const gpsIfd = reader.readIfd(reader.long(ifd0.get(TAG.gpsIfd)) ?? 0);
+
+  const latitude = gpsCoordinate(
+    reader.rationals(gpsIfd.get(TAG.gpsLatitude)),
+    reader.ascii(gpsIfd.get(TAG.gpsLatitudeRef)),
+    "S",
+  );
+  const longitude = gpsCoordinate(
+    reader.rationals(gpsIfd.get(TAG.gpsLongitude)),
+    reader.ascii(gpsIfd.get(TAG.gpsLongitudeRef)),
+    "W",
+  );
+  // 0,0 is what many devices write when they had no fix
+  const gps = latitude != null && longitude != null && !(latitude === 0 && longitude === 0)
+    ? { latitude, longitude }
+    : null;
+
+  return {
+    capturedAt: parseExifDate(
+      reader.ascii(exifIfd.get(TAG.dateTimeOriginal)),
+      reader.ascii(exifIfd.get(TAG.offsetTimeOriginal)),
+    ),
+    modifiedAt: parseExifDate(reader.ascii(ifd0.get(TAG.dateTime)), reader.ascii(exifIfd.get(TAG.offsetTime))),
+    gps,
+    make: reader.ascii(ifd0.get(TAG.make)),
+    model: reader.ascii(ifd0.get(TAG.model)),
+    software: reader.ascii(ifd0.get(TAG.software)),
+  };
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+function startsWith(bytes: Uint8Array, prefix: number[], at = 0): boolean {
+  return prefix.every((b, i) => bytes[at + i] === b);
+}
+
+function fourCc(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+}
+
+/**
+ * Locate the raw TIFF (EXIF) block inside a JPEG, PNG or WebP file.
+ */
+export function findTiffBlock(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: walk marker segments up to start-of-scan
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let at = 2;
+    while (at + 4 <= bytes.length && bytes[at] === 0xff) {
+      const marker = bytes[at + 1];
+      if (marker === 0xda || marker === 0xd9) break;
+      const length = view.getUint16(at + 2);
+      if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, at + 4)) {
+        return bytes.subarray(at + 10, Math.min(bytes.length, at + 2 + length));
+      }
+      at += 2 + length;
+    }
+    return null;
+  }
+
+  // PNG: eXIf chunk
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) {
+    let at = 8;
+    while (at + 8 <= bytes.length) {
+      const length = view.getUint32(at);
+      const type = fourCc(bytes, at + 4);
+      if (type === "eXIf") return bytes.subarray(at + 8, Math.min(bytes.length, at + 8 + length));
+      if (type === "IEND") break;
+      at += 12 + length;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with an EXIF chunk
+  if (fourCc(bytes, 0) === "RIFF" && fourCc(bytes, 8) === "WEBP") {
+    let at = 12;
+    while (at + 8 <= bytes.length) {
+      const length = view.getUint32(at + 4, true);
+      if (fourCc(bytes, at) === "EXIF") {
+        const data = bytes.subarray(at + 8, Math.min(bytes.length, at + 8 + length));
+        return startsWith(data, EXIF_HEADER) ? data.subarray(6) : data;
+      }
+      at += 8 + length + (length % 2);
+    }
+  }
+
+  return null;
+}
+
+export function readPhotoMetadata(bytes: Uint8Array): PhotoMetadata {
+  try {
+    const tiff = findTiffBlock(bytes);
+    return tiff ? parseTiffMetadata(tiff) : EMPTY_PHOTO_METADATA;
+  } catch {
+    return EMPTY_PHOTO_METADATA;
+  }
+}
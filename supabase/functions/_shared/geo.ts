@@ -0,0 +1,34 @@
+// Geo helpers for Supabase Edge Functions (Deno)
+
+export type LatLng = { latitude: number; longitude: number };
+
+/**
+ * Great-circle distance in meters.
+ */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const R = 6371000;
+  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const lat1 = (a.latitude * Math.PI) / 180;
+  const lat2 = (b.latitude * Math.PI) / 180;
+
+  const sinDLat = Math.sin(dLat / 2);
+  const sinDLon = Math.sin(dLon / 2);
+
+  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Lat/lng box that contains every point within radiusMeters of center (for coarse SQL filtering).
+ */
+export function boundingBox(center: LatLng, radiusMeters: number) {
+  const dLat = radiusMeters / 111_320;
+  const dLng = radiusMeters / (111_320 * Math.max(0.01, Math.cos((center.latitude * Math.PI) / 180)));
+  return {
+    minLat: center.latitude - dLat,
+    maxLat: center.latitude + dLat,
+    minLng: center.longitude - dLng,
+    maxLng: center.longitude + dLng,
+  };
+}
@@ -0,0 +1,15 @@
+// Addresses known to the fixture geocoder (GEOCODER_PROVIDER=fixture).
+//
+// Coordinates are approximate; add the addresses of your local seed businesses here
+// or pass them in GEOCODER_FIXTURES. Keys are matched with normalizeAddress(), so case,
+// commas and extra spaces do not matter.
+
+import type { Coordinates } from "./geocoder.ts";
+
+export const GEOCODE_FIXTURES: Record<string, Coordinates> = {
+  "123 Rizal Ave, Manila": { lat: 14.6042, lng: 120.9822 },
+  "Quiapo Church, Quezon Blvd, Quiapo, Manila": { lat: 14.5986, lng: 120.9836 },
+  "SM Mall of Asia, Seaside Blvd, Pasay": { lat: 14.5352, lng: 120.9822 },
+  "Ayala Center, Makati Ave, Makati": { lat: 14.5509, lng: 121.0244 },
+  "Trinoma, EDSA cor. North Ave, Quezon City": { lat: 14.6532, lng: 121.0334 },
+};
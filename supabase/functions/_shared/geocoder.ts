@@ -0,0 +1,166 @@
+// Address geocoding for Supabase Edge Functions (Deno)
+//
+// One Geocoder interface, three providers:
+// - google:    Google Geocoding API (GOOGLE_MAPS_API_KEY)
+// - nominatim: OpenStreetMap Nominatim, public or self-hosted (no key; NOMINATIM_URL,
+//              NOMINATIM_USER_AGENT). The public instance allows 1 request/s, which
+//              the coordinate cache below keeps us well under.
+// - fixture:   fixed addresses, no network; for local development and tests
+//
+// GEOCODER_PROVIDER selects one. Unset means google when GOOGLE_MAPS_API_KEY is set,
+// nominatim otherwise.
+//
+// Coordinates are cached on the business row (business_lat / business_lng). Phase 16
+// clears them whenever business_address changes, so stored coordinates always belong
+// to the current address; storedCoordinates() is the read side of that rule.
+
+import { GEOCODE_FIXTURES } from "./geocodeFixtures.ts";
+
+export type GeocoderName = "google" | "nominatim" | "fixture";
+
+export const GEOCODER_NAMES: readonly GeocoderName[] = ["google", "nominatim", "fixture"];
+
+export type Coordinates = { lat: number; lng: number };
+
+export type Geocoder = {
+  name: GeocoderName;
+  // null when the provider has no match; throws when the provider itself fails
+  geocode(address: string): Promise<Coordinates | null>;
+};
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const DEFAULT_USER_AGENT = "inspekto-complaints/1.0";
+
+/**
+ * Lowercase, single-spaced, without trailing punctuation: what fixture keys are matched on.
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.,]+(\s|$)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function validCoordinates(lat: unknown, lng: unknown): Coordinates | null {
+  const la = typeof lat === "string" ? Number(lat) : lat;
+  const ln = typeof lng === "string" ? Number(lng) : lng;
+  if (typeof la !== "number" || typeof ln !== "number") return null;
+  if (!Number.isFinite(la) || !Number.isFinite(ln)) return null;
+  if (Math.abs(la) > 90 || Math.abs(ln) > 180) return null;
+  return { lat: la, lng: ln };
+}
+
+/**
+ * Coordinates already stored for a business, if any.
+ */
+export function storedCoordinates(business: { business_lat?: unknown; business_lng?: unknown }): Coordinates | null {
+  if (business.business_lat == null || business.business_lng == null) return null;
+  return validCoordinates(business.business_lat, business.business_lng);
+}
+
+export function googleGeocoder(apiKey: string, fetchFn: FetchLike = fetch): Geocoder {
+  return {
+    name: "google",
+    async geocode(address) {
+      const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
+        address
+      )}&key=${encodeURIComponent(apiKey)}`;
+
+      const res = await fetchFn(url, { method: "GET", headers: { Accept: "application/json" } });
+      if (!res.ok) throw new Error(`Google geocoding failed with HTTP ${res.status}`);
+
+      const json = (await res.json()) as {
+        status?: string;
+        results?: Array<{ geometry?: { location?: { lat?: number; lng?: number } } }>;
+        error_message?: string;
+      };
+
+      if (json.status === "ZERO_RESULTS") return null;
+      if (json.status !== "OK") {
+        throw new Error(`Google geocoding failed: ${json.status ?? "no status"}${json.error_message ? ` (${json.error_message})` : ""}`);
+      }
+
+      const loc = json.results?.[0]?.geometry?.location;
+      return validCoordinates(loc?.lat, loc?.lng);
+    },
+  };
+}
+
+export function nominatimGeocoder(
+  options: { baseUrl?: string; userAgent?: string; email?: string } = {},
+  fetchFn: FetchLike = fetch
+): Geocoder {
+  const baseUrl = (options.baseUrl || DEFAULT_NOMINATIM_URL).replace(/\/+$/, "");
+
+  return {
+    name: "nominatim",
+    async geocode(address) {
+      const params = new URLSearchParams({ q: address, format: "jsonv2", limit: "1" });
+      if (options.email) params.set("email", options.email);
+
+      // Nominatim's usage policy requires an identifying User-Agent
+      const res = await fetchFn(`${baseUrl}/search?${params}`, {
+        method: "GET",
+        headers: { Accept: "application/json", "User-Agent": options.userAgent || DEFAULT_USER_AGENT },
+      });
+      if (!res.ok) throw new Error(`Nominatim geocoding failed with HTTP ${res.status}`);
+
+      const json = (await res.json()) as Array<{ lat?: string; lon?: string }>;
+      if (!Array.isArray(json) || json.length === 0) return null;
+      return validCoordinates(json[0].lat, json[0].lon);
+    },
+  };
+}
+
+export function fixtureGeocoder(fixtures: Record<string, Coordinates> = GEOCODE_FIXTURES): Geocoder {
+  const byAddress = new Map(Object.entries(fixtures).map(([address, coords]) => [normalizeAddress(address), coords]));
+
+  return {
+    name: "fixture",
+    geocode: (address) => Promise.resolve(byAddress.get(normalizeAddress(address)) ?? null),
+  };
+}
+
+function parseFixtures(raw: string): Record<string, Coordinates> {
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  const fixtures: Record<string, Coordinates> = {};
+  for (const [address, value] of Object.entries(parsed ?? {})) {
+    const v = value as { lat?: unknown; lng?: unknown } | null;
+    const coords = validCoordinates(v?.lat, v?.lng);
+    if (!coords) throw new Error(`GEOCODER_FIXTURES: invalid coordinates for "${address}"`);
+    fixtures[address] = coords;
+  }
+  return fixtures;
+}
+
+/**
+ * The geocoder configured by the environment. Throws on a misconfiguration
+ * (unknown provider, google without a key, malformed GEOCODER_FIXTURES).
+ *
+ * @param env e.g. (name) => Deno.env.get(name)
+ */
+export function geocoderFromEnv(env: (name: string) => string | undefined, fetchFn: FetchLike = fetch): Geocoder {
+  const googleKey = env("GOOGLE_MAPS_API_KEY");
+  const provider = (env("GEOCODER_PROVIDER") || (googleKey ? "google" : "nominatim")).trim().toLowerCase();
+
+  switch (provider) {
+    case "google":
+      if (!googleKey) throw new Error("GEOCODER_PROVIDER is google but GOOGLE_MAPS_API_KEY is missing");
+      return googleGeocoder(googleKey, fetchFn);
+    case "nominatim":
+      return nominatimGeocoder(
+        { baseUrl: env("NOMINATIM_URL"), userAgent: env("NOMINATIM_USER_AGENT"), email: env("NOMINATIM_EMAIL") },
+        fetchFn
+      );
+    case "fixture": {
+      // Extra fixtures as JSON: { "<address>": { "lat": 14.6, "lng": 120.98 } }
+      const extra = env("GEOCODER_FIXTURES");
+      return fixtureGeocoder({ ...GEOCODE_FIXTURES, ...(extra ? parseFixtures(extra) : {}) });
+    }
+    default:
+      throw new Error(`Unknown GEOCODER_PROVIDER "${provider}" (expected ${GEOCODER_NAMES.join(", ")})`);
+  }
+}
@@ -0,0 +1,214 @@
+// Location integrity for Supabase Edge Functions (Deno)
+//
+// The location step takes several GPS readings over a few seconds. Real fixes
+// wander a little, report plausible accuracy and arrive fresh; mock-location apps
+// and replayed coordinates often do not. The checks below turn the readings into a
+// verdict that verify-business-proximity and the location_integrity signal of the
+// authenticity score consume. The readings themselves are stored for reviewers
+// (complaints.location_samples).
+//
+// Each check passes, fails, or cannot tell (passed: null). One failure makes the
+// location "suspicious"; too few readings without a failure is "insufficient".
+
+import { haversineMeters } from "./geo.ts";
+import type { LatLng } from "./geo.ts";
+
+export const LOCATION_INTEGRITY_TAG = "Suspicious Location";
+
+export const LOCATION_INTEGRITY_RULES = {
+  minSamples: 3,
+  // More are dropped (oldest kept); the client takes about five
+  maxSamples: 20,
+  // Consumer GNSS does not report better than this; mock providers often report 0 or 1
+  minPlausibleAccuracyMeters: 1,
+  // Fixes claiming this precision should move a little between readings
+  preciseAccuracyMeters: 20,
+  minJitterMeters: 0.05,
+  // Reading older than this when it arrived, although a fresh fix was requested
+  maxFixAgeSeconds: 60,
+  clockSkewSeconds: 5,
+  // ~250 km/h between readings, after allowing for both accuracy radii
+  maxSpeedMetersPerSecond: 70,
+  // IP geolocation is coarse; only a gross mismatch counts
+  maxIpDistanceKm: 500,
+};
+
+export type LocationSample = {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  // Position timestamp reported by the browser (ms since epoch)
+  timestamp: number;
+  // When the page received it (ms since epoch, same clock)
+  receivedAt: number;
+};
+
+export type LocationCheck = "sample_count" | "accuracy" | "jitter" | "staleness" | "speed" | "ip_region";
+
+export type LocationCheckResult = {
+  check: LocationCheck;
+  passed: boolean | null;
+  detail: string;
+};
+
+export type LocationIntegrityVerdict = "consistent" | "suspicious" | "insufficient";
+
+export type LocationIntegrity = {
+  verdict: LocationIntegrityVerdict;
+  sampleCount: number;
+  failed: LocationCheck[];
+  checks: LocationCheckResult[];
+};
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Well-formed readings from an untrusted request body, oldest first.
+ */
+export function sanitizeSamples(raw: unknown, rules = LOCATION_INTEGRITY_RULES): LocationSample[] {
+  if (!Array.isArray(raw)) return [];
+
+  const samples: LocationSample[] = [];
+  for (const item of raw) {
+    const s = item as Partial<LocationSample> | null;
+    if (!isFiniteNumber(s?.latitude) || !isFiniteNumber(s.longitude)) continue;
+    if (Math.abs(s.latitude) > 90 || Math.abs(s.longitude) > 180) continue;
+    if (!isFiniteNumber(s.timestamp) || !isFiniteNumber(s.receivedAt)) continue;
+
+    samples.push({
+      latitude: s.latitude,
+      longitude: s.longitude,
+      accuracy: isFiniteNumber(s.accuracy) && s.accuracy >= 0 ? s.accuracy : null,
+      timestamp: s.timestamp,
+      receivedAt: s.receivedAt,
+    });
+  }
+
+  return samples.sort((a, b) => a.timestamp - b.timestamp).slice(0, rules.maxSamples);
+}
+
+/**
+ * Approximate client location from headers set by a proxy in front of the functions
+ * (Cloudflare "visitor location headers"), or null when there are none.
+ */
+export function ipLocationFromHeaders(headers: Headers): LatLng | null {
+  const latitude = Number(headers.get("cf-iplatitude"));
+  const longitude = Number(headers.get("cf-iplongitude"));
+  if (!headers.get("cf-iplatitude") || !headers.get("cf-iplongitude")) return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { latitude, longitude };
+}
+
+function checkAccuracy(samples: LocationSample[], rules: typeof LOCATION_INTEGRITY_RULES): LocationCheckResult {
+  const reported = samples.map((s) => s.accuracy).filter(isFiniteNumber);
+  if (reported.length === 0) return { check: "accuracy", passed: null, detail: "No accuracy reported" };
+
+  const best = Math.min(...reported);
+  if (best < rules.minPlausibleAccuracyMeters) {
+    return { check: "accuracy", passed: false, detail: `Implausibly precise fix (±${best}m)` };
+  }
+  return { check: "accuracy", passed: true, detail: `Best fix ±${Math.round(best)}m` };
+}
+
+function checkJitter(samples: LocationSample[], rules: typeof LOCATION_INTEGRITY_RULES): LocationCheckResult {
+  if (samples.length < rules.minSamples) {
+    return { check: "jitter", passed: null, detail: "Too few readings to compare" };
+  }
+
+  // Network (Wi-Fi / cell) positions legitimately repeat; only precise GNSS fixes must wander
+  const precise = samples.every((s) => s.accuracy != null && s.accuracy <= rules.preciseAccuracyMeters);
+  if (!precise) return { check: "jitter", passed: null, detail: "Network-based fix; identical readings are normal" };
+
+  const spread = Math.max(...samples.map((s) => haversineMeters(s, samples[0])));
+  if (spread < rules.minJitterMeters) {
+    return { check: "jitter", passed: false, detail: `${samples.length} precise readings at exactly the same point` };
+  }
+  return { check: "jitter", passed: true, detail: `Readings spread over ${spread.toFixed(1)}m` };
+}
+
+function checkStaleness(samples: LocationSample[], rules: typeof LOCATION_INTEGRITY_RULES): LocationCheckResult {
+  const ages = samples.map((s) => (s.receivedAt - s.timestamp) / 1000);
+  const oldest = Math.max(...ages);
+  const earliest = Math.min(...ages);
+
+  if (earliest < -rules.clockSkewSeconds) {
+    return { check: "staleness", passed: false, detail: "Reading timestamped after it arrived" };
+  }
+  if (oldest > rules.maxFixAgeSeconds) {
+    return { check: "staleness", passed: false, detail: `Reading was ${Math.round(oldest)}s old when it arrived` };
+  }
+  return { check: "staleness", passed: true, detail: "Readings arrived fresh" };
+}
+
+function checkSpeed(samples: LocationSample[], rules: typeof LOCATION_INTEGRITY_RULES): LocationCheckResult {
+  if (samples.length < 2) return { check: "speed", passed: null, detail: "Too few readings to compare" };
+
+  let fastest = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    const slack = (a.accuracy ?? 0) + (b.accuracy ?? 0);
+    const moved = Math.max(0, haversineMeters(a, b) - slack);
+    if (moved === 0) continue;
+
+    const seconds = (b.timestamp - a.timestamp) / 1000;
+    if (seconds <= 0) {
+      return { check: "speed", passed: false, detail: `Jumped ${Math.round(moved)}m between simultaneous readings` };
+    }
+    fastest = Math.max(fastest, moved / seconds);
+  }
+
+  if (fastest > rules.maxSpeedMetersPerSecond) {
+    return { check: "speed", passed: false, detail: `Moved at ${Math.round(fastest * 3.6)} km/h between readings` };
+  }
+  return { check: "speed", passed: true, detail: "No jumps between readings" };
+}
+
+function checkIpRegion(
+  samples: LocationSample[],
+  ipLocation: LatLng | null,
+  rules: typeof LOCATION_INTEGRITY_RULES,
+): LocationCheckResult {
+  if (!ipLocation) return { check: "ip_region", passed: null, detail: "No IP location available" };
+
+  const km = Math.min(...samples.map((s) => haversineMeters(s, ipLocation))) / 1000;
+  if (km > rules.maxIpDistanceKm) {
+    return { check: "ip_region", passed: false, detail: `${Math.round(km)} km from the network's location` };
+  }
+  return { check: "ip_region", passed: true, detail: `Within ${Math.max(1, Math.round(km))} km of the network's location` };
+}
+
+export function assessLocationIntegrity(
+  samples: LocationSample[],
+  ipLocation: LatLng | null = null,
+  rules = LOCATION_INTEGRITY_RULES,
+): LocationIntegrity {
+  if (samples.length === 0) {
+    return {
+      verdict: "insufficient",
+      sampleCount: 0,
+      failed: [],
+      checks: [{ check: "sample_count", passed: null, detail: "No location readings" }],
+    };
+  }
+
+  const enough = samples.length >= rules.minSamples;
+  const checks: LocationCheckResult[] = [
+    {
+      check: "sample_count",
+      passed: enough ? true : null,
+      detail: `${samples.length} reading${samples.length === 1 ? "" : "s"}`,
+    },
+    checkAccuracy(samples, rules),
+    checkJitter(samples, rules),
+    checkStaleness(samples, rules),
+    checkSpeed(samples, rules),
+    checkIpRegion(samples, ipLocation, rules),
+  ];
+
+  const failed = checks.filter((c) => c.passed === false).map((c) => c.check);
+  const verdict: LocationIntegrityVerdict = failed.length > 0 ? "suspicious" : enough ? "consistent" : "insufficient";
+  return { verdict, sampleCount: samples.length, failed, checks };
+}
@@ -0,0 +1,99 @@
+// Photo provenance for Supabase Edge Functions (Deno)
+//
+// Compares each photo's EXIF (see exif.ts) with the reporter's device location
+// and the business coordinates, and turns the result into complaint tags and
+// the photo_provenance signal of the authenticity score.
+
+import { haversineMeters } from "./geo.ts";
+import type { LatLng } from "./geo.ts";
+import type { PhotoMetadata } from "./exif.ts";
+
+export const PHOTO_TAGS = {
+  gpsMatches: "Photo GPS Matches",
+  gpsMismatch: "Photo GPS Mismatch",
+  olderThan7Days: "Photo Older Than 7 Days",
+  capturedInApp: "Camera Captured In-App",
+  edited: "Photo Edited",
+} as const;
+
+export type PhotoSource = "camera" | "upload";
+
+export const PHOTO_PROVENANCE_RULES = {
+  // Photo GPS within this distance of the reporter or the business counts as a match
+  matchRadiusMeters: 300,
+  maxAgeDays: 7,
+  editorSoftware: /photoshop|lightroom|gimp|snapseed|picsart|facetune|canva|pixlr|affinity|meitu/i,
+};
+
+export type PhotoProvenance = PhotoMetadata & {
+  index: number;
+  source: PhotoSource;
+  distanceToReporterMeters: number | null;
+  distanceToBusinessMeters: number | null;
+  gpsMatches: boolean | null;
+  olderThanMaxAge: boolean;
+  edited: boolean;
+};
+
+export type ProvenanceContext = {
+  reporter: LatLng | null;
+  business: LatLng | null;
+  submittedAt: number;
+};
+
+export type ProvenanceSummary = {
+  photos: PhotoProvenance[];
+  tags: string[];
+};
+
+function roundedDistance(a: LatLng | null, b: LatLng | null): number | null {
+  return a && b ? Math.round(haversineMeters(a, b)) : null;
+}
+
+export function analyzePhoto(
+  index: number,
+  metadata: PhotoMetadata,
+  source: PhotoSource,
+  context: ProvenanceContext,
+): PhotoProvenance {
+  const rules = PHOTO_PROVENANCE_RULES;
+  const distanceToReporterMeters = roundedDistance(metadata.gps, context.reporter);
+  const distanceToBusinessMeters = roundedDistance(metadata.gps, context.business);
+
+  const distances = [distanceToReporterMeters, distanceToBusinessMeters].filter((d): d is number => d != null);
+  const gpsMatches = distances.length > 0 ? distances.some((d) => d <= rules.matchRadiusMeters) : null;
+
+  const olderThanMaxAge =
+    metadata.capturedAt != null && context.submittedAt - metadata.capturedAt > rules.maxAgeDays * 24 * 3600_000;
+
+  const edited = metadata.software != null && rules.editorSoftware.test(metadata.software);
+
+  return {
+    ...metadata,
+    index,
+    source,
+    distanceToReporterMeters,
+    distanceToBusinessMeters,
+    gpsMatches,
+    olderThanMaxAge,
+    edited,
+  };
+}
+
+/**
+ * Tags describe the set: a match on any photo is enough for "Photo GPS Matches",
+ * while "Photo GPS Mismatch" needs every located photo to be far away.
+ */
+export function summarizeProvenance(photos: PhotoProvenance[]): ProvenanceSummary {
+  const tags: string[] = [];
+  const located = photos.filter((p) => p.gpsMatches != null);
+
+  if (located.some((p) => p.gpsMatches)) tags.push(PHOTO_TAGS.gpsMatches);
+  else if (located.length > 0) tags.push(PHOTO_TAGS.gpsMismatch);
+
+  if (photos.some((p) => p.olderThanMaxAge)) tags.push(PHOTO_TAGS.olderThan7Days);
+  if (photos.some((p) => p.source === "camera")) tags.push(PHOTO_TAGS.capturedInApp);
+  if (photos.some((p) => p.edited)) tags.push(PHOTO_TAGS.edited);
+
+  return { photos, tags };
+}
@@ -0,0 +1,109 @@
+// Reporter-to-business proximity from two signals (pure, no I/O)
+//
+// - device: the browser's GPS fix. Its accuracy radius counts in the reporter's
+//   favour: the fix verifies when its accuracy circle reaches the threshold circle
+//   around the business. Fixes vaguer than maxAccuracyCreditMeters get no credit.
+// - pin:    where the reporter dragged the map pin. A pin is self-reported, so it
+//   only counts when it lies inside the device's accuracy circle (at least
+//   pinToleranceMeters, at most maxPinRadiusMeters). It matters for fixes too vague
+//   to be credited, e.g. indoors; it refines an imprecise fix, it cannot replace one.
+
+import { haversineMeters } from "./geo.ts";
+import type { LatLng } from "./geo.ts";
+
+export type ProximitySignal = "device" | "pin";
+
+export const PROXIMITY_RULES = {
+  maxAccuracyCreditMeters: 150,
+  maxPinRadiusMeters: 1000,
+  pinToleranceMeters: 50,
+};
+
+export type ProximityInput = {
+  business: LatLng;
+  device: LatLng & { accuracyMeters: number | null };
+  pin: LatLng | null;
+  thresholdMeters: number;
+};
+
+export type ProximityResult = {
+  verified: boolean;
+  // Device first when both would verify; null when neither does
+  verifiedBy: ProximitySignal | null;
+  deviceDistanceMeters: number;
+  pinDistanceMeters: number | null;
+  // Accuracy radius credited to the device fix (0 when missing or too vague)
+  accuracyCreditMeters: number;
+  // Pin inside the device's accuracy circle; null without a pin
+  pinConsistent: boolean | null;
+};
+
+export function isValidLatLng(value: unknown): value is LatLng {
+  const v = value as Partial<LatLng> | null;
+  return (
+    typeof v?.latitude === "number" &&
+    typeof v.longitude === "number" &&
+    Number.isFinite(v.latitude) &&
+    Number.isFinite(v.longitude) &&
+    Math.abs(v.latitude) <= 90 &&
+    Math.abs(v.longitude) <= 180
+  );
+}
+
+export function accuracyCredit(accuracyMeters: number | null, rules = PROXIMITY_RULES): number {
+  if (accuracyMeters == null || !Number.isFinite(accuracyMeters) || accuracyMeters < 0) return 0;
+  return accuracyMeters <= rules.maxAccuracyCreditMeters ? accuracyMeters : 0;
+}
+
+/**
+ * How far from the device fix a pin may be placed.
+ */
+export function pinRadius(accuracyMeters: number | null, rules = PROXIMITY_RULES): number {
+  const accuracy = accuracyMeters != null && Number.isFinite(accuracyMeters) ? accuracyMeters : 0;
+  return Math.max(rules.pinToleranceMeters, Math.min(accuracy, rules.maxPinRadiusMeters));
+}
+
+export function evaluateProximity(input: ProximityInput, rules = PROXIMITY_RULES): ProximityResult {
+  const credit = accuracyCredit(input.device.accuracyMeters, rules);
+  const deviceDistanceMeters = haversineMeters(input.device, input.business);
+  const deviceVerified = deviceDistanceMeters - credit <= input.thresholdMeters;
+
+  let pinDistanceMeters: number | null = null;
+  let pinConsistent: boolean | null = null;
+  let pinVerified = false;
+  if (input.pin) {
+    pinDistanceMeters = haversineMeters(input.pin, input.business);
+    pinConsistent = haversineMeters(input.pin, input.device) <= pinRadius(input.device.accuracyMeters, rules);
+    pinVerified = pinConsistent && pinDistanceMeters <= input.thresholdMeters;
+  }
+
+  const verifiedBy: ProximitySignal | null = deviceVerified ? "device" : pinVerified ? "pin" : null;
+  return {
+    verified: verifiedBy !== null,
+    verifiedBy,
+    deviceDistanceMeters,
+    pinDistanceMeters,
+    accuracyCreditMeters: credit,
+    pinConsistent,
+  };
+}
+
+export type LocationVerificationTag = "Location Verified" | "Failed Location Verification";
+
+/**
+ * The proximity tag stored with a complaint against a listed business. Fails without a
+ * usable device fix or business coordinates, and when the readings look spoofed
+ * (locationIntegrity.ts verdict "suspicious") whatever the distances say.
+ */
+export function locationVerificationTag(
+  input: Omit<ProximityInput, "business" | "device"> & {
+    business: LatLng | null;
+    device: (LatLng & { accuracyMeters: number | null }) | null;
+  },
+  suspicious: boolean,
+  rules = PROXIMITY_RULES,
+): LocationVerificationTag {
+  if (suspicious || !input.business || !isValidLatLng(input.device)) return "Failed Location Verification";
+  const result = evaluateProximity({ ...input, business: input.business, device: input.device }, rules);
+  return result.verified ? "Location Verified" : "Failed Location Verification";
+}
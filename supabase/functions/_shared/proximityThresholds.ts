@@ -0,0 +1,114 @@
+// Proximity threshold per business (pure, no I/O)
+//
+// How close a reporter has to be to count as "at the business" depends on what the
+// business is (a mall stall vs. a farm) and where it is (a dense city block vs. a
+// rural road). The threshold is always decided here, from the business row; values
+// sent by the browser are ignored.
+//
+// Resolution, first match wins:
+// 1) businesses.proximity_threshold_meters: set by staff for a specific business
+// 2) PROXIMITY_THRESHOLDS.categories[business_category], else the default,
+//    times densityFactors[business_area_density] (1 when unknown)
+// The result is kept within [minMeters, maxMeters].
+//
+// The category keys are also the choices the browser offers for an unlisted business
+// (src/complaints_module/businessCategories.ts imports this module).
+
+export type AreaDensity = "dense" | "urban" | "suburban" | "rural";
+
+export const AREA_DENSITIES: readonly AreaDensity[] = ["dense", "urban", "suburban", "rural"];
+
+export const PROXIMITY_THRESHOLDS = {
+  defaultMeters: 200,
+  minMeters: 50,
+  maxMeters: 2000,
+  // Base radius by business_category
+  categories: {
+    mall_stall: 75,
+    market_stall: 100,
+    food_stall: 100,
+    restaurant: 150,
+    retail_store: 150,
+    salon: 150,
+    clinic: 200,
+    gas_station: 200,
+    supermarket: 250,
+    hotel: 300,
+    school: 400,
+    hospital: 400,
+    factory: 600,
+    resort: 800,
+    farm: 1500,
+  } as Record<string, number>,
+  // GPS is worse between tall buildings and businesses are larger outside cities
+  densityFactors: { dense: 0.75, urban: 1, suburban: 1.5, rural: 2.5 } as Record<AreaDensity, number>,
+};
+
+export type ThresholdBusiness = {
+  business_category?: string | null;
+  business_area_density?: string | null;
+  proximity_threshold_meters?: number | null;
+};
+
+export type ProximityThreshold = {
+  meters: number;
+  source: "override" | "category" | "default";
+  category: string | null;
+  density: AreaDensity | null;
+  // Human-readable, e.g. "Category mall_stall: 75 m × 0.75 (dense area) = 56 m"
+  reason: string;
+};
+
+function isAreaDensity(value: unknown): value is AreaDensity {
+  return typeof value === "string" && (AREA_DENSITIES as readonly string[]).includes(value);
+}
+
+/**
+ * @param defaultMeters base for businesses without a known category (PROXIMITY_THRESHOLD_METERS)
+ */
+export function resolveProximityThreshold(
+  business: ThresholdBusiness,
+  defaultMeters: number = PROXIMITY_THRESHOLDS.defaultMeters,
+  rules = PROXIMITY_THRESHOLDS,
+): ProximityThreshold {
+  const clamp = (meters: number) => Math.min(rules.maxMeters, Math.max(rules.minMeters, Math.round(meters)));
+  const bounded = (meters: number, text: string) => {
+    const kept = clamp(meters);
+    return kept === Math.round(meters) ? text : `${text}, kept within ${rules.minMeters}–${rules.maxMeters} m: ${kept} m`;
+  };
+
+  const category = business.business_category?.trim().toLowerCase() || null;
+  const density = isAreaDensity(business.business_area_density) ? business.business_area_density : null;
+
+  const override = business.proximity_threshold_meters;
+  if (typeof override === "number" && Number.isFinite(override) && override > 0) {
+    return {
+      meters: clamp(override),
+      source: "override",
+      category,
+      density,
+      reason: bounded(override, `Set for this business: ${Math.round(override)} m`),
+    };
+  }
+
+  const categoryMeters = category != null ? rules.categories[category] : undefined;
+  const base = categoryMeters ?? defaultMeters;
+  const baseText =
+    categoryMeters != null
+      ? `Category ${category}: ${categoryMeters} m`
+      : category != null
+        ? `Default ${defaultMeters} m (no rule for category ${category})`
+        : `Default ${defaultMeters} m`;
+
+  const factor = density ? rules.densityFactors[density] : 1;
+  const meters = base * factor;
+  const text = factor === 1 ? baseText : `${baseText} × ${factor} (${density} area) = ${Math.round(meters)} m`;
+
+  return {
+    meters: clamp(meters),
+    source: categoryMeters != null ? "category" : "default",
+    category,
+    density,
+    reason: bounded(meters, text),
+  };
+}
@@ -0,0 +1,78 @@
+// Sliding-window rate limiting with exponential cooldown (pure, no I/O)
+//
+// Callers load recent request timestamps for a key (email, IP, ...) and ask
+// whether one more request is allowed now, and if not, when it will be.
+
+export type RateLimitConfig = {
+  // Requests allowed per window; values below 1 count as 1 rather than disabling the cap
+  maxPerWindow: number;
+  windowSeconds: number;
+  // Gap required after the n-th request in the window is base * 2^(n-1); 0 disables cooldown
+  baseCooldownSeconds: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  // 0 when allowed
+  retryAfterSeconds: number;
+};
+
+/**
+ * @param recent request timestamps for this key, any order (older ones are ignored)
+ */
+export function evaluateRateLimit(recent: Date[], config: RateLimitConfig, now: Date = new Date()): RateLimitDecision {
+  const nowMs = now.getTime();
+  const windowStart = nowMs - config.windowSeconds * 1000;
+
+  const inWindow = recent
+    .map((d) => d.getTime())
+    .filter((t) => Number.isFinite(t) && t > windowStart && t <= nowMs)
+    .sort((a, b) => a - b);
+
+  if (inWindow.length === 0) return { allowed: true, retryAfterSeconds: 0 };
+
+  let nextAllowedMs = nowMs;
+  const maxPerWindow = Math.max(1, Math.floor(config.maxPerWindow) || 1);
+
+  if (inWindow.length >= maxPerWindow) {
+    // Wait until enough old requests leave the window
+    const oldestToExpire = inWindow[inWindow.length - maxPerWindow];
+    nextAllowedMs = Math.max(nextAllowedMs, oldestToExpire + config.windowSeconds * 1000);
+  }
+
+  if (config.baseCooldownSeconds > 0) {
+    const latest = inWindow[inWindow.length - 1];
+    const cooldownMs = config.baseCooldownSeconds * 1000 * 2 ** (inWindow.length - 1);
+    nextAllowedMs = Math.max(nextAllowedMs, latest + cooldownMs);
+  }
+
+  const retryAfterSeconds = Math.ceil((nextAllowedMs - nowMs) / 1000);
+  return retryAfterSeconds > 0 ? { allowed: false, retryAfterSeconds } : { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Combine several limits (e.g. per email and per IP): the strictest one wins.
+ */
+export function strictestDecision(...decisions: RateLimitDecision[]): RateLimitDecision {
+  const retryAfterSeconds = Math.max(0, ...decisions.map((d) => d.retryAfterSeconds));
+  return { allowed: decisions.every((d) => d.allowed), retryAfterSeconds };
+}
+
+/**
+ * Client IP for per-IP limits. cf-connecting-ip is set by Cloudflare in front of the
+ * functions and replaces anything the client sent, so it is used when present.
+ * Otherwise x-forwarded-for: each proxy appends the address it received the request
+ * from, so only the entry added by the outermost of our own `trustedHops` proxies is
+ * reliable. Entries before it are whatever the client chose to send.
+ */
+export function getClientIp(req: Request, trustedHops = 1): string | null {
+  const platform = req.headers.get("cf-connecting-ip")?.trim();
+  if (platform) return platform;
+
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (trustedHops < 1 || hops.length < trustedHops) return null;
+  return hops[hops.length - trustedHops];
+}
@@ -0,0 +1,334 @@
+// Image redaction for Supabase Edge Functions (Deno)
+//
+// CPU-only detection and pixelation used by redact-complaint-media:
+// - Object detection runs pico cascades (Markus et al., "Object Detection with
+//   Pixel Intensity Comparisons Organized in Decision Trees"). A face cascade is
+//   the "facefinder" file from the pico repository; licence plates need a cascade
+//   trained the same way.
+// - Detected regions are padded and pixelated in place on the RGBA bitmap.
+// - redactImages fails closed: a complaint's redacted copies are only published when
+//   every image was decoded and run through the face detector. The plate detector is
+//   optional (pico ships no plate cascade); when it is missing every report entry
+//   says plates were not checked.
+//
+// Decoding / encoding the image file is left to the caller.
+
+export type RedactionKind = "face" | "plate";
+
+export type Region = {
+  kind: RedactionKind;
+  // Top-left corner and size, in pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+};
+
+// Stored per image in complaints.redaction_report
+export type RedactionReportEntry = {
+  index: number;
+  faces: number;
+  plates: number;
+  path: string | null;
+  // Detectors that were not configured, so that kind was not looked for
+  notChecked: RedactionKind[];
+  error: string | null;
+};
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row-major
+  data: Uint8Array | Uint8ClampedArray;
+};
+
+export type CascadeParams = {
+  minSize: number;
+  maxSize: number;
+  shiftFactor: number;
+  scaleFactor: number;
+  // Minimum summed cluster score to keep a detection
+  minScore: number;
+  iouThreshold: number;
+};
+
+export const DEFAULT_CASCADE_PARAMS: CascadeParams = {
+  minSize: 24,
+  maxSize: 1024,
+  shiftFactor: 0.1,
+  scaleFactor: 1.1,
+  minScore: 50,
+  iouThreshold: 0.2,
+};
+
+export type Detector = {
+  kind: RedactionKind;
+  detect: (gray: Uint8Array, width: number, height: number) => Region[];
+};
+
+type ClassifyRegion = (r: number, c: number, s: number, pixels: Uint8Array, ldim: number) => number;
+
+// Raw detection: row / column of the centre, square size, score
+type Detection = [number, number, number, number];
+
+export function toGrayscale(image: RgbaImage): Uint8Array {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    gray[i] = (2 * image.data[p] + 7 * image.data[p + 1] + image.data[p + 2]) / 10;
+  }
+  return gray;
+}
+
+/**
+ * Parse a pico cascade file into its region classifier.
+ */
+export function unpackCascade(bytes: Uint8Array): ClassifyRegion {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The first 8 bytes hold the training-window transform, unused at run time
+  let p = 8;
+  const tdepth = view.getInt32(p, true);
+  p += 4;
+  const ntrees = view.getInt32(p, true);
+  p += 4;
+
+  const leaves = 2 ** tdepth;
+  const tcodes = new Int8Array(ntrees * 4 * leaves);
+  const tpreds = new Float32Array(ntrees * leaves);
+  const thresh = new Float32Array(ntrees);
+
+  for (let t = 0; t < ntrees; t++) {
+    // Node 0 is unused; its four codes stay zero
+    const codes = 4 * leaves - 4;
+    tcodes.set(new Int8Array(bytes.buffer, bytes.byteOffset + p, codes), t * 4 * leaves + 4);
+    p += codes;
+    for (let i = 0; i < leaves; i++) {
+      tpreds[t * leaves + i] = view.getFloat32(p, true);
+      p += 4;
+    }
+    thresh[t] = view.getFloat32(p, true);
+    p += 4;
+  }
+
+  return (r, c, s, pixels, ldim) => {
+    r *= 256;
+    c *= 256;
+    let root = 0;
+    let o = 0;
+
+    for (let i = 0; i < ntrees; i++) {
+      let idx = 1;
+      for (let j = 0; j < tdepth; j++) {
+        const a = pixels[((r + tcodes[root + 4 * idx] * s) >> 8) * ldim + ((c + tcodes[root + 4 * idx + 1] * s) >> 8)];
+        const b = pixels[((r + tcodes[root + 4 * idx + 2] * s) >> 8) * ldim + ((c + tcodes[root + 4 * idx + 3] * s) >> 8)];
+        idx = 2 * idx + (a <= b ? 1 : 0);
+      }
+      o += tpreds[leaves * i + idx - leaves];
+      if (o <= thresh[i]) return -1;
+      root += 4 * leaves;
+    }
+    return o - thresh[ntrees - 1];
+  };
+}
+
+function runCascade(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  classify: ClassifyRegion,
+  params: CascadeParams,
+): Detection[] {
+  const detections: Detection[] = [];
+  const maxSize = Math.min(params.maxSize, width, height);
+
+  for (let scale = params.minSize; scale <= maxSize; scale *= params.scaleFactor) {
+    const step = Math.max(Math.floor(params.shiftFactor * scale), 1);
+    const offset = Math.floor(scale / 2 + 1);
+    for (let r = offset; r <= height - offset; r += step) {
+      for (let c = offset; c <= width - offset; c += step) {
+        const q = classify(r, c, scale, gray, width);
+        if (q > 0) detections.push([r, c, scale, q]);
+      }
+    }
+  }
+  return detections;
+}
+
+function iou(a: Detection, b: Detection): number {
+  const overR = Math.max(0, Math.min(a[0] + a[2] / 2, b[0] + b[2] / 2) - Math.max(a[0] - a[2] / 2, b[0] - b[2] / 2));
+  const overC = Math.max(0, Math.min(a[1] + a[2] / 2, b[1] + b[2] / 2) - Math.max(a[1] - a[2] / 2, b[1] - b[2] / 2));
+  const inter = overR * overC;
+  return inter / (a[2] * a[2] + b[2] * b[2] - inter);
+}
+
+/**
+ * Merge overlapping raw detections (strongest first), summing their scores.
+ */
+function clusterDetections(detections: Detection[], iouThreshold: number): Detection[] {
+  const sorted = [...detections].sort((a, b) => b[3] - a[3]);
+  const assigned = new Array<boolean>(sorted.length).fill(false);
+  const clusters: Detection[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (assigned[i]) continue;
+    let r = 0, c = 0, s = 0, q = 0, n = 0;
+    for (let j = i; j < sorted.length; j++) {
+      if (!assigned[j] && iou(sorted[i], sorted[j]) > iouThreshold) {
+        assigned[j] = true;
+        r += sorted[j][0];
+        c += sorted[j][1];
+        s += sorted[j][2];
+        q += sorted[j][3];
+        n++;
+      }
+    }
+    clusters.push([r / n, c / n, s / n, q]);
+  }
+  return clusters;
+}
+
+export function createCascadeDetector(
+  kind: RedactionKind,
+  cascade: Uint8Array,
+  params: CascadeParams = DEFAULT_CASCADE_PARAMS,
+): Detector {
+  const classify = unpackCascade(cascade);
+  return {
+    kind,
+    detect: (gray, width, height) =>
+      clusterDetections(runCascade(gray, width, height, classify, params), params.iouThreshold)
+        .filter(([, , , q]) => q >= params.minScore)
+        .map(([r, c, s, q]) => ({ kind, x: c - s / 2, y: r - s / 2, width: s, height: s, score: q })),
+  };
+}
+
+export function detectRegions(image: RgbaImage, detectors: Detector[]): Region[] {
+  if (detectors.length === 0) return [];
+  const gray = toGrayscale(image);
+  return detectors.flatMap((d) => d.detect(gray, image.width, image.height));
+}
+
+/**
+ * Pixelate each region (grown by `padding` of its size) in place.
+ * Blocks are sized so a face is at most ~8 blocks across.
+ */
+export function pixelateRegions(image: RgbaImage, regions: Region[], padding = 0.25): void {
+  const { width, height, data } = image;
+
+  for (const region of regions) {
+    const padX = region.width * padding;
+    const padY = region.height * padding;
+    const x0 = Math.max(0, Math.floor(region.x - padX));
+    const y0 = Math.max(0, Math.floor(region.y - padY));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width + padX));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height + padY));
+    const block = Math.max(4, Math.ceil(Math.max(x1 - x0, y1 - y0) / 8));
+
+    for (let by = y0; by < y1; by += block) {
+      for (let bx = x0; bx < x1; bx += block) {
+        const ex = Math.min(bx + block, x1);
+        const ey = Math.min(by + block, y1);
+        const sum = [0, 0, 0];
+        let n = 0;
+
+        for (let y = by; y < ey; y++) {
+          for (let x = bx; x < ex; x++) {
+            const p = (y * width + x) * 4;
+            sum[0] += data[p];
+            sum[1] += data[p + 1];
+            sum[2] += data[p + 2];
+            n++;
+          }
+        }
+
+        for (let y = by; y < ey; y++) {
+          for (let x = bx; x < ex; x++) {
+            const p = (y * width + x) * 4;
+            data[p] = sum[0] / n;
+            data[p + 1] = sum[1] / n;
+            data[p + 2] = sum[2] / n;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Map regions found on a downscaled copy back to the original image.
+ */
+export function scaleRegions(regions: Region[], factor: number): Region[] {
+  return regions.map((r) => ({
+    ...r,
+    x: r.x * factor,
+    y: r.y * factor,
+    width: r.width * factor,
+    height: r.height * factor,
+  }));
+}
+
+export const DETECTOR_KINDS: readonly RedactionKind[] = ["face", "plate"];
+
+// Nothing is published unless these ran
+export const REQUIRED_DETECTORS: readonly RedactionKind[] = ["face"];
+
+export function missingDetectors(detectors: Detector[]): RedactionKind[] {
+  return DETECTOR_KINDS.filter((kind) => !detectors.some((d) => d.kind === kind));
+}
+
+export type RedactedImage = { path: string; faces: number; plates: number };
+
+export type RedactionOutcome = {
+  status: "done" | "failed";
+  // Redacted copies to publish; empty unless every image succeeded
+  imagePaths: string[];
+  report: RedactionReportEntry[];
+  // Copies already written that must be deleted because the complaint failed
+  withdrawn: string[];
+};
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : "Redaction failed");
+
+/**
+ * Redact `count` images with `redactOne` (decode, detect, pixelate, upload) and decide
+ * what may be published. Any failure (no face detector, an undecodable file, a
+ * detector that throws) withholds every copy of the complaint, so staff and reporters
+ * never get a "redacted" image that was not checked.
+ */
+export async function redactImages(
+  count: number,
+  detectors: Detector[],
+  redactOne: (index: number, detectors: Detector[]) => Promise<RedactedImage>,
+): Promise<RedactionOutcome> {
+  const notChecked = missingDetectors(detectors);
+  const missingRequired = notChecked.filter((kind) => REQUIRED_DETECTORS.includes(kind));
+  const report: RedactionReportEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const base = { index, faces: 0, plates: 0, path: null, notChecked };
+    if (missingRequired.length > 0) {
+      report.push({ ...base, error: `No ${missingRequired.join(" / ")} detector configured` });
+      continue;
+    }
+    try {
+      report.push({ ...base, ...(await redactOne(index, detectors)), error: null });
+    } catch (e) {
+      report.push({ ...base, error: errorMessage(e) });
+    }
+  }
+
+  if (report.every((r) => !r.error)) {
+    return { status: "done", imagePaths: report.map((r) => r.path!), report, withdrawn: [] };
+  }
+
+  const failed = report.filter((r) => r.error).length;
+  return {
+    status: "failed",
+    imagePaths: [],
+    report: report.map((r) =>
+      r.error ? r : { ...r, path: null, error: `Withheld: ${failed} other image(s) could not be redacted` },
+    ),
+    withdrawn: report.flatMap((r) => (r.path ? [r.path] : [])),
+  };
+}
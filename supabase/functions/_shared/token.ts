@@ -1,5 +1,9 @@
 // Shared token utilities for Supabase Edge Functions (Deno)
 
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Generate a URL-safe random token.
  * Uses Web Crypto for strong randomness.
@@ -19,9 +23,45 @@ export function generateToken(byteLength = 32): string {
 export async function hashToken(token: string): Promise<string> {
   const data = new TextEncoder().encode(token);
   const digest = await crypto.subtle.digest('SHA-256', data);
-  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return toHex(digest);
 }
 
 export function nowPlusMinutes(minutes: number): Date {
   return new Date(Date.now() + minutes * 60_000);
 }
+
+/**
+ * HMAC-SHA256 signature (hex) of a value, for links that must not be forgeable
+ * (e.g. per-complaint unsubscribe links).
+ */
+export async function signValue(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return toHex(sig);
+}
+
+/**
+ * Constant-time string comparison for secrets and signatures (only the length leaks).
+ */
+export function timingSafeEqual(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Constant-time check of a signature produced by signValue.
+ */
+export async function verifySignedValue(value: string, signature: string, secret: string): Promise<boolean> {
+  return timingSafeEqual(await signValue(value, secret), signature);
+}
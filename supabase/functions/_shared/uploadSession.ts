@@ -0,0 +1,71 @@
+// Staged evidence uploads for Supabase Edge Functions (Deno)
+//
+// create-upload-session hands the browser one signed upload token per file, for
+// objects under staging/<uploadId>/ in the private evidence buckets: images in
+// complaint-originals, video clips (and their thumbnails) in complaint-videos,
+// audio recordings in complaint-audio. The browser uploads them with resumable (TUS)
+// uploads, then calls submit-complaint with the upload id, its ticket and the staged paths.
+//
+// The ticket binds the upload id to the verified reporter email so one reporter
+// cannot submit another's staged files.
+
+import { signValue, verifySignedValue } from "./token.ts";
+
+export const STAGING_PREFIX = "staging";
+
+export type StagedFile = {
+  path: string;
+  // Name of the file as the reporter picked it, for error messages
+  name: string;
+};
+
+export type StagedVideo = StagedFile & {
+  // JPEG poster frame, when the browser could extract one
+  thumbnailPath?: string | null;
+};
+
+export type UploadReference = {
+  id: string;
+  ticket: string;
+  // Images
+  files: StagedFile[];
+  videos?: StagedVideo[];
+  audio?: StagedFile[];
+};
+
+function ticketValue(uploadId: string, email: string): string {
+  return `upload:${uploadId}:${email.trim().toLowerCase()}`;
+}
+
+export function signUploadTicket(uploadId: string, email: string, secret: string): Promise<string> {
+  return signValue(ticketValue(uploadId, email), secret);
+}
+
+export function verifyUploadTicket(uploadId: string, email: string, ticket: string, secret: string): Promise<boolean> {
+  return verifySignedValue(ticketValue(uploadId, email), ticket, secret);
+}
+
+export function extensionFor(name: string, type: string): string {
+  const fromName = name.includes(".") ? name.split(".").pop() : "";
+  // Drop MIME parameters such as ";codecs=vp8,opus"
+  const mime = type.split(";")[0];
+  const fromType = mime.includes("/") ? mime.split("/").pop() : "";
+  const ext = (fromName || fromType || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  return ext ? `.${ext}` : "";
+}
+
+export function stagingPath(uploadId: string, index: number, name: string, type: string): string {
+  return `${STAGING_PREFIX}/${uploadId}/${index}${extensionFor(name, type)}`;
+}
+
+export function thumbnailStagingPath(uploadId: string, index: number): string {
+  return `${STAGING_PREFIX}/${uploadId}/${index}-thumb.jpg`;
+}
+
+/**
+ * True when `path` is a direct child of this upload's staging folder.
+ */
+export function isStagedPath(uploadId: string, path: string): boolean {
+  const prefix = `${STAGING_PREFIX}/${uploadId}/`;
+  return path.startsWith(prefix) && !path.slice(prefix.length).includes("/") && !path.includes("..");
+}
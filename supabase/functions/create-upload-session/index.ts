@@ -0,0 +1,180 @@
+// supabase/functions/create-upload-session/index.ts
+//
+// Starts a staged evidence upload (see _shared/uploadSession.ts).
+//
+// Request: POST JSON (each list in display order)
+//   { emailClaim,
+//     files:   [{ name, size, type }],                                  images
+//     videos?: [{ name, size, type, durationSeconds, thumbnail?: { size, type } }],
+//     audio?:  [{ name, size, type, durationSeconds }] }
+// Response: { uploadId, ticket,
+//             uploads:      [{ index, path, token }],
+//             videoUploads: [{ index, path, token, thumbnailPath, thumbnailToken }],
+//             audioUploads: [{ index, path, token }] }
+//
+// Each token is a signed upload token for `path` in the private bucket of its kind
+// (complaint-originals, complaint-videos, complaint-audio). The browser sends it as
+// x-signature to /storage/v1/upload/resumable/sign.
+//
+// Notes:
+// - Files are checked against COMPLAINT_RULES before any token is issued;
+//   submit-complaint checks the stored objects again.
+// - Durations are read by the browser; the server cannot decode media, so the size
+//   limit is what actually bounds a clip.
+// - A video thumbnail that is not a small JPEG gets no token and is simply skipped.
+// - Signed upload tokens are valid for two hours. Staged objects that are never
+//   submitted stay under staging/ until removed.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { COMPLAINT_RULES, validateImages, validateMedia } from "../_shared/complaintValidation.ts";
+import type { ImageDescriptor, MediaDescriptor } from "../_shared/complaintValidation.ts";
+import { verifyEmailClaim } from "../_shared/emailClaim.ts";
+import { signUploadTicket, stagingPath, thumbnailStagingPath } from "../_shared/uploadSession.ts";
+
+const ORIGINALS_BUCKET = "complaint-originals";
+const VIDEOS_BUCKET = "complaint-videos";
+const AUDIO_BUCKET = "complaint-audio";
+
+type VideoDescriptor = MediaDescriptor & { thumbnail?: { size: number; type: string } | null };
+
+type RequestBody = {
+  emailClaim?: string;
+  files?: ImageDescriptor[];
+  videos?: VideoDescriptor[];
+  audio?: MediaDescriptor[];
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    },
+  });
+}
+
+function toDescriptor(f: Partial<ImageDescriptor> | null): ImageDescriptor {
+  return { name: String(f?.name ?? ""), size: Number(f?.size) || 0, type: String(f?.type ?? "") };
+}
+
+function toMediaDescriptor(f: Partial<MediaDescriptor> | null): MediaDescriptor {
+  const duration = Number(f?.durationSeconds);
+  const known = f?.durationSeconds != null && Number.isFinite(duration);
+  return { ...toDescriptor(f), durationSeconds: known ? duration : null };
+}
+
+function acceptsThumbnail(
+  thumbnail: { size: number; type: string } | null | undefined,
+): thumbnail is { size: number; type: string } {
+  return (
+    !!thumbnail &&
+    thumbnail.type === "image/jpeg" &&
+    Number(thumbnail.size) > 0 &&
+    Number(thumbnail.size) <= COMPLAINT_RULES.videos.thumbnailMaxSize
+  );
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    });
+  }
+
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const files = (Array.isArray(body.files) ? body.files : []).map(toDescriptor);
+  const videos = (Array.isArray(body.videos) ? body.videos : []).map((v) => {
+    const thumbnail = v?.thumbnail;
+    return { ...toMediaDescriptor(v), thumbnail: acceptsThumbnail(thumbnail) ? thumbnail : null };
+  });
+  const audio = (Array.isArray(body.audio) ? body.audio : []).map(toMediaDescriptor);
+  if (files.length + videos.length + audio.length === 0) return json(400, { error: "No files to upload" });
+
+  const checks = [validateImages(files), validateMedia("videos", videos), validateMedia("audio", audio)];
+  const fieldErrors = checks.flatMap((c) => c.fieldErrors);
+  const fileErrors = checks.flatMap((c) => c.fileErrors);
+  if (fieldErrors.length > 0 || fileErrors.length > 0) {
+    return json(422, { error: "Validation failed", fieldErrors, fileErrors });
+  }
+
+  const claimSecret = Deno.env.get("EMAIL_CLAIM_SIGNING_SECRET");
+  if (!claimSecret) return json(500, { error: "Missing EMAIL_CLAIM_SIGNING_SECRET" });
+
+  const claim = body.emailClaim ? await verifyEmailClaim(body.emailClaim, claimSecret) : null;
+  if (!claim) {
+    return json(401, {
+      error: "Your email verification has expired. Please verify your email again.",
+      code: "email_unverified",
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const uploadId = crypto.randomUUID();
+
+  const signUpload = async (bucket: string, path: string): Promise<string> => {
+    const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+    if (error || !data) throw error ?? new Error("No upload token returned");
+    return data.token;
+  };
+
+  try {
+    const uploads = await Promise.all(
+      files.map(async (file, index) => {
+        const path = stagingPath(uploadId, index, file.name, file.type);
+        return { index, path, token: await signUpload(ORIGINALS_BUCKET, path) };
+      }),
+    );
+
+    const videoUploads = await Promise.all(
+      videos.map(async (video, index) => {
+        const path = stagingPath(uploadId, index, video.name, video.type);
+        const thumbnailPath = video.thumbnail ? thumbnailStagingPath(uploadId, index) : null;
+        return {
+          index,
+          path,
+          token: await signUpload(VIDEOS_BUCKET, path),
+          thumbnailPath,
+          thumbnailToken: thumbnailPath ? await signUpload(VIDEOS_BUCKET, thumbnailPath) : null,
+        };
+      }),
+    );
+
+    const audioUploads = await Promise.all(
+      audio.map(async (recording, index) => {
+        const path = stagingPath(uploadId, index, recording.name, recording.type);
+        return { index, path, token: await signUpload(AUDIO_BUCKET, path) };
+      }),
+    );
+
+    return json(200, {
+      uploadId,
+      ticket: await signUploadTicket(uploadId, claim.email, claimSecret),
+      uploads,
+      videoUploads,
+      audioUploads,
+    });
+  } catch (e) {
+    console.error("Creating upload tokens failed:", e);
+    return json(500, { error: "Could not prepare the upload. Please try again." });
+  }
+});
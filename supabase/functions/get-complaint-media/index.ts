@@ -0,0 +1,192 @@
+// supabase/functions/get-complaint-media/index.ts
+//
+// Issues short-lived signed URLs for a complaint's evidence. All buckets are private;
+// this is the only way to view evidence.
+//
+// Request: POST JSON { complaintId, emailClaim? }
+// - Staff (Authorization: Bearer <staff user JWT>): redacted copies and originals.
+// - Reporter: emailClaim from verify-email whose email matches the complaint; redacted copies only.
+// Response: { role, expiresInSeconds,
+//             images: [{ index, url, originalUrl? }],
+//             videos: [{ index, url, thumbnailUrl, durationSeconds }],
+//             audio:  [{ index, url, durationSeconds }] }
+//
+// Notes:
+// - MEDIA_SIGNED_URL_TTL_SECONDS (default 300) sets the link lifetime.
+// - url is null for images whose redacted copy is not available (yet).
+// - Video and audio are not redacted, so both roles get the recordings as submitted.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { verifyEmailClaim } from "../_shared/emailClaim.ts";
+
+const ORIGINALS_BUCKET = "complaint-originals";
+const REDACTED_BUCKET = "complaint-images";
+const VIDEOS_BUCKET = "complaint-videos";
+const AUDIO_BUCKET = "complaint-audio";
+const DEFAULT_TTL_SECONDS = 300;
+
+type RequestBody = {
+  complaintId?: string;
+  emailClaim?: string;
+};
+
+type RedactionReportEntry = { index: number; path: string | null };
+
+type MediaMetadata = {
+  kind: "video" | "audio";
+  index: number;
+  durationSeconds: number | null;
+  thumbnailPath: string | null;
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    },
+  });
+}
+
+async function isStaffRequest(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+  if (!jwt) return false;
+
+  // Anonymous calls carry the anon key, which resolves to no user
+  const { data: userData, error: userErr } = await supabase.auth.getUser(jwt);
+  if (userErr || !userData?.user) return false;
+
+  const { data: staff, error: staffErr } = await supabase
+    .from("staff_members")
+    .select("user_id")
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+
+  return !staffErr && !!staff;
+}
+
+async function signPaths(
+  supabase: SupabaseClient,
+  bucket: string,
+  paths: Array<string | null>,
+  ttl: number,
+): Promise<Array<string | null>> {
+  const present = paths.filter((p): p is string => !!p);
+  if (present.length === 0) return paths.map(() => null);
+
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrls(present, ttl);
+  if (error) throw error;
+
+  const byPath = new Map((data ?? []).map((d) => [d.path, d.signedUrl]));
+  return paths.map((p) => (p ? byPath.get(p) || null : null));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    });
+  }
+
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const complaintId = (body.complaintId || "").trim();
+  if (!complaintId) return json(400, { error: "Missing complaintId" });
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: complaint, error: complaintErr } = await supabase
+    .from("complaints")
+    .select("id,reporter_email,image_original_paths,image_paths,redaction_report,video_paths,audio_paths,media_metadata")
+    .eq("id", complaintId)
+    .maybeSingle();
+
+  if (complaintErr) return json(500, { error: "Complaint lookup failed" });
+
+  const isStaff = await isStaffRequest(supabase, req);
+
+  if (!isStaff) {
+    const claimSecret = Deno.env.get("EMAIL_CLAIM_SIGNING_SECRET");
+    if (!claimSecret) return json(500, { error: "Missing EMAIL_CLAIM_SIGNING_SECRET" });
+
+    const claim = body.emailClaim ? await verifyEmailClaim(body.emailClaim, claimSecret) : null;
+    if (!claim) {
+      return json(401, { error: "Please verify your email address to view these photos.", code: "email_unverified" });
+    }
+    // Same answer for unknown complaints and someone else's, so ids cannot be probed
+    if (!complaint || String(complaint.reporter_email).trim().toLowerCase() !== claim.email) {
+      return json(403, { error: "These photos belong to a different email address.", code: "not_reporter" });
+    }
+  }
+
+  if (!complaint) return json(404, { error: "Complaint not found" });
+
+  const ttlEnv = Number(Deno.env.get("MEDIA_SIGNED_URL_TTL_SECONDS"));
+  const ttl = Number.isFinite(ttlEnv) && ttlEnv > 0 ? ttlEnv : DEFAULT_TTL_SECONDS;
+
+  const originals: string[] = complaint.image_original_paths ?? [];
+  const report: RedactionReportEntry[] = complaint.redaction_report ?? [];
+
+  // Redacted copy per image; complaints from before redaction only have image_paths
+  const redactedPaths: Array<string | null> = originals.length > 0
+    ? originals.map((_, i) => report.find((r) => r.index === i)?.path ?? null)
+    : complaint.image_paths ?? [];
+
+  const videoPaths: string[] = complaint.video_paths ?? [];
+  const audioPaths: string[] = complaint.audio_paths ?? [];
+  const metadata: MediaMetadata[] = complaint.media_metadata ?? [];
+  const metadataFor = (kind: MediaMetadata["kind"], index: number) =>
+    metadata.find((m) => m.kind === kind && m.index === index) ?? null;
+
+  try {
+    const urls = await signPaths(supabase, REDACTED_BUCKET, redactedPaths, ttl);
+    const originalUrls = isStaff ? await signPaths(supabase, ORIGINALS_BUCKET, originals, ttl) : [];
+    const videoUrls = await signPaths(supabase, VIDEOS_BUCKET, videoPaths, ttl);
+    const thumbnailUrls = await signPaths(
+      supabase,
+      VIDEOS_BUCKET,
+      videoPaths.map((_, i) => metadataFor("video", i)?.thumbnailPath ?? null),
+      ttl,
+    );
+    const audioUrls = await signPaths(supabase, AUDIO_BUCKET, audioPaths, ttl);
+
+    return json(200, {
+      role: isStaff ? "staff" : "reporter",
+      expiresInSeconds: ttl,
+      images: urls.map((url, index) => (isStaff ? { index, url, originalUrl: originalUrls[index] ?? null } : { index, url })),
+      videos: videoUrls.map((url, index) => ({
+        index,
+        url,
+        thumbnailUrl: thumbnailUrls[index],
+        durationSeconds: metadataFor("video", index)?.durationSeconds ?? null,
+      })),
+      audio: audioUrls.map((url, index) => ({
+        index,
+        url,
+        durationSeconds: metadataFor("audio", index)?.durationSeconds ?? null,
+      })),
+    });
+  } catch (e) {
+    console.error("Signing media URLs failed:", e);
+    return json(500, { error: "Failed to load evidence" });
+  }
+});
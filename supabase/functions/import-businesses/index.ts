@@ -0,0 +1,209 @@
+// supabase/functions/import-businesses/index.ts
+//
+// Bulk import of a municipal business permit list into public.businesses.
+//
+// Request: POST JSON { format: "csv" | "json", content, commit?, acceptLines? }
+// - Admin staff only (Authorization: Bearer <staff user JWT>, staff_members.role = 'admin').
+// - Without commit (the default) nothing is written: the response is a dry-run report.
+// - commit: true inserts the rows reported "new", plus the "possible_duplicate" rows
+//   whose line is listed in acceptLines.
+// Response: { dryRun, summary, rows, inserted, geocoded, notGeocoded }
+//   rows: [{ line, name, address, category, permitNumber, coordinates, status, match, errors }]
+//
+// Notes:
+// - Matching and normalization live in _shared/businessImport.ts.
+// - Rows without coordinates are geocoded with the proximity geocoder (_shared/geocoder.ts),
+//   at most IMPORT_GEOCODE_LIMIT (default 100) per call. The rest are inserted without
+//   coordinates; verify-business-proximity geocodes them on first use.
+// - Nominatim allows one request per second, so geocoding through it is paced.
+// - A commit that fails part-way can be re-sent as is: rows already inserted are
+//   reported as duplicates the second time.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { IMPORT_FORMATS, parseImportFile, planImport, rowsToImport } from "../_shared/businessImport.ts";
+import type { ExistingBusiness, ImportFormat, ImportRow } from "../_shared/businessImport.ts";
+import { geocoderFromEnv } from "../_shared/geocoder.ts";
+import type { Coordinates, Geocoder } from "../_shared/geocoder.ts";
+
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+const DEFAULT_GEOCODE_LIMIT = 100;
+const NOMINATIM_DELAY_MS = 1000;
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+type RequestBody = {
+  format?: string;
+  content?: string;
+  commit?: boolean;
+  acceptLines?: number[];
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    },
+  });
+}
+
+async function isAdminRequest(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+  if (!jwt) return false;
+
+  const { data: userData, error: userErr } = await supabase.auth.getUser(jwt);
+  if (userErr || !userData?.user) return false;
+
+  const { data: staff, error: staffErr } = await supabase
+    .from("staff_members")
+    .select("role")
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+
+  return !staffErr && staff?.role === "admin";
+}
+
+async function loadExistingBusinesses(supabase: SupabaseClient): Promise<ExistingBusiness[]> {
+  const all: ExistingBusiness[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("businesses")
+      .select("business_pk,business_name,business_address,business_permit_number")
+      .neq("business_status", "merged")
+      .order("business_pk", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    all.push(...((data ?? []) as ExistingBusiness[]));
+    if (!data || data.length < PAGE_SIZE) return all;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Coordinates by line for rows that came without them, up to `limit` lookups
+async function geocodeRows(geocoder: Geocoder, rows: ImportRow[], limit: number): Promise<Map<number, Coordinates>> {
+  const found = new Map<number, Coordinates>();
+  const pending = rows.filter((r) => !r.coordinates).slice(0, limit);
+
+  for (const [i, row] of pending.entries()) {
+    if (geocoder.name === "nominatim" && i > 0) await sleep(NOMINATIM_DELAY_MS);
+    try {
+      const coords = await geocoder.geocode(row.address);
+      if (coords) found.set(row.line, coords);
+    } catch (e) {
+      console.error("import-businesses geocode error", geocoder.name, row.line, e);
+    }
+  }
+  return found;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    });
+  }
+
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const format = (body.format || "").toLowerCase() as ImportFormat;
+  if (!IMPORT_FORMATS.includes(format)) return json(400, { error: `format must be one of ${IMPORT_FORMATS.join(", ")}` });
+  if (typeof body.content !== "string" || body.content.trim() === "") return json(400, { error: "Missing content" });
+  if (body.content.length > MAX_CONTENT_LENGTH) return json(413, { error: "File is too large" });
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  if (!(await isAdminRequest(supabase, req))) return json(403, { error: "Only admin staff can import businesses" });
+
+  let records: ReturnType<typeof parseImportFile>;
+  try {
+    records = parseImportFile(body.content, format);
+  } catch (e) {
+    return json(400, { error: e instanceof Error ? e.message : "Unable to read the file" });
+  }
+
+  let existing: ExistingBusiness[];
+  try {
+    existing = await loadExistingBusinesses(supabase);
+  } catch (e) {
+    console.error("import-businesses existing lookup failed:", e);
+    return json(500, { error: "Failed to load existing businesses" });
+  }
+
+  const plan = planImport(records, existing);
+  if (body.commit !== true) {
+    return json(200, { dryRun: true, ...plan, inserted: 0, geocoded: 0, notGeocoded: 0 });
+  }
+
+  const acceptLines = Array.isArray(body.acceptLines) ? body.acceptLines.filter((n) => Number.isInteger(n)) : [];
+  const toInsert = rowsToImport(plan, acceptLines);
+
+  const limit = Number(Deno.env.get("IMPORT_GEOCODE_LIMIT") || DEFAULT_GEOCODE_LIMIT);
+  let geocoder: Geocoder | null = null;
+  try {
+    geocoder = geocoderFromEnv((name) => Deno.env.get(name));
+  } catch (e) {
+    // Misconfigured geocoder: import anyway, the rows are geocoded on first verification
+    console.error("import-businesses geocoder unavailable:", e);
+  }
+  const geocoded = geocoder
+    ? await geocodeRows(geocoder, toInsert, Number.isFinite(limit) && limit >= 0 ? limit : DEFAULT_GEOCODE_LIMIT)
+    : new Map<number, Coordinates>();
+
+  const now = new Date().toISOString();
+  const inserts = toInsert.map((row) => {
+    const coords = row.coordinates ?? geocoded.get(row.line) ?? null;
+    return {
+      business_name: row.name,
+      business_address: row.address,
+      business_category: row.category,
+      business_permit_number: row.permitNumber,
+      business_status: "active",
+      business_lat: coords?.lat ?? null,
+      business_lng: coords?.lng ?? null,
+      business_geocode_source: row.coordinates ? "import" : coords ? geocoder?.name ?? null : null,
+      business_geocoded_at: coords ? now : null,
+      business_imported_at: now,
+    };
+  });
+
+  let inserted = 0;
+  for (let i = 0; i < inserts.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from("businesses").insert(inserts.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) {
+      console.error("import-businesses insert failed:", error);
+      return json(500, { error: "Failed to insert businesses", inserted });
+    }
+    inserted += Math.min(INSERT_BATCH_SIZE, inserts.length - i);
+  }
+
+  const withoutCoordinates = inserts.filter((r) => r.business_lat == null).length;
+  return json(200, {
+    dryRun: false,
+    ...plan,
+    inserted,
+    geocoded: geocoded.size,
+    notGeocoded: withoutCoordinates,
+  });
+});
@@ -0,0 +1,187 @@
+// supabase/functions/notify-status-change/index.ts
+//
+// Emails the reporter whenever their complaint changes status.
+//
+// Triggered by public.complaints_notify_status_change (PHASE_7_STATUS_NOTIFICATIONS.sql),
+// which POSTs every new complaint_status_history row here via pg_net.
+//
+// Notes:
+// - Requests must carry x-webhook-secret = STATUS_WEBHOOK_SECRET.
+// - Each mail has a signed per-complaint unsubscribe link (STATUS_NOTIFICATION_SIGNING_SECRET).
+// - Deploy with --no-verify-jwt; pg_net calls carry the webhook secret, not a user JWT.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { sendMail } from "../_shared/smtp.ts";
+import { signValue, timingSafeEqual } from "../_shared/token.ts";
+
+type StatusHistoryRecord = {
+  complaint_id: string;
+  from_status: string | null;
+  to_status: string;
+  public_note: string | null;
+};
+
+type RequestBody = {
+  type?: string;
+  table?: string;
+  record?: StatusHistoryRecord;
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const webhookSecret = Deno.env.get("STATUS_WEBHOOK_SECRET");
+  if (!webhookSecret) return json(500, { error: "Missing STATUS_WEBHOOK_SECRET" });
+  if (!timingSafeEqual(webhookSecret, req.headers.get("x-webhook-secret") ?? "")) {
+    return json(401, { error: "Unauthorized" });
+  }
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const record = body.record;
+  if (!record?.complaint_id || !record.to_status) return json(400, { error: "Missing status change record" });
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const appBaseUrl = Deno.env.get("APP_BASE_URL");
+  if (!appBaseUrl) return json(500, { error: "Missing APP_BASE_URL" });
+
+  const signingSecret = Deno.env.get("STATUS_NOTIFICATION_SIGNING_SECRET");
+  if (!signingSecret) return json(500, { error: "Missing STATUS_NOTIFICATION_SIGNING_SECRET" });
+
+  const smtpUser = Deno.env.get("GMAIL_SMTP_USERNAME");
+  const smtpPass = Deno.env.get("GMAIL_SMTP_APP_PASSWORD");
+  const smtpFrom = Deno.env.get("GMAIL_SMTP_FROM") || smtpUser;
+  if (!smtpUser || !smtpPass || !smtpFrom) return json(500, { error: "Missing SMTP env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: complaint, error: complaintErr } = await supabase
+    .from("complaints")
+    .select("id,reporter_email,business_name,business_pk,status_notifications_opt_out")
+    .eq("id", record.complaint_id)
+    .maybeSingle();
+
+  if (complaintErr) return json(500, { error: "Complaint lookup failed" });
+  if (!complaint) return json(404, { error: "Complaint not found" });
+
+  if (complaint.status_notifications_opt_out) {
+    return json(200, { success: true, skipped: "opted_out" });
+  }
+
+  const complaintId = String(complaint.id);
+  const baseUrl = appBaseUrl.replace(/\/$/, "");
+  const trackingUrl = `${baseUrl}/tracking?id=${encodeURIComponent(complaintId)}`;
+  // Public profile (/businesses/:pk) with the complaint history of the business
+  const businessUrl = complaint.business_pk != null ? `${baseUrl}/businesses/${complaint.business_pk}` : null;
+  const signature = await signValue(complaintId, signingSecret);
+  const unsubscribeUrl =
+    `${baseUrl}/tracking/unsubscribe?id=${encodeURIComponent(complaintId)}&sig=${encodeURIComponent(signature)}`;
+
+  const brandName = "Inspekto";
+  const supportEmail = Deno.env.get("SUPPORT_EMAIL") || "support@inspekto.local";
+  const newStatus = escapeHtml(record.to_status);
+  const businessName = escapeHtml(String(complaint.business_name || "the business"));
+  const publicNote = record.public_note?.trim() ? escapeHtml(record.public_note.trim()) : null;
+
+  const subject = `Inspekto: Your complaint is now "${record.to_status}"`;
+
+  const html = `
+  <div style="margin:0;padding:0;background:#f5f7fb;">
+    <div style="max-width:640px;margin:0 auto;padding:28px 16px;">
+      <div style="background:#0b5bd3;background:linear-gradient(90deg,#2563eb,#1d4ed8,#1e40af);border-radius:14px 14px 0 0;padding:20px 22px;">
+        <div style="font-family:Arial,Helvetica,sans-serif;color:#ffffff;">
+          <div style="font-size:20px;font-weight:700;letter-spacing:-0.2px;">${brandName}</div>
+          <div style="margin-top:2px;font-size:13px;opacity:0.9;">Complaint Status Update</div>
+        </div>
+      </div>
+
+      <div style="background:#ffffff;border:1px solid #e7eefc;border-top:none;border-radius:0 0 14px 14px;padding:26px 22px;">
+        <div style="font-family:Arial,Helvetica,sans-serif;color:#0f172a;line-height:1.5;">
+          <h1 style="margin:0 0 10px 0;font-size:20px;font-weight:700;">Your complaint has been updated</h1>
+
+          <p style="margin:0 0 18px 0;font-size:14px;color:#334155;">
+            There is news on your complaint about <strong>${businessName}</strong>.
+          </p>
+
+          <div style="background:#f1f5f9;border-left:4px solid #2563eb;padding:14px 16px;margin:18px 0;border-radius:4px;">
+            <div style="font-size:12px;color:#64748b;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;margin-bottom:6px;">New Status</div>
+            <div style="font-size:18px;font-weight:700;color:#0f172a;">${newStatus}</div>
+            ${publicNote ? `<div style="margin-top:8px;font-size:13px;color:#334155;">${publicNote}</div>` : ""}
+          </div>
+
+          <div style="margin:18px 0 18px 0;">
+            <a href="${trackingUrl}"
+               style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;font-weight:700;font-size:14px;padding:12px 16px;border-radius:10px;">
+              View full timeline
+            </a>
+          </div>
+
+          <p style="margin:0 0 6px 0;font-size:13px;color:#475569;">
+            Complaint ID: <span style="font-family:'Courier New',monospace;">${complaintId}</span>
+          </p>
+          ${businessUrl ? `<p style="margin:0 0 6px 0;font-size:13px;color:#475569;">
+            See the <a href="${businessUrl}" style="color:#2563eb;text-decoration:none;">public record of ${businessName}</a>.
+          </p>` : ""}
+
+          <hr style="border:none;border-top:1px solid #e2e8f0;margin:18px 0;" />
+
+          <p style="margin:0;font-size:12px;color:#64748b;">
+            Don't want these updates? <a href="${unsubscribeUrl}" style="color:#2563eb;text-decoration:none;">Stop emails for this complaint</a>
+          </p>
+          <p style="margin:8px 0 0 0;font-size:12px;color:#64748b;">
+            Need help? Contact <a href="mailto:${supportEmail}" style="color:#2563eb;text-decoration:none;">${supportEmail}</a>
+          </p>
+        </div>
+      </div>
+
+      <div style="font-family:Arial,Helvetica,sans-serif;text-align:center;color:#94a3b8;font-size:11px;margin-top:12px;">
+        <div>${brandName}</div>
+        <div style="margin-top:4px;">Transparency through accountability</div>
+      </div>
+    </div>
+  </div>
+  `;
+
+  try {
+    await sendMail(
+      {
+        hostname: "smtp.gmail.com",
+        port: 465,
+        username: smtpUser,
+        password: smtpPass,
+        from: smtpFrom,
+      },
+      String(complaint.reporter_email),
+      subject,
+      html,
+    );
+  } catch (e) {
+    console.error("Failed to send status update email:", e);
+    return json(500, { error: "Failed to send status update email" });
+  }
+
+  return json(200, { success: true });
+});
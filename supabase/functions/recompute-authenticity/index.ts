@@ -0,0 +1,91 @@
+// supabase/functions/recompute-authenticity/index.ts
+//
+// Re-scores complaints whose authenticity_version is older than
+// AUTHENTICITY_SCORING_VERSION, using the signals stored at submission.
+//
+// Request: POST, optional JSON { limit?: number } (default 200, max 1000)
+// Response: { success, version, recomputed, remaining }
+//
+// Notes:
+// - Requests must carry x-admin-secret = AUTHENTICITY_ADMIN_SECRET.
+// - Complaints submitted before scoring existed have no stored signals and are skipped.
+// - Call repeatedly until remaining is 0.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { AUTHENTICITY_SCORING_VERSION, scoreAuthenticity } from "../_shared/authenticity.ts";
+import type { AuthenticitySignals } from "../_shared/authenticity.ts";
+import { timingSafeEqual } from "../_shared/token.ts";
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const adminSecret = Deno.env.get("AUTHENTICITY_ADMIN_SECRET");
+  if (!adminSecret) return json(500, { error: "Missing AUTHENTICITY_ADMIN_SECRET" });
+  if (!timingSafeEqual(adminSecret, req.headers.get("x-admin-secret") ?? "")) {
+    return json(401, { error: "Unauthorized" });
+  }
+
+  let limit = 200;
+  try {
+    const body = (await req.json()) as { limit?: number };
+    if (typeof body.limit === "number" && body.limit > 0) limit = Math.min(Math.floor(body.limit), 1000);
+  } catch {
+    // Empty body: use the default batch size
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: rows, error } = await supabase
+    .from("complaints")
+    .select("id,tags,authenticity_signals")
+    .lt("authenticity_version", AUTHENTICITY_SCORING_VERSION)
+    .not("authenticity_signals", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Outdated complaint lookup failed:", error);
+    return json(500, { error: "Failed to load complaints" });
+  }
+
+  let recomputed = 0;
+  for (const row of rows ?? []) {
+    const result = scoreAuthenticity(row.authenticity_signals as AuthenticitySignals, row.tags ?? []);
+
+    const { error: updateErr } = await supabase
+      .from("complaints")
+      .update({
+        authenticity_level: result.score,
+        authenticity_tier: result.tier,
+        authenticity_version: result.version,
+        authenticity_breakdown: result.breakdown,
+        authenticity_scored_at: new Date().toISOString(),
+      })
+      .eq("id", row.id);
+
+    if (updateErr) {
+      console.error(`Failed to re-score complaint ${row.id}:`, updateErr);
+      continue;
+    }
+    recomputed++;
+  }
+
+  const { count } = await supabase
+    .from("complaints")
+    .select("id", { count: "exact", head: true })
+    .lt("authenticity_version", AUTHENTICITY_SCORING_VERSION)
+    .not("authenticity_signals", "is", null);
+
+  return json(200, { success: true, version: AUTHENTICITY_SCORING_VERSION, recomputed, remaining: count ?? 0 });
+});
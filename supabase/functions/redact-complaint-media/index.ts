@@ -0,0 +1,208 @@
+// supabase/functions/redact-complaint-media/index.ts
+//
+// Produces the redacted copy of every image of a complaint.
+//
+// submit-complaint stores originals in the private complaint-originals bucket and
+// sets redaction_status = 'pending'; public.complaints_request_redaction
+// (PHASE_13_MEDIA_REDACTION.sql) then POSTs the complaint id here via pg_net.
+//
+// For each original: decode, detect faces and licence plates on a downscaled copy,
+// pixelate them, re-encode as JPEG (which also drops EXIF) and upload to the
+// complaint-images bucket.
+// image_paths only ever lists redacted files. Both buckets are private; images are
+// viewed through signed URLs from get-complaint-media.
+//
+// Redaction fails closed: if any image of a complaint cannot be decoded or run through
+// the face detector, no redacted copy of that complaint is published (copies already
+// uploaded are deleted), redaction_status is 'failed' and the report says why per image.
+//
+// Notes:
+// - Requests must carry x-webhook-secret = REDACTION_WEBHOOK_SECRET.
+// - FACE_CASCADE_URL (required): the pico "facefinder" cascade (rnt/cascades/facefinder
+//   in the pico repository). Without it every complaint is 'failed'.
+// - PLATE_CASCADE_URL (optional): a pico cascade for licence plates. pico does not ship
+//   one; train it with the repository's learner (gen/picolrn) on square crops centred
+//   on plates and host the output file. Until it is set plates are not blurred and
+//   every redaction_report entry lists "plate" under notChecked.
+// - Images that cannot be decoded (e.g. WebP) stay private; the complaint is marked 'failed'.
+// - Deploy with --no-verify-jwt; pg_net calls carry the webhook secret, not a user JWT.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { Image } from "https://deno.land/x/imagescript@1.2.15/mod.ts";
+import {
+  createCascadeDetector,
+  detectRegions,
+  missingDetectors,
+  pixelateRegions,
+  redactImages,
+  scaleRegions,
+} from "../_shared/redaction.ts";
+import type { Detector, RedactedImage } from "../_shared/redaction.ts";
+import { timingSafeEqual } from "../_shared/token.ts";
+
+const ORIGINALS_BUCKET = "complaint-originals";
+const REDACTED_BUCKET = "complaint-images";
+
+// Detection runs on a copy no larger than this on its longest side
+const DETECTION_MAX_SIDE = 640;
+
+type RequestBody = {
+  record?: { id?: string };
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const cascadeCache = new Map<string, Uint8Array>();
+
+async function loadCascade(url: string): Promise<Uint8Array> {
+  const cached = cascadeCache.get(url);
+  if (cached) return cached;
+
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Cascade download failed (${res.status}): ${url}`);
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  cascadeCache.set(url, bytes);
+  return bytes;
+}
+
+/**
+ * The configured detectors; redactImages decides what a missing one means.
+ */
+async function loadDetectors(): Promise<Detector[]> {
+  const detectors: Detector[] = [];
+
+  const faceUrl = Deno.env.get("FACE_CASCADE_URL");
+  if (faceUrl) detectors.push(createCascadeDetector("face", await loadCascade(faceUrl)));
+
+  const plateUrl = Deno.env.get("PLATE_CASCADE_URL");
+  if (plateUrl) detectors.push(createCascadeDetector("plate", await loadCascade(plateUrl)));
+
+  return detectors;
+}
+
+async function redactImage(bytes: Uint8Array, detectors: Detector[]) {
+  let image: Image;
+  try {
+    image = await Image.decode(bytes);
+  } catch (e) {
+    throw new Error(`Could not decode image: ${e instanceof Error ? e.message : "unsupported format"}`);
+  }
+
+  const factor = Math.max(1, Math.max(image.width, image.height) / DETECTION_MAX_SIDE);
+  const small = factor > 1
+    ? image.clone().resize(Math.round(image.width / factor), Math.round(image.height / factor))
+    : image;
+
+  const regions = scaleRegions(
+    detectRegions({ width: small.width, height: small.height, data: small.bitmap }, detectors),
+    factor,
+  );
+  pixelateRegions({ width: image.width, height: image.height, data: image.bitmap }, regions);
+
+  return {
+    jpeg: await image.encodeJPEG(85),
+    faces: regions.filter((r) => r.kind === "face").length,
+    plates: regions.filter((r) => r.kind === "plate").length,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const webhookSecret = Deno.env.get("REDACTION_WEBHOOK_SECRET");
+  if (!webhookSecret) return json(500, { error: "Missing REDACTION_WEBHOOK_SECRET" });
+  if (!timingSafeEqual(webhookSecret, req.headers.get("x-webhook-secret") ?? "")) {
+    return json(401, { error: "Unauthorized" });
+  }
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const complaintId = body.record?.id;
+  if (!complaintId) return json(400, { error: "Missing complaint id" });
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: complaint, error: complaintErr } = await supabase
+    .from("complaints")
+    .select("id,image_original_paths")
+    .eq("id", complaintId)
+    .maybeSingle();
+
+  if (complaintErr) return json(500, { error: "Complaint lookup failed" });
+  if (!complaint) return json(404, { error: "Complaint not found" });
+
+  let detectors: Detector[];
+  try {
+    detectors = await loadDetectors();
+  } catch (e) {
+    console.error("Redaction detectors unavailable:", e);
+    await supabase.from("complaints").update({ redaction_status: "failed" }).eq("id", complaintId);
+    return json(500, { error: "Redaction detectors unavailable" });
+  }
+
+  const paths: string[] = complaint.image_original_paths ?? [];
+
+  const redactOne = async (index: number, active: Detector[]): Promise<RedactedImage> => {
+    const path = paths[index];
+    try {
+      const { data: file, error: downloadErr } = await supabase.storage.from(ORIGINALS_BUCKET).download(path);
+      if (downloadErr || !file) throw downloadErr ?? new Error("Original not found");
+
+      const result = await redactImage(new Uint8Array(await file.arrayBuffer()), active);
+
+      const redactedPath = `${complaintId}/${index}-redacted.jpg`;
+      const { error: uploadErr } = await supabase.storage.from(REDACTED_BUCKET).upload(redactedPath, result.jpeg, {
+        upsert: true,
+        contentType: "image/jpeg",
+      });
+      if (uploadErr) throw uploadErr;
+
+      return { path: redactedPath, faces: result.faces, plates: result.plates };
+    } catch (e) {
+      console.error(`Redaction failed for ${path}:`, e);
+      throw e;
+    }
+  };
+
+  const notChecked = missingDetectors(detectors);
+  if (notChecked.length > 0) console.warn(`Redaction without a ${notChecked.join(" / ")} detector`);
+
+  const outcome = await redactImages(paths.length, detectors, redactOne);
+
+  if (outcome.withdrawn.length > 0) {
+    const { error: removeErr } = await supabase.storage.from(REDACTED_BUCKET).remove(outcome.withdrawn);
+    if (removeErr) console.error("Failed to remove withheld redacted copies:", removeErr);
+  }
+
+  const { error: updateErr } = await supabase
+    .from("complaints")
+    .update({
+      image_paths: outcome.imagePaths,
+      redaction_status: outcome.status,
+      redaction_report: outcome.report,
+      redacted_at: new Date().toISOString(),
+    })
+    .eq("id", complaintId);
+
+  if (updateErr) {
+    console.error("Failed to save redaction result:", updateErr);
+    return json(500, { error: "Failed to save redaction result" });
+  }
+
+  const failed = outcome.report.filter((r) => r.error).length;
+  return json(200, { success: true, redacted: outcome.imagePaths.length, failed });
+});
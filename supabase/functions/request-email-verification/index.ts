@@ -1,23 +1,38 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import { generateToken, hashToken, nowPlusMinutes } from "../_shared/token.ts";
 import { sendMail } from "../_shared/smtp.ts";
+import { evaluateRateLimit, getClientIp, strictestDecision } from "../_shared/rateLimit.ts";
+import type { RateLimitConfig } from "../_shared/rateLimit.ts";
 
 type RequestBody = {
   email: string;
   complaintId?: string;
 };
 
-function json(status: number, body: unknown) {
+function json(status: number, body: unknown, extraHeaders: Record<string, string> = {}) {
   return new Response(JSON.stringify(body), {
     status,
     headers: {
       "Content-Type": "application/json",
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+      "Access-Control-Expose-Headers": "Retry-After",
+      ...extraHeaders,
     },
   });
 }
 
+// Unset, blank or out-of-range settings use the fallback (Number("") is 0, which as a
+// cap would switch throttling off). Only the cooldown may be 0, which disables it.
+function envNumber(name: string, fallback: number, min = 1): number {
+  const raw = Deno.env.get(name)?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+
 function isValidEmail(email: string): boolean {
   return /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/.test(email);
 }
@@ -60,12 +75,60 @@ Deno.serve(async (req) => {
 
   const tokenTtlMinutes = Number(Deno.env.get("EMAIL_TOKEN_TTL_MINUTES") || "30");
 
+  // Throttling: every token row counts as one request (sent or not).
+  const emailLimit: RateLimitConfig = {
+    maxPerWindow: envNumber("EMAIL_VERIFICATION_MAX_PER_EMAIL_PER_HOUR", 5),
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+    baseCooldownSeconds: envNumber("EMAIL_VERIFICATION_COOLDOWN_SECONDS", 30, 0),
+  };
+  // No cooldown per IP: many reporters can share one (mobile carriers, offices).
+  const ipLimit: RateLimitConfig = {
+    maxPerWindow: envNumber("EMAIL_VERIFICATION_MAX_PER_IP_PER_HOUR", 20),
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+    baseCooldownSeconds: 0,
+  };
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // Proxies between the platform edge and this function that append to x-forwarded-for
+  const requesterIp = getClientIp(req, envNumber("TRUSTED_PROXY_HOPS", 1));
+  const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_SECONDS * 1000).toISOString();
+
+  const { data: emailRows, error: emailRowsErr } = await supabase
+    .from("email_verification_tokens")
+    .select("created_at")
+    .eq("email", email)
+    .gte("created_at", windowStart);
+
+  const { data: ipRows, error: ipRowsErr } = requesterIp
+    ? await supabase
+      .from("email_verification_tokens")
+      .select("created_at")
+      .eq("requester_ip", requesterIp)
+      .gte("created_at", windowStart)
+    : { data: [], error: null };
+
+  if (emailRowsErr || ipRowsErr) return json(500, { error: "Rate limit lookup failed" });
+
+  const emailTimes = (emailRows ?? []).map((r) => new Date(r.created_at));
+  const ipTimes = (ipRows ?? []).map((r) => new Date(r.created_at));
+
+  const decision = strictestDecision(evaluateRateLimit(emailTimes, emailLimit), evaluateRateLimit(ipTimes, ipLimit));
+  if (!decision.allowed) {
+    return json(
+      429,
+      {
+        error: "Too many verification requests. Please wait before trying again.",
+        retryAfterSeconds: decision.retryAfterSeconds,
+      },
+      { "Retry-After": String(decision.retryAfterSeconds) },
+    );
+  }
+
   const token = generateToken(32);
   const tokenHash = await hashToken(token);
   const expiresAt = nowPlusMinutes(tokenTtlMinutes);
 
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
-
   // Store token hash
   const { error: insertErr } = await supabase
     .from("email_verification_tokens")
@@ -74,12 +137,20 @@ Deno.serve(async (req) => {
       complaint_id: body.complaintId ?? null,
       token_hash: tokenHash,
       expires_at: expiresAt.toISOString(),
+      requester_ip: requesterIp,
     });
 
   if (insertErr) {
     return json(500, { error: "Failed to create token" });
   }
 
+  // When the UI may offer "resend", counting the request just recorded
+  const now = new Date();
+  const next = strictestDecision(
+    evaluateRateLimit([...emailTimes, now], emailLimit, now),
+    evaluateRateLimit([...ipTimes, now], ipLimit, now),
+  );
+
   const verifyUrl = `${appBaseUrl.replace(/\/$/, "")}/verify-email?token=${encodeURIComponent(token)}`;
 
   const subject = "Inspekto: Verify your email to submit a complaint";
@@ -157,8 +228,8 @@ Deno.serve(async (req) => {
     );
   } catch (_e) {
     // Token is already stored; client can retry sending.
-    return json(500, { error: "Failed to send email" });
+    return json(500, { error: "Failed to send email", retryAfterSeconds: next.retryAfterSeconds });
   }
 
-  return json(200, { success: true });
+  return json(200, { success: true, retryAfterSeconds: next.retryAfterSeconds });
 });
@@ -0,0 +1,843 @@
+// supabase/functions/submit-complaint/index.ts
+//
+// Creates a complaint and stores its evidence (images, video clips, audio) as one unit.
+//
+// Request: POST JSON
+// - payload:    ComplaintFormData without images / emailClaim
+// - emailClaim: signed claim from verify-email; must match payload.reporterEmail
+// - upload:     { id, ticket, files: [{ path, name }], videos?: [{ path, name, thumbnailPath }],
+//               audio?: [{ path, name }] } from create-upload-session, each list in
+//               display order; omitted when there is no evidence
+//
+// The browser uploads evidence beforehand (resumable, to staging/<id>/ in the private
+// complaint-originals / complaint-videos / complaint-audio buckets). Either the
+// complaint row exists with every file copied to its final path, or nothing does: any
+// copy / update failure removes the copies and deletes the row, leaving the staged
+// files for a retry. Failed files are reported individually in fileErrors.
+//
+// Video and audio are not downloaded: their stored size and type are checked. The
+// durations the browser read (videoDurations / audioDurations) are only advisory: they
+// are checked against COMPLAINT_RULES and stored as reported, but nothing here can
+// confirm them, so size is the enforced limit. They land in video_paths / audio_paths, with size, type, duration
+// and the video thumbnail in media_metadata (PHASE_15_VIDEO_AUDIO_EVIDENCE.sql).
+// They are not redacted; only staff and the reporter can view them (get-complaint-media).
+//
+// Originals are kept at <complaint id>/... in complaint-originals (image_original_paths).
+// image_paths stays empty until redact-complaint-media has stored blurred copies;
+// setting redaction_status = 'pending' triggers it (PHASE_13_MEDIA_REDACTION.sql).
+//
+// authenticity_level / authenticity_tier come from _shared/authenticity.ts, scored
+// against the tags the insert triggers assigned; the signals and per-signal breakdown
+// are stored with the complaint.
+//
+// The location readings taken on the location step go through _shared/locationIntegrity.ts;
+// readings and verdict are stored (location_samples / location_integrity), the verdict
+// feeds the score, and a suspicious one adds the "Suspicious Location" tag.
+//
+// "Location Verified" / "Failed Location Verification" is decided here with the same
+// rules as verify-business-proximity (_shared/proximity.ts, threshold from the business
+// row); the tag the browser received from that check is ignored.
+//
+// "Business not listed" (payload.newBusiness instead of businessPk): the business is
+// added as a pending row (PHASE_21_PENDING_BUSINESSES.sql) and the complaint attached to
+// it with the "Unlisted Business" tag; a rollback removes that row as well.
+//
+// Each image's EXIF (capture time, GPS, camera, software) is read before upload and
+// compared with the reporter and business locations (_shared/photoProvenance.ts);
+// the per-photo result goes to photo_metadata and the resulting tags feed the score.
+//
+// The complaint category and the answers to its follow-up questions are stored as
+// complaint_category / complaint_details (_shared/complaintCategories.ts); answers that
+// describe an ongoing danger add the "Urgent" tag.
+//
+// payload.submissionId (a UUID the browser generates per report) is stored as
+// submission_id. A request repeating one that already created a complaint for the same
+// email, e.g. an outbox replay whose first response was lost, gets that complaint's id
+// back and its staged files are discarded (PHASE_25_SUBMISSION_IDEMPOTENCY.sql).
+//
+// Once stored, the complaint is checked against recent ones (_shared/duplicates.ts):
+// it may join an incident cluster and/or get the "Possible Duplicate" tag.
+// Detection failures are logged and never fail the submission.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { baseMimeType, validateSubmission } from "../_shared/complaintValidation.ts";
+import { categoryTags, sanitizeCategoryDetails } from "../_shared/complaintCategories.ts";
+import { verifyEmailClaim } from "../_shared/emailClaim.ts";
+import { scoreAuthenticity } from "../_shared/authenticity.ts";
+import type { AuthenticitySignals } from "../_shared/authenticity.ts";
+import { readPhotoMetadata } from "../_shared/exif.ts";
+import { analyzePhoto, summarizeProvenance } from "../_shared/photoProvenance.ts";
+import { DEFAULT_DUPLICATE_CONFIG, POSSIBLE_DUPLICATE_TAG, detectDuplicates } from "../_shared/duplicates.ts";
+import type { DuplicateConfig, DuplicateSubject } from "../_shared/duplicates.ts";
+import { boundingBox, haversineMeters } from "../_shared/geo.ts";
+import type { LatLng } from "../_shared/geo.ts";
+import { isValidLatLng, locationVerificationTag } from "../_shared/proximity.ts";
+import {
+  LOCATION_INTEGRITY_TAG,
+  assessLocationIntegrity,
+  ipLocationFromHeaders,
+  sanitizeSamples,
+} from "../_shared/locationIntegrity.ts";
+import { PROXIMITY_THRESHOLDS, resolveProximityThreshold } from "../_shared/proximityThresholds.ts";
+import type { ProximityThreshold } from "../_shared/proximityThresholds.ts";
+import type {
+  EvidenceKind,
+  FileError,
+  MediaDescriptor,
+  MediaKind,
+  SubmissionFields,
+} from "../_shared/complaintValidation.ts";
+import { STAGING_PREFIX, extensionFor, isStagedPath, verifyUploadTicket } from "../_shared/uploadSession.ts";
+import type { StagedFile, UploadReference } from "../_shared/uploadSession.ts";
+
+const ORIGINALS_BUCKET = "complaint-originals";
+const VIDEOS_BUCKET = "complaint-videos";
+const AUDIO_BUCKET = "complaint-audio";
+
+// One entry of complaints.media_metadata
+type MediaMetadata = {
+  kind: "video" | "audio";
+  // Position in video_paths / audio_paths
+  index: number;
+  contentType: string;
+  sizeBytes: number;
+  // As reported by the browser; not verified
+  durationSeconds: number | null;
+  thumbnailPath: string | null;
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    },
+  });
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getDuplicateConfig(): DuplicateConfig {
+  return {
+    ...DEFAULT_DUPLICATE_CONFIG,
+    windowHours: envNumber("DUPLICATE_WINDOW_HOURS", DEFAULT_DUPLICATE_CONFIG.windowHours),
+    radiusMeters: envNumber("DUPLICATE_RADIUS_METERS", DEFAULT_DUPLICATE_CONFIG.radiusMeters),
+    similarText: envNumber("DUPLICATE_TEXT_SIMILARITY", DEFAULT_DUPLICATE_CONFIG.similarText),
+  };
+}
+
+const UNLISTED_BUSINESS_TAG = "Unlisted Business";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The complaint an earlier request with this submission id created, if any.
+ * Scoped to the reporter so an id cannot be used to look up someone else's complaint.
+ */
+async function findSubmission(supabase: SupabaseClient, submissionId: string, email: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("complaints")
+    .select("id")
+    .eq("submission_id", submissionId)
+    .eq("reporter_email", email)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id ? String(data.id) : null;
+}
+
+/**
+ * Best-effort removal of a request's staged uploads once they are no longer needed.
+ */
+async function removeStagedUploads(supabase: SupabaseClient, upload: UploadReference | undefined): Promise<void> {
+  if (!upload) return;
+  const stagedByBucket: Array<[string, string[]]> = [
+    [ORIGINALS_BUCKET, upload.files.map((f) => f.path)],
+    [VIDEOS_BUCKET, (upload.videos ?? []).flatMap((v) => (v.thumbnailPath ? [v.path, v.thumbnailPath] : [v.path]))],
+    [AUDIO_BUCKET, (upload.audio ?? []).map((f) => f.path)],
+  ];
+  for (const [bucket, paths] of stagedByBucket) {
+    if (paths.length === 0) continue;
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) console.error("Failed to remove staged uploads:", error);
+  }
+}
+
+/**
+ * Adds the business the reporter could not find as a pending row for staff to approve
+ * or merge (Phase 21). Coordinates are left to the geocoder; the reporter's pin is kept
+ * as proposed_lat / proposed_lng.
+ */
+async function createPendingBusiness(supabase: SupabaseClient, fields: SubmissionFields): Promise<number> {
+  const proposed = fields.newBusiness?.location;
+  const category = fields.newBusiness?.category?.trim().toLowerCase() || null;
+
+  const { data, error } = await supabase
+    .from("businesses")
+    .insert({
+      business_name: fields.businessName!.trim(),
+      business_address: fields.businessAddress!.trim(),
+      business_category: category && category in PROXIMITY_THRESHOLDS.categories ? category : null,
+      business_status: "pending",
+      proposed_lat: isValidLatLng(proposed) ? proposed.latitude : null,
+      proposed_lng: isValidLatLng(proposed) ? proposed.longitude : null,
+      proposed_at: new Date().toISOString(),
+    })
+    .select("business_pk")
+    .single();
+
+  if (error || typeof data?.business_pk !== "number") throw error ?? new Error("No business_pk returned");
+  return data.business_pk;
+}
+
+type BusinessLocation = { coords: LatLng | null; threshold: ProximityThreshold };
+
+/**
+ * Business coordinates resolved earlier by verify-business-proximity, if any, and the
+ * proximity threshold that applies to the business.
+ */
+async function loadBusinessLocation(
+  supabase: SupabaseClient,
+  fields: SubmissionFields,
+  defaultThresholdMeters: number,
+): Promise<BusinessLocation> {
+  if (fields.businessPk == null) {
+    return { coords: null, threshold: resolveProximityThreshold({}, defaultThresholdMeters) };
+  }
+
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("business_lat,business_lng,business_category,business_area_density,proximity_threshold_meters")
+    .eq("business_pk", fields.businessPk)
+    .maybeSingle();
+
+  if (error) throw error;
+  const threshold = resolveProximityThreshold(data ?? {}, defaultThresholdMeters);
+  if (typeof data?.business_lat !== "number" || typeof data?.business_lng !== "number") {
+    return { coords: null, threshold };
+  }
+
+  return { coords: { latitude: data.business_lat, longitude: data.business_lng }, threshold };
+}
+
+async function loadReporterHistory(
+  supabase: SupabaseClient,
+  email: string,
+): Promise<AuthenticitySignals["reporterHistory"]> {
+  const { data, error } = await supabase.from("complaints").select("status").eq("reporter_email", email).limit(1000);
+  if (error) throw error;
+
+  const statuses = (data ?? []).map((row) => row.status);
+  return {
+    priorComplaints: statuses.length,
+    resolved: statuses.filter((s) => s === "Resolved").length,
+    dismissed: statuses.filter((s) => s === "Dismissed").length,
+  };
+}
+
+const DUPLICATE_COLUMNS =
+  "id,business_pk,reporter_email,reporter_lat,reporter_lng,complaint_description,created_at,incident_id";
+
+/**
+ * Link the new complaint to an incident and/or tag it as a possible duplicate.
+ */
+async function applyDuplicateDetection(
+  supabase: SupabaseClient,
+  subject: DuplicateSubject & { id: string },
+  tags: string[],
+): Promise<void> {
+  const config = getDuplicateConfig();
+  const since = new Date(new Date(subject.created_at).getTime() - config.windowHours * 3600_000).toISOString();
+
+  // Coarse SQL filters, one query per scope so no value is spliced into a filter
+  // string; detectDuplicates applies the exact rules.
+  const recent = () =>
+    supabase
+      .from("complaints")
+      .select(DUPLICATE_COLUMNS)
+      .neq("id", subject.id)
+      .gte("created_at", since);
+
+  const scopes = [recent().eq("reporter_email", subject.reporter_email)];
+  if (subject.business_pk != null) scopes.push(recent().eq("business_pk", subject.business_pk));
+  if (subject.reporter_lat != null && subject.reporter_lng != null) {
+    const box = boundingBox({ latitude: subject.reporter_lat, longitude: subject.reporter_lng }, config.radiusMeters);
+    scopes.push(
+      recent()
+        .gte("reporter_lat", box.minLat)
+        .lte("reporter_lat", box.maxLat)
+        .gte("reporter_lng", box.minLng)
+        .lte("reporter_lng", box.maxLng),
+    );
+  }
+
+  const results = await Promise.all(scopes.map((scope) => scope.order("created_at", { ascending: false }).limit(200)));
+  const failed = results.find((r) => r.error);
+  if (failed) throw failed.error;
+
+  // A complaint can match several scopes
+  const byId = new Map<string, DuplicateSubject & { id: string }>();
+  for (const { data } of results) {
+    for (const row of (data ?? []) as Array<DuplicateSubject & { id: string }>) byId.set(String(row.id), row);
+  }
+  const candidates = [...byId.values()]
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+    .slice(0, 200);
+
+  const decision = detectDuplicates(subject, candidates, config);
+  if (decision.matches.length === 0) return;
+
+  let incidentId: string | null = null;
+  if (decision.linkTo) {
+    incidentId = decision.linkTo.incidentId;
+
+    if (!incidentId) {
+      const { data: incident, error: incidentErr } = await supabase
+        .from("complaint_incidents")
+        .insert({ business_pk: subject.business_pk })
+        .select("id")
+        .single();
+      if (incidentErr) throw incidentErr;
+      incidentId = String(incident.id);
+
+      const { error: linkErr } = await supabase
+        .from("complaints")
+        .update({ incident_id: incidentId })
+        .eq("id", decision.linkTo.complaintId)
+        .is("incident_id", null);
+      if (linkErr) throw linkErr;
+    }
+  }
+
+  const { error: updateErr } = await supabase
+    .from("complaints")
+    .update({
+      incident_id: incidentId,
+      tags: decision.possibleDuplicate && !tags.includes(POSSIBLE_DUPLICATE_TAG) ? [...tags, POSSIBLE_DUPLICATE_TAG] : tags,
+      duplicate_candidates: decision.matches.map((m) => ({
+        complaint_id: m.complaintId,
+        reasons: m.reasons,
+        text_similarity: Math.round(m.textSimilarity * 100) / 100,
+        distance_meters: m.distanceMeters != null ? Math.round(m.distanceMeters) : null,
+      })),
+    })
+    .eq("id", subject.id);
+
+  if (updateErr) throw updateErr;
+}
+
+/**
+ * Download the staged uploads; files that never finished uploading are reported.
+ */
+async function loadStagedFiles(
+  supabase: SupabaseClient,
+  upload: UploadReference,
+): Promise<{ files: File[]; fileErrors: FileError[] }> {
+  const fileErrors: FileError[] = [];
+  const files = await Promise.all(
+    upload.files.map(async (staged, index) => {
+      const { data, error } = await supabase.storage.from(ORIGINALS_BUCKET).download(staged.path);
+      if (error || !data) {
+        fileErrors.push({ kind: "images", index, fileName: staged.name, message: "Upload did not finish. Please retry" });
+        return null;
+      }
+      return new File([data], staged.name, { type: data.type });
+    }),
+  );
+
+  return { files: files.filter((f): f is File => f !== null), fileErrors };
+}
+
+type StagedMedia = {
+  videos: MediaDescriptor[];
+  audio: MediaDescriptor[];
+  // Staged thumbnail per video, null when there is none
+  thumbnails: Array<string | null>;
+  fileErrors: FileError[];
+};
+
+/**
+ * Stored size and type of the staged clips. Clips can be large, so the staging folder
+ * is listed instead of downloading them. Thumbnails that never arrived are dropped.
+ */
+async function describeStagedMedia(
+  supabase: SupabaseClient,
+  upload: UploadReference,
+  fields: SubmissionFields,
+): Promise<StagedMedia> {
+  const listStaged = async (bucket: string, staged: StagedFile[]) => {
+    if (staged.length === 0) return new Map<string, Record<string, unknown>>();
+    const { data, error } = await supabase.storage.from(bucket).list(`${STAGING_PREFIX}/${upload.id}`, { limit: 100 });
+    if (error) throw error;
+    return new Map((data ?? []).map((o) => [`${STAGING_PREFIX}/${upload.id}/${o.name}`, o.metadata ?? {}]));
+  };
+
+  const stagedVideos = upload.videos ?? [];
+  const stagedAudio = upload.audio ?? [];
+  const [videoObjects, audioObjects] = await Promise.all([
+    listStaged(VIDEOS_BUCKET, stagedVideos),
+    listStaged(AUDIO_BUCKET, stagedAudio),
+  ]);
+
+  const fileErrors: FileError[] = [];
+  const describe = (
+    kind: MediaKind,
+    staged: StagedFile[],
+    objects: Map<string, Record<string, unknown>>,
+    durations: Array<number | null> | undefined,
+  ): MediaDescriptor[] =>
+    staged.flatMap((file, index) => {
+      const meta = objects.get(file.path);
+      if (!meta) {
+        fileErrors.push({ kind, index, fileName: file.name, message: "Upload did not finish. Please retry" });
+        return [];
+      }
+      const duration = durations?.[index];
+      return [{
+        name: file.name,
+        size: Number(meta.size) || 0,
+        type: String(meta.mimetype ?? ""),
+        durationSeconds: typeof duration === "number" && Number.isFinite(duration) ? duration : null,
+      }];
+    });
+
+  return {
+    videos: describe("videos", stagedVideos, videoObjects, fields.videoDurations),
+    audio: describe("audio", stagedAudio, audioObjects, fields.audioDurations),
+    thumbnails: stagedVideos.map((v) =>
+      v.thumbnailPath && videoObjects.has(v.thumbnailPath) ? v.thumbnailPath : null
+    ),
+    fileErrors,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+type RequestBody = {
+  payload?: SubmissionFields;
+  emailClaim?: string;
+  upload?: UploadReference;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    });
+  }
+
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+  if (!isObject(body) || (body.payload != null && !isObject(body.payload))) {
+    return json(400, { error: "Invalid request body" });
+  }
+
+  const fields: SubmissionFields = body.payload ?? {};
+  const emailClaim = body.emailClaim ?? "";
+  const upload = body.upload;
+
+  if (upload) {
+    const lists = [upload.files, upload.videos ?? [], upload.audio ?? []];
+    if (!upload.id || !lists.every(Array.isArray)) return json(400, { error: "Invalid upload reference" });
+
+    const paths = [
+      ...lists.flat().map((f) => String(f?.path)),
+      ...(upload.videos ?? []).flatMap((v) => (v?.thumbnailPath ? [String(v.thumbnailPath)] : [])),
+    ];
+    if (paths.some((path) => !isStagedPath(upload.id, path))) return json(400, { error: "Invalid upload reference" });
+  }
+
+  const claimSecret = Deno.env.get("EMAIL_CLAIM_SIGNING_SECRET");
+  if (!claimSecret) return json(500, { error: "Missing EMAIL_CLAIM_SIGNING_SECRET" });
+
+  const claim = emailClaim ? await verifyEmailClaim(emailClaim, claimSecret) : null;
+  if (!claim) {
+    return json(401, {
+      error: "Your email verification has expired. Please verify your email again.",
+      code: "email_unverified",
+    });
+  }
+  if (claim.email !== (fields.reporterEmail || "").trim().toLowerCase()) {
+    return json(403, {
+      error: "The complaint email must match your verified email address.",
+      code: "email_mismatch",
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  if (upload && !(await verifyUploadTicket(upload.id, claim.email, upload.ticket || "", claimSecret))) {
+    return json(403, {
+      error: "These uploads belong to a different session. Please upload your files again.",
+      code: "upload_session_invalid",
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const submissionId = typeof fields.submissionId === "string" && UUID_PATTERN.test(fields.submissionId)
+    ? fields.submissionId.toLowerCase()
+    : null;
+  if (submissionId) {
+    let existingId: string | null = null;
+    try {
+      existingId = await findSubmission(supabase, submissionId, claim.email);
+    } catch (e) {
+      console.error("Submission lookup failed:", e);
+      return json(500, { error: "Failed to create complaint" });
+    }
+    if (existingId) {
+      await removeStagedUploads(supabase, upload);
+      return json(200, { success: true, complaintId: existingId });
+    }
+  }
+
+  let files: File[] = [];
+  let media: StagedMedia = { videos: [], audio: [], thumbnails: [], fileErrors: [] };
+  if (upload) {
+    const staged = await loadStagedFiles(supabase, upload);
+    try {
+      media = await describeStagedMedia(supabase, upload, fields);
+    } catch (e) {
+      console.error("Listing staged media failed:", e);
+      return json(500, { error: "Could not read your uploads. Please try again." });
+    }
+
+    const missing = [...staged.fileErrors, ...media.fileErrors];
+    if (missing.length > 0) {
+      return json(422, { error: "Some files were not uploaded. Please retry.", fileErrors: missing });
+    }
+    files = staged.files;
+  }
+
+  const { fieldErrors, fileErrors } = validateSubmission(fields, files, { videos: media.videos, audio: media.audio });
+  if (fieldErrors.length > 0 || fileErrors.length > 0) {
+    return json(422, { error: "Validation failed", fieldErrors, fileErrors });
+  }
+
+  const submittedAt = Date.now();
+
+  // Validated above, so name and address are present
+  let pendingBusinessPk: number | null = null;
+  if (fields.businessPk == null && fields.newBusiness) {
+    try {
+      pendingBusinessPk = await createPendingBusiness(supabase, fields);
+    } catch (e) {
+      console.error("Pending business insert failed:", e);
+      return json(500, { error: "Failed to add the business. Please try again." });
+    }
+    // From here on the complaint belongs to the pending business
+    fields.businessPk = pendingBusinessPk;
+  }
+
+  const discardPendingBusiness = async () => {
+    if (pendingBusinessPk == null) return;
+    const { error } = await supabase.from("businesses").delete().eq("business_pk", pendingBusinessPk);
+    if (error) console.error("Rollback: failed to delete pending business:", error);
+  };
+
+  // Scoring inputs that need lookups; a failed lookup only drops that signal
+  const defaultThresholdMeters = envNumber("PROXIMITY_THRESHOLD_METERS", PROXIMITY_THRESHOLDS.defaultMeters);
+  const [business, reporterHistory] = await Promise.all([
+    loadBusinessLocation(supabase, fields, defaultThresholdMeters).catch((e): BusinessLocation => {
+      console.error("Business coordinates lookup failed:", e);
+      return { coords: null, threshold: resolveProximityThreshold({}, defaultThresholdMeters) };
+    }),
+    loadReporterHistory(supabase, claim.email).catch((e) => {
+      console.error("Reporter history lookup failed:", e);
+      return { priorComplaints: 0, resolved: 0, dismissed: 0 };
+    }),
+  ]);
+  const businessCoords = business.coords;
+
+  // Ignored rather than rejected when malformed; it only informs review
+  const pinnedLocation = isValidLatLng(fields.pinnedLocation) ? fields.pinnedLocation : null;
+
+  // Clients that predate multi-reading capture (e.g. an old outbox entry) send none: "insufficient"
+  const locationSamples = sanitizeSamples(fields.locationSamples);
+  const locationIntegrity =
+    fields.location || locationSamples.length > 0
+      ? assessLocationIntegrity(locationSamples, ipLocationFromHeaders(req.headers))
+      : null;
+
+  const reporterCoords = fields.location
+    ? { latitude: fields.location.latitude, longitude: fields.location.longitude }
+    : null;
+
+  // Worked out here from the business row and the readings; the tag the browser showed
+  // the reporter is not trusted. A business added with the complaint has no coordinates yet.
+  const locationTag =
+    pendingBusinessPk == null && fields.businessPk != null
+      ? locationVerificationTag(
+        {
+          business: businessCoords,
+          device: reporterCoords ? { ...reporterCoords, accuracyMeters: fields.location?.accuracy ?? null } : null,
+          pin: pinnedLocation,
+          thresholdMeters: business.threshold.meters,
+        },
+        locationIntegrity?.verdict === "suspicious",
+      )
+      : null;
+
+  const provenance = summarizeProvenance(
+    await Promise.all(
+      files.map(async (file, index) =>
+        analyzePhoto(
+          index,
+          readPhotoMetadata(new Uint8Array(await file.arrayBuffer())),
+          fields.imageSources?.[index] === "camera" ? "camera" : "upload",
+          { reporter: reporterCoords, business: businessCoords, submittedAt },
+        )
+      ),
+    ),
+  );
+
+  const signals: AuthenticitySignals = {
+    proximityMeters: reporterCoords && businessCoords ? haversineMeters(reporterCoords, businessCoords) : null,
+    proximityThresholdMeters: business.threshold.meters,
+    gpsAccuracyMeters: fields.location?.accuracy ?? null,
+    locationTimestamp: fields.location?.timestamp ?? null,
+    locationIntegrity: locationIntegrity
+      ? { verdict: locationIntegrity.verdict, failed: locationIntegrity.failed }
+      : undefined,
+    submittedAt,
+    emailVerified: true,
+    // EXIF capture time, else the file's lastModified from the browser
+    photoTimestamps: files.map((_, i) => {
+      const t = provenance.photos[i].capturedAt ?? fields.imageLastModified?.[i];
+      return typeof t === "number" && Number.isFinite(t) ? t : null;
+    }),
+    photoTags: provenance.tags,
+    certificationAccepted: fields.certificationAccepted ?? false,
+    reporterHistory,
+  };
+
+  // Validated above: a known category or none
+  const complaintCategory = fields.complaintCategory || null;
+  const complaintDetails = sanitizeCategoryDetails(complaintCategory, fields.categoryDetails);
+
+  // 1) Complaint row (no images yet) to get a stable id for object paths
+  const { data: inserted, error: insertErr } = await supabase
+    .from("complaints")
+    .insert({
+      business_name: fields.businessName,
+      business_address: fields.businessAddress,
+      complaint_description: fields.complaintDescription,
+      complaint_category: complaintCategory,
+      complaint_details: complaintDetails,
+      reporter_email: claim.email,
+      submission_id: submissionId,
+      image_paths: [],
+
+      // Verified by the signed claim above, not by anything the browser says
+      email_verified: true,
+      email_verified_at: new Date(claim.iat * 1000).toISOString(),
+
+      tags: [
+        ...(locationTag ? [locationTag] : []),
+        ...(locationIntegrity?.verdict === "suspicious" ? [LOCATION_INTEGRITY_TAG] : []),
+        ...(pendingBusinessPk != null ? [UNLISTED_BUSINESS_TAG] : []),
+        ...categoryTags(complaintCategory, complaintDetails),
+        ...provenance.tags,
+      ],
+      status: "Submitted",
+
+      business_pk: fields.businessPk ?? null,
+      reporter_lat: fields.location?.latitude ?? null,
+      reporter_lng: fields.location?.longitude ?? null,
+      reporter_accuracy: fields.location?.accuracy ?? null,
+      reporter_location_timestamp: fields.location?.timestamp
+        ? new Date(fields.location.timestamp).toISOString()
+        : null,
+      reporter_pin_lat: pinnedLocation?.latitude ?? null,
+      reporter_pin_lng: pinnedLocation?.longitude ?? null,
+      location_samples: locationSamples,
+      location_integrity: locationIntegrity,
+
+      certification_accepted: fields.certificationAccepted ?? false,
+      certification_accepted_at: fields.certificationAccepted ? new Date().toISOString() : null,
+    })
+    .select("id,created_at,tags")
+    .single();
+
+  if (insertErr || !inserted?.id) {
+    // Lost a race with a concurrent request carrying the same submission id
+    if (submissionId && insertErr?.code === "23505") {
+      const existingId = await findSubmission(supabase, submissionId, claim.email).catch(() => null);
+      if (existingId) {
+        await discardPendingBusiness();
+        await removeStagedUploads(supabase, upload);
+        return json(200, { success: true, complaintId: existingId });
+      }
+    }
+    console.error("Complaint insert failed:", insertErr);
+    await discardPendingBusiness();
+    return json(500, { error: "Failed to create complaint" });
+  }
+
+  const complaintId = String(inserted.id);
+  // Includes any tags the insert triggers added (spam rules)
+  const tags: string[] = Array.isArray(inserted.tags) ? inserted.tags : [];
+  const copied: Array<{ bucket: string; path: string }> = [];
+
+  const rollback = async () => {
+    for (const bucket of new Set(copied.map((c) => c.bucket))) {
+      const paths = copied.filter((c) => c.bucket === bucket).map((c) => c.path);
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) console.error("Rollback: failed to remove uploads:", error);
+    }
+    const { error } = await supabase.from("complaints").delete().eq("id", complaintId);
+    if (error) console.error("Rollback: failed to delete complaint:", error);
+    await discardPendingBusiness();
+  };
+
+  const copyToComplaint = async (bucket: string, stagedPath: string, ext: string): Promise<string> => {
+    const objectPath = `${complaintId}/${Date.now()}-${crypto.randomUUID()}${ext}`;
+    const { error } = await supabase.storage.from(bucket).copy(stagedPath, objectPath);
+    if (error) throw error;
+    copied.push({ bucket, path: objectPath });
+    return objectPath;
+  };
+
+  // 2) Copy every staged file under the complaint; keep going so the response lists all failures
+  const uploadErrors: FileError[] = [];
+  const stagedFiles = upload?.files ?? [];
+  const stagedVideos = upload?.videos ?? [];
+  const stagedAudio = upload?.audio ?? [];
+  const uploadedPaths: string[] = [];
+  const videoPaths: string[] = [];
+  const audioPaths: string[] = [];
+  const mediaMetadata: MediaMetadata[] = [];
+
+  const copyFailed = (kind: EvidenceKind, index: number, fileName: string, e: unknown) =>
+    uploadErrors.push({ kind, index, fileName, message: (e as { message?: string })?.message || "Upload failed" });
+
+  for (const [index, file] of files.entries()) {
+    try {
+      uploadedPaths.push(
+        await copyToComplaint(ORIGINALS_BUCKET, stagedFiles[index].path, extensionFor(file.name, file.type)),
+      );
+    } catch (e) {
+      copyFailed("images", index, file.name, e);
+    }
+  }
+
+  for (const [index, video] of media.videos.entries()) {
+    try {
+      const path = await copyToComplaint(VIDEOS_BUCKET, stagedVideos[index].path, extensionFor(video.name, video.type));
+      const thumbnail = media.thumbnails[index];
+      let thumbnailPath: string | null = null;
+      try {
+        if (thumbnail) thumbnailPath = await copyToComplaint(VIDEOS_BUCKET, thumbnail, ".jpg");
+      } catch (e) {
+        // The clip is the evidence; a thumbnail that cannot be copied is left out
+        console.error("Thumbnail copy failed:", e);
+      }
+
+      videoPaths.push(path);
+      mediaMetadata.push({
+        kind: "video",
+        index,
+        contentType: baseMimeType(video.type),
+        sizeBytes: video.size,
+        durationSeconds: video.durationSeconds,
+        thumbnailPath,
+      });
+    } catch (e) {
+      copyFailed("videos", index, video.name, e);
+    }
+  }
+
+  for (const [index, recording] of media.audio.entries()) {
+    try {
+      audioPaths.push(
+        await copyToComplaint(AUDIO_BUCKET, stagedAudio[index].path, extensionFor(recording.name, recording.type)),
+      );
+      mediaMetadata.push({
+        kind: "audio",
+        index,
+        contentType: baseMimeType(recording.type),
+        sizeBytes: recording.size,
+        durationSeconds: recording.durationSeconds,
+        thumbnailPath: null,
+      });
+    } catch (e) {
+      copyFailed("audio", index, recording.name, e);
+    }
+  }
+
+  if (uploadErrors.length > 0) {
+    await rollback();
+    return json(500, { error: "Some files could not be saved. Nothing was saved.", fileErrors: uploadErrors });
+  }
+
+  // 3) Persist original paths and the authenticity score
+  const authenticity = scoreAuthenticity(signals, tags);
+  const { error: updateErr } = await supabase
+    .from("complaints")
+    .update({
+      image_original_paths: uploadedPaths,
+      redaction_status: uploadedPaths.length > 0 ? "pending" : "none",
+      video_paths: videoPaths,
+      audio_paths: audioPaths,
+      media_metadata: mediaMetadata,
+      photo_metadata: provenance.photos,
+      authenticity_level: authenticity.score,
+      authenticity_tier: authenticity.tier,
+      authenticity_version: authenticity.version,
+      authenticity_signals: signals,
+      authenticity_breakdown: authenticity.breakdown,
+      authenticity_scored_at: new Date(submittedAt).toISOString(),
+    })
+    .eq("id", complaintId);
+
+  if (updateErr) {
+    console.error("Failed to persist evidence / score:", updateErr);
+    await rollback();
+    return json(500, { error: "Failed to save evidence. Nothing was saved." });
+  }
+
+  // Staged copies are no longer needed
+  await removeStagedUploads(supabase, upload);
+
+  // 4) Duplicate / incident detection (best effort)
+  try {
+    await applyDuplicateDetection(
+      supabase,
+      {
+        id: complaintId,
+        business_pk: fields.businessPk ?? null,
+        reporter_email: claim.email,
+        reporter_lat: fields.location?.latitude ?? null,
+        reporter_lng: fields.location?.longitude ?? null,
+        complaint_description: fields.complaintDescription || "",
+        created_at: String(inserted.created_at),
+      },
+      tags,
+    );
+  } catch (e) {
+    console.error("Duplicate detection failed:", e);
+  }
+
+  return json(200, { success: true, complaintId });
+});
@@ -0,0 +1,74 @@
+// supabase/functions/unsubscribe-status-updates/index.ts
+//
+// Opts a single complaint out of status update emails.
+// The link in each notify-status-change mail carries an HMAC of the complaint id,
+// so only the mail recipient can unsubscribe.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { verifySignedValue } from "../_shared/token.ts";
+
+type RequestBody = {
+  complaintId: string;
+  signature: string;
+};
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    });
+  }
+
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON" });
+  }
+
+  const complaintId = (body.complaintId || "").trim();
+  const signature = (body.signature || "").trim().toLowerCase();
+  if (!complaintId || !signature) return json(400, { error: "Missing complaint ID or signature" });
+
+  const signingSecret = Deno.env.get("STATUS_NOTIFICATION_SIGNING_SECRET");
+  if (!signingSecret) return json(500, { error: "Missing STATUS_NOTIFICATION_SIGNING_SECRET" });
+
+  if (!(await verifySignedValue(complaintId, signature, signingSecret))) {
+    return json(403, { error: "Invalid unsubscribe link" });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // Idempotent: keep the first opt-out timestamp.
+  const { error: updErr } = await supabase
+    .from("complaints")
+    .update({ status_notifications_opt_out: true, status_notifications_opt_out_at: new Date().toISOString() })
+    .eq("id", complaintId)
+    .eq("status_notifications_opt_out", false);
+
+  if (updErr) return json(500, { error: "Failed to update preferences" });
+
+  return json(200, { success: true, complaintId });
+});
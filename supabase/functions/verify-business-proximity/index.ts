@@ -3,53 +3,71 @@
 // Phase: Location-Based Authenticity (Business proximity via address geocoding)
 //
 // Responsibility:
-// - Load business address from public.businesses by business_pk
-// - Geocode address via Google Geocoding API (server-side; key not exposed to client)
-// - Compute distance from reporter device coordinates
-// - Return tag + distance + resolved business coords
+// - Load business address (and any stored coordinates) from public.businesses by business_pk
+// - Reuse stored business_lat/business_lng, or geocode the address (server-side) and store them
+// - Compare the reporter's device fix (with its accuracy radius) and map pin with the
+//   business location (_shared/proximity.ts)
+// - Return tag + distances + which signal verified + resolved business coords
 //
 // Notes:
 // - Uses SUPABASE_SERVICE_ROLE_KEY so it can read businesses regardless of RLS.
-// - Requires GOOGLE_MAPS_API_KEY set in Edge Function environment variables.
+// - The geocoder is chosen by GEOCODER_PROVIDER (google | nominatim | fixture); see
+//   _shared/geocoder.ts. Stored coordinates are cleared when business_address changes
+//   (Phase 16), so the next verification geocodes the new address.
+// - The threshold comes from the business row (_shared/proximityThresholds.ts, Phase 18);
+//   a threshold_meters sent by the client is ignored. PROXIMITY_THRESHOLD_METERS sets the
+//   default for businesses without a category rule.
+// - When the location readings look spoofed (_shared/locationIntegrity.ts), neither
+//   signal verifies; the verdict and its checks are returned.
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { geocoderFromEnv, storedCoordinates } from '../_shared/geocoder.ts';
+import type { GeocoderName } from '../_shared/geocoder.ts';
+import { evaluateProximity, isValidLatLng } from '../_shared/proximity.ts';
+import type { ProximitySignal } from '../_shared/proximity.ts';
+import { resolveProximityThreshold } from '../_shared/proximityThresholds.ts';
+import { assessLocationIntegrity, ipLocationFromHeaders, sanitizeSamples } from '../_shared/locationIntegrity.ts';
+import type { LocationIntegrity } from '../_shared/locationIntegrity.ts';
+import type { ProximityThreshold } from '../_shared/proximityThresholds.ts';
 
 type VerifyRequest = {
   business_pk: number;
   reporter_lat: number;
   reporter_lng: number;
-  threshold_meters?: number;
+  // GPS accuracy radius of the device fix, meters
+  reporter_accuracy?: number | null;
+  // Where the reporter dragged the map pin
+  pin_lat?: number | null;
+  pin_lng?: number | null;
+  // GPS readings taken over a few seconds; reporter_lat/lng is the best of them
+  samples?: unknown[];
 };
 
 type VerifyResponse =
   | {
       ok: true;
       tag: 'Location Verified' | 'Failed Location Verification';
+      // Distance of the signal that verified, else of the device fix
       distance_meters: number;
+      verified_by: ProximitySignal | null;
+      device_distance_meters: number;
+      accuracy_meters: number | null;
+      pin_distance_meters: number | null;
+      // Pin inside the device's accuracy circle; null without a pin
+      pin_consistent: boolean | null;
+      location_integrity: LocationIntegrity;
       threshold_meters: number;
+      // Why this threshold applies to this business
+      threshold_reason: string;
+      threshold_source: ProximityThreshold['source'];
       business_coords: { lat: number; lng: number };
       business_address: string;
+      // 'stored' when the business already had coordinates for this address
+      coords_source: 'stored' | GeocoderName;
     }
   | { ok: false; error: string };
 
-function haversineMeters(
-  a: { latitude: number; longitude: number },
-  b: { latitude: number; longitude: number }
-) {
-  const R = 6371000;
-  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
-  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
-  const lat1 = (a.latitude * Math.PI) / 180;
-  const lat2 = (b.latitude * Math.PI) / 180;
-
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
-}
-
 function getSupabaseClient(req: Request) {
   const supabaseUrl = Deno.env.get('SUPABASE_URL');
   const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -61,41 +79,6 @@ function getSupabaseClient(req: Request) {
   return createClient(supabaseUrl, supabaseServiceRoleKey);
 }
 
-async function geocodeGoogle(address: string): Promise<{ lat: number; lng: number } | null> {
-  const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
-  if (!apiKey) throw new Error('Missing GOOGLE_MAPS_API_KEY');
-
-  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
-    address
-  )}&key=${encodeURIComponent(apiKey)}`;
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      Accept: 'application/json',
-    },
-  });
-
-  if (!res.ok) return null;
-
-  const json = (await res.json()) as {
-    status?: string;
-    results?: Array<{ geometry?: { location?: { lat?: number; lng?: number } } }>;
-    error_message?: string;
-  };
-
-  if (json.status !== 'OK' || !json.results || json.results.length === 0) {
-    return null;
-  }
-
-  const loc = json.results[0]?.geometry?.location;
-  const lat = loc?.lat;
-  const lng = loc?.lng;
-  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
-
-  return { lat, lng };
-}
-
 serve(async (req) => {
   // CORS
   if (req.method === 'OPTIONS') {
@@ -125,7 +108,8 @@ serve(async (req) => {
     const businessPk = body.business_pk;
     const reporterLat = body.reporter_lat;
     const reporterLng = body.reporter_lng;
-    const threshold = typeof body.threshold_meters === 'number' ? body.threshold_meters : 200;
+    const accuracy = typeof body.reporter_accuracy === 'number' ? body.reporter_accuracy : null;
+    const pin = { latitude: body.pin_lat, longitude: body.pin_lng };
 
     if (typeof businessPk !== 'number') {
       const res: VerifyResponse = { ok: false, error: 'Missing business_pk' };
@@ -138,7 +122,8 @@ serve(async (req) => {
       });
     }
 
-    if (typeof reporterLat !== 'number' || typeof reporterLng !== 'number') {
+    const device = { latitude: reporterLat, longitude: reporterLng };
+    if (!isValidLatLng(device)) {
       const res: VerifyResponse = { ok: false, error: 'Missing reporter coordinates' };
       return new Response(JSON.stringify(res), {
         status: 400,
@@ -153,7 +138,9 @@ serve(async (req) => {
 
     const { data: business, error: businessError } = await supabase
       .from('businesses')
-      .select('business_address')
+      .select(
+        'business_address,business_lat,business_lng,business_category,business_area_density,proximity_threshold_meters'
+      )
       .eq('business_pk', businessPk)
       .single();
 
@@ -180,46 +167,91 @@ serve(async (req) => {
       });
     }
 
-    const coords = await geocodeGoogle(address);
-    if (!coords) {
-      const res: VerifyResponse = { ok: false, error: 'Unable to geocode business address' };
-      return new Response(JSON.stringify(res), {
-        status: 422,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Content-Type': 'application/json',
-        },
-      });
-    }
+    let coords = storedCoordinates(business);
+    let coordsSource: 'stored' | GeocoderName = 'stored';
 
-    // Persist resolved business coordinates for future lookups (best effort)
-    try {
-      await supabase
-        .from('businesses')
-        .update({
-          business_lat: coords.lat,
-          business_lng: coords.lng,
-        })
-        .eq('business_pk', businessPk);
-    } catch {
-      // Ignore persistence failures; proximity result can still be returned.
+    if (!coords) {
+      const geocoder = geocoderFromEnv((name) => Deno.env.get(name));
+      coordsSource = geocoder.name;
+
+      try {
+        coords = await geocoder.geocode(address);
+      } catch (e) {
+        console.error('verify-business-proximity geocode error', geocoder.name, e);
+        const res: VerifyResponse = { ok: false, error: 'Geocoding service unavailable' };
+        return new Response(JSON.stringify(res), {
+          status: 502,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+
+      if (!coords) {
+        const res: VerifyResponse = { ok: false, error: 'Unable to geocode business address' };
+        return new Response(JSON.stringify(res), {
+          status: 422,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+
+      // Persist resolved business coordinates for future lookups (best effort)
+      try {
+        const { error: persistError } = await supabase
+          .from('businesses')
+          .update({
+            business_lat: coords.lat,
+            business_lng: coords.lng,
+            business_geocode_source: geocoder.name,
+            business_geocoded_at: new Date().toISOString(),
+          })
+          .eq('business_pk', businessPk);
+        if (persistError) console.error('verify-business-proximity persist error', persistError);
+      } catch {
+        // Ignore persistence failures; proximity result can still be returned.
+      }
     }
 
-    const distance = haversineMeters(
-      { latitude: reporterLat, longitude: reporterLng },
-      { latitude: coords.lat, longitude: coords.lng }
+    const defaultThreshold = Number(Deno.env.get('PROXIMITY_THRESHOLD_METERS'));
+    const threshold = resolveProximityThreshold(
+      business,
+      Number.isFinite(defaultThreshold) && defaultThreshold > 0 ? defaultThreshold : undefined
     );
 
-    const tag: VerifyResponse & { ok: true }['tag'] =
-      distance <= threshold ? 'Location Verified' : 'Failed Location Verification';
+    const proximity = evaluateProximity({
+      business: { latitude: coords.lat, longitude: coords.lng },
+      device: { ...device, accuracyMeters: accuracy },
+      // An invalid or missing pin is ignored rather than rejected
+      pin: isValidLatLng(pin) ? pin : null,
+      thresholdMeters: threshold.meters,
+    });
+
+    const integrity = assessLocationIntegrity(sanitizeSamples(body.samples), ipLocationFromHeaders(req.headers));
+    const verifiedBy = integrity.verdict === 'suspicious' ? null : proximity.verifiedBy;
+
+    const tag: VerifyResponse & { ok: true }['tag'] = verifiedBy ? 'Location Verified' : 'Failed Location Verification';
 
     const res: VerifyResponse = {
       ok: true,
       tag,
-      distance_meters: distance,
-      threshold_meters: threshold,
+      distance_meters:
+        verifiedBy === 'pin' ? proximity.pinDistanceMeters! : proximity.deviceDistanceMeters,
+      verified_by: verifiedBy,
+      device_distance_meters: proximity.deviceDistanceMeters,
+      accuracy_meters: accuracy,
+      pin_distance_meters: proximity.pinDistanceMeters,
+      pin_consistent: proximity.pinConsistent,
+      location_integrity: integrity,
+      threshold_meters: threshold.meters,
+      threshold_reason: threshold.reason,
+      threshold_source: threshold.source,
       business_coords: coords,
       business_address: address,
+      coords_source: coordsSource,
     };
 
     return new Response(JSON.stringify(res), {
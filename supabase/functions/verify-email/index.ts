@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import { hashToken } from "../_shared/token.ts";
+import { getEmailClaimTtlMinutes, issueEmailClaim } from "../_shared/emailClaim.ts";
 
 type RequestBody = {
   token: string;
@@ -44,6 +45,9 @@ Deno.serve(async (req) => {
   const serviceRoleKey = Deno.env.get("SERVICE_ROLE_KEY");
   if (!supabaseUrl || !serviceRoleKey) return json(500, { error: "Missing Supabase env" });
 
+  const claimSecret = Deno.env.get("EMAIL_CLAIM_SIGNING_SECRET");
+  if (!claimSecret) return json(500, { error: "Missing EMAIL_CLAIM_SIGNING_SECRET" });
+
   const supabase = createClient(supabaseUrl, serviceRoleKey);
 
   const tokenHash = await hashToken(token);
@@ -59,8 +63,21 @@ Deno.serve(async (req) => {
   if (!tokenRow) return json(400, { error: "Invalid token" });
 
   // Make the endpoint idempotent: if token already used, treat as success
+  // (a fresh claim is only issued while the original claim would still be valid)
   if (tokenRow.used_at) {
-    return json(200, { success: true, email: tokenRow.email, complaintId: tokenRow.complaint_id ?? null });
+    const usedAt = new Date(tokenRow.used_at);
+    if (Date.now() - usedAt.getTime() > getEmailClaimTtlMinutes() * 60_000) {
+      return json(400, { error: "This verification link has already been used. Please request a new one." });
+    }
+
+    const { claim, expiresAt: claimExpiresAt } = await issueEmailClaim(tokenRow.email, claimSecret, usedAt);
+    return json(200, {
+      success: true,
+      email: tokenRow.email,
+      complaintId: tokenRow.complaint_id ?? null,
+      claim,
+      claimExpiresAt,
+    });
   }
 
   const expiresAt = new Date(tokenRow.expires_at);
@@ -69,9 +86,10 @@ Deno.serve(async (req) => {
   }
 
   // Mark token used
+  const usedAt = new Date();
   const { error: useErr } = await supabase
     .from("email_verification_tokens")
-    .update({ used_at: new Date().toISOString() })
+    .update({ used_at: usedAt.toISOString() })
     .eq("id", tokenRow.id)
     .is("used_at", null);
 
@@ -87,5 +105,14 @@ Deno.serve(async (req) => {
     if (updErr) return json(500, { error: "Failed to update complaint" });
   }
 
-  return json(200, { success: true, email: tokenRow.email, complaintId: tokenRow.complaint_id ?? null });
+  // Short-lived proof of verification; submit-complaint requires it instead of trusting the browser.
+  const { claim, expiresAt: claimExpiresAt } = await issueEmailClaim(tokenRow.email, claimSecret, usedAt);
+
+  return json(200, {
+    success: true,
+    email: tokenRow.email,
+    complaintId: tokenRow.complaint_id ?? null,
+    claim,
+    claimExpiresAt,
+  });
 });
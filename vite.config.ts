@@ -1,7 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // Client tests touch window, localStorage and the DOM; the edge function tests are pure
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })